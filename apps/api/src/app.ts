@@ -8,6 +8,9 @@ import verificationsRouter from './routes/verifications.js';
 import moderationRouter from './routes/moderation.js';
 import statsRouter from './routes/stats.js';
 import emailSubscriptionsRouter from './routes/email-subscriptions.js';
+import webhooksRouter from './routes/webhooks.js';
+import ingestedPostsRouter from './routes/ingested-posts.js';
+import incidentsRouter from './routes/incidents.js';
 import { logger } from './utils/logger.js';
 import { requestLogger } from './middleware/requestLogger.js';
 import { testConnection } from '@ice-activity-map/database';
@@ -27,7 +30,7 @@ export function createApp() {
   app.use(cors({
     origin: process.env.CORS_ORIGIN || '*',
     methods: ['GET', 'POST', 'PATCH', 'DELETE'],
-    allowedHeaders: ['Content-Type', 'X-Admin-Key']
+    allowedHeaders: ['Content-Type', 'X-Admin-Key', 'Authorization']
   }));
 
   // Body parser
@@ -64,6 +67,9 @@ export function createApp() {
   app.use('/api/reports', reportsRouter);
   app.use('/api/reports', verificationsRouter);
 
+  // Incidents - reports of the same event grouped across sources
+  app.use('/api/incidents', incidentsRouter);
+
   // Subscriptions - lower limit to prevent abuse
   app.use('/api/subscriptions', subscriptionLimiter, subscriptionsRouter);
   app.use('/api/email-subscriptions', subscriptionLimiter, emailSubscriptionsRouter);
@@ -71,6 +77,12 @@ export function createApp() {
   // Moderation - has mixed public/admin routes with per-route limiters
   app.use('/api/moderation', moderationRouter);
 
+  // Partner webhooks - admin management plus partner delivery log, per-route limiters
+  app.use('/api/webhooks', webhooksRouter);
+
+  // Ingestion archive - admin-only audit of what the pipeline decided and why
+  app.use('/api/ingested-posts', ingestedPostsRouter);
+
   // Stats - moderate limit since it's a heavier query
   app.use('/api/stats', statsLimiter, statsRouter);
 
@@ -4,6 +4,14 @@ import { createApp } from './app.js';
 import { closePool } from '@ice-activity-map/database';
 import { logger } from './utils/logger.js';
 import { initializeWebSocket, getConnectionStats } from './services/websocket.js';
+import { startAlertDispatcher } from './services/alerts.js';
+import { startDigestScheduler } from './services/email-digests.js';
+import { startWebhookWorker } from './services/webhooks.js';
+import { startReportFeed } from './services/report-feed.js';
+import { checkMailConfig } from './services/mail.js';
+
+// Refuse to start with mail that would be logged instead of sent, or carry broken links
+checkMailConfig();
 
 const PORT = process.env.PORT || 3001;
 const app = createApp();
@@ -14,6 +22,21 @@ const httpServer = createServer(app);
 // Initialize WebSocket server
 const io = initializeWebSocket(httpServer);
 
+// Broadcast new and updated reports from every writer (API replicas and ingestion)
+const stopReportFeed = startReportFeed();
+
+// Deliver push, email and webhook alerts for reports created by any writer (API or ingestion)
+const stopAlertDispatcher = startAlertDispatcher();
+if (!stopAlertDispatcher) {
+  logger.warn('No alert channel configured (VAPID keys, MAIL_TRANSPORT, SMTP_HOST or webhooks), alerts disabled');
+}
+
+// Send daily/weekly email digests at each subscriber's chosen hour
+const stopDigestScheduler = startDigestScheduler();
+
+// Send queued partner webhook deliveries and retry failed ones
+const stopWebhookWorker = startWebhookWorker();
+
 // Add WebSocket stats to health endpoint
 app.get('/ws/stats', (_req, res) => {
   res.json(getConnectionStats());
@@ -44,6 +67,11 @@ const server = httpServer.listen(PORT, () => {
 ║    GET  /api/moderation/queue                    ║
 ║    POST /api/moderation/reports/:id/status       ║
 ║    GET  /api/moderation/log                      ║
+║    POST /api/webhooks                            ║
+║                                                  ║
+║  Partner Endpoints (Bearer webhook secret):      ║
+║    GET  /api/webhooks/:id/deliveries             ║
+║    POST /api/webhooks/:id/deliveries/:id/replay  ║
 ║                                                  ║
 ║  WebSocket: ws://localhost:${String(PORT).padEnd(24)}║
 ║    GET  /ws/stats                                ║
@@ -58,6 +86,10 @@ const server = httpServer.listen(PORT, () => {
 // Graceful shutdown
 const shutdown = async (signal: string) => {
   logger.info(`Received ${signal}, starting graceful shutdown`);
+  stopAlertDispatcher?.();
+  stopDigestScheduler?.();
+  stopWebhookWorker?.();
+  await stopReportFeed();
 
   server.close(async () => {
     logger.info('HTTP server closed');
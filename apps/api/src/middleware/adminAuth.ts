@@ -0,0 +1,21 @@
+import { Request, Response, NextFunction } from 'express';
+import { timingSafeEqual } from './validation.js';
+
+/**
+ * Whether the request carries the admin key (X-Admin-Key header)
+ */
+export function hasAdminKey(req: Request): boolean {
+  const adminKey = req.headers['x-admin-key'] as string | undefined;
+  const expectedKey = process.env.ADMIN_API_KEY;
+
+  return !!adminKey && !!expectedKey && timingSafeEqual(adminKey, expectedKey);
+}
+
+// Middleware to check admin authentication with timing-safe comparison
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!hasAdminKey(req)) {
+    return res.status(403).json({ error: 'Forbidden: Admin access required' });
+  }
+
+  next();
+}
@@ -12,14 +12,25 @@ export const LIMITS = {
   authorDisplayName: { min: 0, max: 255 },
   email: { min: 5, max: 254 },
   city: { min: 1, max: 100 },
-  state: { min: 1, max: 100 }
+  state: { min: 1, max: 100 },
+  name: { min: 1, max: 100 },
+  sourceId: { min: 1, max: 255 },
+  search: { min: 1, max: 200 }
 };
 
 // Coordinate bounds
 export const COORD_LIMITS = {
   latitude: { min: -90, max: 90 },
   longitude: { min: -180, max: 180 },
-  radiusKm: { min: 1, max: 500 }
+  radiusKm: { min: 1, max: 500 },
+  locationRadiusM: { min: 1, max: 500000 }
+};
+
+// Alert area (geofence) limits
+export const AREA_LIMITS = {
+  maxAreas: 10,
+  maxRings: 5,
+  maxVertices: 500
 };
 
 /**
@@ -56,7 +67,7 @@ export function validateLength(
  */
 export function validateCoordinate(
   value: unknown,
-  field: 'latitude' | 'longitude' | 'radiusKm'
+  field: 'latitude' | 'longitude' | 'radiusKm' | 'locationRadiusM'
 ): { valid: boolean; error?: string; sanitized?: number } {
   if (value === undefined || value === null) {
     return { valid: true, sanitized: undefined };
@@ -175,6 +186,188 @@ export function validateActivityTypes(value: unknown): { valid: boolean; error?:
   return { valid: true, sanitized };
 }
 
+/**
+ * Validate alert areas: an array of GeoJSON Polygons ([longitude, latitude]
+ * positions). Open rings are closed automatically.
+ */
+export function validateAreas(value: unknown): {
+  valid: boolean;
+  error?: string;
+  sanitized?: { type: 'Polygon'; coordinates: number[][][] }[];
+} {
+  if (value === undefined || value === null) {
+    return { valid: true, sanitized: undefined };
+  }
+
+  if (!Array.isArray(value)) {
+    return { valid: false, error: 'areas must be an array of GeoJSON Polygons' };
+  }
+
+  if (value.length > AREA_LIMITS.maxAreas) {
+    return { valid: false, error: `areas must have at most ${AREA_LIMITS.maxAreas} items` };
+  }
+
+  const sanitized: { type: 'Polygon'; coordinates: number[][][] }[] = [];
+
+  for (const [i, area] of value.entries()) {
+    if (!area || area.type !== 'Polygon' || !Array.isArray(area.coordinates)) {
+      return { valid: false, error: `areas[${i}] must be a GeoJSON Polygon` };
+    }
+
+    if (area.coordinates.length === 0 || area.coordinates.length > AREA_LIMITS.maxRings) {
+      return { valid: false, error: `areas[${i}] must have 1-${AREA_LIMITS.maxRings} rings` };
+    }
+
+    const rings: number[][][] = [];
+    for (const ring of area.coordinates) {
+      if (!Array.isArray(ring) || ring.length > AREA_LIMITS.maxVertices) {
+        return { valid: false, error: `areas[${i}] rings must have at most ${AREA_LIMITS.maxVertices} positions` };
+      }
+
+      const positions: number[][] = [];
+      for (const position of ring) {
+        if (!Array.isArray(position) || position.length < 2) {
+          return { valid: false, error: `areas[${i}] positions must be [longitude, latitude]` };
+        }
+        const lonResult = validateCoordinate(position[0], 'longitude');
+        const latResult = validateCoordinate(position[1], 'latitude');
+        if (!lonResult.valid || !latResult.valid || lonResult.sanitized === undefined || latResult.sanitized === undefined) {
+          return { valid: false, error: `areas[${i}] has an invalid position` };
+        }
+        positions.push([lonResult.sanitized, latResult.sanitized]);
+      }
+
+      const [first, last] = [positions[0], positions[positions.length - 1]];
+      if (positions.length > 0 && (first[0] !== last[0] || first[1] !== last[1])) {
+        positions.push([...first]);
+      }
+
+      // A closed ring needs at least three distinct corners
+      if (positions.length < 4) {
+        return { valid: false, error: `areas[${i}] rings must have at least 3 corners` };
+      }
+      rings.push(positions);
+    }
+
+    sanitized.push({ type: 'Polygon', coordinates: rings });
+  }
+
+  return { valid: true, sanitized };
+}
+
+/**
+ * Validate email delivery frequency
+ */
+export function validateEmailFrequency(value: unknown): { valid: boolean; error?: string; sanitized?: 'instant' | 'daily' | 'weekly' } {
+  const validFrequencies = ['instant', 'daily', 'weekly'] as const;
+
+  if (value === undefined || value === null) {
+    return { valid: true, sanitized: undefined };
+  }
+
+  if (typeof value !== 'string' || !validFrequencies.includes(value as typeof validFrequencies[number])) {
+    return { valid: false, error: `frequency must be one of: ${validFrequencies.join(', ')}` };
+  }
+
+  return { valid: true, sanitized: value as typeof validFrequencies[number] };
+}
+
+/**
+ * Validate hour of day (0-23)
+ */
+export function validateHour(value: unknown, field: string): { valid: boolean; error?: string; sanitized?: number } {
+  if (value === undefined || value === null) {
+    return { valid: true, sanitized: undefined };
+  }
+
+  const num = typeof value === 'string' ? Number(value) : value;
+
+  if (typeof num !== 'number' || !Number.isInteger(num) || num < 0 || num > 23) {
+    return { valid: false, error: `${field} must be an integer between 0 and 23` };
+  }
+
+  return { valid: true, sanitized: num };
+}
+
+/**
+ * Validate IANA time zone name (e.g. America/Los_Angeles)
+ */
+export function validateTimezone(value: unknown): { valid: boolean; error?: string; sanitized?: string } {
+  if (value === undefined || value === null) {
+    return { valid: true, sanitized: undefined };
+  }
+
+  if (typeof value !== 'string' || value.length > 64) {
+    return { valid: false, error: 'timezone must be an IANA time zone name' };
+  }
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+  } catch {
+    return { valid: false, error: `Unknown timezone: ${value}` };
+  }
+
+  return { valid: true, sanitized: value };
+}
+
+/**
+ * Validate a webhook endpoint URL. Production only delivers over HTTPS.
+ */
+export function validateWebhookUrl(value: unknown): { valid: boolean; error?: string; sanitized?: string } {
+  if (typeof value !== 'string' || value.length === 0) {
+    return { valid: false, error: 'url is required' };
+  }
+
+  if (value.length > 2000) {
+    return { valid: false, error: 'url must be at most 2000 characters' };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return { valid: false, error: 'url must be a valid URL' };
+  }
+
+  const allowedProtocols = process.env.NODE_ENV === 'production' ? ['https:'] : ['https:', 'http:'];
+  if (!allowedProtocols.includes(url.protocol)) {
+    return { valid: false, error: `url must use ${allowedProtocols.map((p) => p.slice(0, -1)).join(' or ')}` };
+  }
+
+  if (url.username || url.password) {
+    return { valid: false, error: 'url must not contain credentials' };
+  }
+
+  return { valid: true, sanitized: url.toString() };
+}
+
+/**
+ * Validate webhook event types array
+ */
+export function validateWebhookEventTypes(value: unknown): {
+  valid: boolean;
+  error?: string;
+  sanitized?: ('new_report' | 'report_updated' | 'report_verified' | 'report_flagged')[];
+} {
+  const validTypes = ['new_report', 'report_updated', 'report_verified', 'report_flagged'] as const;
+
+  if (!value) {
+    return { valid: true, sanitized: [...validTypes] }; // Default to all
+  }
+
+  if (!Array.isArray(value) || value.length === 0) {
+    return { valid: false, error: 'eventTypes must be a non-empty array' };
+  }
+
+  for (const type of value) {
+    if (!validTypes.includes(type)) {
+      return { valid: false, error: `Invalid event type: ${type}. Must be one of: ${validTypes.join(', ')}` };
+    }
+  }
+
+  return { valid: true, sanitized: [...new Set(value as typeof validTypes[number][])] };
+}
+
 /**
  * Validate pagination parameters
  */
@@ -9,15 +9,20 @@ import {
   validateEmail,
   validateCoordinate,
   validateActivityTypes,
+  validateAreas,
+  validateEmailFrequency,
+  validateHour,
+  validateTimezone,
   validationError
 } from '../middleware/validation.js';
+import { sendVerificationEmail } from '../services/email-alerts.js';
 
 const router = Router();
 
 // POST /api/email-subscriptions - Create a new email subscription
 router.post('/', async (req, res) => {
   try {
-    const { email, latitude, longitude, radiusKm, activityTypes } = req.body;
+    const { email, latitude, longitude, radiusKm, areas, activityTypes, frequency, sendHour, timezone } = req.body;
 
     // Validate email
     const emailResult = validateEmail(email);
@@ -33,21 +38,42 @@ router.post('/', async (req, res) => {
     const radiusResult = validateCoordinate(radiusKm, 'radiusKm');
     if (!radiusResult.valid) return validationError(res, radiusResult.error!);
 
+    const areasResult = validateAreas(areas);
+    if (!areasResult.valid) return validationError(res, areasResult.error!);
+
     // Validate activity types
     const typesResult = validateActivityTypes(activityTypes);
     if (!typesResult.valid) return validationError(res, typesResult.error!);
 
+    // Validate digest preferences
+    const frequencyResult = validateEmailFrequency(frequency);
+    if (!frequencyResult.valid) return validationError(res, frequencyResult.error!);
+
+    const hourResult = validateHour(sendHour, 'sendHour');
+    if (!hourResult.valid) return validationError(res, hourResult.error!);
+
+    const timezoneResult = validateTimezone(timezone);
+    if (!timezoneResult.valid) return validationError(res, timezoneResult.error!);
+
     const subscription = await createEmailSubscription({
       email: emailResult.sanitized!,
       latitude: latResult.sanitized,
       longitude: lonResult.sanitized,
       radiusKm: radiusResult.sanitized,
-      activityTypes: typesResult.sanitized
+      areas: areasResult.sanitized,
+      activityTypes: typesResult.sanitized,
+      frequency: frequencyResult.sanitized,
+      sendHour: hourResult.sanitized,
+      timezone: timezoneResult.sanitized
     });
 
-    // In a real app, you would send a verification email here
-    // For now, we'll just return success and include the verification token for testing
-    console.log(`[Email] New subscription for ${email}, verification token: ${subscription.verificationToken}`);
+    try {
+      await sendVerificationEmail(subscription);
+    } catch (error) {
+      // The subscription is stored; signing up again re-sends the link
+      console.error('Error sending verification email:', error);
+      return res.status(502).json({ error: 'Subscription saved but the verification email could not be sent. Please try again.' });
+    }
 
     res.status(201).json({
       success: true,
@@ -176,7 +202,11 @@ router.get('/status', async (req, res) => {
       subscribed: true,
       isVerified: subscription.isVerified,
       radiusKm: subscription.radiusKm,
-      activityTypes: subscription.activityTypes
+      areas: subscription.areas,
+      activityTypes: subscription.activityTypes,
+      frequency: subscription.frequency,
+      sendHour: subscription.sendHour,
+      timezone: subscription.timezone
     });
   } catch (error) {
     console.error('Error checking subscription status:', error);
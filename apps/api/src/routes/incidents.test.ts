@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import request from 'supertest';
+import type { Incident } from '@ice-activity-map/database';
+import { createApp } from '../app.js';
+
+const INCIDENT: Incident = {
+  id: '5d0c6f1e-7a43-4b8e-9a51-3f0d2b7c9e14',
+  activityType: 'raid',
+  city: 'Los Angeles',
+  state: 'California',
+  latitude: 34.0522,
+  longitude: -118.2437,
+  firstReportedAt: new Date('2026-10-19T14:00:00Z'),
+  lastReportedAt: new Date('2026-10-19T16:30:00Z'),
+  reportCount: 3,
+  sourceCount: 2,
+  sourceTypes: ['bluesky', 'mastodon'],
+  createdAt: new Date('2026-10-19T14:00:05Z'),
+  updatedAt: new Date('2026-10-19T16:30:05Z')
+};
+
+vi.mock('@ice-activity-map/database', () => ({
+  testConnection: vi.fn().mockResolvedValue(true),
+  getIncidents: vi.fn().mockResolvedValue({ incidents: [], total: 0 }),
+  getIncidentById: vi.fn().mockResolvedValue(null),
+  getReportsByIncident: vi.fn().mockResolvedValue([]),
+  closePool: vi.fn()
+}));
+
+import { getIncidents, getIncidentById, getReportsByIncident } from '@ice-activity-map/database';
+
+describe('Incidents API', () => {
+  let app: ReturnType<typeof createApp>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.NODE_ENV = 'test';
+    app = createApp();
+  });
+
+  it('should list incidents with their filters', async () => {
+    vi.mocked(getIncidents).mockResolvedValueOnce({ incidents: [INCIDENT], total: 1 });
+
+    const response = await request(app)
+      .get('/api/incidents')
+      .query({ activityTypes: 'raid,arrest', timeRange: '7d', minSources: '2', bounds: '33,-119,35,-117' })
+      .expect(200);
+
+    expect(getIncidents).toHaveBeenCalledWith({
+      activityTypes: ['raid', 'arrest'],
+      timeRange: '7d',
+      minSources: 2,
+      bounds: { south: 33, west: -119, north: 35, east: -117 },
+      limit: 100,
+      offset: 0
+    });
+    expect(response.body.incidents[0]).toMatchObject({ id: INCIDENT.id, reportCount: 3, sourceTypes: ['bluesky', 'mastodon'] });
+    expect(response.body.pagination).toEqual({ total: 1, limit: 100, offset: 0, hasMore: false });
+  });
+
+  it('should reject invalid filters', async () => {
+    await request(app).get('/api/incidents').query({ activityTypes: 'party' }).expect(400);
+    await request(app).get('/api/incidents').query({ minSources: '0' }).expect(400);
+    await request(app).get('/api/incidents').query({ timeRange: '1y' }).expect(400);
+
+    expect(getIncidents).not.toHaveBeenCalled();
+  });
+
+  it('should return an incident with its member reports', async () => {
+    vi.mocked(getIncidentById).mockResolvedValueOnce(INCIDENT);
+    vi.mocked(getReportsByIncident).mockResolvedValueOnce([{ id: 'report-1', sourceType: 'bluesky' }, { id: 'report-2', sourceType: 'mastodon' }] as never);
+
+    const response = await request(app).get(`/api/incidents/${INCIDENT.id}`).expect(200);
+
+    expect(getReportsByIncident).toHaveBeenCalledWith(INCIDENT.id);
+    expect(response.body).toMatchObject({ id: INCIDENT.id, reportCount: 3 });
+    expect(response.body.reports.map((report: { id: string }) => report.id)).toEqual(['report-1', 'report-2']);
+  });
+
+  it('should 404 unknown and malformed ids', async () => {
+    await request(app).get(`/api/incidents/${INCIDENT.id}`).expect(404);
+    await request(app).get('/api/incidents/not-a-uuid').expect(404);
+
+    expect(getIncidentById).toHaveBeenCalledTimes(1);
+  });
+});
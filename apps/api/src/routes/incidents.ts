@@ -0,0 +1,185 @@
+import { Router, Request, Response } from 'express';
+import {
+  getIncidents,
+  getIncidentById,
+  getReportsByIncident,
+  type ActivityType,
+  type IncidentFilters
+} from '@ice-activity-map/database';
+import { readLimiter } from '../middleware/rateLimiter.js';
+import { validateBounds, validatePagination, validationError } from '../middleware/validation.js';
+
+const router = Router();
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const ACTIVITY_TYPES: ActivityType[] = ['raid', 'checkpoint', 'arrest', 'surveillance', 'other'];
+const TIME_RANGES = ['24h', '7d', '30d', 'all'];
+
+/**
+ * @swagger
+ * /api/incidents:
+ *   get:
+ *     summary: Get incidents
+ *     description: Events grouped from reports across posts and sources, most recently reported first. Each incident carries a location, a report count and the sources that reported it.
+ *     tags: [Incidents]
+ *     parameters:
+ *       - in: query
+ *         name: activityTypes
+ *         schema:
+ *           type: string
+ *         description: Comma-separated list of activity types (raid,checkpoint,arrest,surveillance,other)
+ *       - in: query
+ *         name: timeRange
+ *         schema:
+ *           type: string
+ *           enum: [24h, 7d, 30d, all]
+ *         description: Only incidents with a report in this range
+ *       - in: query
+ *         name: bounds
+ *         schema:
+ *           type: string
+ *         description: Bounding box as "south,west,north,east"
+ *       - in: query
+ *         name: minSources
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: Only incidents reported by at least this many source types
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 100
+ *           maximum: 500
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: List of incidents with pagination info
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 incidents:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Incident'
+ *                 pagination:
+ *                   $ref: '#/components/schemas/Pagination'
+ *       400:
+ *         description: Invalid filter
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/', readLimiter, async (req: Request, res: Response) => {
+  try {
+    const paginationResult = validatePagination(req.query.limit, req.query.offset);
+    if (!paginationResult.valid) return validationError(res, paginationResult.error!);
+
+    const filters: IncidentFilters = { ...paginationResult.sanitized! };
+    const { activityTypes, timeRange, bounds, minSources } = req.query;
+
+    if (activityTypes !== undefined) {
+      const types = String(activityTypes).split(',');
+      if (!types.every((type) => ACTIVITY_TYPES.includes(type as ActivityType))) {
+        return validationError(res, `Invalid activityTypes. Must be any of: ${ACTIVITY_TYPES.join(', ')}`);
+      }
+      filters.activityTypes = types as ActivityType[];
+    }
+
+    if (timeRange !== undefined) {
+      if (!TIME_RANGES.includes(String(timeRange))) {
+        return validationError(res, `Invalid timeRange. Must be one of: ${TIME_RANGES.join(', ')}`);
+      }
+      filters.timeRange = timeRange as IncidentFilters['timeRange'];
+    }
+
+    if (bounds !== undefined) {
+      const [south, west, north, east] = String(bounds).split(',').map(Number);
+      const boundsResult = validateBounds({ south, west, north, east });
+      if (!boundsResult.valid) return validationError(res, boundsResult.error!);
+      filters.bounds = { south, west, north, east };
+    }
+
+    if (minSources !== undefined) {
+      const parsed = Number(minSources);
+      if (!Number.isInteger(parsed) || parsed < 1) {
+        return validationError(res, 'minSources must be a positive integer');
+      }
+      filters.minSources = parsed;
+    }
+
+    const { incidents, total } = await getIncidents(filters);
+
+    res.json({
+      incidents,
+      pagination: {
+        total,
+        limit: filters.limit,
+        offset: filters.offset,
+        hasMore: filters.offset! + incidents.length < total
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching incidents:', error);
+    res.status(500).json({ error: 'Failed to fetch incidents' });
+  }
+});
+
+/**
+ * @swagger
+ * /api/incidents/{id}:
+ *   get:
+ *     summary: Get an incident with its reports
+ *     description: One incident and every report grouped into it, oldest first
+ *     tags: [Incidents]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: The incident and its reports
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Incident'
+ *                 - type: object
+ *                   properties:
+ *                     reports:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Report'
+ *       404:
+ *         description: Incident not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id', readLimiter, async (req: Request, res: Response) => {
+  try {
+    const incident = UUID_PATTERN.test(req.params.id) ? await getIncidentById(req.params.id) : null;
+    if (!incident) {
+      return res.status(404).json({ error: 'Incident not found' });
+    }
+
+    const reports = await getReportsByIncident(incident.id);
+    res.json({ ...incident, reports });
+  } catch (error) {
+    console.error('Error fetching incident:', error);
+    res.status(500).json({ error: 'Failed to fetch incident' });
+  }
+});
+
+export default router;
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import request from 'supertest';
+import type { IngestedPost } from '@ice-activity-map/database';
+import { createApp } from '../app.js';
+
+const ARCHIVED_POST: IngestedPost = {
+  id: '8a6e0804-2bd0-4672-b79e-d97358b45d3a',
+  sourceType: 'bluesky',
+  sourceId: 'at://did:plc:abc/app.bsky.feed.post/3kxyz',
+  url: 'https://bsky.app/profile/did:plc:abc/post/3kxyz',
+  text: 'ICE is a disgrace',
+  authorHandle: 'did:plc:abc',
+  authorDisplayName: null,
+  category: 'social',
+  postedAt: new Date('2026-10-18T12:00:00Z'),
+  relevanceScore: -2,
+  relevanceConfidence: 'high',
+  relevanceReason: 'Commentary/opinion, not a sighting',
+  needsReview: false,
+  extractedLocation: null,
+  geocodeResult: null,
+  decision: 'filtered',
+  reportId: null,
+  createdAt: new Date('2026-10-18T12:00:05Z'),
+  updatedAt: new Date('2026-10-18T12:00:05Z')
+};
+
+vi.mock('@ice-activity-map/database', () => ({
+  testConnection: vi.fn().mockResolvedValue(true),
+  getIngestedPosts: vi.fn().mockResolvedValue({ posts: [], total: 0 }),
+  getIngestedPostById: vi.fn().mockResolvedValue(null),
+  closePool: vi.fn()
+}));
+
+import { getIngestedPosts, getIngestedPostById } from '@ice-activity-map/database';
+
+describe('Ingested posts API', () => {
+  let app: ReturnType<typeof createApp>;
+  const ADMIN_KEY = 'test-admin-key';
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.NODE_ENV = 'test';
+    process.env.ADMIN_API_KEY = ADMIN_KEY;
+    app = createApp();
+  });
+
+  it('should require admin key', async () => {
+    await request(app).get('/api/ingested-posts').expect(403);
+    await request(app).get(`/api/ingested-posts/${ARCHIVED_POST.id}`).expect(403);
+
+    expect(getIngestedPosts).not.toHaveBeenCalled();
+  });
+
+  it('should look up why a post was not turned into a report', async () => {
+    vi.mocked(getIngestedPosts).mockResolvedValueOnce({ posts: [ARCHIVED_POST], total: 1 });
+
+    const response = await request(app)
+      .get('/api/ingested-posts')
+      .query({ sourceType: 'bluesky', sourceId: ARCHIVED_POST.sourceId })
+      .set('X-Admin-Key', ADMIN_KEY)
+      .expect(200);
+
+    expect(getIngestedPosts).toHaveBeenCalledWith(expect.objectContaining({
+      sourceType: 'bluesky',
+      sourceId: ARCHIVED_POST.sourceId,
+      limit: 100,
+      offset: 0
+    }));
+    expect(response.body.posts[0]).toMatchObject({ decision: 'filtered', relevanceReason: ARCHIVED_POST.relevanceReason });
+    expect(response.body.pagination).toEqual({ total: 1, limit: 100, offset: 0, hasMore: false });
+  });
+
+  it('should pass decision, report, text and date filters through', async () => {
+    await request(app)
+      .get('/api/ingested-posts')
+      .query({
+        decision: 'no_location',
+        reportId: ARCHIVED_POST.id,
+        q: 'home depot',
+        since: '2026-10-01T00:00:00Z',
+        limit: '20'
+      })
+      .set('X-Admin-Key', ADMIN_KEY)
+      .expect(200);
+
+    expect(getIngestedPosts).toHaveBeenCalledWith({
+      decision: 'no_location',
+      reportId: ARCHIVED_POST.id,
+      search: 'home depot',
+      since: new Date('2026-10-01T00:00:00Z'),
+      limit: 20,
+      offset: 0
+    });
+  });
+
+  it('should reject invalid filters', async () => {
+    for (const query of [{ decision: 'maybe' }, { reportId: 'nope' }, { since: 'yesterday' }, { sourceType: 'Blue Sky' }]) {
+      await request(app).get('/api/ingested-posts').query(query).set('X-Admin-Key', ADMIN_KEY).expect(400);
+    }
+    expect(getIngestedPosts).not.toHaveBeenCalled();
+  });
+
+  it('should return one archived post or 404', async () => {
+    vi.mocked(getIngestedPostById).mockResolvedValueOnce(ARCHIVED_POST);
+
+    const response = await request(app)
+      .get(`/api/ingested-posts/${ARCHIVED_POST.id}`)
+      .set('X-Admin-Key', ADMIN_KEY)
+      .expect(200);
+    expect(response.body.decision).toBe('filtered');
+
+    await request(app).get('/api/ingested-posts/not-a-uuid').set('X-Admin-Key', ADMIN_KEY).expect(404);
+  });
+});
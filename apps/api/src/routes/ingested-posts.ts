@@ -0,0 +1,109 @@
+import { Router, Request, Response } from 'express';
+import {
+  getIngestedPosts,
+  getIngestedPostById,
+  type IngestDecision,
+  type IngestedPostFilters
+} from '@ice-activity-map/database';
+import { adminLimiter } from '../middleware/rateLimiter.js';
+import { requireAdmin } from '../middleware/adminAuth.js';
+import { validateLength, validatePagination, validationError } from '../middleware/validation.js';
+
+const router = Router();
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const SOURCE_TYPE_PATTERN = /^[a-z][a-z0-9_]*$/;
+const DECISIONS: IngestDecision[] = ['blocked', 'filtered', 'saved', 'no_location', 'existing_report', 'save_failed'];
+
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== 'string') return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// ============ Admin Routes ============
+// The archive holds every post the pipeline looked at, so it is admin-only
+
+// GET /api/ingested-posts - Search the archive
+// Filters: sourceType, sourceId, decision, reportId, q (text), since, until
+router.get('/', adminLimiter, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const paginationResult = validatePagination(req.query.limit, req.query.offset, 200);
+    if (!paginationResult.valid) return validationError(res, paginationResult.error!);
+
+    const filters: IngestedPostFilters = { ...paginationResult.sanitized! };
+    const { sourceType, sourceId, decision, reportId, q, since, until } = req.query;
+
+    if (sourceType !== undefined) {
+      if (typeof sourceType !== 'string' || !SOURCE_TYPE_PATTERN.test(sourceType)) {
+        return validationError(res, 'Invalid sourceType');
+      }
+      filters.sourceType = sourceType;
+    }
+
+    if (sourceId !== undefined) {
+      const sourceIdResult = validateLength(sourceId, 'sourceId');
+      if (!sourceIdResult.valid) return validationError(res, sourceIdResult.error!);
+      filters.sourceId = sourceIdResult.sanitized;
+    }
+
+    if (decision !== undefined) {
+      if (!DECISIONS.includes(decision as IngestDecision)) {
+        return validationError(res, `Invalid decision. Must be one of: ${DECISIONS.join(', ')}`);
+      }
+      filters.decision = decision as IngestDecision;
+    }
+
+    if (reportId !== undefined) {
+      if (typeof reportId !== 'string' || !UUID_PATTERN.test(reportId)) {
+        return validationError(res, 'Invalid reportId');
+      }
+      filters.reportId = reportId;
+    }
+
+    if (q !== undefined) {
+      const searchResult = validateLength(q, 'search');
+      if (!searchResult.valid) return validationError(res, searchResult.error!);
+      filters.search = searchResult.sanitized;
+    }
+
+    for (const [field, value] of [['since', since], ['until', until]] as const) {
+      if (value === undefined) continue;
+      const date = parseDate(value);
+      if (!date) return validationError(res, `${field} must be an ISO date`);
+      filters[field] = date;
+    }
+
+    const { posts, total } = await getIngestedPosts(filters);
+
+    res.json({
+      posts,
+      pagination: {
+        total,
+        limit: filters.limit,
+        offset: filters.offset,
+        hasMore: filters.offset! + posts.length < total
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching ingested posts:', error);
+    res.status(500).json({ error: 'Failed to fetch ingested posts' });
+  }
+});
+
+// GET /api/ingested-posts/:id - One archived post with its full decision trail
+router.get('/:id', adminLimiter, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const post = UUID_PATTERN.test(req.params.id) ? await getIngestedPostById(req.params.id) : null;
+    if (!post) {
+      return res.status(404).json({ error: 'Ingested post not found' });
+    }
+
+    res.json(post);
+  } catch (error) {
+    console.error('Error fetching ingested post:', error);
+    res.status(500).json({ error: 'Failed to fetch ingested post' });
+  }
+});
+
+export default router;
@@ -32,9 +32,40 @@ vi.mock('@ice-activity-map/database', () => ({
       createdAt: new Date()
     }
   ]),
+  labelReport: vi.fn(),
+  getReportLabels: vi.fn().mockResolvedValue({ labels: [], total: 0 }),
+  getAllReportLabels: vi.fn().mockResolvedValue([]),
   closePool: vi.fn()
 }));
 
+import { labelReport, getAllReportLabels, type ReportLabel } from '@ice-activity-map/database';
+
+const REPORT_ID = '6f1c2a7e-0b8d-4e5f-9a3c-1d2e3f4a5b6c';
+
+function label(overrides: Partial<ReportLabel> = {}): ReportLabel {
+  return {
+    id: 'a1b2c3d4-0000-4000-8000-000000000001',
+    reportId: REPORT_ID,
+    label: 'not_sighting',
+    text: 'ICE is a disgrace and should be abolished',
+    sourceType: 'bluesky',
+    sourceId: 'at://did:plc:abc/app.bsky.feed.post/1',
+    authorHandle: 'someone.bsky.social',
+    reportedCity: 'Los Angeles',
+    reportedState: 'CA',
+    reportedActivityType: 'other',
+    correctedCity: null,
+    correctedState: null,
+    correctedActivityType: null,
+    language: null,
+    moderator: 'admin',
+    notes: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  };
+}
+
 describe('Moderation API', () => {
   let app: ReturnType<typeof createApp>;
   const ADMIN_KEY = 'test-admin-key';
@@ -96,6 +127,99 @@ describe('Moderation API', () => {
     });
   });
 
+  describe('POST /api/moderation/reports/:id/labels', () => {
+    it('should require admin key', async () => {
+      await request(app)
+        .post(`/api/moderation/reports/${REPORT_ID}/labels`)
+        .send({ label: 'not_sighting', moderator: 'admin' })
+        .expect(403);
+    });
+
+    it('should reject unknown labels and missing corrections', async () => {
+      await request(app)
+        .post(`/api/moderation/reports/${REPORT_ID}/labels`)
+        .set('X-Admin-Key', ADMIN_KEY)
+        .send({ label: 'spam', moderator: 'admin' })
+        .expect(400);
+
+      await request(app)
+        .post(`/api/moderation/reports/${REPORT_ID}/labels`)
+        .set('X-Admin-Key', ADMIN_KEY)
+        .send({ label: 'wrong_activity_type', moderator: 'admin' })
+        .expect(400);
+
+      expect(labelReport).not.toHaveBeenCalled();
+    });
+
+    it('should store a location correction', async () => {
+      vi.mocked(labelReport).mockResolvedValueOnce(label({ label: 'wrong_location', correctedCity: 'Pasadena', correctedState: 'CA' }));
+
+      const response = await request(app)
+        .post(`/api/moderation/reports/${REPORT_ID}/labels`)
+        .set('X-Admin-Key', ADMIN_KEY)
+        .send({ label: 'wrong_location', moderator: 'admin', correctedCity: 'Pasadena', correctedState: 'ca' })
+        .expect(201);
+
+      expect(labelReport).toHaveBeenCalledWith(expect.objectContaining({
+        reportId: REPORT_ID,
+        label: 'wrong_location',
+        correctedCity: 'Pasadena',
+        correctedState: 'CA'
+      }));
+      expect(response.body.correctedCity).toBe('Pasadena');
+    });
+
+    it('should return 404 for unknown reports', async () => {
+      vi.mocked(labelReport).mockResolvedValueOnce(null);
+
+      await request(app)
+        .post(`/api/moderation/reports/${REPORT_ID}/labels`)
+        .set('X-Admin-Key', ADMIN_KEY)
+        .send({ label: 'not_sighting', moderator: 'admin' })
+        .expect(404);
+    });
+  });
+
+  describe('GET /api/moderation/labels/export', () => {
+    it('should merge each report\'s labels into one corpus example', async () => {
+      vi.mocked(getAllReportLabels).mockResolvedValueOnce([
+        label(),
+        label({ id: 'a1b2c3d4-0000-4000-8000-000000000002', label: 'wrong_location', language: 'en' }),
+        label({
+          id: 'a1b2c3d4-0000-4000-8000-000000000003',
+          reportId: null,
+          label: 'wrong_activity_type',
+          text: 'ICE arrested two people at the bus stop on 5th in Austin right now',
+          correctedActivityType: 'arrest'
+        })
+      ]);
+
+      const response = await request(app)
+        .get('/api/moderation/labels/export')
+        .set('X-Admin-Key', ADMIN_KEY)
+        .expect(200);
+
+      expect(response.body.formatVersion).toBe(1);
+      expect(response.body.examples).toEqual([
+        {
+          id: `moderated-${REPORT_ID}`,
+          text: 'ICE is a disgrace and should be abolished',
+          source: 'bluesky',
+          language: 'en',
+          author: 'someone.bsky.social',
+          relevant: false,
+          location: null
+        },
+        expect.objectContaining({
+          id: 'moderated-a1b2c3d4-0000-4000-8000-000000000003',
+          language: 'und',
+          relevant: true,
+          activityType: 'arrest'
+        })
+      ]);
+    });
+  });
+
   describe('GET /api/moderation/log', () => {
     it('should require admin key', async () => {
       await request(app)
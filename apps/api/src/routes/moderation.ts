@@ -1,4 +1,4 @@
-import { Router, Request, Response, NextFunction } from 'express';
+import { Router, Request, Response } from 'express';
 import {
   createFlag,
   getFlagsForReport,
@@ -7,32 +7,33 @@ import {
   getModerationLog,
   moderateReport,
   deleteReportAsModerator,
+  getReportById,
+  labelReport,
+  getReportLabels,
+  getAllReportLabels,
+  type ActivityType,
+  type CreateReportLabelInput,
   type FlagReason,
-  type FlagStatus
+  type FlagStatus,
+  type ReportLabelKind
 } from '@ice-activity-map/database';
 import { readLimiter, verificationLimiter, adminLimiter } from '../middleware/rateLimiter.js';
+import { requireAdmin } from '../middleware/adminAuth.js';
+import { publishWebhookEvent } from '../services/webhooks.js';
+import { labelsToCorpus } from '../services/label-export.js';
 import {
   validateLength,
   validateUserIdentifier,
   validatePagination,
-  timingSafeEqual,
   sanitizeString,
   validationError
 } from '../middleware/validation.js';
 
 const router = Router();
 
-// Middleware to check admin authentication with timing-safe comparison
-function requireAdmin(req: Request, res: Response, next: NextFunction) {
-  const adminKey = req.headers['x-admin-key'] as string | undefined;
-  const expectedKey = process.env.ADMIN_API_KEY;
-
-  if (!adminKey || !expectedKey || !timingSafeEqual(adminKey, expectedKey)) {
-    return res.status(403).json({ error: 'Forbidden: Admin access required' });
-  }
-
-  next();
-}
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const LABELS: ReportLabelKind[] = ['not_sighting', 'wrong_location', 'wrong_activity_type'];
+const ACTIVITY_TYPES: ActivityType[] = ['raid', 'checkpoint', 'arrest', 'surveillance', 'other'];
 
 // ============ Public Routes ============
 
@@ -63,6 +64,11 @@ router.post('/:reportId/flag', verificationLimiter, async (req: Request, res: Re
       details: detailsResult.sanitized ? sanitizeString(detailsResult.sanitized) : undefined
     });
 
+    const report = await getReportById(reportId);
+    if (report) {
+      void publishWebhookEvent('report_flagged', report);
+    }
+
     res.status(201).json({
       id: flag.id,
       message: 'Report flagged successfully'
@@ -179,6 +185,11 @@ router.post('/reports/:reportId/status', adminLimiter, requireAdmin, async (req:
       reasonResult.sanitized ? sanitizeString(reasonResult.sanitized) : undefined
     );
 
+    const report = await getReportById(reportId);
+    if (report) {
+      void publishWebhookEvent('report_updated', report);
+    }
+
     res.json({ message: 'Report status updated', status });
   } catch (error: unknown) {
     if (error instanceof Error && error.message === 'Report not found') {
@@ -220,6 +231,111 @@ router.delete('/reports/:reportId', adminLimiter, requireAdmin, async (req: Requ
   }
 });
 
+// POST /api/moderation/reports/:id/labels - Label what the pipeline got wrong
+// Labels keep the report text so they can be exported to the evaluation corpus
+router.post('/reports/:reportId/labels', adminLimiter, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { reportId } = req.params;
+    const { label, moderator, correctedCity, correctedState, correctedActivityType, language, notes } = req.body;
+
+    if (!label || !LABELS.includes(label)) {
+      return validationError(res, `Invalid label. Must be one of: ${LABELS.join(', ')}`);
+    }
+
+    const modResult = validateUserIdentifier(moderator);
+    if (!modResult.valid) return validationError(res, `moderator: ${modResult.error}`);
+
+    const notesResult = validateLength(notes, 'reason');
+    if (!notesResult.valid) return validationError(res, notesResult.error!);
+
+    if (language !== undefined && (typeof language !== 'string' || !/^[a-z]{2,3}$/.test(language))) {
+      return validationError(res, 'language must be an ISO 639 code, e.g. en or es');
+    }
+
+    const input: CreateReportLabelInput = {
+      reportId,
+      label,
+      moderator: modResult.sanitized!,
+      language,
+      notes: notesResult.sanitized ? sanitizeString(notesResult.sanitized) : undefined
+    };
+
+    // Leaving both out of a wrong_location label means the text names no place
+    if (label === 'wrong_location') {
+      const cityResult = validateLength(correctedCity, 'city');
+      if (!cityResult.valid) return validationError(res, cityResult.error!);
+      input.correctedCity = cityResult.sanitized ? sanitizeString(cityResult.sanitized) : undefined;
+
+      if (correctedState !== undefined && correctedState !== null) {
+        if (typeof correctedState !== 'string' || !/^[A-Za-z]{2}$/.test(correctedState.trim())) {
+          return validationError(res, 'correctedState must be a two-letter state abbreviation');
+        }
+        input.correctedState = correctedState.trim().toUpperCase();
+      }
+    }
+
+    if (label === 'wrong_activity_type') {
+      if (!ACTIVITY_TYPES.includes(correctedActivityType)) {
+        return validationError(res, `correctedActivityType must be one of: ${ACTIVITY_TYPES.join(', ')}`);
+      }
+      input.correctedActivityType = correctedActivityType;
+    }
+
+    const saved = UUID_PATTERN.test(reportId) ? await labelReport(input) : null;
+    if (!saved) {
+      return res.status(404).json({ error: 'Report not found' });
+    }
+
+    res.status(201).json(saved);
+  } catch (error) {
+    console.error('Error labeling report:', error);
+    res.status(500).json({ error: 'Failed to label report' });
+  }
+});
+
+// GET /api/moderation/labels - Moderator labels, newest first
+router.get('/labels', adminLimiter, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const paginationResult = validatePagination(req.query.limit, req.query.offset, 200);
+    if (!paginationResult.valid) return validationError(res, paginationResult.error!);
+    const { limit, offset } = paginationResult.sanitized!;
+
+    const label = req.query.label;
+    if (label !== undefined && !LABELS.includes(label as ReportLabelKind)) {
+      return validationError(res, `Invalid label. Must be one of: ${LABELS.join(', ')}`);
+    }
+
+    const { labels, total } = await getReportLabels({ label: label as ReportLabelKind | undefined, limit, offset });
+
+    res.json({
+      labels,
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + labels.length < total
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching labels:', error);
+    res.status(500).json({ error: 'Failed to fetch labels' });
+  }
+});
+
+// GET /api/moderation/labels/export - All labels as evaluation corpus examples
+router.get('/labels/export', adminLimiter, requireAdmin, async (_req: Request, res: Response) => {
+  try {
+    const revision = new Date().toISOString().slice(0, 10);
+    const corpus = labelsToCorpus(await getAllReportLabels(), revision);
+
+    res.setHeader('Content-Disposition', `attachment; filename="moderator-labels-${revision}.json"`);
+    res.json(corpus);
+  } catch (error) {
+    console.error('Error exporting labels:', error);
+    res.status(500).json({ error: 'Failed to export labels' });
+  }
+});
+
 // GET /api/moderation/log - Get moderation log
 router.get('/log', adminLimiter, requireAdmin, async (req: Request, res: Response) => {
   try {
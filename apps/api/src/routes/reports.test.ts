@@ -56,9 +56,25 @@ vi.mock('@ice-activity-map/database', () => ({
     state: 'New York',
     status: 'pending'
   }),
+  isLocationPrecision: (value: unknown) =>
+    ['exact', 'street', 'neighborhood', 'city', 'state'].includes(value as string),
   closePool: vi.fn()
 }));
 
+// No reverse geocoding unless a test sets up a place
+vi.mock('../services/reverse-geocoding.js', () => ({
+  reverseGeocode: vi.fn().mockResolvedValue(null)
+}));
+
+const houston = {
+  city: 'Houston',
+  state: 'TX',
+  county: 'Harris County',
+  countryCode: 'us',
+  localities: ['Second Ward', 'Houston', 'Harris County'],
+  displayName: 'Second Ward, Houston, Harris County, Texas, United States'
+};
+
 describe('Reports API', () => {
   let app: ReturnType<typeof createApp>;
 
@@ -87,6 +103,44 @@ describe('Reports API', () => {
 
       expect(response.body).toHaveProperty('reports');
     });
+
+    it('should filter by detected language', async () => {
+      const { getReports } = await import('@ice-activity-map/database');
+
+      await request(app)
+        .get('/api/reports?languages=es,PT,und')
+        .expect(200);
+
+      expect(getReports).toHaveBeenCalledWith(
+        expect.objectContaining({ languages: ['es', 'pt', 'und'] }),
+        expect.anything()
+      );
+    });
+
+    it('should reject malformed language codes', async () => {
+      const response = await request(app)
+        .get('/api/reports?languages=spanish')
+        .expect(400);
+
+      expect(response.body).toHaveProperty('error');
+    });
+
+    it('should filter by location precision', async () => {
+      const { getReports } = await import('@ice-activity-map/database');
+
+      await request(app)
+        .get('/api/reports?locationPrecisions=exact,street,neighborhood')
+        .expect(200);
+      await request(app)
+        .get('/api/reports?locationPrecisions=block')
+        .expect(400);
+
+      expect(getReports).toHaveBeenCalledTimes(1);
+      expect(getReports).toHaveBeenCalledWith(
+        expect.objectContaining({ locationPrecisions: ['exact', 'street', 'neighborhood'] }),
+        expect.anything()
+      );
+    });
   });
 
   describe('GET /api/reports/:id', () => {
@@ -128,6 +182,103 @@ describe('Reports API', () => {
       expect(response.body).toHaveProperty('id');
     });
 
+    it('should store how precise the submitted location is', async () => {
+      const { createReport } = await import('@ice-activity-map/database');
+      const report = {
+        activityType: 'raid',
+        description: 'Agents at the car wash',
+        city: 'Houston',
+        state: 'Texas',
+        authorHandle: 'testuser'
+      };
+
+      await request(app)
+        .post('/api/reports')
+        .send({ ...report, latitude: 29.76, longitude: -95.37, locationPrecision: 'exact', locationRadiusM: 12 })
+        .expect(201);
+      await request(app)
+        .post('/api/reports')
+        .send(report)
+        .expect(201);
+      await request(app)
+        .post('/api/reports')
+        .send({ ...report, latitude: 29.76, longitude: -95.37, locationPrecision: 'rooftop' })
+        .expect(400);
+
+      expect(createReport).toHaveBeenNthCalledWith(1, expect.objectContaining({ locationPrecision: 'exact', locationRadiusM: 12 }));
+      expect(createReport).toHaveBeenNthCalledWith(2, expect.objectContaining({ locationPrecision: 'city', locationRadiusM: undefined }));
+      expect(createReport).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject coordinates in another state', async () => {
+      const { createReport } = await import('@ice-activity-map/database');
+      const { reverseGeocode } = await import('../services/reverse-geocoding.js');
+      vi.mocked(reverseGeocode).mockResolvedValueOnce(houston);
+
+      const response = await request(app)
+        .post('/api/reports')
+        .send({
+          activityType: 'raid',
+          description: 'Agents at the car wash',
+          city: 'Los Angeles',
+          state: 'California',
+          latitude: 29.76,
+          longitude: -95.37,
+          authorHandle: 'testuser'
+        })
+        .expect(400);
+
+      expect(response.body.error).toBe('Coordinates are in Texas, not California');
+      expect(createReport).not.toHaveBeenCalled();
+    });
+
+    it('should hold coordinates in another city for review', async () => {
+      const { createReport } = await import('@ice-activity-map/database');
+      const { reverseGeocode } = await import('../services/reverse-geocoding.js');
+      vi.mocked(reverseGeocode).mockResolvedValueOnce(houston);
+
+      await request(app)
+        .post('/api/reports')
+        .send({
+          activityType: 'raid',
+          description: 'Agents at the car wash',
+          city: 'Dallas',
+          state: 'TX',
+          latitude: 29.76,
+          longitude: -95.37,
+          authorHandle: 'testuser'
+        })
+        .expect(201);
+
+      expect(createReport).toHaveBeenCalledWith(expect.objectContaining({
+        city: 'Dallas',
+        metadata: { needs_review: true, location_issue: 'Coordinates are in Houston, not Dallas' }
+      }));
+    });
+
+    it('should fill in a blank city and state from the coordinates', async () => {
+      const { createReport } = await import('@ice-activity-map/database');
+      const { reverseGeocode } = await import('../services/reverse-geocoding.js');
+      vi.mocked(reverseGeocode).mockResolvedValueOnce(houston);
+
+      await request(app)
+        .post('/api/reports')
+        .send({
+          activityType: 'raid',
+          description: 'Agents at the car wash',
+          latitude: 29.76,
+          longitude: -95.37,
+          authorHandle: 'testuser'
+        })
+        .expect(201);
+
+      expect(createReport).toHaveBeenCalledWith(expect.objectContaining({
+        city: 'Houston',
+        state: 'TX',
+        metadata: undefined
+      }));
+    });
+
     it('should reject report without required fields', async () => {
       const response = await request(app)
         .post('/api/reports')
@@ -5,12 +5,17 @@ import {
   getReportById,
   createReport,
   updateReportStatus,
+  isLocationPrecision,
+  type LocationPrecision,
   type ReportFilters,
   type ActivityType,
   type ReportStatus
 } from '@ice-activity-map/database';
-import { emitNewReport, emitReportUpdated } from '../services/websocket.js';
+import { checkSubmittedLocation } from '@ice-activity-map/geo';
 import { uploadPhoto } from '../services/storage.js';
+import { notifyNewReport } from '../services/alerts.js';
+import { publishWebhookEvent } from '../services/webhooks.js';
+import { reverseGeocode } from '../services/reverse-geocoding.js';
 import { readLimiter, writeLimiter } from '../middleware/rateLimiter.js';
 import {
   validateLength,
@@ -41,6 +46,9 @@ const upload = multer({
 
 const router = Router();
 
+// ISO 639-1 codes as the ingestion pipeline stores them, plus und for undetermined
+const LANGUAGE_PATTERN = /^([a-z]{2}|und)$/;
+
 /**
  * @swagger
  * /api/reports:
@@ -55,6 +63,16 @@ const router = Router();
  *           type: string
  *         description: Comma-separated list of activity types (raid,checkpoint,arrest,surveillance,other)
  *       - in: query
+ *         name: languages
+ *         schema:
+ *           type: string
+ *         description: Comma-separated list of detected post languages as ISO 639-1 codes (e.g. es,pt,ht), or und for undetermined
+ *       - in: query
+ *         name: locationPrecisions
+ *         schema:
+ *           type: string
+ *         description: Comma-separated list of location precisions to include (exact,street,neighborhood,city,state), e.g. exact,street,neighborhood to leave out city-level guesses
+ *       - in: query
  *         name: status
  *         schema:
  *           type: string
@@ -64,7 +82,7 @@ const router = Router();
  *         schema:
  *           type: string
  *           enum: [24h, 7d, 30d, all]
- *         description: Time range filter
+ *         description: Time range filter, by when the activity happened where the post says and when it was posted otherwise
  *       - in: query
  *         name: bounds
  *         schema:
@@ -114,6 +132,24 @@ router.get('/', readLimiter, async (req: Request, res: Response) => {
       filters.activityTypes = types as ActivityType[];
     }
 
+    // Parse languages
+    if (req.query.languages) {
+      const languages = (req.query.languages as string).split(',').map((language) => language.trim().toLowerCase());
+      if (!languages.every((language) => LANGUAGE_PATTERN.test(language))) {
+        return validationError(res, 'languages must be ISO 639-1 codes or und');
+      }
+      filters.languages = languages;
+    }
+
+    // Parse location precisions
+    if (req.query.locationPrecisions) {
+      const precisions = (req.query.locationPrecisions as string).split(',').map((precision) => precision.trim());
+      if (!precisions.every(isLocationPrecision)) {
+        return validationError(res, 'locationPrecisions must be exact, street, neighborhood, city or state');
+      }
+      filters.locationPrecisions = precisions;
+    }
+
     // Parse status
     if (req.query.status) {
       const statuses = (req.query.status as string).split(',');
@@ -210,7 +246,7 @@ router.get('/:id', readLimiter, async (req: Request, res: Response) => {
  * /api/reports:
  *   post:
  *     summary: Create a new report
- *     description: Submit a new ICE activity report with optional photo
+ *     description: Submit a new ICE activity report with optional photo. Coordinates in another state are rejected, in another city held for review, and a blank city or state is filled in from them
  *     tags: [Reports]
  *     requestBody:
  *       required: true
@@ -233,6 +269,13 @@ router.get('/:id', readLimiter, async (req: Request, res: Response) => {
  *                 type: number
  *               longitude:
  *                 type: number
+ *               locationPrecision:
+ *                 type: string
+ *                 enum: [exact, street, neighborhood, city, state]
+ *                 description: How precise the coordinates are (exact for a GPS fix, e.g. from a photo). Defaults to street with coordinates, otherwise city or state
+ *               locationRadiusM:
+ *                 type: number
+ *                 description: Uncertainty radius in meters, e.g. the GPS accuracy. Defaults to the usual radius for the precision
  *               authorHandle:
  *                 type: string
  *               authorDisplayName:
@@ -254,7 +297,7 @@ router.get('/:id', readLimiter, async (req: Request, res: Response) => {
  *             schema:
  *               $ref: '#/components/schemas/Report'
  *       400:
- *         description: Invalid input
+ *         description: Invalid input, or coordinates outside the US or the given state
  *         content:
  *           application/json:
  *             schema:
@@ -269,6 +312,8 @@ router.post('/', writeLimiter, upload.single('photo'), requireTurnstile, async (
       state,
       latitude,
       longitude,
+      locationPrecision,
+      locationRadiusM,
       authorHandle,
       authorDisplayName
     } = req.body;
@@ -306,6 +351,37 @@ router.post('/', writeLimiter, upload.single('photo'), requireTurnstile, async (
     const lonResult = validateCoordinate(longitude, 'longitude');
     if (!lonResult.valid) return validationError(res, lonResult.error!);
 
+    if (locationPrecision !== undefined && !isLocationPrecision(locationPrecision)) {
+      return validationError(res, 'locationPrecision must be exact, street, neighborhood, city or state');
+    }
+
+    const radiusResult = validateCoordinate(locationRadiusM, 'locationRadiusM');
+    if (!radiusResult.valid) return validationError(res, radiusResult.error!);
+
+    // Submitters place their own point; without one there is only the city or state they named
+    const hasCoordinates = latResult.sanitized !== undefined && lonResult.sanitized !== undefined;
+    const precision: LocationPrecision | undefined = hasCoordinates
+      ? locationPrecision ?? 'street'
+      : cityResult.sanitized ? 'city' : stateResult.sanitized ? 'state' : undefined;
+
+    // The point has to be where the submitter says it is: another state is
+    // rejected, another city goes to a moderator, and blanks are filled in
+    let reportCity = cityResult.sanitized ? sanitizeString(cityResult.sanitized) : undefined;
+    let reportState = stateResult.sanitized ? sanitizeString(stateResult.sanitized) : undefined;
+    let metadata: Record<string, unknown> | undefined;
+    if (hasCoordinates) {
+      const check = checkSubmittedLocation(
+        { latitude: latResult.sanitized!, longitude: lonResult.sanitized!, city: reportCity, state: reportState },
+        await reverseGeocode(latResult.sanitized!, lonResult.sanitized!)
+      );
+      if (check.verdict === 'reject') return validationError(res, check.issue!);
+      if (check.verdict === 'review') {
+        metadata = { needs_review: true, location_issue: check.issue };
+      }
+      reportCity = check.city ?? undefined;
+      reportState = check.state ?? undefined;
+    }
+
     // Handle photo upload if provided
     let photoUrl: string | undefined;
     if (req.file) {
@@ -325,18 +401,22 @@ router.post('/', writeLimiter, upload.single('photo'), requireTurnstile, async (
       sourceType: 'user_submitted',
       activityType,
       description: sanitizeString(descResult.sanitized),
-      city: cityResult.sanitized ? sanitizeString(cityResult.sanitized) : undefined,
-      state: stateResult.sanitized ? sanitizeString(stateResult.sanitized) : undefined,
+      city: reportCity,
+      state: reportState,
       latitude: latResult.sanitized,
       longitude: lonResult.sanitized,
+      locationPrecision: precision,
+      locationRadiusM: hasCoordinates ? radiusResult.sanitized : undefined,
       authorHandle: sanitizeString(handleResult.sanitized),
       authorDisplayName: displayNameResult.sanitized ? sanitizeString(displayNameResult.sanitized) : undefined,
       photoUrl,
-      reportedAt: new Date()
+      reportedAt: new Date(),
+      metadata
     });
 
-    // Emit WebSocket event for real-time updates
-    emitNewReport(report);
+    // WebSocket clients hear about it through the report feed;
+    // alert push, email and webhook subscribers in the background
+    void notifyNewReport(report);
 
     res.status(201).json(report);
   } catch (error) {
@@ -398,8 +478,8 @@ router.patch('/:id/status', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Report not found' });
     }
 
-    // Emit WebSocket event for real-time updates
-    emitReportUpdated(report);
+    // WebSocket clients hear about it through the report feed
+    void publishWebhookEvent('report_updated', report);
 
     res.json(report);
   } catch (error) {
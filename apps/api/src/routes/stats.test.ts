@@ -24,7 +24,7 @@ vi.mock('@ice-activity-map/database', () => ({
         ]
       });
     }
-    if (sql.includes('DATE(reported_at)')) {
+    if (sql.includes('DATE(COALESCE(occurred_at, reported_at))')) {
       return Promise.resolve({
         rows: [
           { date: '2024-01-20', count: '5' },
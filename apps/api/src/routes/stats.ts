@@ -55,13 +55,13 @@ router.get('/', async (_req, res) => {
       count: parseInt(row.count, 10)
     }));
 
-    // Reports over time (last 30 days, grouped by day)
+    // Reports over time (last 30 days, grouped by the day the activity happened)
     const timelineResult = await query<{ date: string; count: string }>(
-      `SELECT DATE(reported_at) as date, COUNT(*) as count
+      `SELECT DATE(COALESCE(occurred_at, reported_at)) as date, COUNT(*) as count
        FROM reports
        WHERE status != 'rejected'
-         AND reported_at >= NOW() - INTERVAL '30 days'
-       GROUP BY DATE(reported_at)
+         AND COALESCE(occurred_at, reported_at) >= NOW() - INTERVAL '30 days'
+       GROUP BY DATE(COALESCE(occurred_at, reported_at))
        ORDER BY date ASC`
     );
     const timeline = timelineResult.rows.map(row => ({
@@ -74,7 +74,7 @@ router.get('/', async (_req, res) => {
       `SELECT COUNT(*) as count
        FROM reports
        WHERE status != 'rejected'
-         AND reported_at >= NOW() - INTERVAL '7 days'`
+         AND COALESCE(occurred_at, reported_at) >= NOW() - INTERVAL '7 days'`
     );
     const last7Days = parseInt(last7DaysResult.rows[0]?.count || '0', 10);
 
@@ -83,7 +83,7 @@ router.get('/', async (_req, res) => {
       `SELECT COUNT(*) as count
        FROM reports
        WHERE status != 'rejected'
-         AND reported_at >= NOW() - INTERVAL '30 days'`
+         AND COALESCE(occurred_at, reported_at) >= NOW() - INTERVAL '30 days'`
     );
     const last30Days = parseInt(last30DaysResult.rows[0]?.count || '0', 10);
 
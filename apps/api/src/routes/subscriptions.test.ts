@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import request from 'supertest';
+import { createApp } from '../app.js';
+
+// Mock the database module
+vi.mock('@ice-activity-map/database', () => ({
+  testConnection: vi.fn().mockResolvedValue(true),
+  getAllSubscriptions: vi.fn().mockResolvedValue([]),
+  getPushDeliveries: vi.fn().mockResolvedValue([]),
+  closePool: vi.fn()
+}));
+
+import { getPushDeliveries } from '@ice-activity-map/database';
+
+describe('Subscriptions API', () => {
+  let app: ReturnType<typeof createApp>;
+  const ADMIN_KEY = 'test-admin-key';
+  const REPORT_ID = '123e4567-e89b-42d3-a456-426614174000';
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.NODE_ENV = 'test';
+    process.env.ADMIN_API_KEY = ADMIN_KEY;
+    app = createApp();
+  });
+
+  describe('GET /api/subscriptions/deliveries', () => {
+    it('should require admin key', async () => {
+      await request(app)
+        .get('/api/subscriptions/deliveries')
+        .expect(403);
+
+      expect(getPushDeliveries).not.toHaveBeenCalled();
+    });
+
+    it('should stay closed when no admin key is configured', async () => {
+      delete process.env.ADMIN_API_KEY;
+
+      await request(app)
+        .get('/api/subscriptions/deliveries')
+        .expect(403);
+      await request(app)
+        .get('/api/subscriptions')
+        .expect(403);
+
+      expect(getPushDeliveries).not.toHaveBeenCalled();
+    });
+
+    it('should return deliveries with valid admin key', async () => {
+      const response = await request(app)
+        .get(`/api/subscriptions/deliveries?reportId=${REPORT_ID}`)
+        .set('X-Admin-Key', ADMIN_KEY)
+        .expect(200);
+
+      expect(response.body).toEqual({ deliveries: [] });
+      expect(getPushDeliveries).toHaveBeenCalledWith(REPORT_ID, expect.any(Number), 0);
+    });
+
+    it('should reject a malformed reportId', async () => {
+      const response = await request(app)
+        .get('/api/subscriptions/deliveries?reportId=123')
+        .set('X-Admin-Key', ADMIN_KEY)
+        .expect(400);
+
+      expect(response.body.error).toBe('Invalid reportId');
+      expect(getPushDeliveries).not.toHaveBeenCalled();
+    });
+  });
+});
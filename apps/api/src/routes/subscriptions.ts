@@ -2,15 +2,20 @@ import { Router, Request, Response } from 'express';
 import {
   createSubscription,
   deleteSubscription,
-  getAllSubscriptions
+  getAllSubscriptions,
+  getPushDeliveries
 } from '@ice-activity-map/database';
+import { validatePagination, validateAreas, validationError } from '../middleware/validation.js';
+import { requireAdmin } from '../middleware/adminAuth.js';
 
 const router = Router();
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 // POST /api/subscriptions - Create or update push subscription
 router.post('/', async (req: Request, res: Response) => {
   try {
-    const { endpoint, keys, location, activityTypes } = req.body;
+    const { endpoint, keys, location, areas, activityTypes } = req.body;
 
     if (!endpoint || !keys?.p256dh || !keys?.auth) {
       return res.status(400).json({
@@ -18,6 +23,9 @@ router.post('/', async (req: Request, res: Response) => {
       });
     }
 
+    const areasResult = validateAreas(areas);
+    if (!areasResult.valid) return validationError(res, areasResult.error!);
+
     const subscription = await createSubscription({
       endpoint,
       p256dh: keys.p256dh,
@@ -25,6 +33,7 @@ router.post('/', async (req: Request, res: Response) => {
       latitude: location?.latitude,
       longitude: location?.longitude,
       radiusKm: location?.radiusKm || 50,
+      areas: areasResult.sanitized,
       activityTypes: activityTypes || ['raid', 'checkpoint', 'arrest', 'surveillance', 'other']
     });
 
@@ -74,13 +83,7 @@ router.get('/vapid-public-key', (_req: Request, res: Response) => {
 });
 
 // GET /api/subscriptions (admin only)
-router.get('/', async (req: Request, res: Response) => {
-  const adminKey = req.headers['x-admin-key'];
-
-  if (adminKey !== process.env.ADMIN_API_KEY) {
-    return res.status(403).json({ error: 'Forbidden' });
-  }
-
+router.get('/', requireAdmin, async (_req: Request, res: Response) => {
   try {
     const subscriptions = await getAllSubscriptions();
     res.json({ subscriptions, total: subscriptions.length });
@@ -90,4 +93,24 @@ router.get('/', async (req: Request, res: Response) => {
   }
 });
 
+// GET /api/subscriptions/deliveries (admin only) - Push delivery results
+router.get('/deliveries', requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const paginationResult = validatePagination(req.query.limit, req.query.offset, 500);
+    if (!paginationResult.valid) return validationError(res, paginationResult.error!);
+    const { limit, offset } = paginationResult.sanitized!;
+
+    const { reportId } = req.query;
+    if (reportId !== undefined && (typeof reportId !== 'string' || !UUID_PATTERN.test(reportId))) {
+      return validationError(res, 'Invalid reportId');
+    }
+
+    const deliveries = await getPushDeliveries(reportId, limit, offset);
+    res.json({ deliveries });
+  } catch (error) {
+    console.error('Error fetching push deliveries:', error);
+    res.status(500).json({ error: 'Failed to fetch deliveries' });
+  }
+});
+
 export default router;
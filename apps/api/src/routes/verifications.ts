@@ -7,6 +7,7 @@ import {
   getReportById
 } from '@ice-activity-map/database';
 import { emitReportVerified } from '../services/websocket.js';
+import { publishWebhookEvent } from '../services/webhooks.js';
 import { readLimiter, verificationLimiter } from '../middleware/rateLimiter.js';
 import {
   validateLength,
@@ -47,6 +48,7 @@ router.post('/:reportId/verify', verificationLimiter, async (req: Request, res:
     const report = await getReportById(reportId);
     if (report) {
       emitReportVerified(report);
+      void publishWebhookEvent('report_verified', report);
     }
 
     res.status(201).json(verification);
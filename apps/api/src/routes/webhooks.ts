@@ -0,0 +1,241 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import {
+  createWebhook,
+  getWebhooks,
+  getWebhookById,
+  updateWebhook,
+  deleteWebhook,
+  getWebhookDeliveries,
+  replayWebhookDelivery,
+  type UpdateWebhookInput,
+  type WebhookDeliveryStatus,
+  type WebhookWithSecret
+} from '@ice-activity-map/database';
+import { adminLimiter, readLimiter } from '../middleware/rateLimiter.js';
+import { requireAdmin, hasAdminKey } from '../middleware/adminAuth.js';
+import {
+  validateLength,
+  validateWebhookUrl,
+  validateWebhookEventTypes,
+  validateActivityTypes,
+  validateAreas,
+  validatePagination,
+  timingSafeEqual,
+  sanitizeString,
+  validationError
+} from '../middleware/validation.js';
+
+const router = Router();
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function withoutSecret({ secret: _secret, ...webhook }: WebhookWithSecret) {
+  return webhook;
+}
+
+// Middleware letting either an admin or the partner that owns the webhook
+// through. Partners authenticate with "Authorization: Bearer <secret>".
+async function requireWebhookAccess(req: Request, res: Response, next: NextFunction) {
+  try {
+    const isAdmin = hasAdminKey(req);
+    const webhook = UUID_PATTERN.test(req.params.id) ? await getWebhookById(req.params.id) : null;
+
+    if (!webhook) {
+      return isAdmin
+        ? res.status(404).json({ error: 'Webhook not found' })
+        : res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const [scheme, token] = (req.headers.authorization || '').split(' ');
+    const isOwner = scheme === 'Bearer' && !!token && timingSafeEqual(token, webhook.secret);
+
+    if (!isAdmin && !isOwner) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    res.locals.webhook = webhook;
+    next();
+  } catch (error) {
+    console.error('Error authenticating webhook request:', error);
+    res.status(500).json({ error: 'Failed to authenticate' });
+  }
+}
+
+// ============ Admin Routes ============
+
+// POST /api/webhooks - Register a partner webhook. The secret is only shown here.
+router.post('/', adminLimiter, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { name, url, eventTypes, activityTypes, areas } = req.body;
+
+    const nameResult = validateLength(name, 'name');
+    if (!nameResult.valid) return validationError(res, nameResult.error!);
+    if (!nameResult.sanitized) return validationError(res, 'name is required');
+
+    const urlResult = validateWebhookUrl(url);
+    if (!urlResult.valid) return validationError(res, urlResult.error!);
+
+    const eventsResult = validateWebhookEventTypes(eventTypes);
+    if (!eventsResult.valid) return validationError(res, eventsResult.error!);
+
+    const typesResult = validateActivityTypes(activityTypes);
+    if (!typesResult.valid) return validationError(res, typesResult.error!);
+
+    const areasResult = validateAreas(areas);
+    if (!areasResult.valid) return validationError(res, areasResult.error!);
+
+    const webhook = await createWebhook({
+      name: sanitizeString(nameResult.sanitized),
+      url: urlResult.sanitized!,
+      eventTypes: eventsResult.sanitized!,
+      // Only store a filter when the partner narrowed it down
+      activityTypes: activityTypes ? typesResult.sanitized : null,
+      areas: areasResult.sanitized
+    });
+
+    res.status(201).json(webhook);
+  } catch (error) {
+    console.error('Error creating webhook:', error);
+    res.status(500).json({ error: 'Failed to create webhook' });
+  }
+});
+
+// GET /api/webhooks - List webhooks
+router.get('/', adminLimiter, requireAdmin, async (_req: Request, res: Response) => {
+  try {
+    const webhooks = await getWebhooks();
+    res.json({ webhooks });
+  } catch (error) {
+    console.error('Error fetching webhooks:', error);
+    res.status(500).json({ error: 'Failed to fetch webhooks' });
+  }
+});
+
+// PATCH /api/webhooks/:id - Change filters, URL or pause/resume
+router.patch('/:id', adminLimiter, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { name, url, eventTypes, activityTypes, areas, isActive } = req.body;
+    const input: UpdateWebhookInput = {};
+
+    if (name !== undefined) {
+      const nameResult = validateLength(name, 'name');
+      if (!nameResult.valid || !nameResult.sanitized) return validationError(res, nameResult.error || 'name is required');
+      input.name = sanitizeString(nameResult.sanitized);
+    }
+
+    if (url !== undefined) {
+      const urlResult = validateWebhookUrl(url);
+      if (!urlResult.valid) return validationError(res, urlResult.error!);
+      input.url = urlResult.sanitized;
+    }
+
+    if (eventTypes !== undefined) {
+      const eventsResult = validateWebhookEventTypes(eventTypes);
+      if (!eventsResult.valid) return validationError(res, eventsResult.error!);
+      input.eventTypes = eventsResult.sanitized;
+    }
+
+    if (activityTypes !== undefined) {
+      const typesResult = validateActivityTypes(activityTypes);
+      if (!typesResult.valid) return validationError(res, typesResult.error!);
+      input.activityTypes = activityTypes ? typesResult.sanitized : null;
+    }
+
+    if (areas !== undefined) {
+      const areasResult = validateAreas(areas);
+      if (!areasResult.valid) return validationError(res, areasResult.error!);
+      input.areas = areasResult.sanitized ?? null;
+    }
+
+    if (isActive !== undefined) {
+      if (typeof isActive !== 'boolean') return validationError(res, 'isActive must be a boolean');
+      input.isActive = isActive;
+    }
+
+    const webhook = UUID_PATTERN.test(req.params.id) ? await updateWebhook(req.params.id, input) : null;
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    res.json(webhook);
+  } catch (error) {
+    console.error('Error updating webhook:', error);
+    res.status(500).json({ error: 'Failed to update webhook' });
+  }
+});
+
+// DELETE /api/webhooks/:id - Remove a webhook and its delivery log
+router.delete('/:id', adminLimiter, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const deleted = UUID_PATTERN.test(req.params.id) && await deleteWebhook(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting webhook:', error);
+    res.status(500).json({ error: 'Failed to delete webhook' });
+  }
+});
+
+// ============ Partner Routes (admin key or webhook secret) ============
+
+// GET /api/webhooks/:id - Webhook settings
+router.get('/:id', readLimiter, requireWebhookAccess, (_req: Request, res: Response) => {
+  res.json(withoutSecret(res.locals.webhook));
+});
+
+// GET /api/webhooks/:id/deliveries - Delivery log, newest first
+router.get('/:id/deliveries', readLimiter, requireWebhookAccess, async (req: Request, res: Response) => {
+  try {
+    const paginationResult = validatePagination(req.query.limit, req.query.offset, 100);
+    if (!paginationResult.valid) return validationError(res, paginationResult.error!);
+    const { limit, offset } = paginationResult.sanitized!;
+
+    const status = req.query.status as WebhookDeliveryStatus | undefined;
+    const validStatuses: WebhookDeliveryStatus[] = ['pending', 'succeeded', 'failed'];
+    if (status && !validStatuses.includes(status)) {
+      return validationError(res, `Invalid status. Must be one of: ${validStatuses.join(', ')}`);
+    }
+
+    const { deliveries, total } = await getWebhookDeliveries(req.params.id, { status, limit, offset });
+
+    res.json({
+      deliveries,
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + deliveries.length < total
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error);
+    res.status(500).json({ error: 'Failed to fetch deliveries' });
+  }
+});
+
+// POST /api/webhooks/:id/deliveries/:deliveryId/replay - Send a past event again
+router.post(
+  '/:id/deliveries/:deliveryId/replay',
+  adminLimiter,
+  requireWebhookAccess,
+  async (req: Request, res: Response) => {
+    try {
+      const { id, deliveryId } = req.params;
+      const delivery = UUID_PATTERN.test(deliveryId) ? await replayWebhookDelivery(id, deliveryId) : null;
+
+      if (!delivery) {
+        return res.status(404).json({ error: 'Delivery not found' });
+      }
+
+      res.status(202).json(delivery);
+    } catch (error) {
+      console.error('Error replaying webhook delivery:', error);
+      res.status(500).json({ error: 'Failed to replay delivery' });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Report } from '@ice-activity-map/database';
+
+vi.mock('@ice-activity-map/database', () => ({
+  claimReportForAlert: vi.fn().mockResolvedValue(true),
+  claimPendingAlertReports: vi.fn().mockResolvedValue([])
+}));
+
+vi.mock('./push.js', () => ({
+  isPushConfigured: vi.fn().mockReturnValue(true),
+  dispatchPushForReport: vi.fn().mockResolvedValue(undefined)
+}));
+
+vi.mock('./email-alerts.js', () => ({
+  isEmailConfigured: vi.fn().mockReturnValue(true),
+  dispatchEmailForReport: vi.fn().mockResolvedValue(undefined)
+}));
+
+vi.mock('./webhooks.js', () => ({
+  isWebhooksEnabled: vi.fn().mockReturnValue(true),
+  publishWebhookEvent: vi.fn().mockResolvedValue(0)
+}));
+
+import { claimReportForAlert } from '@ice-activity-map/database';
+import { isPushConfigured, dispatchPushForReport } from './push.js';
+import { dispatchEmailForReport } from './email-alerts.js';
+import { publishWebhookEvent } from './webhooks.js';
+import { notifyNewReport, shouldNotify, getEnabledAlertChannels } from './alerts.js';
+
+function makeReport(overrides: Partial<Report> = {}): Report {
+  return {
+    id: '5b1f3c9e-8a2d-4c71-9e0f-1a2b3c4d5e6f',
+    sourceType: 'user_submitted',
+    sourceId: null,
+    activityType: 'raid',
+    description: 'Agents at the apartment complex on Main Street',
+    city: 'Los Angeles',
+    state: 'CA',
+    latitude: 34.0522,
+    longitude: -118.2437,
+    authorHandle: 'tester',
+    authorDisplayName: null,
+    photoUrl: null,
+    status: 'unverified',
+    metadata: {},
+    reportedAt: new Date(),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  };
+}
+
+describe('Alert dispatch', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(isPushConfigured).mockReturnValue(true);
+    vi.mocked(claimReportForAlert).mockResolvedValue(true);
+  });
+
+  describe('shouldNotify', () => {
+    it('should reject stale and disputed reports', () => {
+      const old = new Date(Date.now() - 3 * 24 * 60 * 60 * 1000);
+      expect(shouldNotify(makeReport({ reportedAt: old }))).toBe(false);
+      expect(shouldNotify(makeReport({ status: 'disputed' }))).toBe(false);
+      expect(shouldNotify(makeReport())).toBe(true);
+    });
+  });
+
+  describe('notifyNewReport', () => {
+    it('should claim and dispatch on every configured channel', async () => {
+      const report = makeReport();
+      await notifyNewReport(report);
+
+      expect(claimReportForAlert).toHaveBeenCalledWith(report.id, 'push');
+      expect(claimReportForAlert).toHaveBeenCalledWith(report.id, 'email');
+      expect(dispatchPushForReport).toHaveBeenCalledWith(report);
+      expect(dispatchEmailForReport).toHaveBeenCalledWith(report);
+      expect(publishWebhookEvent).toHaveBeenCalledWith('new_report', report);
+    });
+
+    it('should skip channels that are not configured', async () => {
+      vi.mocked(isPushConfigured).mockReturnValue(false);
+      await notifyNewReport(makeReport());
+
+      expect(getEnabledAlertChannels()).toEqual(['email', 'webhook']);
+      expect(claimReportForAlert).not.toHaveBeenCalledWith(expect.anything(), 'push');
+      expect(dispatchPushForReport).not.toHaveBeenCalled();
+    });
+
+    it('should not send twice once another dispatcher claimed the report', async () => {
+      vi.mocked(claimReportForAlert).mockResolvedValue(false);
+      await notifyNewReport(makeReport());
+
+      expect(dispatchPushForReport).not.toHaveBeenCalled();
+      expect(dispatchEmailForReport).not.toHaveBeenCalled();
+    });
+
+    it('should skip reports flagged for review', async () => {
+      await notifyNewReport(makeReport({ metadata: { needs_review: true } }));
+
+      expect(dispatchPushForReport).not.toHaveBeenCalled();
+      expect(dispatchEmailForReport).not.toHaveBeenCalled();
+    });
+
+    it('should keep other channels going when one fails', async () => {
+      vi.mocked(dispatchPushForReport).mockRejectedValueOnce(new Error('boom'));
+      await notifyNewReport(makeReport());
+
+      expect(dispatchEmailForReport).toHaveBeenCalled();
+    });
+  });
+});
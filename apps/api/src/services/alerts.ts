@@ -0,0 +1,105 @@
+import {
+  claimReportForAlert,
+  claimPendingAlertReports,
+  type AlertChannel,
+  type Report
+} from '@ice-activity-map/database';
+import { isPushConfigured, dispatchPushForReport } from './push.js';
+import { isEmailConfigured, dispatchEmailForReport } from './email-alerts.js';
+import { isWebhooksEnabled, publishWebhookEvent } from './webhooks.js';
+import { logger } from '../utils/logger.js';
+
+const MAX_REPORT_AGE_HOURS = parseInt(process.env.ALERT_MAX_REPORT_AGE_HOURS || '24', 10);
+const SWEEP_INTERVAL_MS = parseInt(process.env.ALERT_DISPATCH_INTERVAL_MS || '30000', 10);
+
+interface AlertChannelHandler {
+  isConfigured: () => boolean;
+  dispatch: (report: Report) => Promise<unknown>;
+}
+
+const CHANNELS: Record<AlertChannel, AlertChannelHandler> = {
+  push: { isConfigured: isPushConfigured, dispatch: dispatchPushForReport },
+  email: { isConfigured: isEmailConfigured, dispatch: dispatchEmailForReport },
+  webhook: { isConfigured: isWebhooksEnabled, dispatch: (report) => publishWebhookEvent('new_report', report) }
+};
+
+/**
+ * Channels that can deliver with the current configuration
+ */
+export function getEnabledAlertChannels(): AlertChannel[] {
+  return (Object.keys(CHANNELS) as AlertChannel[]).filter((channel) => CHANNELS[channel].isConfigured());
+}
+
+/**
+ * Whether a report should trigger alerts at all. Old articles and
+ * low-confidence ingested posts are kept off subscribers' lock screens.
+ */
+export function shouldNotify(report: Report): boolean {
+  if (report.status === 'disputed') return false;
+  if (report.metadata?.needs_review === true) return false;
+
+  const ageHours = (Date.now() - new Date(report.reportedAt).getTime()) / (60 * 60 * 1000);
+  return ageHours <= MAX_REPORT_AGE_HOURS;
+}
+
+async function dispatch(channel: AlertChannel, report: Report): Promise<void> {
+  if (!shouldNotify(report)) return;
+
+  try {
+    await CHANNELS[channel].dispatch(report);
+  } catch (error) {
+    logger.error('Alert dispatch failed', { channel, reportId: report.id, error: (error as Error).message });
+  }
+}
+
+/**
+ * Dispatch a report we just created ourselves. The claim keeps the
+ * background sweep from sending it a second time.
+ */
+export async function notifyNewReport(report: Report): Promise<void> {
+  await Promise.all(getEnabledAlertChannels().map(async (channel) => {
+    try {
+      if (await claimReportForAlert(report.id, channel)) {
+        await dispatch(channel, report);
+      }
+    } catch (error) {
+      logger.error('Alert claim failed', { channel, reportId: report.id, error: (error as Error).message });
+    }
+  }));
+}
+
+/**
+ * Periodically pick up reports written by other processes (ingestion)
+ * and alert on them. Returns a function that stops the sweep, or null
+ * when no channel is configured.
+ */
+export function startAlertDispatcher(intervalMs = SWEEP_INTERVAL_MS): (() => void) | null {
+  const channels = getEnabledAlertChannels();
+  if (channels.length === 0) return null;
+
+  let running = false;
+
+  const sweep = async () => {
+    if (running) return;
+    running = true;
+    try {
+      for (const channel of channels) {
+        try {
+          const reports = await claimPendingAlertReports(channel);
+          for (const report of reports) {
+            await dispatch(channel, report);
+          }
+        } catch (error) {
+          logger.error('Alert sweep failed', { channel, error: (error as Error).message });
+        }
+      }
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(sweep, intervalMs);
+  logger.info('Alert dispatcher started', { intervalMs, channels });
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { Report, EmailSubscription } from '@ice-activity-map/database';
+
+vi.mock('@ice-activity-map/database', () => ({
+  getEmailSubscriptionsByLocation: vi.fn(),
+  updateEmailLastNotified: vi.fn().mockResolvedValue(undefined)
+}));
+
+import { getEmailSubscriptionsByLocation, updateEmailLastNotified } from '@ice-activity-map/database';
+import { dispatchEmailForReport, sendVerificationEmail } from './email-alerts.js';
+import { renderAlertEmail } from './email-templates.js';
+import { setMailTransport, createFileTransport, type MailMessage, type MailTransport } from './mail.js';
+
+function makeSubscription(overrides: Partial<EmailSubscription> = {}): EmailSubscription {
+  return {
+    id: 'sub-1',
+    email: 'volunteer@example.com',
+    latitude: 34.0522,
+    longitude: -118.2437,
+    radiusKm: 25,
+    areas: null,
+    activityTypes: ['raid', 'checkpoint'],
+    frequency: 'instant',
+    sendHour: 8,
+    timezone: 'UTC',
+    isVerified: true,
+    verificationToken: null,
+    unsubscribeToken: 'unsub-token-1',
+    createdAt: new Date(),
+    verifiedAt: new Date(),
+    lastNotifiedAt: null,
+    ...overrides
+  };
+}
+
+function makeReport(overrides: Partial<Report> = {}): Report {
+  return {
+    id: '5b1f3c9e-8a2d-4c71-9e0f-1a2b3c4d5e6f',
+    sourceType: 'user_submitted',
+    sourceId: null,
+    activityType: 'raid',
+    description: 'Agents at the apartment complex on Main Street',
+    city: 'Los Angeles',
+    state: 'CA',
+    latitude: 34.0522,
+    longitude: -118.2437,
+    authorHandle: 'tester',
+    authorDisplayName: null,
+    photoUrl: null,
+    status: 'unverified',
+    metadata: {},
+    reportedAt: new Date(),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  };
+}
+
+describe('Email alerts', () => {
+  const sent: MailMessage[] = [];
+  const captureTransport: MailTransport = {
+    name: 'capture',
+    async send(message) {
+      if (message.to.startsWith('bounce')) throw new Error('550 mailbox unavailable');
+      sent.push(message);
+    }
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    sent.length = 0;
+    process.env.API_PUBLIC_URL = 'https://api.example.org';
+    process.env.PUBLIC_WEB_URL = 'https://map.example.org';
+    setMailTransport(captureTransport);
+  });
+
+  afterEach(() => {
+    setMailTransport(null);
+    delete process.env.API_PUBLIC_URL;
+    delete process.env.PUBLIC_WEB_URL;
+  });
+
+  describe('sendVerificationEmail', () => {
+    it('should send the verify and unsubscribe links', async () => {
+      await sendVerificationEmail(makeSubscription({ isVerified: false, verificationToken: 'verify-token-1' }));
+
+      expect(sent).toHaveLength(1);
+      expect(sent[0].to).toBe('volunteer@example.com');
+      expect(sent[0].text).toContain('https://api.example.org/api/email-subscriptions/verify/verify-token-1');
+      expect(sent[0].html).toContain('https://api.example.org/api/email-subscriptions/verify/verify-token-1');
+      expect(sent[0].headers?.['List-Unsubscribe']).toBe(
+        '<https://api.example.org/api/email-subscriptions/unsubscribe/unsub-token-1>'
+      );
+    });
+  });
+
+  describe('renderAlertEmail', () => {
+    it('should link the report and escape user-supplied text', () => {
+      const message = renderAlertEmail(
+        makeReport({ description: '<script>alert(1)</script> at the corner' }),
+        makeSubscription()
+      );
+
+      expect(message.subject).toBe('Raid reported near Los Angeles, CA');
+      expect(message.text).toContain('https://map.example.org/?report=5b1f3c9e-8a2d-4c71-9e0f-1a2b3c4d5e6f');
+      expect(message.html).not.toContain('<script>');
+      expect(message.html).toContain('&lt;script&gt;');
+      expect(message.html).toContain('/api/email-subscriptions/unsubscribe/unsub-token-1');
+    });
+  });
+
+  describe('dispatchEmailForReport', () => {
+    it('should email every matching subscriber and count failures', async () => {
+      vi.mocked(getEmailSubscriptionsByLocation).mockResolvedValue([
+        makeSubscription({ id: 'sub-ok' }),
+        makeSubscription({ id: 'sub-bounce', email: 'bounce@example.com' })
+      ]);
+
+      const summary = await dispatchEmailForReport(makeReport());
+
+      expect(getEmailSubscriptionsByLocation).toHaveBeenCalledWith(34.0522, -118.2437, 'raid');
+      expect(summary).toMatchObject({ matched: 2, sent: 1, failed: 1 });
+      expect(sent.map((m) => m.to)).toEqual(['volunteer@example.com']);
+      expect(updateEmailLastNotified).toHaveBeenCalledTimes(1);
+      expect(updateEmailLastNotified).toHaveBeenCalledWith('sub-ok');
+    });
+  });
+
+  describe('file transport', () => {
+    it('should write messages to the outbox as .eml files', async () => {
+      const dir = await mkdtemp(path.join(tmpdir(), 'mail-outbox-'));
+      try {
+        setMailTransport(createFileTransport(dir));
+        await sendVerificationEmail(makeSubscription({ verificationToken: 'verify-token-2' }));
+
+        const files = await readdir(dir);
+        expect(files).toHaveLength(1);
+        expect(files[0]).toMatch(/\.eml$/);
+
+        const raw = await readFile(path.join(dir, files[0]), 'utf8');
+        expect(raw).toContain('To: volunteer@example.com');
+        expect(raw).toContain('List-Unsubscribe:');
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
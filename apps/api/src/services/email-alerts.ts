@@ -0,0 +1,68 @@
+import {
+  getEmailSubscriptionsByLocation,
+  updateEmailLastNotified,
+  type Report,
+  type EmailSubscription
+} from '@ice-activity-map/database';
+import { sendMail } from './mail.js';
+import { renderVerificationEmail, renderAlertEmail } from './email-templates.js';
+import { logger } from '../utils/logger.js';
+
+const SEND_CONCURRENCY = 5;
+
+export interface EmailDispatchSummary {
+  reportId: string;
+  matched: number;
+  sent: number;
+  failed: number;
+}
+
+/**
+ * Alerts only go out once a real transport has been chosen, so a bare
+ * development setup never mails (or logs) subscriber addresses by surprise.
+ */
+export function isEmailConfigured(): boolean {
+  return !!(process.env.MAIL_TRANSPORT || process.env.SMTP_HOST);
+}
+
+/**
+ * Send the double opt-in link for a new or changed subscription
+ */
+export async function sendVerificationEmail(subscription: EmailSubscription): Promise<void> {
+  await sendMail(renderVerificationEmail(subscription));
+}
+
+/**
+ * Email a report to every verified subscription whose area and activity
+ * types match it
+ */
+export async function dispatchEmailForReport(report: Report): Promise<EmailDispatchSummary> {
+  const summary: EmailDispatchSummary = { reportId: report.id, matched: 0, sent: 0, failed: 0 };
+
+  const subscriptions = await getEmailSubscriptionsByLocation(report.latitude, report.longitude, report.activityType);
+  summary.matched = subscriptions.length;
+
+  for (let i = 0; i < subscriptions.length; i += SEND_CONCURRENCY) {
+    const batch = subscriptions.slice(i, i + SEND_CONCURRENCY);
+
+    await Promise.all(batch.map(async (subscription) => {
+      try {
+        await sendMail(renderAlertEmail(report, subscription));
+        await updateEmailLastNotified(subscription.id);
+        summary.sent++;
+      } catch (error) {
+        summary.failed++;
+        logger.warn('Alert email failed', {
+          reportId: report.id,
+          subscriptionId: subscription.id,
+          error: (error as Error).message
+        });
+      }
+    }));
+  }
+
+  if (summary.matched > 0) {
+    logger.info('Email dispatch complete', { ...summary });
+  }
+  return summary;
+}
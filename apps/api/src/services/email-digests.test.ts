@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Report, EmailSubscription } from '@ice-activity-map/database';
+
+vi.mock('@ice-activity-map/database', () => ({
+  getDigestSubscriptions: vi.fn().mockResolvedValue([]),
+  getReportsForDigest: vi.fn().mockResolvedValue([]),
+  claimEmailDigest: vi.fn().mockResolvedValue(true),
+  getEmailSubscriptionsByLocation: vi.fn()
+}));
+
+import { claimEmailDigest, getDigestSubscriptions, getReportsForDigest } from '@ice-activity-map/database';
+import { getDigestWindow, groupDigestReports, sendDigest, runDigestJob } from './email-digests.js';
+import { setMailTransport, type MailMessage } from './mail.js';
+
+function makeSubscription(overrides: Partial<EmailSubscription> = {}): EmailSubscription {
+  return {
+    id: 'sub-1',
+    email: 'volunteer@example.com',
+    latitude: 34.0522,
+    longitude: -118.2437,
+    radiusKm: 25,
+    areas: null,
+    activityTypes: ['raid', 'arrest'],
+    frequency: 'daily',
+    sendHour: 8,
+    timezone: 'America/Los_Angeles',
+    isVerified: true,
+    verificationToken: null,
+    unsubscribeToken: 'unsub-token-1',
+    createdAt: new Date('2026-03-01T00:00:00Z'),
+    verifiedAt: new Date('2026-03-01T00:00:00Z'),
+    lastNotifiedAt: null,
+    ...overrides
+  };
+}
+
+let reportSeq = 0;
+function makeReport(overrides: Partial<Report> = {}): Report {
+  reportSeq++;
+  return {
+    id: `00000000-0000-4000-8000-${String(reportSeq).padStart(12, '0')}`,
+    sourceType: 'user_submitted',
+    sourceId: null,
+    activityType: 'raid',
+    description: `Report number ${reportSeq}`,
+    city: 'Los Angeles',
+    state: 'CA',
+    latitude: 34.0522,
+    longitude: -118.2437,
+    authorHandle: 'tester',
+    authorDisplayName: null,
+    photoUrl: null,
+    status: 'unverified',
+    metadata: {},
+    reportedAt: new Date('2026-03-10T12:00:00Z'),
+    createdAt: new Date('2026-03-10T12:00:00Z'),
+    updatedAt: new Date('2026-03-10T12:00:00Z'),
+    ...overrides
+  };
+}
+
+// 2026-03-11 08:30 in Los Angeles (PDT, UTC-7)
+const AFTER_SEND_HOUR = new Date('2026-03-11T15:30:00Z');
+// 2026-03-11 07:30 in Los Angeles
+const BEFORE_SEND_HOUR = new Date('2026-03-11T14:30:00Z');
+
+describe('Email digests', () => {
+  const sent: MailMessage[] = [];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getReportsForDigest).mockResolvedValue([]);
+    sent.length = 0;
+    setMailTransport({ name: 'capture', send: async (message) => { sent.push(message); } });
+  });
+
+  afterEach(() => {
+    setMailTransport(null);
+  });
+
+  describe('getDigestWindow', () => {
+    it('should be due once the send hour passes in the subscriber time zone', () => {
+      const lastNotifiedAt = new Date('2026-03-10T15:05:00Z');
+      const subscription = makeSubscription({ lastNotifiedAt });
+
+      expect(getDigestWindow(subscription, BEFORE_SEND_HOUR)).toBeNull();
+      expect(getDigestWindow(subscription, AFTER_SEND_HOUR)).toEqual({
+        since: lastNotifiedAt,
+        until: AFTER_SEND_HOUR
+      });
+    });
+
+    it('should not send twice for the same slot', () => {
+      const subscription = makeSubscription({ lastNotifiedAt: new Date('2026-03-11T15:10:00Z') });
+      expect(getDigestWindow(subscription, AFTER_SEND_HOUR)).toBeNull();
+    });
+
+    it('should wait most of a week between weekly digests', () => {
+      const weekly = makeSubscription({ frequency: 'weekly', lastNotifiedAt: new Date('2026-03-08T15:05:00Z') });
+      expect(getDigestWindow(weekly, AFTER_SEND_HOUR)).toBeNull();
+      expect(getDigestWindow(weekly, new Date('2026-03-15T15:30:00Z'))).not.toBeNull();
+    });
+
+    it('should never schedule instant subscriptions', () => {
+      expect(getDigestWindow(makeSubscription({ frequency: 'instant' }), AFTER_SEND_HOUR)).toBeNull();
+    });
+  });
+
+  describe('groupDigestReports', () => {
+    it('should group by activity type, then city', () => {
+      const groups = groupDigestReports([
+        makeReport({ activityType: 'arrest', city: 'Pasadena' }),
+        makeReport({ activityType: 'raid', city: 'Pasadena' }),
+        makeReport({ activityType: 'raid', city: 'Los Angeles' }),
+        makeReport({ activityType: 'raid', city: 'Los Angeles' })
+      ]);
+
+      expect(groups.map((g) => g.activityType)).toEqual(['raid', 'arrest']);
+      expect(groups[0].cities.map((c) => [c.place, c.reports.length])).toEqual([
+        ['Los Angeles, CA', 2],
+        ['Pasadena, CA', 1]
+      ]);
+    });
+  });
+
+  describe('sendDigest', () => {
+    it('should email reports since the last digest with a link to each', async () => {
+      const reports = [makeReport(), makeReport({ activityType: 'arrest' })];
+      vi.mocked(getReportsForDigest).mockResolvedValue(reports);
+      const subscription = makeSubscription({ lastNotifiedAt: new Date('2026-03-10T15:05:00Z') });
+
+      const result = await sendDigest(subscription, AFTER_SEND_HOUR);
+
+      expect(result).toBe('sent');
+      expect(getReportsForDigest).toHaveBeenCalledWith(expect.objectContaining({
+        subscriptionId: 'sub-1',
+        createdAfter: subscription.lastNotifiedAt,
+        createdBefore: AFTER_SEND_HOUR
+      }));
+      expect(sent).toHaveLength(1);
+      expect(sent[0].subject).toBe('Daily summary: 2 new reports in your area');
+      for (const report of reports) {
+        expect(sent[0].text).toContain(`?report=${report.id}`);
+      }
+      expect(claimEmailDigest).toHaveBeenCalledWith('sub-1', subscription.lastNotifiedAt, AFTER_SEND_HOUR);
+    });
+
+    it('should skip the email but advance the window when nothing happened', async () => {
+      const result = await sendDigest(makeSubscription(), AFTER_SEND_HOUR);
+
+      expect(result).toBe('empty');
+      expect(sent).toHaveLength(0);
+      expect(claimEmailDigest).toHaveBeenCalledWith('sub-1', null, AFTER_SEND_HOUR);
+    });
+
+    it('should not send a digest another replica already claimed', async () => {
+      vi.mocked(getReportsForDigest).mockResolvedValue([makeReport()]);
+      vi.mocked(claimEmailDigest).mockResolvedValueOnce(false);
+
+      const result = await sendDigest(makeSubscription(), AFTER_SEND_HOUR);
+
+      expect(result).toBe('not_due');
+      expect(getReportsForDigest).not.toHaveBeenCalled();
+      expect(sent).toHaveLength(0);
+    });
+
+    it('should hand the window back when the email fails', async () => {
+      vi.mocked(getReportsForDigest).mockResolvedValue([makeReport()]);
+      setMailTransport({ name: 'failing', send: async () => { throw new Error('SMTP down'); } });
+      const lastNotifiedAt = new Date('2026-03-10T15:05:00Z');
+
+      await expect(sendDigest(makeSubscription({ lastNotifiedAt }), AFTER_SEND_HOUR)).rejects.toThrow('SMTP down');
+
+      expect(claimEmailDigest).toHaveBeenLastCalledWith('sub-1', AFTER_SEND_HOUR, lastNotifiedAt);
+    });
+  });
+
+  describe('runDigestJob', () => {
+    it('should only process subscriptions that are due', async () => {
+      vi.mocked(getDigestSubscriptions).mockResolvedValue([
+        makeSubscription({ id: 'due' }),
+        // Got yesterday's 20:00 digest, next one is tonight
+        makeSubscription({ id: 'later', sendHour: 20, lastNotifiedAt: new Date('2026-03-11T03:05:00Z') })
+      ]);
+      vi.mocked(getReportsForDigest).mockResolvedValue([makeReport()]);
+
+      const summary = await runDigestJob(AFTER_SEND_HOUR);
+
+      expect(summary).toEqual({ due: 1, sent: 1, empty: 0, failed: 0 });
+      expect(claimEmailDigest).toHaveBeenCalledTimes(1);
+      expect(claimEmailDigest).toHaveBeenCalledWith('due', null, AFTER_SEND_HOUR);
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import {
+  getDigestSubscriptions,
+  getReportsForDigest,
+  claimEmailDigest,
+  type Report,
+  type EmailSubscription
+} from '@ice-activity-map/database';
+import { sendMail } from './mail.js';
+import { renderDigestEmail, type DigestActivityGroup } from './email-templates.js';
+import { isEmailConfigured } from './email-alerts.js';
+import { logger } from '../utils/logger.js';
+
+const DIGEST_CHECK_INTERVAL_MS = parseInt(process.env.DIGEST_CHECK_INTERVAL_MS || '300000', 10);
+const MAX_REPORT_AGE_HOURS = parseInt(process.env.ALERT_MAX_REPORT_AGE_HOURS || '24', 10);
+const MAX_DIGEST_REPORTS = 100;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const ACTIVITY_ORDER = ['raid', 'arrest', 'checkpoint', 'surveillance', 'other'];
+
+export interface DigestWindow {
+  since: Date;
+  until: Date;
+}
+
+export interface DigestRunSummary {
+  due: number;
+  sent: number;
+  empty: number;
+  failed: number;
+}
+
+function localTime(now: Date, timeZone: string): { hour: number; minute: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23'
+  }).formatToParts(now);
+  const get = (type: string) => parseInt(parts.find((p) => p.type === type)?.value || '0', 10);
+  return { hour: get('hour'), minute: get('minute') };
+}
+
+/**
+ * Most recent send slot at or before now: today's send hour in the
+ * subscriber's time zone, or yesterday's if that hour hasn't come yet
+ */
+function latestSlot(subscription: EmailSubscription, now: Date): Date {
+  const { hour, minute } = localTime(now, subscription.timezone);
+  let minutesSinceSlot = (hour - subscription.sendHour) * 60 + minute;
+  if (minutesSinceSlot < 0) minutesSinceSlot += 24 * 60;
+  return new Date(Math.floor(now.getTime() / MINUTE_MS) * MINUTE_MS - minutesSinceSlot * MINUTE_MS);
+}
+
+/**
+ * Work out whether a digest is due and which reports it covers. A digest is
+ * due once per slot; weekly subscribers also need most of a week since the
+ * previous one. Returns null when nothing should be sent yet.
+ */
+export function getDigestWindow(subscription: EmailSubscription, now = new Date()): DigestWindow | null {
+  if (subscription.frequency === 'instant') return null;
+
+  const since = subscription.lastNotifiedAt ?? subscription.verifiedAt ?? subscription.createdAt;
+  const slot = latestSlot(subscription, now);
+
+  if (since.getTime() >= slot.getTime()) return null;
+
+  if (subscription.frequency === 'weekly' && subscription.lastNotifiedAt &&
+      slot.getTime() - subscription.lastNotifiedAt.getTime() < 6 * DAY_MS) {
+    return null;
+  }
+
+  return { since, until: now };
+}
+
+/**
+ * Group reports by activity type, then by city, keeping the newest first
+ */
+export function groupDigestReports(reports: Report[]): DigestActivityGroup[] {
+  const byActivity = new Map<string, Map<string, Report[]>>();
+
+  for (const report of reports) {
+    const place = [report.city, report.state].filter(Boolean).join(', ') || 'Unknown location';
+    const cities = byActivity.get(report.activityType) ?? new Map<string, Report[]>();
+    cities.set(place, [...(cities.get(place) ?? []), report]);
+    byActivity.set(report.activityType, cities);
+  }
+
+  return [...byActivity.entries()]
+    .sort(([a], [b]) => ACTIVITY_ORDER.indexOf(a) - ACTIVITY_ORDER.indexOf(b))
+    .map(([activityType, cities]) => ({
+      activityType: activityType as Report['activityType'],
+      cities: [...cities.entries()]
+        .sort(([a, ar], [b, br]) => br.length - ar.length || a.localeCompare(b))
+        .map(([place, placeReports]) => ({ place, reports: placeReports }))
+    }));
+}
+
+/**
+ * Send one subscriber's digest if it is due. Returns what happened.
+ */
+export async function sendDigest(
+  subscription: EmailSubscription,
+  now = new Date()
+): Promise<'sent' | 'empty' | 'not_due'> {
+  const window = getDigestWindow(subscription, now);
+  if (!window) return 'not_due';
+
+  // Claim the window before sending so only one replica emails it. The
+  // window advances even when empty so quiet periods aren't re-queried.
+  if (!await claimEmailDigest(subscription.id, subscription.lastNotifiedAt, window.until)) {
+    return 'not_due';
+  }
+
+  try {
+    const reports = await getReportsForDigest({
+      subscriptionId: subscription.id,
+      createdAfter: window.since,
+      createdBefore: window.until,
+      // Skip old articles that were only just ingested
+      reportedAfter: new Date(window.since.getTime() - MAX_REPORT_AGE_HOURS * 60 * MINUTE_MS),
+      limit: MAX_DIGEST_REPORTS
+    });
+
+    if (reports.length > 0) {
+      await sendMail(renderDigestEmail(subscription, groupDigestReports(reports), reports.length >= MAX_DIGEST_REPORTS));
+    }
+    return reports.length > 0 ? 'sent' : 'empty';
+  } catch (error) {
+    // Hand the window back so the next check tries again
+    await claimEmailDigest(subscription.id, window.until, subscription.lastNotifiedAt);
+    throw error;
+  }
+}
+
+/**
+ * Send every digest that is due right now
+ */
+export async function runDigestJob(now = new Date()): Promise<DigestRunSummary> {
+  const summary: DigestRunSummary = { due: 0, sent: 0, empty: 0, failed: 0 };
+  const subscriptions = await getDigestSubscriptions();
+
+  for (const subscription of subscriptions) {
+    try {
+      const result = await sendDigest(subscription, now);
+      if (result === 'not_due') continue;
+      summary.due++;
+      summary[result]++;
+    } catch (error) {
+      summary.due++;
+      summary.failed++;
+      logger.warn('Digest email failed', { subscriptionId: subscription.id, error: (error as Error).message });
+    }
+  }
+
+  if (summary.due > 0) {
+    logger.info('Digest run complete', { ...summary });
+  }
+  return summary;
+}
+
+/**
+ * Check for due digests on an interval. Returns a function that stops the
+ * scheduler, or null when no mail transport is configured.
+ */
+export function startDigestScheduler(intervalMs = DIGEST_CHECK_INTERVAL_MS): (() => void) | null {
+  if (!isEmailConfigured()) return null;
+
+  let running = false;
+
+  const check = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runDigestJob();
+    } catch (error) {
+      logger.error('Digest run failed', { error: (error as Error).message });
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(check, intervalMs);
+  logger.info('Digest scheduler started', { intervalMs });
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,224 @@
+import type { Report, EmailSubscription, ActivityType } from '@ice-activity-map/database';
+import type { MailMessage } from './mail.js';
+import { alertTitle, reportUrl, apiUrl } from '../utils/alerts.js';
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function layout(title: string, body: string, footer: string): string {
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>${escapeHtml(title)}</title>
+  </head>
+  <body style="font-family: system-ui, sans-serif; background: #f3f4f6; margin: 0; padding: 24px;">
+    <div style="background: white; border-radius: 12px; padding: 24px; max-width: 560px; margin: 0 auto;">
+      ${body}
+    </div>
+    <p style="color: #6b7280; font-size: 12px; text-align: center; max-width: 560px; margin: 16px auto 0;">
+      ${footer}
+    </p>
+  </body>
+</html>`;
+}
+
+function button(href: string, label: string): string {
+  return `<a href="${escapeHtml(href)}" style="display: inline-block; background: #dc2626; color: white; padding: 10px 18px; border-radius: 8px; text-decoration: none; font-weight: 600;">${escapeHtml(label)}</a>`;
+}
+
+export function unsubscribeUrl(subscription: EmailSubscription): string {
+  return apiUrl(`/api/email-subscriptions/unsubscribe/${subscription.unsubscribeToken}`);
+}
+
+/**
+ * Headers that let mail clients offer their own unsubscribe button
+ */
+function unsubscribeHeaders(subscription: EmailSubscription): Record<string, string> {
+  return { 'List-Unsubscribe': `<${unsubscribeUrl(subscription)}>` };
+}
+
+function describeArea(subscription: EmailSubscription): string {
+  const parts: string[] = [];
+  if (subscription.latitude !== null && subscription.longitude !== null) {
+    parts.push(`within ${subscription.radiusKm} km of ${subscription.latitude.toFixed(3)}, ${subscription.longitude.toFixed(3)}`);
+  }
+  const areaCount = subscription.areas?.length ?? 0;
+  if (areaCount > 0) {
+    parts.push(`inside ${areaCount === 1 ? 'the area' : `the ${areaCount} areas`} you drew`);
+  }
+  return parts.length > 0 ? parts.join(' or ') : 'in all areas';
+}
+
+function describeDelivery(subscription: EmailSubscription): string {
+  if (subscription.frequency === 'instant') {
+    return 'an email for each new report';
+  }
+  const hour = `${String(subscription.sendHour).padStart(2, '0')}:00 (${subscription.timezone})`;
+  return subscription.frequency === 'daily'
+    ? `a daily summary at ${hour}`
+    : `a weekly summary at ${hour}`;
+}
+
+export function renderVerificationEmail(subscription: EmailSubscription): MailMessage {
+  const verifyUrl = apiUrl(`/api/email-subscriptions/verify/${subscription.verificationToken}`);
+  const unsubscribe = unsubscribeUrl(subscription);
+  const area = describeArea(subscription);
+  const types = subscription.activityTypes.join(', ');
+  const delivery = describeDelivery(subscription);
+
+  const text = [
+    'Confirm your ICE Activity Map alerts',
+    '',
+    `You asked to receive email alerts for ${types} reports ${area}.`,
+    `You will get ${delivery}.`,
+    'Confirm your address to start receiving them:',
+    verifyUrl,
+    '',
+    'If you did not sign up, ignore this email and nothing will be sent.',
+    `Unsubscribe: ${unsubscribe}`
+  ].join('\n');
+
+  const html = layout(
+    'Confirm your alerts',
+    `<h1 style="margin: 0 0 12px; font-size: 20px; color: #111827;">Confirm your alerts</h1>
+      <p style="color: #374151;">You asked to receive email alerts for ${escapeHtml(types)} reports ${escapeHtml(area)}.
+        You will get ${escapeHtml(delivery)}.</p>
+      <p style="margin: 24px 0;">${button(verifyUrl, 'Confirm email')}</p>
+      <p style="color: #6b7280; font-size: 14px;">If you did not sign up, ignore this email and nothing will be sent.</p>`,
+    `<a href="${escapeHtml(unsubscribe)}" style="color: #6b7280;">Unsubscribe</a>`
+  );
+
+  return {
+    to: subscription.email,
+    subject: 'Confirm your ICE Activity Map alerts',
+    text,
+    html,
+    headers: unsubscribeHeaders(subscription)
+  };
+}
+
+export function renderAlertEmail(report: Report, subscription: EmailSubscription): MailMessage {
+  const title = alertTitle(report);
+  const link = reportUrl(report.id);
+  const unsubscribe = unsubscribeUrl(subscription);
+  const reportedAt = new Date(report.reportedAt).toUTCString();
+
+  const text = [
+    title,
+    '',
+    report.description,
+    '',
+    `Reported: ${reportedAt}`,
+    `Status: ${report.status}`,
+    `View on the map: ${link}`,
+    '',
+    'Reports are unconfirmed until verified by the community. Stay safe and know your rights.',
+    `Unsubscribe: ${unsubscribe}`
+  ].join('\n');
+
+  const html = layout(
+    title,
+    `<h1 style="margin: 0 0 12px; font-size: 20px; color: #111827;">${escapeHtml(title)}</h1>
+      <p style="color: #374151; white-space: pre-line;">${escapeHtml(report.description)}</p>
+      <p style="color: #6b7280; font-size: 14px;">Reported ${escapeHtml(reportedAt)} &middot; ${escapeHtml(report.status)}</p>
+      <p style="margin: 24px 0;">${button(link, 'View on the map')}</p>
+      <p style="color: #6b7280; font-size: 14px;">Reports are unconfirmed until verified by the community. Stay safe and know your rights.</p>`,
+    `You receive this because you subscribed to alerts ${escapeHtml(describeArea(subscription))}. <a href="${escapeHtml(unsubscribe)}" style="color: #6b7280;">Unsubscribe</a>`
+  );
+
+  return {
+    to: subscription.email,
+    subject: title,
+    text,
+    html,
+    headers: unsubscribeHeaders(subscription)
+  };
+}
+
+export interface DigestCityGroup {
+  place: string;
+  reports: Report[];
+}
+
+export interface DigestActivityGroup {
+  activityType: ActivityType;
+  cities: DigestCityGroup[];
+}
+
+const ACTIVITY_LABELS: Record<string, string> = {
+  raid: 'Raids',
+  checkpoint: 'Checkpoints',
+  arrest: 'Arrests',
+  surveillance: 'Surveillance',
+  other: 'Other activity'
+};
+
+function summarize(description: string): string {
+  return description.length > 200 ? `${description.slice(0, 197)}...` : description;
+}
+
+export function renderDigestEmail(
+  subscription: EmailSubscription,
+  groups: DigestActivityGroup[],
+  truncated = false
+): MailMessage {
+  const count = groups.reduce(
+    (sum, group) => sum + group.cities.reduce((n, city) => n + city.reports.length, 0),
+    0
+  );
+  const period = subscription.frequency === 'weekly' ? 'Weekly' : 'Daily';
+  const subject = `${period} summary: ${count} new ${count === 1 ? 'report' : 'reports'} in your area`;
+  const unsubscribe = unsubscribeUrl(subscription);
+  const moreNote = 'More reports are available on the map.';
+
+  const textLines = [subject, ''];
+  const htmlSections: string[] = [];
+
+  for (const group of groups) {
+    const label = ACTIVITY_LABELS[group.activityType] || ACTIVITY_LABELS.other;
+    textLines.push(label.toUpperCase());
+    const htmlCities: string[] = [];
+
+    for (const city of group.cities) {
+      textLines.push(`  ${city.place}`);
+      const items = city.reports.map((report) => {
+        const link = reportUrl(report.id);
+        textLines.push(`  - ${summarize(report.description)}`, `    ${link}`);
+        return `<li style="margin-bottom: 8px;"><a href="${escapeHtml(link)}" style="color: #111827;">${escapeHtml(summarize(report.description))}</a>
+            <span style="color: #6b7280; font-size: 12px;">&middot; ${escapeHtml(new Date(report.reportedAt).toUTCString())}</span></li>`;
+      });
+      htmlCities.push(`<h3 style="margin: 12px 0 4px; font-size: 14px; color: #374151;">${escapeHtml(city.place)}</h3>
+          <ul style="margin: 0; padding-left: 20px; color: #374151;">${items.join('')}</ul>`);
+    }
+
+    textLines.push('');
+    htmlSections.push(`<h2 style="margin: 20px 0 4px; font-size: 16px; color: #dc2626;">${escapeHtml(label)}</h2>${htmlCities.join('')}`);
+  }
+
+  if (truncated) textLines.push(moreNote, '');
+  textLines.push(`Unsubscribe: ${unsubscribe}`);
+
+  const html = layout(
+    subject,
+    `<h1 style="margin: 0 0 12px; font-size: 20px; color: #111827;">${escapeHtml(subject)}</h1>
+      ${htmlSections.join('')}
+      ${truncated ? `<p style="color: #6b7280; font-size: 14px;">${moreNote}</p>` : ''}`,
+    `You receive this because you subscribed to alerts ${escapeHtml(describeArea(subscription))}. <a href="${escapeHtml(unsubscribe)}" style="color: #6b7280;">Unsubscribe</a>`
+  );
+
+  return {
+    to: subscription.email,
+    subject,
+    text: textLines.join('\n'),
+    html,
+    headers: unsubscribeHeaders(subscription)
+  };
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import type { ReportLabel } from '@ice-activity-map/database';
+import { labelsToCorpus } from './label-export.js';
+
+function label(overrides: Partial<ReportLabel>): ReportLabel {
+  return {
+    id: 'label-1',
+    reportId: 'report-1',
+    label: 'not_sighting',
+    text: 'ICE agents at the bus stop on Main St',
+    sourceType: 'bluesky',
+    sourceId: 'at://post/1',
+    authorHandle: 'someone.bsky.social',
+    reportedCity: 'Houston',
+    reportedState: 'TX',
+    reportedActivityType: 'raid',
+    correctedCity: null,
+    correctedState: null,
+    correctedActivityType: null,
+    language: null,
+    moderator: 'admin',
+    notes: null,
+    createdAt: new Date('2026-10-19T00:00:00Z'),
+    updatedAt: new Date('2026-10-19T00:00:00Z'),
+    ...overrides
+  };
+}
+
+describe('labelsToCorpus', () => {
+  it('should turn a not-a-sighting label into an irrelevant example', () => {
+    const corpus = labelsToCorpus([label({})], '2026-10-19');
+
+    expect(corpus).toEqual({
+      formatVersion: 1,
+      revision: '2026-10-19',
+      examples: [{
+        id: 'moderated-report-1',
+        text: 'ICE agents at the bus stop on Main St',
+        source: 'bluesky',
+        language: 'und',
+        author: 'someone.bsky.social',
+        relevant: false
+      }]
+    });
+  });
+
+  it('should merge every label on a report into one example with only the judged fields', () => {
+    const corpus = labelsToCorpus([
+      label({ id: 'label-1', label: 'wrong_location', correctedCity: 'Dallas', correctedState: 'TX', language: 'en' }),
+      label({ id: 'label-2', label: 'wrong_activity_type', correctedActivityType: 'checkpoint' }),
+      label({ id: 'label-3', reportId: 'report-2', label: 'wrong_location' })
+    ], '2026-10-19');
+
+    expect(corpus.examples).toEqual([
+      expect.objectContaining({
+        id: 'moderated-report-1',
+        language: 'en',
+        relevant: true,
+        location: { city: 'Dallas', state: 'TX' },
+        activityType: 'checkpoint'
+      }),
+      expect.objectContaining({ id: 'moderated-report-2', relevant: true, location: null })
+    ]);
+    expect(corpus.examples[1]).not.toHaveProperty('activityType');
+  });
+});
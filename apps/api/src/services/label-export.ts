@@ -0,0 +1,64 @@
+import type { ActivityType, ReportLabel } from '@ice-activity-map/database';
+
+// Same layout as the ingestion evaluation corpus (apps/ingestion/src/evaluation/corpus.ts),
+// so an export can be merged straight into it with `npm run eval -- --import`
+export interface CorpusExample {
+  id: string;
+  text: string;
+  source: string;
+  language: string;
+  author?: string;
+  relevant: boolean;
+  location?: { city: string | null; state: string | null } | null;
+  activityType?: ActivityType;
+}
+
+export interface LabelCorpus {
+  formatVersion: 1;
+  revision: string;
+  examples: CorpusExample[];
+}
+
+/**
+ * Turn moderator labels into corpus examples, one per report. Only what a
+ * moderator actually judged is labeled: a report marked "wrong location"
+ * gets the corrected location but no activity type, and any report without
+ * a "not a sighting" label counts as a real sighting.
+ */
+export function labelsToCorpus(labels: ReportLabel[], revision: string): LabelCorpus {
+  const byReport = new Map<string, ReportLabel[]>();
+  for (const label of labels) {
+    const key = label.reportId ?? label.id;
+    byReport.set(key, [...(byReport.get(key) ?? []), label]);
+  }
+
+  const examples = [...byReport.entries()].map(([key, group]): CorpusExample => {
+    const first = group[0];
+    const find = (kind: ReportLabel['label']) => group.find((label) => label.label === kind);
+
+    const example: CorpusExample = {
+      id: `moderated-${key}`,
+      text: first.text,
+      source: first.sourceType,
+      language: group.find((label) => label.language)?.language ?? 'und',
+      relevant: !find('not_sighting')
+    };
+    if (first.authorHandle) example.author = first.authorHandle;
+
+    const location = find('wrong_location');
+    if (location) {
+      example.location = location.correctedCity || location.correctedState
+        ? { city: location.correctedCity, state: location.correctedState }
+        : null;
+    }
+
+    const activity = find('wrong_activity_type');
+    if (activity?.correctedActivityType) {
+      example.activityType = activity.correctedActivityType;
+    }
+
+    return example;
+  });
+
+  return { formatVersion: 1, revision, examples };
+}
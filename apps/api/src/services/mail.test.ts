@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { checkMailConfig, MailConfigError } from './mail.js';
+
+describe('checkMailConfig', () => {
+  it('should allow logging mail outside production', () => {
+    expect(() => checkMailConfig({ NODE_ENV: 'development' })).not.toThrow();
+  });
+
+  it('should refuse production without a transport', () => {
+    expect(() => checkMailConfig({ NODE_ENV: 'production' })).toThrow(MailConfigError);
+    expect(() => checkMailConfig({
+      NODE_ENV: 'production',
+      MAIL_TRANSPORT: 'console',
+      PUBLIC_WEB_URL: 'https://map.example.org'
+    })).not.toThrow();
+    expect(() => checkMailConfig({
+      NODE_ENV: 'production',
+      SMTP_HOST: 'smtp.example.org',
+      PUBLIC_WEB_URL: 'https://map.example.org'
+    })).not.toThrow();
+  });
+
+  it('should require PUBLIC_WEB_URL once mail is enabled', () => {
+    expect(() => checkMailConfig({ SMTP_HOST: 'smtp.example.org', CORS_ORIGIN: '*' })).toThrow(/PUBLIC_WEB_URL/);
+  });
+
+  it('should reject an unknown transport', () => {
+    expect(() => checkMailConfig({ MAIL_TRANSPORT: 'pigeon', PUBLIC_WEB_URL: 'https://map.example.org' })).toThrow(/pigeon/);
+  });
+});
@@ -0,0 +1,151 @@
+import nodemailer from 'nodemailer';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { logger } from '../utils/logger.js';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Anything that can deliver a rendered message. Custom transports can be
+ * installed with setMailTransport().
+ */
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Send through an SMTP relay (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS)
+ */
+export function createSmtpTransport(): MailTransport {
+  const port = parseInt(process.env.SMTP_PORT || '587', 10);
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined
+  });
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      await transporter.sendMail(message);
+    }
+  };
+}
+
+/**
+ * Write each message as an .eml file, openable in any mail client.
+ * Meant for local testing without a mail server.
+ */
+export function createFileTransport(dir = process.env.MAIL_OUTBOX_DIR || './mail-outbox'): MailTransport {
+  const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  return {
+    name: 'file',
+    async send(message) {
+      const info = await transporter.sendMail(message);
+      await mkdir(dir, { recursive: true });
+      const file = path.join(dir, `${Date.now()}-${randomUUID()}.eml`);
+      await writeFile(file, info.message as Buffer);
+      logger.debug('Mail written to outbox', { to: message.to, file });
+    }
+  };
+}
+
+/**
+ * Print messages to the log instead of sending them. The log then holds
+ * subscriber addresses and their verification and unsubscribe tokens, so
+ * production only gets this with MAIL_TRANSPORT=console.
+ */
+export function createConsoleTransport(): MailTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      console.log(`[Mail] To: ${message.to}\n[Mail] Subject: ${message.subject}\n${message.text}\n`);
+    }
+  };
+}
+
+/**
+ * Mail settings that would lose mail or send broken links
+ */
+export class MailConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MailConfigError';
+  }
+}
+
+/**
+ * MAIL_TRANSPORT, else smtp with SMTP_HOST, else console outside production
+ */
+function transportKind(env: NodeJS.ProcessEnv): string {
+  const kind = env.MAIL_TRANSPORT || (env.SMTP_HOST ? 'smtp' : undefined);
+  if (kind) return kind;
+  if (env.NODE_ENV === 'production') {
+    throw new MailConfigError('No mail transport configured: set SMTP_HOST, or MAIL_TRANSPORT=console to log mail instead of sending it');
+  }
+  return 'console';
+}
+
+/**
+ * Throws at startup rather than on the first sign-up: production needs a
+ * transport, and a transport that mails out links needs PUBLIC_WEB_URL
+ * (CORS_ORIGIN can be a list or "*")
+ */
+export function checkMailConfig(env: NodeJS.ProcessEnv = process.env): void {
+  const kind = transportKind(env);
+  if (!['smtp', 'file', 'console'].includes(kind)) {
+    throw new MailConfigError(`Unknown MAIL_TRANSPORT: ${kind}`);
+  }
+  if ((env.MAIL_TRANSPORT || env.SMTP_HOST) && !env.PUBLIC_WEB_URL) {
+    throw new MailConfigError('PUBLIC_WEB_URL is required when mail is enabled, for the links in emails');
+  }
+}
+
+function createTransportFromEnv(): MailTransport {
+  const kind = transportKind(process.env);
+
+  switch (kind) {
+    case 'smtp':
+      return createSmtpTransport();
+    case 'file':
+      return createFileTransport();
+    case 'console':
+      return createConsoleTransport();
+    default:
+      throw new MailConfigError(`Unknown MAIL_TRANSPORT: ${kind}`);
+  }
+}
+
+let transport: MailTransport | null = null;
+
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    transport = createTransportFromEnv();
+    logger.info('Mail transport initialized', { transport: transport.name });
+  }
+  return transport;
+}
+
+/**
+ * Replace the active transport. Passing null re-reads the environment on next send.
+ */
+export function setMailTransport(next: MailTransport | null): void {
+  transport = next;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  const from = process.env.MAIL_FROM || 'ICE Activity Map <alerts@example.com>';
+  await getMailTransport().send({ ...message, from });
+}
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type Server, type IncomingHttpHeaders } from 'http';
+import type { AddressInfo } from 'net';
+import crypto from 'crypto';
+import webpush from 'web-push';
+import type { Report, PushSubscription } from '@ice-activity-map/database';
+
+vi.mock('@ice-activity-map/database', () => ({
+  getSubscriptionsForReport: vi.fn(),
+  deleteSubscription: vi.fn().mockResolvedValue(true),
+  updateLastNotified: vi.fn().mockResolvedValue(undefined),
+  recordPushDeliveries: vi.fn().mockResolvedValue(undefined)
+}));
+
+import {
+  getSubscriptionsForReport,
+  deleteSubscription,
+  updateLastNotified,
+  recordPushDeliveries
+} from '@ice-activity-map/database';
+import { dispatchPushForReport, sendPush, buildPushPayload } from './push.js';
+
+// Local stand-in for a browser push service: the last path segment picks the response code
+interface ReceivedPush {
+  path: string;
+  headers: IncomingHttpHeaders;
+  body: Buffer;
+}
+
+let server: Server;
+let baseUrl: string;
+const received: ReceivedPush[] = [];
+
+function makeSubscription(id: string, path: string): PushSubscription {
+  const ecdh = crypto.createECDH('prime256v1');
+  ecdh.generateKeys();
+  return {
+    id,
+    endpoint: `${baseUrl}/push/${path}`,
+    p256dh: ecdh.getPublicKey().toString('base64url'),
+    auth: crypto.randomBytes(16).toString('base64url'),
+    latitude: 34.0522,
+    longitude: -118.2437,
+    radiusKm: 50,
+    areas: null,
+    activityTypes: ['raid'],
+    createdAt: new Date(),
+    lastNotifiedAt: null
+  };
+}
+
+function makeReport(overrides: Partial<Report> = {}): Report {
+  return {
+    id: '5b1f3c9e-8a2d-4c71-9e0f-1a2b3c4d5e6f',
+    sourceType: 'user_submitted',
+    sourceId: null,
+    activityType: 'raid',
+    description: 'Agents at the apartment complex on Main Street',
+    city: 'Los Angeles',
+    state: 'CA',
+    latitude: 34.0522,
+    longitude: -118.2437,
+    authorHandle: 'tester',
+    authorDisplayName: null,
+    photoUrl: null,
+    status: 'unverified',
+    metadata: {},
+    reportedAt: new Date(),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  };
+}
+
+describe('Push dispatcher', () => {
+  beforeAll(async () => {
+    const keys = webpush.generateVAPIDKeys();
+    process.env.VAPID_PUBLIC_KEY = keys.publicKey;
+    process.env.VAPID_PRIVATE_KEY = keys.privateKey;
+    process.env.VAPID_SUBJECT = 'mailto:test@example.com';
+
+    server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk) => chunks.push(chunk));
+      req.on('end', () => {
+        received.push({ path: req.url || '', headers: req.headers, body: Buffer.concat(chunks) });
+        const code = parseInt((req.url || '').split('/').pop() || '201', 10);
+        res.writeHead(isNaN(code) ? 201 : code);
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    received.length = 0;
+  });
+
+  describe('sendPush', () => {
+    it('should send an encrypted, VAPID-signed request', async () => {
+      const sub = makeSubscription('sub-1', '201');
+      const result = await sendPush(sub, buildPushPayload(makeReport()));
+
+      expect(result.status).toBe('sent');
+      expect(received).toHaveLength(1);
+      expect(received[0].headers['content-encoding']).toBe('aes128gcm');
+      expect(received[0].headers.authorization).toMatch(/^vapid t=.+, k=.+/);
+      expect(received[0].headers.ttl).toBeDefined();
+      expect(received[0].body.length).toBeGreaterThan(0);
+      // Payload must not travel in plaintext
+      expect(received[0].body.toString()).not.toContain('Main Street');
+    });
+
+    it('should classify 410 Gone as expired', async () => {
+      const result = await sendPush(makeSubscription('sub-1', '410'), buildPushPayload(makeReport()));
+      expect(result).toMatchObject({ status: 'expired', statusCode: 410 });
+    });
+
+    it('should classify server errors as failed', async () => {
+      const result = await sendPush(makeSubscription('sub-1', '500'), buildPushPayload(makeReport()));
+      expect(result).toMatchObject({ status: 'failed', statusCode: 500 });
+    });
+  });
+
+  describe('dispatchPushForReport', () => {
+    it('should deliver, prune gone endpoints and record results', async () => {
+      const ok = makeSubscription('sub-ok', '201');
+      const gone = makeSubscription('sub-gone', '410');
+      const missing = makeSubscription('sub-missing', '404');
+      const broken = makeSubscription('sub-broken', '503');
+      vi.mocked(getSubscriptionsForReport).mockResolvedValue([ok, gone, missing, broken]);
+
+      const summary = await dispatchPushForReport(makeReport());
+
+      expect(summary).toMatchObject({ matched: 4, sent: 1, expired: 2, failed: 1 });
+      expect(getSubscriptionsForReport).toHaveBeenCalledWith(34.0522, -118.2437, 'raid');
+      expect(deleteSubscription).toHaveBeenCalledWith(gone.endpoint);
+      expect(deleteSubscription).toHaveBeenCalledWith(missing.endpoint);
+      expect(deleteSubscription).not.toHaveBeenCalledWith(broken.endpoint);
+      expect(updateLastNotified).toHaveBeenCalledWith(['sub-ok']);
+
+      const deliveries = vi.mocked(recordPushDeliveries).mock.calls[0][0];
+      expect(deliveries.map((d) => [d.subscriptionId, d.status, d.statusCode])).toEqual([
+        ['sub-ok', 'sent', 201],
+        ['sub-gone', 'expired', 410],
+        ['sub-missing', 'expired', 404],
+        ['sub-broken', 'failed', 503]
+      ]);
+    });
+  });
+});
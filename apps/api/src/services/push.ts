@@ -0,0 +1,174 @@
+import webpush from 'web-push';
+import {
+  getSubscriptionsForReport,
+  deleteSubscription,
+  updateLastNotified,
+  recordPushDeliveries,
+  type Report,
+  type PushSubscription,
+  type CreatePushDeliveryInput
+} from '@ice-activity-map/database';
+import { logger } from '../utils/logger.js';
+import { alertTitle, reportUrl } from '../utils/alerts.js';
+
+const PUSH_TTL_SECONDS = 60 * 60; // Drop undelivered alerts after an hour
+const SEND_CONCURRENCY = 10;
+const SEND_TIMEOUT_MS = 10000;
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  url: string;
+  reportId: string;
+  activityType: string;
+  tag: string;
+}
+
+export interface PushSendResult {
+  status: CreatePushDeliveryInput['status'];
+  statusCode?: number;
+  error?: string;
+}
+
+export interface DispatchSummary {
+  reportId: string;
+  matched: number;
+  sent: number;
+  expired: number;
+  failed: number;
+}
+
+/**
+ * Check if VAPID keys are configured
+ */
+export function isPushConfigured(): boolean {
+  return !!(process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY);
+}
+
+function getVapidDetails() {
+  return {
+    subject: process.env.VAPID_SUBJECT || 'mailto:alerts@example.com',
+    publicKey: process.env.VAPID_PUBLIC_KEY!,
+    privateKey: process.env.VAPID_PRIVATE_KEY!
+  };
+}
+
+/**
+ * Build the notification payload the service worker displays
+ */
+export function buildPushPayload(report: Report): PushPayload {
+  const summary = report.description.length > 140
+    ? `${report.description.slice(0, 137)}...`
+    : report.description;
+
+  return {
+    title: alertTitle(report),
+    body: summary,
+    url: reportUrl(report.id),
+    reportId: report.id,
+    activityType: report.activityType,
+    tag: `report-${report.id}`
+  };
+}
+
+/**
+ * Encrypt and send a single VAPID-signed push message.
+ * 404/410 responses mean the browser dropped the subscription.
+ */
+export async function sendPush(
+  subscription: PushSubscription,
+  payload: PushPayload
+): Promise<PushSendResult> {
+  let details: webpush.RequestDetails;
+  try {
+    details = webpush.generateRequestDetails(
+      {
+        endpoint: subscription.endpoint,
+        keys: { p256dh: subscription.p256dh, auth: subscription.auth }
+      },
+      JSON.stringify(payload),
+      {
+        vapidDetails: getVapidDetails(),
+        TTL: PUSH_TTL_SECONDS,
+        urgency: 'high',
+        // Topics are limited to 32 URL-safe characters; a bare UUID fits
+        topic: payload.reportId.replace(/-/g, '')
+      }
+    );
+  } catch (error) {
+    // Malformed keys can never succeed, treat like an expired endpoint
+    return { status: 'expired', error: (error as Error).message };
+  }
+
+  try {
+    const response = await fetch(details.endpoint, {
+      method: details.method,
+      headers: details.headers,
+      body: details.body,
+      signal: AbortSignal.timeout(SEND_TIMEOUT_MS)
+    });
+
+    if (response.ok) {
+      return { status: 'sent', statusCode: response.status };
+    }
+
+    const text = await response.text().catch(() => '');
+    if (response.status === 404 || response.status === 410) {
+      return { status: 'expired', statusCode: response.status, error: text || undefined };
+    }
+    return { status: 'failed', statusCode: response.status, error: text || `HTTP ${response.status}` };
+  } catch (error) {
+    return { status: 'failed', error: (error as Error).message };
+  }
+}
+
+/**
+ * Send a report to every matching subscription, prune gone endpoints
+ * and record the outcome of each delivery.
+ */
+export async function dispatchPushForReport(report: Report): Promise<DispatchSummary> {
+  const summary: DispatchSummary = { reportId: report.id, matched: 0, sent: 0, expired: 0, failed: 0 };
+
+  if (!isPushConfigured()) {
+    return summary;
+  }
+
+  const subscriptions = await getSubscriptionsForReport(report.latitude, report.longitude, report.activityType);
+  summary.matched = subscriptions.length;
+  if (subscriptions.length === 0) {
+    return summary;
+  }
+
+  const payload = buildPushPayload(report);
+  const deliveries: CreatePushDeliveryInput[] = [];
+
+  for (let i = 0; i < subscriptions.length; i += SEND_CONCURRENCY) {
+    const batch = subscriptions.slice(i, i + SEND_CONCURRENCY);
+    const results = await Promise.all(batch.map((sub) => sendPush(sub, payload)));
+
+    results.forEach((result, j) => {
+      deliveries.push({
+        reportId: report.id,
+        subscriptionId: batch[j].id,
+        endpoint: batch[j].endpoint,
+        ...result
+      });
+    });
+  }
+
+  const sentIds: string[] = [];
+  for (const delivery of deliveries) {
+    summary[delivery.status]++;
+    if (delivery.status === 'sent') {
+      sentIds.push(delivery.subscriptionId);
+    } else if (delivery.status === 'expired') {
+      await deleteSubscription(delivery.endpoint);
+    }
+  }
+
+  await updateLastNotified(sentIds);
+  await recordPushDeliveries(deliveries);
+
+  logger.info('Push dispatch complete', { ...summary });
+  return summary;
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@ice-activity-map/database', () => ({
+  listenForReportChanges: vi.fn(),
+  getReportById: vi.fn()
+}));
+
+vi.mock('./websocket.js', () => ({
+  emitNewReport: vi.fn(),
+  emitReportUpdated: vi.fn()
+}));
+
+import { getReportById, type Report } from '@ice-activity-map/database';
+import { emitNewReport, emitReportUpdated } from './websocket.js';
+import { handleReportChange } from './report-feed.js';
+
+const report = { id: 'report-1', activityType: 'raid' } as Report;
+
+describe('Report feed', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getReportById).mockResolvedValue(report);
+  });
+
+  it('should broadcast inserts from any writer as new reports', async () => {
+    await handleReportChange({ op: 'insert', id: 'report-1' });
+
+    expect(getReportById).toHaveBeenCalledWith('report-1');
+    expect(emitNewReport).toHaveBeenCalledWith(report);
+    expect(emitReportUpdated).not.toHaveBeenCalled();
+  });
+
+  it('should broadcast updates as report updates', async () => {
+    await handleReportChange({ op: 'update', id: 'report-1' });
+
+    expect(emitReportUpdated).toHaveBeenCalledWith(report);
+    expect(emitNewReport).not.toHaveBeenCalled();
+  });
+
+  it('should skip reports that were deleted before they could be read', async () => {
+    vi.mocked(getReportById).mockResolvedValue(null);
+    await handleReportChange({ op: 'insert', id: 'report-1' });
+
+    expect(emitNewReport).not.toHaveBeenCalled();
+  });
+});
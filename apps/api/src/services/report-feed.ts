@@ -0,0 +1,48 @@
+import {
+  listenForReportChanges,
+  getReportById,
+  type ReportChange
+} from '@ice-activity-map/database';
+import { emitNewReport, emitReportUpdated } from './websocket.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Broadcast one change from the database feed to WebSocket clients
+ */
+export async function handleReportChange(change: ReportChange): Promise<void> {
+  const report = await getReportById(change.id);
+  if (!report) return;
+
+  if (change.op === 'insert') {
+    emitNewReport(report);
+  } else {
+    emitReportUpdated(report);
+  }
+}
+
+/**
+ * Follow report inserts and updates from every writer (this API, its other
+ * replicas and the ingestion service) through Postgres LISTEN/NOTIFY.
+ * Returns a function that stops the feed.
+ */
+export function startReportFeed(): () => Promise<void> {
+  const feed = listenForReportChanges({
+    onChange: (change) => {
+      handleReportChange(change).catch((error) => {
+        logger.error('Report feed broadcast failed', { reportId: change.id, error: (error as Error).message });
+      });
+    },
+    onConnect: (reconnected) => {
+      if (reconnected) {
+        logger.warn('Report feed reconnected; changes made while disconnected were not broadcast');
+      } else {
+        logger.info('Report feed listening');
+      }
+    },
+    onError: (error) => {
+      logger.error('Report feed connection lost', { error: error.message });
+    }
+  });
+
+  return feed.close;
+}
@@ -0,0 +1,40 @@
+import { NOMINATIM_PUBLIC_URL, NominatimReverseGeocoder, type ReversePlace } from '@ice-activity-map/geo';
+
+// The public instance allows 1 request per second; a self-hosted one has no limit
+const PUBLIC_REQUEST_DELAY_MS = 1100;
+// Someone is waiting on the submission
+const DEFAULT_TIMEOUT_MS = 5000;
+// When other lookups hold the next slot for longer than this, the submission
+// gets the bounds checks only rather than waiting in line
+const MAX_THROTTLE_WAIT_MS = 1000;
+
+let geocoder: NominatimReverseGeocoder | null | undefined;
+
+/**
+ * Nominatim at NOMINATIM_URL (default: the public instance), or null with
+ * REVERSE_GEOCODING=false, in which case submissions only get the
+ * bounds checks
+ */
+function getReverseGeocoder(): NominatimReverseGeocoder | null {
+  if (geocoder === undefined) {
+    const baseUrl = process.env.NOMINATIM_URL || NOMINATIM_PUBLIC_URL;
+    geocoder = process.env.REVERSE_GEOCODING === 'false'
+      ? null
+      : new NominatimReverseGeocoder({
+          baseUrl,
+          userAgent: process.env.NOMINATIM_USER_AGENT || 'ICEActivityMap/1.0',
+          requestDelayMs: baseUrl === NOMINATIM_PUBLIC_URL ? PUBLIC_REQUEST_DELAY_MS : 0,
+          timeoutMs: parseInt(process.env.GEOCODER_TIMEOUT_MS || '', 10) || DEFAULT_TIMEOUT_MS,
+          maxWaitMs: MAX_THROTTLE_WAIT_MS
+        });
+  }
+  return geocoder;
+}
+
+/**
+ * The place a submitted point is in, or null when reverse geocoding is off,
+ * finds nothing, fails or would keep the submitter waiting
+ */
+export async function reverseGeocode(latitude: number, longitude: number): Promise<ReversePlace | null> {
+  return getReverseGeocoder()?.reverse(latitude, longitude) ?? null;
+}
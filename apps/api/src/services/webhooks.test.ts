@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server, type IncomingHttpHeaders } from 'http';
+import type { AddressInfo } from 'net';
+import type { Report, ClaimedWebhookDelivery } from '@ice-activity-map/database';
+
+vi.mock('@ice-activity-map/database', () => ({
+  getWebhooksForEvent: vi.fn().mockResolvedValue([]),
+  enqueueWebhookDeliveries: vi.fn().mockResolvedValue([]),
+  claimDueWebhookDeliveries: vi.fn().mockResolvedValue([]),
+  markWebhookDeliverySucceeded: vi.fn().mockResolvedValue(undefined),
+  markWebhookDeliveryFailed: vi.fn().mockResolvedValue(undefined)
+}));
+
+import {
+  getWebhooksForEvent,
+  enqueueWebhookDeliveries,
+  markWebhookDeliverySucceeded,
+  markWebhookDeliveryFailed
+} from '@ice-activity-map/database';
+import {
+  publishWebhookEvent,
+  processWebhookDelivery,
+  signWebhookPayload,
+  retryDelayMs,
+  MAX_WEBHOOK_ATTEMPTS
+} from './webhooks.js';
+
+function makeReport(overrides: Partial<Report> = {}): Report {
+  return {
+    id: '5b1f3c9e-8a2d-4c71-9e0f-1a2b3c4d5e6f',
+    sourceType: 'user_submitted',
+    sourceId: null,
+    activityType: 'raid',
+    description: 'Agents at the apartment complex on Main Street',
+    city: 'Los Angeles',
+    state: 'CA',
+    latitude: 34.0522,
+    longitude: -118.2437,
+    authorHandle: 'tester',
+    authorDisplayName: null,
+    photoUrl: null,
+    status: 'unverified',
+    metadata: {},
+    reportedAt: new Date(),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  };
+}
+
+describe('Webhooks', () => {
+  const received: { headers: IncomingHttpHeaders; body: string }[] = [];
+  let responseStatus = 200;
+  let server: Server;
+  let baseUrl: string;
+
+  function makeDelivery(overrides: Partial<ClaimedWebhookDelivery> = {}): ClaimedWebhookDelivery {
+    return {
+      id: 'delivery-1',
+      webhookId: 'webhook-1',
+      eventId: 'event-1',
+      eventType: 'new_report',
+      reportId: '5b1f3c9e-8a2d-4c71-9e0f-1a2b3c4d5e6f',
+      payload: { id: 'event-1', type: 'new_report', data: { report: { id: '5b1f3c9e' } } },
+      status: 'pending',
+      attempts: 1,
+      nextAttemptAt: new Date(),
+      lastStatusCode: null,
+      lastError: null,
+      replayOf: null,
+      createdAt: new Date(),
+      deliveredAt: null,
+      url: `${baseUrl}/hooks`,
+      secret: 'whsec_test',
+      ...overrides
+    };
+  }
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => { body += chunk; });
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responseStatus;
+        res.end(responseStatus === 200 ? 'ok' : 'partner is down');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    received.length = 0;
+    responseStatus = 200;
+  });
+
+  describe('processWebhookDelivery', () => {
+    it('should send a body the partner can verify with the secret', async () => {
+      const outcome = await processWebhookDelivery(makeDelivery());
+
+      expect(outcome).toBe('succeeded');
+      expect(received).toHaveLength(1);
+
+      const { headers, body } = received[0];
+      const timestamp = Number(headers['x-webhook-timestamp']);
+      expect(headers['x-webhook-event']).toBe('new_report');
+      expect(headers['x-webhook-id']).toBe('delivery-1');
+      expect(headers['x-webhook-signature']).toBe(signWebhookPayload('whsec_test', timestamp, body));
+      expect(headers['x-webhook-signature']).not.toBe(signWebhookPayload('wrong-secret', timestamp, body));
+      expect(JSON.parse(body)).toMatchObject({ id: 'event-1', type: 'new_report' });
+      expect(markWebhookDeliverySucceeded).toHaveBeenCalledWith('delivery-1', 200);
+    });
+
+    it('should schedule a retry when the partner errors', async () => {
+      responseStatus = 503;
+      const before = Date.now();
+
+      const outcome = await processWebhookDelivery(makeDelivery({ attempts: 2 }));
+
+      expect(outcome).toBe('retrying');
+      const [id, failure] = vi.mocked(markWebhookDeliveryFailed).mock.calls[0];
+      expect(id).toBe('delivery-1');
+      expect(failure).toMatchObject({ statusCode: 503, error: 'partner is down' });
+      // Second attempt backs off around a minute
+      expect(failure.retryAt!.getTime() - before).toBeGreaterThanOrEqual(48 * 1000);
+      expect(failure.retryAt!.getTime() - before).toBeLessThanOrEqual(73 * 1000);
+    });
+
+    it('should give up after the last attempt', async () => {
+      responseStatus = 500;
+
+      const outcome = await processWebhookDelivery(makeDelivery({ attempts: MAX_WEBHOOK_ATTEMPTS }));
+
+      expect(outcome).toBe('failed');
+      expect(vi.mocked(markWebhookDeliveryFailed).mock.calls[0][1].retryAt).toBeNull();
+    });
+
+    it('should record unreachable endpoints as failures', async () => {
+      const outcome = await processWebhookDelivery(makeDelivery({ url: 'http://127.0.0.1:1/hooks' }));
+
+      expect(outcome).toBe('retrying');
+      expect(vi.mocked(markWebhookDeliveryFailed).mock.calls[0][1].statusCode).toBeUndefined();
+    });
+  });
+
+  describe('retryDelayMs', () => {
+    it('should back off exponentially up to six hours', () => {
+      const noJitter = () => 0.5;
+      expect(retryDelayMs(1, noJitter)).toBe(30 * 1000);
+      expect(retryDelayMs(3, noJitter)).toBe(120 * 1000);
+      expect(retryDelayMs(20, noJitter)).toBe(6 * 60 * 60 * 1000);
+    });
+  });
+
+  describe('publishWebhookEvent', () => {
+    it('should queue one delivery per matching webhook', async () => {
+      vi.mocked(getWebhooksForEvent).mockResolvedValueOnce([
+        { id: 'webhook-1' },
+        { id: 'webhook-2' }
+      ] as Awaited<ReturnType<typeof getWebhooksForEvent>>);
+      vi.mocked(enqueueWebhookDeliveries).mockResolvedValueOnce([{}, {}] as Awaited<ReturnType<typeof enqueueWebhookDeliveries>>);
+
+      const report = makeReport();
+      const queued = await publishWebhookEvent('report_verified', report);
+
+      expect(queued).toBe(2);
+      expect(getWebhooksForEvent).toHaveBeenCalledWith('report_verified', 'raid', 34.0522, -118.2437);
+      const [webhookIds, event] = vi.mocked(enqueueWebhookDeliveries).mock.calls[0];
+      expect(webhookIds).toEqual(['webhook-1', 'webhook-2']);
+      expect(event).toMatchObject({ eventType: 'report_verified', reportId: report.id });
+      expect(event.payload).toMatchObject({ id: event.eventId, type: 'report_verified', data: { report } });
+    });
+
+    it('should not throw when the database is unavailable', async () => {
+      vi.mocked(getWebhooksForEvent).mockRejectedValueOnce(new Error('connection refused'));
+
+      await expect(publishWebhookEvent('new_report', makeReport())).resolves.toBe(0);
+    });
+  });
+});
@@ -0,0 +1,230 @@
+import { createHmac, randomUUID } from 'crypto';
+import {
+  getWebhooksForEvent,
+  enqueueWebhookDeliveries,
+  claimDueWebhookDeliveries,
+  markWebhookDeliverySucceeded,
+  markWebhookDeliveryFailed,
+  type ClaimedWebhookDelivery,
+  type Report,
+  type WebhookEventType
+} from '@ice-activity-map/database';
+import { logger } from '../utils/logger.js';
+
+const WORKER_INTERVAL_MS = parseInt(process.env.WEBHOOK_WORKER_INTERVAL_MS || '5000', 10);
+const SEND_TIMEOUT_MS = 10000;
+const CLAIM_BATCH_SIZE = 20;
+
+export const MAX_WEBHOOK_ATTEMPTS = 8;
+const BASE_RETRY_MS = 30 * 1000;
+const MAX_RETRY_MS = 6 * 60 * 60 * 1000;
+
+export interface WebhookEventPayload {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: { report: Report };
+}
+
+export interface WebhookSendResult {
+  ok: boolean;
+  statusCode?: number;
+  error?: string;
+}
+
+export interface WebhookRunSummary {
+  succeeded: number;
+  retrying: number;
+  failed: number;
+}
+
+let workerRunning = false;
+let drainQueue: (() => void) | null = null;
+
+/**
+ * Webhooks are on unless explicitly disabled; with no registered
+ * webhooks they cost one indexed query per event.
+ */
+export function isWebhooksEnabled(): boolean {
+  return process.env.WEBHOOKS_ENABLED !== 'false';
+}
+
+/**
+ * Signature partners check against the X-Webhook-Signature header:
+ * HMAC-SHA256 over "<timestamp>.<raw body>" with the webhook's secret.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Exponential backoff from 30 seconds up to 6 hours, with ±20% jitter so
+ * a partner coming back up isn't hit by every queued delivery at once
+ */
+export function retryDelayMs(attempt: number, random = Math.random): number {
+  const base = Math.min(BASE_RETRY_MS * 2 ** (attempt - 1), MAX_RETRY_MS);
+  return Math.round(base * (0.8 + random() * 0.4));
+}
+
+/**
+ * Queue an event for every webhook whose filters match the report.
+ * Never throws; returns how many deliveries were queued.
+ */
+export async function publishWebhookEvent(type: WebhookEventType, report: Report): Promise<number> {
+  if (!isWebhooksEnabled()) return 0;
+
+  try {
+    const webhooks = await getWebhooksForEvent(type, report.activityType, report.latitude, report.longitude);
+    if (webhooks.length === 0) return 0;
+
+    const payload: WebhookEventPayload = {
+      id: randomUUID(),
+      type,
+      createdAt: new Date().toISOString(),
+      data: { report }
+    };
+
+    const deliveries = await enqueueWebhookDeliveries(
+      webhooks.map((webhook) => webhook.id),
+      { eventId: payload.id, eventType: type, reportId: report.id, payload: { ...payload } }
+    );
+
+    // Don't make partners wait for the next poll
+    drainQueue?.();
+    return deliveries.length;
+  } catch (error) {
+    logger.error('Webhook publish failed', { type, reportId: report.id, error: (error as Error).message });
+    return 0;
+  }
+}
+
+/**
+ * POST one signed delivery. Only 2xx counts as delivered; redirects are
+ * not followed so a moved endpoint shows up in the delivery log.
+ */
+export async function sendWebhook(delivery: ClaimedWebhookDelivery): Promise<WebhookSendResult> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  try {
+    const response = await fetch(delivery.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'ICE-Activity-Map-Webhooks/1.0',
+        'X-Webhook-Id': delivery.id,
+        'X-Webhook-Event': delivery.eventType,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': signWebhookPayload(delivery.secret, timestamp, body)
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(SEND_TIMEOUT_MS)
+    });
+
+    if (response.status >= 200 && response.status < 300) {
+      return { ok: true, statusCode: response.status };
+    }
+
+    const text = await response.text().catch(() => '');
+    return { ok: false, statusCode: response.status, error: text.slice(0, 500) || `HTTP ${response.status}` };
+  } catch (error) {
+    return { ok: false, error: (error as Error).message };
+  }
+}
+
+/**
+ * Send a claimed delivery and record the outcome, scheduling a retry
+ * until MAX_WEBHOOK_ATTEMPTS is reached
+ */
+export async function processWebhookDelivery(
+  delivery: ClaimedWebhookDelivery
+): Promise<'succeeded' | 'retrying' | 'failed'> {
+  const result = await sendWebhook(delivery);
+
+  if (result.ok) {
+    await markWebhookDeliverySucceeded(delivery.id, result.statusCode!);
+    return 'succeeded';
+  }
+
+  const retryAt = delivery.attempts < MAX_WEBHOOK_ATTEMPTS
+    ? new Date(Date.now() + retryDelayMs(delivery.attempts))
+    : null;
+
+  await markWebhookDeliveryFailed(delivery.id, {
+    statusCode: result.statusCode,
+    error: result.error || 'Unknown error',
+    retryAt
+  });
+
+  if (!retryAt) {
+    logger.warn('Webhook delivery gave up', {
+      deliveryId: delivery.id,
+      webhookId: delivery.webhookId,
+      attempts: delivery.attempts
+    });
+  }
+  return retryAt ? 'retrying' : 'failed';
+}
+
+/**
+ * Work through every delivery that is due right now
+ */
+export async function processDueWebhookDeliveries(): Promise<WebhookRunSummary> {
+  const summary: WebhookRunSummary = { succeeded: 0, retrying: 0, failed: 0 };
+
+  for (;;) {
+    const deliveries = await claimDueWebhookDeliveries(CLAIM_BATCH_SIZE);
+
+    const outcomes = await Promise.all(deliveries.map(async (delivery) => {
+      try {
+        return await processWebhookDelivery(delivery);
+      } catch (error) {
+        // The claim lease expires and the delivery is picked up again
+        logger.error('Webhook delivery errored', { deliveryId: delivery.id, error: (error as Error).message });
+        return null;
+      }
+    }));
+
+    for (const outcome of outcomes) {
+      if (outcome) summary[outcome]++;
+    }
+
+    if (deliveries.length < CLAIM_BATCH_SIZE) break;
+  }
+
+  return summary;
+}
+
+/**
+ * Poll the delivery queue on an interval, and right away whenever an event
+ * is published. Returns a function that stops the worker, or null when
+ * webhooks are disabled.
+ */
+export function startWebhookWorker(intervalMs = WORKER_INTERVAL_MS): (() => void) | null {
+  if (!isWebhooksEnabled()) return null;
+
+  const run = async () => {
+    if (workerRunning) return;
+    workerRunning = true;
+    try {
+      const summary = await processDueWebhookDeliveries();
+      if (summary.succeeded + summary.retrying + summary.failed > 0) {
+        logger.info('Webhook deliveries processed', { ...summary });
+      }
+    } catch (error) {
+      logger.error('Webhook worker failed', { error: (error as Error).message });
+    } finally {
+      workerRunning = false;
+    }
+  };
+
+  const timer = setInterval(run, intervalMs);
+  drainQueue = () => void run();
+  logger.info('Webhook worker started', { intervalMs });
+
+  return () => {
+    clearInterval(timer);
+    drainQueue = null;
+  };
+}
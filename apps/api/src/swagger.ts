@@ -25,7 +25,7 @@ const options: swaggerJsdoc.Options = {
             id: { type: 'string', format: 'uuid' },
             sourceType: {
               type: 'string',
-              enum: ['bluesky', 'mastodon', 'reddit', 'user_submitted']
+              enum: ['bluesky', 'mastodon', 'reddit', 'google_news', 'wiki', 'user_submitted']
             },
             sourceId: { type: 'string', nullable: true },
             activityType: {
@@ -37,13 +37,69 @@ const options: swaggerJsdoc.Options = {
             state: { type: 'string', nullable: true },
             latitude: { type: 'number', nullable: true },
             longitude: { type: 'number', nullable: true },
+            locationPrecision: {
+              type: 'string',
+              enum: ['exact', 'street', 'neighborhood', 'city', 'state'],
+              nullable: true,
+              description: 'exact: a GPS fix; street: an address, intersection, place or street within the city; neighborhood; city: the city centroid; state: only the state is known'
+            },
+            locationRadiusM: {
+              type: 'integer',
+              nullable: true,
+              description: 'Roughly how far, in meters, the activity may be from the coordinates'
+            },
             authorHandle: { type: 'string' },
             authorDisplayName: { type: 'string', nullable: true },
+            language: {
+              type: 'string',
+              nullable: true,
+              description: 'Detected language of the source post (ISO 639-1, or und); null for user submissions'
+            },
+            incidentId: {
+              type: 'string',
+              format: 'uuid',
+              nullable: true,
+              description: 'Incident this report was grouped into with other reports of the same event'
+            },
+            occurredAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'When the activity happened, estimated from the post text; null when it does not say. Time-range filters use this, falling back to reportedAt'
+            },
+            occurredAtConfidence: {
+              type: 'string',
+              enum: ['high', 'medium', 'low'],
+              nullable: true,
+              description: 'high: an offset or clock time; medium: a part of the day; low: only the day'
+            },
             status: {
               type: 'string',
               enum: ['unverified', 'verified', 'disputed']
             },
-            reportedAt: { type: 'string', format: 'date-time' },
+            reportedAt: { type: 'string', format: 'date-time', description: 'When the post was published' },
+            createdAt: { type: 'string', format: 'date-time' },
+            updatedAt: { type: 'string', format: 'date-time' }
+          }
+        },
+        Incident: {
+          type: 'object',
+          description: 'One event, grouped from reports across posts and sources',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            activityType: {
+              type: 'string',
+              enum: ['raid', 'checkpoint', 'arrest', 'surveillance', 'other']
+            },
+            city: { type: 'string', nullable: true },
+            state: { type: 'string', nullable: true },
+            latitude: { type: 'number', nullable: true },
+            longitude: { type: 'number', nullable: true },
+            firstReportedAt: { type: 'string', format: 'date-time' },
+            lastReportedAt: { type: 'string', format: 'date-time' },
+            reportCount: { type: 'integer' },
+            sourceCount: { type: 'integer', description: 'Distinct source types among the reports' },
+            sourceTypes: { type: 'array', items: { type: 'string' } },
             createdAt: { type: 'string', format: 'date-time' },
             updatedAt: { type: 'string', format: 'date-time' }
           }
@@ -61,6 +117,8 @@ const options: swaggerJsdoc.Options = {
             state: { type: 'string' },
             latitude: { type: 'number' },
             longitude: { type: 'number' },
+            locationPrecision: { type: 'string', enum: ['exact', 'street', 'neighborhood', 'city', 'state'] },
+            locationRadiusM: { type: 'number' },
             authorHandle: { type: 'string' },
             authorDisplayName: { type: 'string' }
           }
@@ -0,0 +1,34 @@
+import type { Report } from '@ice-activity-map/database';
+
+const ACTIVITY_TITLES: Record<string, string> = {
+  raid: 'Raid reported',
+  checkpoint: 'Checkpoint reported',
+  arrest: 'Arrest reported',
+  surveillance: 'Surveillance reported',
+  other: 'Activity reported'
+};
+
+/**
+ * Headline shared by every alert channel, e.g. "Raid reported near Los Angeles, CA"
+ */
+export function alertTitle(report: Report): string {
+  const place = [report.city, report.state].filter(Boolean).join(', ') || 'your area';
+  return `${ACTIVITY_TITLES[report.activityType] || ACTIVITY_TITLES.other} near ${place}`;
+}
+
+/**
+ * Link that opens the web app focused on a report. Relative when
+ * PUBLIC_WEB_URL is unset, which mail doesn't allow (checkMailConfig).
+ */
+export function reportUrl(reportId: string): string {
+  const base = (process.env.PUBLIC_WEB_URL || '').replace(/\/$/, '');
+  return `${base}/?report=${reportId}`;
+}
+
+/**
+ * Absolute URL of an API path, for links that leave the browser (emails)
+ */
+export function apiUrl(pathname: string): string {
+  const base = process.env.API_PUBLIC_URL || `http://localhost:${process.env.PORT || 3001}`;
+  return `${base.replace(/\/$/, '')}${pathname}`;
+}
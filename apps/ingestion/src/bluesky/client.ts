@@ -1,4 +1,5 @@
 import { AtpAgent } from "@atproto/api";
+import { checkRateLimit } from "../sources/rate-limit.js";
 
 const BLUESKY_SERVICE = "https://bsky.social";
 
@@ -61,6 +62,12 @@ export async function withRetry<T>(
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
 
+      // An explicit 429 goes to the scheduler, which waits as long as Bluesky asked
+      const { status, headers } = error as { status?: unknown; headers?: Record<string, string> };
+      if (status === 429) {
+        checkRateLimit("Bluesky", { status, headers: headers ?? {} });
+      }
+
       if (attempt === maxRetries) {
         break;
       }
@@ -1,4 +1,5 @@
 import { getAgent, withRetry, ensureAuthenticated } from "./client.js";
+import { checkQuota, RateLimitError } from "../sources/rate-limit.js";
 
 export const SEARCH_KEYWORDS = [
   // English
@@ -16,6 +17,21 @@ export const SEARCH_KEYWORDS = [
   "operativo migratorio",
   "retén migración",
   "agentes de inmigración",
+  // Portuguese
+  "batida do ICE",
+  "agentes da imigração",
+  // Haitian Creole
+  "imigrasyon",
+  "ajan ICE",
+  // Vietnamese
+  "nhân viên di trú",
+  // Chinese
+  "移民局",
+  // Korean
+  "이민국",
+  "이민 단속",
+  // Tagalog
+  "hinuli ng ICE",
 ];
 
 export interface BlueskyPost {
@@ -26,6 +42,8 @@ export interface BlueskyPost {
   authorDisplayName: string;
   createdAt: string;
   indexedAt: string;
+  /** Language tags the posting client attached to the record */
+  langs: string[];
 }
 
 export interface SearchResult {
@@ -50,7 +68,6 @@ export async function searchPosts(
     });
     return result;
   });
-
   const posts: BlueskyPost[] = response.data.posts.map((post) => ({
     uri: post.uri,
     cid: post.cid,
@@ -59,43 +76,57 @@ export async function searchPosts(
     authorDisplayName: post.author.displayName || post.author.handle,
     createdAt: (post.record as { createdAt?: string }).createdAt || "",
     indexedAt: post.indexedAt,
+    langs: (post.record as { langs?: string[] }).langs || [],
   }));
 
+  // The results are kept; the search that ran out of quota stops there
+  const quota = checkQuota("Bluesky", response.headers, posts);
+  if (quota) throw quota;
+
   return {
     posts,
     cursor: response.data.cursor,
   };
 }
 
-export async function searchAllKeywords(): Promise<BlueskyPost[]> {
+export async function searchAllKeywords(requestDelayMs = 500): Promise<BlueskyPost[]> {
   const seenUris = new Set<string>();
   const allPosts: BlueskyPost[] = [];
 
+  const add = (posts: BlueskyPost[]) => {
+    for (const post of posts) {
+      if (!seenUris.has(post.uri)) {
+        seenUris.add(post.uri);
+        allPosts.push(post);
+      }
+    }
+  };
+
   for (const keyword of SEARCH_KEYWORDS) {
     try {
       console.log(`[Search] Searching for: "${keyword}"`);
       const result = await searchPosts(keyword);
-
-      for (const post of result.posts) {
-        if (!seenUris.has(post.uri)) {
-          seenUris.add(post.uri);
-          allPosts.push(post);
-        }
-      }
+      add(result.posts);
 
       // Small delay between searches to be respectful of rate limits
-      await new Promise((resolve) => setTimeout(resolve, 500));
+      await new Promise((resolve) => setTimeout(resolve, requestDelayMs));
     } catch (error) {
+      if (error instanceof RateLimitError) {
+        // Keep what the earlier keywords (and the last response) found
+        add(error.items as BlueskyPost[]);
+        throw new RateLimitError(error.message, error.retryAfterMs, newestFirst(allPosts));
+      }
       console.error(`[Search] Failed to search for "${keyword}":`, error);
     }
   }
 
-  // Sort by creation time, newest first
-  allPosts.sort(
+  return newestFirst(allPosts);
+}
+
+function newestFirst(posts: BlueskyPost[]): BlueskyPost[] {
+  return posts.sort(
     (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
   );
-
-  return allPosts;
 }
 
 export function formatPostForLog(post: BlueskyPost): string {
@@ -0,0 +1,15 @@
+import { searchAllKeywords, type BlueskyPost } from "./search.js";
+import { normalizeBlueskyPost } from "../pipeline/normalize.js";
+import type { SourceAdapter } from "../sources/adapter.js";
+
+export const blueskySource: SourceAdapter<BlueskyPost> = {
+  id: "bluesky",
+  name: "Bluesky",
+  shortName: "B",
+  icon: "🦋",
+  category: "social",
+  defaultPollIntervalMs: 60_000,
+  rateLimit: { requestDelayMs: 500, maxConcurrency: 1 },
+  fetch: (config) => searchAllKeywords(config.rateLimit.requestDelayMs),
+  normalize: normalizeBlueskyPost,
+};
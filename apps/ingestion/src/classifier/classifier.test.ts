@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { features } from './tokenize';
+import { coversLanguage, loadModel, parseModel, predictProbability, DEFAULT_MODEL_PATH, ModelError, type RelevanceModel } from './model';
+import { trainModel } from './train';
+import { combineRelevance, ensembleConfigFromEnv, scoreRelevance, DEFAULT_ENSEMBLE_CONFIG } from './ensemble';
+import { checkRelevance } from '../filters/relevance';
+
+const SIGHTING = 'I just saw ICE agents outside the Home Depot in Los Angeles, CA right now. Be careful!';
+const COMMENTARY = 'ICE is a disgrace and this administration should be ashamed of its immigration policy';
+
+function model(weights: Record<string, number>, bias = 0): RelevanceModel {
+  return { formatVersion: 1, kind: 'logistic-regression', ngrams: 2, trainedOn: ['test'], trainedAt: '', examples: 0, bias, weights };
+}
+
+describe('features', () => {
+  it('should fold accents and collapse numbers and links', () => {
+    expect(features('Están en la 35 https://t.co/x', 1)).toEqual(['estan', 'en', 'la', '_num_', '_url_']);
+    expect(features('ICE agents here', 2)).toEqual(['ice', 'agents', 'here', 'ice agents', 'agents here']);
+  });
+});
+
+describe('trainModel', () => {
+  const examples = [
+    { text: 'agents at the store on main st right now', relevant: true },
+    { text: 'agents at the bus stop on 5th right now', relevant: true },
+    { text: 'ice is evil and should be abolished', relevant: false },
+    { text: 'ice policy is evil, abolish it', relevant: false }
+  ];
+
+  it('should separate the training examples and be deterministic', () => {
+    const now = new Date('2026-10-19T00:00:00Z');
+    const trained = trainModel(examples, ['r1'], { minCount: 1 }, now);
+
+    expect(predictProbability(trained, 'agents at the park right now')).toBeGreaterThan(0.5);
+    expect(predictProbability(trained, 'ice is evil')).toBeLessThan(0.5);
+    expect(trainModel(examples, ['r1'], { minCount: 1 }, now)).toEqual(trained);
+  });
+
+  it('should record the languages it was trained on', () => {
+    const trained = trainModel([...examples, { text: 'agentes aqui ahorita', relevant: true, language: 'es' }], ['r1'], { minCount: 1 });
+
+    expect(trained.languages).toEqual(['es']);
+    expect(coversLanguage(trained, 'es')).toBe(true);
+    expect(coversLanguage(trained, 'pt')).toBe(false);
+    expect(coversLanguage(trained, 'und')).toBe(true);
+    expect(coversLanguage(model({}), 'pt')).toBe(true);
+  });
+
+  it('should leave out features rarer than minCount', () => {
+    const trained = trainModel(examples, ['r1'], { minCount: 2 });
+
+    expect(trained.weights).toHaveProperty('right now');
+    expect(trained.weights).not.toHaveProperty('bus');
+  });
+});
+
+describe('parseModel', () => {
+  it('should reject unknown versions and bad weights', () => {
+    expect(() => parseModel({ ...model({}), formatVersion: 2 })).toThrow(ModelError);
+    expect(() => parseModel({ ...model({}), weights: { ice: 'high' } })).toThrow(/weights\["ice"\]/);
+  });
+
+  it('should load the model shipped with the repo', () => {
+    const shipped = loadModel(DEFAULT_MODEL_PATH);
+    expect(Object.keys(shipped.weights).length).toBeGreaterThan(0);
+  });
+});
+
+describe('combineRelevance', () => {
+  const accepted = checkRelevance(SIGHTING);
+  const rejected = checkRelevance(COMMENTARY);
+  const excluded = checkRelevance('RT @someone ICE agents at the Walmart right now');
+
+  it('should let the rules decide in rules mode or without a model', () => {
+    expect(combineRelevance(accepted, 0.01, { ...DEFAULT_ENSEMBLE_CONFIG, strategy: 'rules' }).accept).toBe(true);
+    expect(combineRelevance(accepted, null, DEFAULT_ENSEMBLE_CONFIG)).toEqual({ accept: true, override: null, reason: accepted.reason });
+  });
+
+  it('should veto and rescue only past the thresholds', () => {
+    expect(combineRelevance(accepted, 0.05, DEFAULT_ENSEMBLE_CONFIG)).toEqual(expect.objectContaining({ accept: false, override: 'veto' }));
+    expect(combineRelevance(accepted, 0.3, DEFAULT_ENSEMBLE_CONFIG).override).toBeNull();
+    expect(combineRelevance(rejected, 0.95, DEFAULT_ENSEMBLE_CONFIG)).toEqual(expect.objectContaining({ accept: true, override: 'rescue' }));
+    expect(combineRelevance(rejected, 0.8, DEFAULT_ENSEMBLE_CONFIG).accept).toBe(false);
+  });
+
+  it('should never rescue a post that hit an exclusion pattern', () => {
+    expect(excluded.excluded).toBe(true);
+    expect(combineRelevance(excluded, 0.99, DEFAULT_ENSEMBLE_CONFIG).accept).toBe(false);
+  });
+
+  it('should follow the classifier alone in classifier mode', () => {
+    const config = { ...DEFAULT_ENSEMBLE_CONFIG, strategy: 'classifier' as const };
+    expect(combineRelevance(rejected, 0.6, config)).toEqual(expect.objectContaining({ accept: true, override: 'rescue' }));
+    expect(combineRelevance(accepted, 0.4, config)).toEqual(expect.objectContaining({ accept: false, override: 'veto' }));
+  });
+
+  it('should score a text with the rules and the model together', () => {
+    const score = scoreRelevance(SIGHTING, { model: model({ disgrace: -5 }, 0), config: DEFAULT_ENSEMBLE_CONFIG });
+    expect(score.probability).toBe(0.5);
+    expect(score.decision.accept).toBe(true);
+  });
+
+  it('should leave posts in languages the model never saw to the rules', () => {
+    const ensemble = { model: { ...model({}, -10), languages: ['en', 'es'] }, config: DEFAULT_ENSEMBLE_CONFIG };
+    const tagalog = 'Nakita ko ang mga ahente ng ICE dito sa palengke ngayon mismo';
+
+    expect(scoreRelevance(tagalog, ensemble, 'tl')).toEqual(expect.objectContaining({ probability: null }));
+    expect(scoreRelevance(tagalog, ensemble, 'tl').decision.accept).toBe(true);
+    expect(scoreRelevance(tagalog, ensemble, 'en').decision.override).toBe('veto');
+  });
+});
+
+describe('ensembleConfigFromEnv', () => {
+  it('should read the strategy and thresholds and ignore bad values', () => {
+    expect(ensembleConfigFromEnv({ RELEVANCE_STRATEGY: 'rules', CLASSIFIER_VETO_BELOW: '0.2', CLASSIFIER_RESCUE_ABOVE: '1.5' }))
+      .toEqual({ strategy: 'rules', vetoBelow: 0.2, rescueAbove: DEFAULT_ENSEMBLE_CONFIG.rescueAbove });
+    expect(ensembleConfigFromEnv({ RELEVANCE_STRATEGY: 'vibes' }).strategy).toBe('ensemble');
+  });
+});
@@ -0,0 +1,144 @@
+import { checkRelevance, type RelevanceResult } from '../filters/relevance.js';
+import { DEFAULT_MODEL_PATH, coversLanguage, loadModel, predictProbability, type RelevanceModel } from './model.js';
+
+/**
+ * How the regex rules and the classifier combine:
+ * - rules: the rules decide; the classifier only scores (shadow mode)
+ * - classifier: the classifier decides alone
+ * - ensemble: the rules decide, but a confident classifier can veto an
+ *   accepted post or rescue a rejected one for review
+ */
+export type RelevanceStrategy = 'rules' | 'classifier' | 'ensemble';
+
+export const RELEVANCE_STRATEGIES: RelevanceStrategy[] = ['rules', 'classifier', 'ensemble'];
+
+export interface EnsembleConfig {
+  strategy: RelevanceStrategy;
+  /** Reject a post the rules accepted when the probability is below this */
+  vetoBelow: number;
+  /** Accept (for review) a post the rules rejected when the probability is at or above this */
+  rescueAbove: number;
+}
+
+export const DEFAULT_ENSEMBLE_CONFIG: EnsembleConfig = {
+  strategy: 'ensemble',
+  vetoBelow: 0.1,
+  rescueAbove: 0.9
+};
+
+export interface RelevanceEnsemble {
+  /** null when no model could be loaded; the rules then decide alone */
+  model: RelevanceModel | null;
+  config: EnsembleConfig;
+}
+
+export interface EnsembleDecision {
+  accept: boolean;
+  /** Set when the classifier overturned the rules */
+  override: 'veto' | 'rescue' | null;
+  reason: string;
+}
+
+export interface RelevanceScore {
+  rules: RelevanceResult;
+  probability: number | null;
+  decision: EnsembleDecision;
+}
+
+function envProbability(value: string | undefined): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const parsed = parseFloat(value);
+  return parsed >= 0 && parsed <= 1 ? parsed : undefined;
+}
+
+/**
+ * RELEVANCE_STRATEGY, CLASSIFIER_VETO_BELOW and CLASSIFIER_RESCUE_ABOVE,
+ * falling back to the defaults for anything unset or out of range
+ */
+export function ensembleConfigFromEnv(env: NodeJS.ProcessEnv = process.env): EnsembleConfig {
+  const strategy = env.RELEVANCE_STRATEGY as RelevanceStrategy | undefined;
+  return {
+    strategy: strategy && RELEVANCE_STRATEGIES.includes(strategy) ? strategy : DEFAULT_ENSEMBLE_CONFIG.strategy,
+    vetoBelow: envProbability(env.CLASSIFIER_VETO_BELOW) ?? DEFAULT_ENSEMBLE_CONFIG.vetoBelow,
+    rescueAbove: envProbability(env.CLASSIFIER_RESCUE_ABOVE) ?? DEFAULT_ENSEMBLE_CONFIG.rescueAbove
+  };
+}
+
+function formatProbability(probability: number): string {
+  return probability.toFixed(2);
+}
+
+/**
+ * Combine a rules result with the classifier's probability
+ */
+export function combineRelevance(
+  rules: RelevanceResult,
+  probability: number | null,
+  config: EnsembleConfig
+): EnsembleDecision {
+  if (probability === null || config.strategy === 'rules') {
+    return { accept: rules.isRelevant, override: null, reason: rules.reason };
+  }
+
+  if (config.strategy === 'classifier') {
+    const accept = probability >= 0.5;
+    return {
+      accept,
+      override: accept === rules.isRelevant ? null : accept ? 'rescue' : 'veto',
+      reason: `Classifier probability ${formatProbability(probability)}`
+    };
+  }
+
+  if (rules.isRelevant && probability < config.vetoBelow) {
+    return {
+      accept: false,
+      override: 'veto',
+      reason: `Classifier vetoed rules (probability ${formatProbability(probability)})`
+    };
+  }
+
+  // Exclusion patterns are deliberate hard rejects; the classifier can't undo them
+  if (!rules.isRelevant && !rules.excluded && probability >= config.rescueAbove) {
+    return {
+      accept: true,
+      override: 'rescue',
+      reason: `Classifier accepted what rules rejected (probability ${formatProbability(probability)})`
+    };
+  }
+
+  return { accept: rules.isRelevant, override: null, reason: rules.reason };
+}
+
+/**
+ * Score a social post with the rules and the classifier and decide. The
+ * classifier sits out posts in a language it wasn't trained on.
+ */
+export function scoreRelevance(text: string, ensemble: RelevanceEnsemble, language?: string): RelevanceScore {
+  const rules = checkRelevance(text);
+  const probability = ensemble.model && coversLanguage(ensemble.model, language)
+    ? predictProbability(ensemble.model, text)
+    : null;
+  return { rules, probability, decision: combineRelevance(rules, probability, ensemble.config) };
+}
+
+let defaultEnsemble: RelevanceEnsemble | undefined;
+
+/**
+ * The model at RELEVANCE_MODEL_PATH (default: apps/ingestion/models/relevance.json)
+ * with the configuration from the environment. Loaded once; a missing or
+ * broken model falls back to the rules instead of stopping ingestion.
+ */
+export function getDefaultEnsemble(): RelevanceEnsemble {
+  if (defaultEnsemble) return defaultEnsemble;
+
+  const path = process.env.RELEVANCE_MODEL_PATH || DEFAULT_MODEL_PATH;
+  let model: RelevanceModel | null = null;
+  try {
+    model = loadModel(path);
+  } catch (error) {
+    console.warn(`[Classifier] No relevance model loaded, using rules only: ${(error as Error).message}`);
+  }
+
+  defaultEnsemble = { model, config: ensembleConfigFromEnv() };
+  return defaultEnsemble;
+}
@@ -0,0 +1,93 @@
+import { parseArgs } from "node:util";
+import { loadCorpus, CorpusError } from "../evaluation/corpus.js";
+import { getSource } from "../sources/registry.js";
+import type { SourceType } from "../pipeline/normalize.js";
+import { DEFAULT_MODEL_PATH, predictProbability, saveModel } from "./model.js";
+import { trainModel, type TrainingExample } from "./train.js";
+
+// Resolves the same from src/ (tsx) and dist/ (node)
+const DEFAULT_TRAINING_CORPUS = new URL("../../models/relevance-training.json", import.meta.url);
+
+const USAGE = `Usage: npm run train-classifier -w apps/ingestion -- [options]
+
+Trains the relevance classifier on labeled corpora (the evaluation corpus
+format) and writes it as a JSON model. News examples are skipped: news goes
+through the news relevance check, not the classifier. The model records the
+languages it saw; posts in any other language are left to the rules.
+
+  --corpus <path>      Labeled corpus; repeat to combine several
+                       (default: apps/ingestion/models/relevance-training.json)
+  --out <path>         Where to write the model (default: apps/ingestion/models/relevance.json)
+  --ngrams <n>         Longest n-gram feature (default: 2)
+  --min-count <n>      Ignore features seen in fewer examples (default: 2)
+  --epochs <n>         Gradient descent passes (default: 300)
+  --help               Show this message`;
+
+function fail(message: string): never {
+  console.error(message);
+  console.error("");
+  console.error(USAGE);
+  process.exit(1);
+}
+
+function parsePositiveInt(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = parseInt(value, 10);
+  if (!Number.isInteger(parsed) || parsed < 1) fail(`${flag} must be a positive integer`);
+  return parsed;
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      corpus: { type: "string", multiple: true },
+      out: { type: "string" },
+      ngrams: { type: "string" },
+      "min-count": { type: "string" },
+      epochs: { type: "string" },
+      help: { type: "boolean", default: false }
+    }
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const corpusPaths = values.corpus?.length ? values.corpus : [DEFAULT_TRAINING_CORPUS];
+  const revisions: string[] = [];
+  const examples: TrainingExample[] = [];
+  const seen = new Set<string>();
+
+  for (const path of corpusPaths) {
+    const corpus = await loadCorpus(path);
+    revisions.push(corpus.revision);
+    for (const example of corpus.examples) {
+      if (getSource(example.source as SourceType)?.category === "news") continue;
+      // The same example in two corpora would count twice
+      if (seen.has(example.id)) continue;
+      seen.add(example.id);
+      examples.push({ text: example.text, relevant: example.relevant, language: example.language });
+    }
+  }
+
+  const model = trainModel(examples, revisions, {
+    ngrams: parsePositiveInt(values.ngrams, "--ngrams"),
+    minCount: parsePositiveInt(values["min-count"], "--min-count"),
+    epochs: parsePositiveInt(values.epochs, "--epochs")
+  });
+
+  const correct = examples.filter((example) => (predictProbability(model, example.text) >= 0.5) === example.relevant).length;
+  const outPath = values.out ?? DEFAULT_MODEL_PATH;
+  await saveModel(outPath, model);
+
+  console.log(`[Classifier] Trained on ${examples.length} examples (corpus ${revisions.join(", ")}, languages ${model.languages?.join(", ") ?? "unknown"})`);
+  console.log(`[Classifier] ${Object.keys(model.weights).length} features, training accuracy ${((correct / examples.length) * 100).toFixed(1)}%`);
+  console.log(`[Classifier] Model saved to ${outPath instanceof URL ? outPath.pathname : outPath}`);
+  console.log(`[Classifier] Run npm run eval -w apps/ingestion to score it against the evaluation corpus`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof CorpusError ? `[Classifier] Invalid corpus: ${error.message}` : error);
+  process.exitCode = 1;
+});
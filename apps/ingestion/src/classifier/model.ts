@@ -0,0 +1,114 @@
+import { readFileSync } from 'node:fs';
+import { writeFile } from 'node:fs/promises';
+import { features } from './tokenize.js';
+import { UNDETERMINED } from '../language/detect.js';
+
+/**
+ * Bump when the file layout changes in a way older readers can't handle.
+ * Retraining only changes `trainedAt`, `trainedOn` and the weights.
+ */
+export const MODEL_FORMAT_VERSION = 1;
+
+// Resolves the same from src/ (tsx) and dist/ (node)
+export const DEFAULT_MODEL_PATH = new URL('../../models/relevance.json', import.meta.url);
+
+/**
+ * Logistic regression over binary n-gram features. Features the model has
+ * no weight for are ignored, so unseen words pull the probability nowhere.
+ */
+export interface RelevanceModel {
+  formatVersion: number;
+  kind: 'logistic-regression';
+  /** Longest n-gram used as a feature */
+  ngrams: number;
+  /** Revisions of the corpora the model was trained on */
+  trainedOn: string[];
+  /**
+   * Languages of the training examples. Older models don't record them and
+   * are used for every post.
+   */
+  languages?: string[];
+  trainedAt: string;
+  examples: number;
+  bias: number;
+  weights: Record<string, number>;
+}
+
+export class ModelError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModelError';
+  }
+}
+
+export function parseModel(raw: unknown): RelevanceModel {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new ModelError('model must be a JSON object');
+  }
+  const model = raw as Record<string, unknown>;
+
+  if (model.formatVersion !== MODEL_FORMAT_VERSION) {
+    throw new ModelError(`unsupported formatVersion ${String(model.formatVersion)} (expected ${MODEL_FORMAT_VERSION})`);
+  }
+  if (model.kind !== 'logistic-regression') {
+    throw new ModelError(`unsupported kind ${String(model.kind)}`);
+  }
+  if (!Number.isInteger(model.ngrams) || (model.ngrams as number) < 1) {
+    throw new ModelError('ngrams must be a positive integer');
+  }
+  if (typeof model.bias !== 'number' || !Number.isFinite(model.bias)) {
+    throw new ModelError('bias must be a number');
+  }
+  if (typeof model.weights !== 'object' || model.weights === null || Array.isArray(model.weights)) {
+    throw new ModelError('weights must be an object');
+  }
+  for (const [feature, weight] of Object.entries(model.weights)) {
+    if (typeof weight !== 'number' || !Number.isFinite(weight)) {
+      throw new ModelError(`weights["${feature}"] must be a number`);
+    }
+  }
+
+  return {
+    formatVersion: MODEL_FORMAT_VERSION,
+    kind: 'logistic-regression',
+    ngrams: model.ngrams as number,
+    trainedOn: Array.isArray(model.trainedOn) ? model.trainedOn.map(String) : [],
+    languages: Array.isArray(model.languages) ? model.languages.map(String) : undefined,
+    trainedAt: String(model.trainedAt ?? ''),
+    examples: typeof model.examples === 'number' ? model.examples : 0,
+    bias: model.bias,
+    weights: model.weights as Record<string, number>
+  };
+}
+
+/**
+ * Read a model synchronously; the relevance decision that uses it is sync
+ */
+export function loadModel(path: string | URL): RelevanceModel {
+  return parseModel(JSON.parse(readFileSync(path, 'utf8')));
+}
+
+export async function saveModel(path: string | URL, model: RelevanceModel): Promise<void> {
+  await writeFile(path, JSON.stringify(model, null, 2) + '\n');
+}
+
+/**
+ * Whether the model has seen examples in a language. It knows nothing about
+ * the words of any other, so its probability there would be noise. Posts
+ * whose language couldn't be determined get the benefit of the doubt.
+ */
+export function coversLanguage(model: RelevanceModel, language: string | undefined): boolean {
+  if (!language || language === UNDETERMINED || !model.languages) return true;
+  return model.languages.includes(language);
+}
+
+/**
+ * Probability that a text is a first-hand sighting
+ */
+export function predictProbability(model: RelevanceModel, text: string): number {
+  let z = model.bias;
+  for (const feature of features(text, model.ngrams)) {
+    z += model.weights[feature] ?? 0;
+  }
+  return 1 / (1 + Math.exp(-z));
+}
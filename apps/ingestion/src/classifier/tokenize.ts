@@ -0,0 +1,38 @@
+/**
+ * Lowercased word tokens with accents folded, so "están" and "estan" are
+ * the same token. URLs, @mentions and numbers collapse to placeholders:
+ * what matters is that a post has a street number, not which one. Chinese
+ * isn't written with spaces, so each Han character is a token of its own
+ * and the bigrams stand in for words.
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    // NFKD splits Hangul syllables into jamo; put them back together
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' _url_ ')
+    .replace(/@[\w.]+/g, ' _mention_ ')
+    .replace(/\d+/g, ' _num_ ')
+    .replace(/'/g, '')
+    .replace(/\p{Script=Han}/gu, ' $& ')
+    .split(/[^\p{L}_#]+/u)
+    .filter((token) => token.length > 0);
+}
+
+/**
+ * The distinct 1..maxN-grams of a text, e.g. "ice", "ice agents"
+ */
+export function features(text: string, maxN = 2): string[] {
+  const tokens = tokenize(text);
+  const grams = new Set<string>();
+
+  for (let n = 1; n <= maxN; n++) {
+    for (let i = 0; i + n <= tokens.length; i++) {
+      grams.add(tokens.slice(i, i + n).join(' '));
+    }
+  }
+
+  return [...grams];
+}
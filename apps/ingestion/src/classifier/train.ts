@@ -0,0 +1,118 @@
+import { features } from './tokenize.js';
+import { MODEL_FORMAT_VERSION, type RelevanceModel } from './model.js';
+
+export interface TrainingExample {
+  text: string;
+  relevant: boolean;
+  /** ISO 639-1 code; the model records which languages it was trained on */
+  language?: string;
+}
+
+export interface TrainingOptions {
+  /** Longest n-gram (default 2) */
+  ngrams?: number;
+  /** Drop features seen in fewer examples than this (default 2) */
+  minCount?: number;
+  epochs?: number;
+  learningRate?: number;
+  /** L2 penalty; keeps a handful of examples from producing extreme weights */
+  l2?: number;
+}
+
+const DEFAULTS: Required<TrainingOptions> = {
+  ngrams: 2,
+  minCount: 2,
+  epochs: 300,
+  learningRate: 0.5,
+  l2: 0.01
+};
+
+const WEIGHT_PRECISION = 1e4;
+
+function round(value: number): number {
+  return Math.round(value * WEIGHT_PRECISION) / WEIGHT_PRECISION;
+}
+
+/**
+ * Fit a logistic regression by full-batch gradient descent. Weights start at
+ * zero and examples are visited in order, so the same corpus and options
+ * always give the same model.
+ */
+export function trainModel(
+  examples: TrainingExample[],
+  trainedOn: string[],
+  options: TrainingOptions = {},
+  now = new Date()
+): RelevanceModel {
+  const { ngrams, minCount, epochs, learningRate, l2 } = {
+    ngrams: options.ngrams ?? DEFAULTS.ngrams,
+    minCount: options.minCount ?? DEFAULTS.minCount,
+    epochs: options.epochs ?? DEFAULTS.epochs,
+    learningRate: options.learningRate ?? DEFAULTS.learningRate,
+    l2: options.l2 ?? DEFAULTS.l2
+  };
+  if (examples.length === 0) {
+    throw new Error('No training examples');
+  }
+
+  const documentFeatures = examples.map((example) => features(example.text, ngrams));
+
+  const documentCounts = new Map<string, number>();
+  for (const featureList of documentFeatures) {
+    for (const feature of featureList) {
+      documentCounts.set(feature, (documentCounts.get(feature) ?? 0) + 1);
+    }
+  }
+  const vocabulary = [...documentCounts.keys()].filter((feature) => documentCounts.get(feature)! >= minCount).sort();
+  const index = new Map(vocabulary.map((feature, i) => [feature, i]));
+
+  const rows = documentFeatures.map((featureList) =>
+    featureList.map((feature) => index.get(feature)).filter((i): i is number => i !== undefined)
+  );
+  const labels = examples.map((example) => (example.relevant ? 1 : 0));
+
+  // Start from the class prior so an empty post gets the base rate
+  const positives = labels.reduce<number>((sum, label) => sum + label, 0);
+  const prior = Math.min(Math.max(positives / examples.length, 0.01), 0.99);
+  let bias = Math.log(prior / (1 - prior));
+  const weights = new Float64Array(vocabulary.length);
+
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    const gradient = new Float64Array(vocabulary.length);
+    let biasGradient = 0;
+
+    for (let i = 0; i < rows.length; i++) {
+      let z = bias;
+      for (const j of rows[i]) z += weights[j];
+      const error = 1 / (1 + Math.exp(-z)) - labels[i];
+
+      biasGradient += error;
+      for (const j of rows[i]) gradient[j] += error;
+    }
+
+    bias -= (learningRate * biasGradient) / rows.length;
+    for (let j = 0; j < weights.length; j++) {
+      weights[j] -= learningRate * (gradient[j] / rows.length + l2 * weights[j]);
+    }
+  }
+
+  const languages = [...new Set(examples.map((example) => example.language).filter((language): language is string => !!language))].sort();
+
+  const rounded: Record<string, number> = {};
+  vocabulary.forEach((feature, j) => {
+    const weight = round(weights[j]);
+    if (weight !== 0) rounded[feature] = weight;
+  });
+
+  return {
+    formatVersion: MODEL_FORMAT_VERSION,
+    kind: 'logistic-regression',
+    ngrams,
+    trainedOn,
+    languages: languages.length > 0 ? languages : undefined,
+    trainedAt: now.toISOString(),
+    examples: examples.length,
+    bias: round(bias),
+    weights: rounded
+  };
+}
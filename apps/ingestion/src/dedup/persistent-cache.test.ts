@@ -26,6 +26,13 @@ describe('PersistentDedup', () => {
       expect(await dedup.hasSeen('bluesky', '123')).toBe(true);
     });
 
+    it('should forget a post so it is tried again', async () => {
+      const dedup = new PersistentDedup(false);
+      dedup.markSeen('bluesky', '123');
+      dedup.forget('bluesky', '123');
+      expect(await dedup.hasSeen('bluesky', '123')).toBe(false);
+    });
+
     it('should distinguish different source types', async () => {
       const dedup = new PersistentDedup(false);
       dedup.markSeen('bluesky', '123');
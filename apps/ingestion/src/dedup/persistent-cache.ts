@@ -57,6 +57,16 @@ export class PersistentDedup {
     }
   }
 
+  /**
+   * Unmark a post whose handling failed, so it is tried again
+   */
+  forget(sourceType: string, sourceId: string): void {
+    this.memoryCache.delete(`${sourceType}:${sourceId}`);
+    this.pendingInserts = this.pendingInserts.filter(
+      (entry) => entry.sourceType !== sourceType || entry.sourceId !== sourceId
+    );
+  }
+
   /**
    * Flush pending inserts to DB in a single batch.
    */
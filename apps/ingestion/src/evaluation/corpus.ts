@@ -0,0 +1,181 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import type { ActivityType } from '../location/extractor.js';
+import { ACTIVITY_TYPES } from './metrics.js';
+
+/**
+ * Bump when the file layout changes in a way older readers can't handle.
+ * Adding examples only bumps the corpus `revision`.
+ */
+export const CORPUS_FORMAT_VERSION = 1;
+
+export interface LabeledLocation {
+  city: string | null;
+  /** Two-letter abbreviation, as the extractor returns it */
+  state: string | null;
+}
+
+/**
+ * One hand-labeled post. Labels that are left out aren't scored, so an
+ * example can be labeled for relevance only.
+ */
+export interface LabeledExample {
+  /** Stable across revisions; baselines are diffed by id */
+  id: string;
+  text: string;
+  /** Source id, e.g. bluesky or google_news */
+  source: string;
+  /** ISO 639-1 code of the text, or und when nobody recorded it */
+  language: string;
+  /** News outlet, for the source-tier check on news items */
+  author?: string;
+  relevant: boolean;
+  /** null when the text names no place */
+  location?: LabeledLocation | null;
+  activityType?: ActivityType;
+}
+
+export interface LabeledCorpus {
+  formatVersion: number;
+  /** Changes whenever examples are added, removed or relabeled */
+  revision: string;
+  examples: LabeledExample[];
+}
+
+export class CorpusError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CorpusError';
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseLocation(value: unknown, where: string): LabeledLocation | null {
+  if (value === null) return null;
+  if (!isObject(value)) throw new CorpusError(`${where}: location must be an object or null`);
+
+  const field = (name: 'city' | 'state') => {
+    const v = value[name] ?? null;
+    if (v !== null && typeof v !== 'string') throw new CorpusError(`${where}: location.${name} must be a string or null`);
+    return v;
+  };
+  const state = field('state');
+  if (state !== null && !/^[A-Z]{2}$/.test(state)) {
+    throw new CorpusError(`${where}: location.state must be a two-letter abbreviation`);
+  }
+  return { city: field('city'), state };
+}
+
+function parseExample(value: unknown, index: number, seen: Set<string>): LabeledExample {
+  const where = `examples[${index}]`;
+  if (!isObject(value)) throw new CorpusError(`${where}: must be an object`);
+
+  for (const field of ['id', 'text', 'source', 'language'] as const) {
+    if (typeof value[field] !== 'string' || value[field] === '') {
+      throw new CorpusError(`${where}: ${field} is required`);
+    }
+  }
+  const id = value.id as string;
+  if (seen.has(id)) throw new CorpusError(`${where}: duplicate id "${id}"`);
+  seen.add(id);
+
+  if (typeof value.relevant !== 'boolean') throw new CorpusError(`${where}: relevant must be true or false`);
+  if (value.author !== undefined && typeof value.author !== 'string') {
+    throw new CorpusError(`${where}: author must be a string`);
+  }
+  if (value.activityType !== undefined && !ACTIVITY_TYPES.includes(value.activityType as ActivityType)) {
+    throw new CorpusError(`${where}: activityType must be one of ${ACTIVITY_TYPES.join(', ')}`);
+  }
+
+  const example: LabeledExample = {
+    id,
+    text: value.text as string,
+    source: value.source as string,
+    language: value.language as string,
+    relevant: value.relevant
+  };
+  if (value.author !== undefined) example.author = value.author as string;
+  if (value.location !== undefined) example.location = parseLocation(value.location, where);
+  if (value.activityType !== undefined) example.activityType = value.activityType as ActivityType;
+  return example;
+}
+
+/**
+ * Check a parsed corpus file and return it typed. Throws a CorpusError that
+ * names the offending example.
+ */
+export function parseCorpus(value: unknown): LabeledCorpus {
+  if (!isObject(value)) throw new CorpusError('Corpus must be a JSON object');
+  if (value.formatVersion !== CORPUS_FORMAT_VERSION) {
+    throw new CorpusError(`Unsupported corpus formatVersion ${String(value.formatVersion)} (expected ${CORPUS_FORMAT_VERSION})`);
+  }
+  if (typeof value.revision !== 'string' || value.revision === '') throw new CorpusError('revision is required');
+  if (!Array.isArray(value.examples)) throw new CorpusError('examples must be an array');
+
+  const seen = new Set<string>();
+  return {
+    formatVersion: CORPUS_FORMAT_VERSION,
+    revision: value.revision,
+    examples: value.examples.map((example, index) => parseExample(example, index, seen))
+  };
+}
+
+export async function loadCorpus(path: string | URL): Promise<LabeledCorpus> {
+  return parseCorpus(JSON.parse(await readFile(path, 'utf8')));
+}
+
+export async function saveCorpus(path: string | URL, corpus: LabeledCorpus): Promise<void> {
+  await writeFile(path, JSON.stringify(corpus, null, 2) + '\n');
+}
+
+/**
+ * Revisions are dates; a second change on the same day gets a counter
+ */
+export function nextRevision(previous: string, today: string): string {
+  if (previous !== today && !previous.startsWith(`${today}.`)) return today;
+  const count = previous === today ? 0 : parseInt(previous.slice(today.length + 1), 10) || 0;
+  return `${today}.${count + 1}`;
+}
+
+export interface CorpusMerge {
+  corpus: LabeledCorpus;
+  added: number;
+  updated: number;
+}
+
+/**
+ * Add incoming examples (e.g. a moderator label export) to a corpus.
+ * An example with an id the corpus already has replaces it. The revision
+ * only moves on if something actually changed.
+ */
+export function mergeCorpus(base: LabeledCorpus, incoming: LabeledCorpus, today: string): CorpusMerge {
+  const examples = [...base.examples];
+  const index = new Map(examples.map((example, i) => [example.id, i]));
+  let added = 0;
+  let updated = 0;
+
+  for (const example of incoming.examples) {
+    const at = index.get(example.id);
+    if (at === undefined) {
+      index.set(example.id, examples.length);
+      examples.push(example);
+      added++;
+    } else if (JSON.stringify(examples[at]) !== JSON.stringify(example)) {
+      examples[at] = example;
+      updated++;
+    }
+  }
+
+  const changed = added + updated > 0;
+  return {
+    corpus: {
+      ...base,
+      revision: changed ? nextRevision(base.revision, today) : base.revision,
+      examples
+    },
+    added,
+    updated
+  };
+}
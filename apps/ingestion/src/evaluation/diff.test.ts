@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { diffReports } from './diff';
+import { summarize, summarizeBy, type ExampleResult } from './metrics';
+import type { EvaluationReport } from './evaluate';
+
+function report(examples: ExampleResult[], corpusRevision = 'r1'): EvaluationReport {
+  return {
+    corpusRevision,
+    generatedAt: '2026-10-19T00:00:00.000Z',
+    overall: summarize(examples),
+    byLanguage: summarizeBy(examples, (result) => result.language),
+    bySource: summarizeBy(examples, (result) => result.source),
+    examples
+  };
+}
+
+function result(id: string, expected: boolean, predicted: boolean, extra: Partial<ExampleResult> = {}): ExampleResult {
+  return {
+    id,
+    source: 'bluesky',
+    language: 'en',
+    relevance: { expected, predicted, reason: '' },
+    ...extra
+  };
+}
+
+describe('diffReports', () => {
+  it('should report nothing when predictions are unchanged', () => {
+    const run = report([result('a', true, true), result('b', false, false)]);
+    const diff = diffReports(run, run);
+
+    expect(diff.fixed).toEqual([]);
+    expect(diff.regressed).toEqual([]);
+    expect(diff.metrics.every((d) => d.previous === d.current)).toBe(true);
+  });
+
+  it('should sort prediction changes into fixed and regressed', () => {
+    const baseline = report([result('a', true, false), result('b', false, false)]);
+    const current = report([result('a', true, true), result('b', false, true)]);
+
+    const diff = diffReports(baseline, current);
+
+    expect(diff.fixed).toEqual([{ id: 'a', field: 'relevance', previous: 'false', current: 'true', expected: 'true' }]);
+    expect(diff.regressed).toEqual([{ id: 'b', field: 'relevance', previous: 'false', current: 'true', expected: 'false' }]);
+    expect(diff.metrics.find((d) => d.group === 'overall' && d.metric === 'relevance.recall'))
+      .toEqual(expect.objectContaining({ previous: 0, current: 1 }));
+  });
+
+  it('should track location changes and examples added or removed between revisions', () => {
+    const location = (city: string, correct: boolean): Partial<ExampleResult> => ({
+      location: { expected: { city: 'Houston', state: 'TX' }, predicted: { city, state: 'TX' }, correct }
+    });
+    const baseline = report([result('a', true, true, location('Houston', true)), result('old', true, true)]);
+    const current = report([result('a', true, true, location('Bissonnet in Houston', false)), result('new', true, true)], 'r2');
+
+    const diff = diffReports(baseline, current);
+
+    expect(diff.regressed).toEqual([
+      { id: 'a', field: 'location', previous: 'Houston, TX', current: 'Bissonnet in Houston, TX', expected: 'Houston, TX' }
+    ]);
+    expect(diff.added).toEqual(['new']);
+    expect(diff.removed).toEqual(['old']);
+    expect(diff.currentRevision).toBe('r2');
+  });
+});
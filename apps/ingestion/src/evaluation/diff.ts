@@ -0,0 +1,170 @@
+import type { LabeledLocation } from './corpus.js';
+import type { EvaluationReport } from './evaluate.js';
+import type { ExampleResult, GroupMetrics } from './metrics.js';
+
+export type TrackedMetric =
+  | 'relevance.precision'
+  | 'relevance.recall'
+  | 'relevance.f1'
+  | 'location.precision'
+  | 'location.recall'
+  | 'activityType.accuracy';
+
+const TRACKED_METRICS: Record<TrackedMetric, (metrics: GroupMetrics) => number | null> = {
+  'relevance.precision': (m) => m.relevance.precision,
+  'relevance.recall': (m) => m.relevance.recall,
+  'relevance.f1': (m) => m.relevance.f1,
+  'location.precision': (m) => m.location.precision,
+  'location.recall': (m) => m.location.recall,
+  'activityType.accuracy': (m) => m.activityType.accuracy
+};
+
+export interface MetricDelta {
+  /** "overall", "language:es" or "source:reddit" */
+  group: string;
+  metric: TrackedMetric;
+  previous: number | null;
+  current: number | null;
+}
+
+export type ExampleField = 'relevance' | 'location' | 'activityType';
+
+const EXAMPLE_FIELDS: ExampleField[] = ['relevance', 'location', 'activityType'];
+
+interface FieldOutcome {
+  predicted: string;
+  expected: string;
+  correct: boolean;
+}
+
+/**
+ * An example whose prediction changed since the baseline
+ */
+export interface ExampleChange {
+  id: string;
+  field: ExampleField;
+  previous: string;
+  current: string;
+  expected: string;
+}
+
+export interface BaselineDiff {
+  previousRevision: string;
+  currentRevision: string;
+  metrics: MetricDelta[];
+  /** Wrong in the baseline, right now */
+  fixed: ExampleChange[];
+  /** Right in the baseline, wrong now */
+  regressed: ExampleChange[];
+  /** Wrong both times, but differently */
+  changed: ExampleChange[];
+  /** Example ids only in one of the two runs, e.g. after relabeling */
+  added: string[];
+  removed: string[];
+}
+
+function describeLocation(location: LabeledLocation | null): string {
+  if (!location) return 'none';
+  return [location.city, location.state].filter(Boolean).join(', ') || 'none';
+}
+
+function outcomes(result: ExampleResult): Partial<Record<ExampleField, FieldOutcome>> {
+  const out: Partial<Record<ExampleField, FieldOutcome>> = {
+    relevance: {
+      predicted: String(result.relevance.predicted),
+      expected: String(result.relevance.expected),
+      correct: result.relevance.predicted === result.relevance.expected
+    }
+  };
+  if (result.location) {
+    out.location = {
+      predicted: describeLocation(result.location.predicted),
+      expected: describeLocation(result.location.expected),
+      correct: result.location.correct
+    };
+  }
+  if (result.activityType) {
+    out.activityType = {
+      predicted: result.activityType.predicted,
+      expected: result.activityType.expected,
+      correct: result.activityType.predicted === result.activityType.expected
+    };
+  }
+  return out;
+}
+
+function groups(report: EvaluationReport): Map<string, GroupMetrics> {
+  return new Map([
+    ['overall', report.overall],
+    ...Object.entries(report.byLanguage).map(([language, m]) => [`language:${language}`, m] as const),
+    ...Object.entries(report.bySource).map(([source, m]) => [`source:${source}`, m] as const)
+  ]);
+}
+
+/**
+ * Compare a run with a saved baseline: every tracked metric for every group
+ * present in either run, and each example whose prediction moved
+ */
+export function diffReports(previous: EvaluationReport, current: EvaluationReport): BaselineDiff {
+  const previousGroups = groups(previous);
+  const currentGroups = groups(current);
+
+  const metrics: MetricDelta[] = [];
+  for (const group of new Set([...previousGroups.keys(), ...currentGroups.keys()])) {
+    const before = previousGroups.get(group);
+    const after = currentGroups.get(group);
+    for (const metric of Object.keys(TRACKED_METRICS) as TrackedMetric[]) {
+      const read = TRACKED_METRICS[metric];
+      metrics.push({
+        group,
+        metric,
+        previous: before ? read(before) : null,
+        current: after ? read(after) : null
+      });
+    }
+  }
+
+  const diff: BaselineDiff = {
+    previousRevision: previous.corpusRevision,
+    currentRevision: current.corpusRevision,
+    metrics,
+    fixed: [],
+    regressed: [],
+    changed: [],
+    added: [],
+    removed: []
+  };
+
+  const previousById = new Map(previous.examples.map((result) => [result.id, result]));
+  const currentIds = new Set(current.examples.map((result) => result.id));
+
+  for (const result of current.examples) {
+    const before = previousById.get(result.id);
+    if (!before) {
+      diff.added.push(result.id);
+      continue;
+    }
+
+    const then = outcomes(before);
+    const now = outcomes(result);
+    for (const field of EXAMPLE_FIELDS) {
+      const was = then[field];
+      const is = now[field];
+      if (!was || !is || was.predicted === is.predicted) continue;
+
+      const change: ExampleChange = {
+        id: result.id,
+        field,
+        previous: was.predicted,
+        current: is.predicted,
+        expected: is.expected
+      };
+      if (is.correct && !was.correct) diff.fixed.push(change);
+      else if (was.correct && !is.correct) diff.regressed.push(change);
+      else diff.changed.push(change);
+    }
+  }
+
+  diff.removed = previous.examples.map((result) => result.id).filter((id) => !currentIds.has(id));
+  return diff;
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { loadCorpus, mergeCorpus, parseCorpus, CorpusError, type LabeledCorpus } from './corpus';
+import { evaluateCorpus, evaluateExample } from './evaluate';
+
+const corpus: LabeledCorpus = {
+  formatVersion: 1,
+  revision: 'test',
+  examples: [
+    {
+      id: 'sighting',
+      text: 'Heads up Phoenix: ICE raid happening at the apartment complex on 35th Ave right now. Multiple agents.',
+      source: 'mastodon',
+      language: 'en',
+      relevant: true,
+      location: { city: 'Phoenix', state: 'AZ' },
+      activityType: 'raid'
+    },
+    {
+      id: 'commentary',
+      text: 'ICE is a disgrace and this administration should be ashamed of its immigration policy',
+      source: 'bluesky',
+      language: 'en',
+      relevant: false,
+      location: null
+    },
+    {
+      id: 'policy-news',
+      text: 'ICE budget debate heats up in Congress',
+      source: 'google_news',
+      language: 'en',
+      author: 'NPR',
+      relevant: false
+    },
+    {
+      id: 'spanish-arrest',
+      text: 'Acaban de detener a mi vecino en Houston, fueron agentes de ICE',
+      source: 'reddit',
+      language: 'es',
+      relevant: true,
+      activityType: 'arrest'
+    }
+  ]
+};
+
+describe('parseCorpus', () => {
+  it('should accept a valid corpus', () => {
+    expect(parseCorpus(JSON.parse(JSON.stringify(corpus)))).toEqual(corpus);
+  });
+
+  it('should reject unknown format versions, duplicate ids and bad labels', () => {
+    expect(() => parseCorpus({ ...corpus, formatVersion: 2 })).toThrow(CorpusError);
+    expect(() => parseCorpus({ ...corpus, examples: [corpus.examples[0], corpus.examples[0]] })).toThrow(/duplicate id/);
+    expect(() => parseCorpus({ ...corpus, examples: [{ ...corpus.examples[0], activityType: 'riot' }] })).toThrow(/examples\[0\]/);
+    expect(() => parseCorpus({ ...corpus, examples: [{ ...corpus.examples[0], location: { city: 'Houston', state: 'Texas' } }] }))
+      .toThrow(/two-letter/);
+  });
+
+  it('should load the corpus shipped with the repo', async () => {
+    const shipped = await loadCorpus(new URL('../../eval/corpus.json', import.meta.url));
+    expect(shipped.examples.length).toBeGreaterThan(0);
+  });
+});
+
+describe('mergeCorpus', () => {
+  it('should add new examples, replace relabeled ones and bump the revision', () => {
+    const incoming: LabeledCorpus = {
+      formatVersion: 1,
+      revision: '2026-10-20',
+      examples: [
+        { ...corpus.examples[1] },
+        { ...corpus.examples[2], relevant: true },
+        { id: 'moderated-1', text: 'ICE agents at the bus stop', source: 'bluesky', language: 'und', relevant: false }
+      ]
+    };
+
+    const merge = mergeCorpus({ ...corpus, revision: '2026-10-20' }, incoming, '2026-10-20');
+
+    expect(merge.added).toBe(1);
+    expect(merge.updated).toBe(1);
+    expect(merge.corpus.revision).toBe('2026-10-20.1');
+    expect(merge.corpus.examples.map((example) => example.id)).toEqual(['sighting', 'commentary', 'policy-news', 'spanish-arrest', 'moderated-1']);
+    expect(merge.corpus.examples[2].relevant).toBe(true);
+
+    expect(mergeCorpus(merge.corpus, incoming, '2026-10-21').corpus.revision).toBe('2026-10-20.1');
+  });
+});
+
+describe('evaluateCorpus', () => {
+  it('should use the news check for news sources', () => {
+    // NPR is trusted, so any ICE mention passes the news check
+    const result = evaluateExample(corpus.examples[2]);
+    expect(result.relevance).toEqual(expect.objectContaining({ expected: false, predicted: true }));
+    expect(result.location).toBeUndefined();
+  });
+
+  it('should score relevance, location and activity type overall and per group', () => {
+    const report = evaluateCorpus(corpus, new Date('2026-10-19T00:00:00Z'));
+
+    expect(report.overall.examples).toBe(4);
+    expect(report.overall.relevance.confusion).toEqual({
+      truePositive: 1,
+      falsePositive: 1,
+      falseNegative: 1,
+      trueNegative: 1
+    });
+    expect(report.overall.relevance.precision).toBe(0.5);
+    expect(report.overall.location).toEqual(expect.objectContaining({ labeled: 2, found: 1, correct: 1, precision: 1, recall: 1 }));
+    expect(report.overall.activityType.confusion.raid.raid).toBe(1);
+
+    expect(Object.keys(report.byLanguage)).toEqual(['en', 'es']);
+    expect(Object.keys(report.bySource)).toEqual(['bluesky', 'google_news', 'mastodon', 'reddit']);
+    expect(report.byLanguage.es.relevance.recall).toBe(0);
+    expect(report.bySource.google_news.relevance.recall).toBeNull();
+  });
+});
@@ -0,0 +1,109 @@
+import type { EvaluationReport } from './evaluate.js';
+import type { BaselineDiff, ExampleChange } from './diff.js';
+import { ACTIVITY_TYPES, type GroupMetrics } from './metrics.js';
+
+function pct(value: number | null): string {
+  return value === null ? '    -' : `${(value * 100).toFixed(1)}%`.padStart(6);
+}
+
+function row(cells: Array<string | number>, widths: number[]): string {
+  return cells.map((cell, i) => (i === 0 ? String(cell).padEnd(widths[i]) : String(cell).padStart(widths[i]))).join('  ');
+}
+
+function groupRows(report: EvaluationReport): Array<[string, GroupMetrics]> {
+  return [
+    ['overall', report.overall],
+    ...Object.entries(report.byLanguage).map(([language, m]): [string, GroupMetrics] => [`language:${language}`, m]),
+    ...Object.entries(report.bySource).map(([source, m]): [string, GroupMetrics] => [`source:${source}`, m])
+  ];
+}
+
+function activityMatrix(label: string, metrics: GroupMetrics): string[] {
+  const widths = [14, ...ACTIVITY_TYPES.map((type) => Math.max(type.length, 4))];
+  const lines = [
+    `Activity type confusion (${label}, rows = expected, columns = predicted)`,
+    row(['', ...ACTIVITY_TYPES], widths)
+  ];
+  for (const expected of ACTIVITY_TYPES) {
+    lines.push(row([expected, ...ACTIVITY_TYPES.map((predicted) => metrics.activityType.confusion[expected][predicted])], widths));
+  }
+  return lines;
+}
+
+export function formatReport(report: EvaluationReport): string {
+  const groups = groupRows(report);
+  const nameWidth = Math.max(20, ...groups.map(([name]) => name.length));
+  const rules = report.ruleSetVersion ? `, rules ${report.ruleSetVersion}` : '';
+  const lines = [`Corpus revision ${report.corpusRevision}${rules}: ${report.overall.examples} examples`, ''];
+
+  const relevanceWidths = [nameWidth, 4, 6, 6, 6, 4, 4, 4, 4];
+  lines.push('Relevance');
+  lines.push(row(['', 'n', 'prec', 'recall', 'f1', 'TP', 'FP', 'FN', 'TN'], relevanceWidths));
+  for (const [name, m] of groups) {
+    const c = m.relevance.confusion;
+    lines.push(row(
+      [name, m.examples, pct(m.relevance.precision), pct(m.relevance.recall), pct(m.relevance.f1), c.truePositive, c.falsePositive, c.falseNegative, c.trueNegative],
+      relevanceWidths
+    ));
+  }
+
+  const locationWidths = [nameWidth, 7, 5, 7, 6, 6];
+  lines.push('', 'Location (city + state must both match)');
+  lines.push(row(['', 'labeled', 'found', 'correct', 'prec', 'recall'], locationWidths));
+  for (const [name, m] of groups) {
+    if (m.location.labeled === 0) continue;
+    lines.push(row([name, m.location.labeled, m.location.found, m.location.correct, pct(m.location.precision), pct(m.location.recall)], locationWidths));
+  }
+
+  const activityWidths = [nameWidth, 7, 8];
+  lines.push('', 'Activity type');
+  lines.push(row(['', 'labeled', 'accuracy'], activityWidths));
+  for (const [name, m] of groups) {
+    if (m.activityType.labeled === 0) continue;
+    lines.push(row([name, m.activityType.labeled, pct(m.activityType.accuracy)], activityWidths));
+  }
+
+  for (const [name, m] of groups) {
+    if (m.activityType.labeled === 0) continue;
+    lines.push('', ...activityMatrix(name, m));
+  }
+
+  return lines.join('\n');
+}
+
+function formatChanges(title: string, changes: ExampleChange[]): string[] {
+  if (changes.length === 0) return [];
+  return [
+    '',
+    `${title} (${changes.length})`,
+    ...changes.map((c) => `  ${c.id} [${c.field}] ${c.previous} → ${c.current} (expected ${c.expected})`)
+  ];
+}
+
+export function formatDiff(diff: BaselineDiff): string {
+  const lines = [`Compared with baseline (corpus revision ${diff.previousRevision})`];
+
+  const moved = diff.metrics.filter((d) =>
+    (d.previous === null ? null : d.previous.toFixed(4)) !== (d.current === null ? null : d.current.toFixed(4))
+  );
+  if (moved.length === 0) {
+    lines.push('  No metric changed');
+  }
+  for (const d of moved) {
+    const delta = d.previous !== null && d.current !== null
+      ? ` (${d.current >= d.previous ? '+' : ''}${((d.current - d.previous) * 100).toFixed(1)} pts)`
+      : '';
+    lines.push(`  ${d.group} ${d.metric}: ${pct(d.previous).trim()} → ${pct(d.current).trim()}${delta}`);
+  }
+
+  lines.push(
+    ...formatChanges('Regressed', diff.regressed),
+    ...formatChanges('Fixed', diff.fixed),
+    ...formatChanges('Changed, still wrong', diff.changed)
+  );
+
+  if (diff.added.length > 0) lines.push('', `New examples: ${diff.added.join(', ')}`);
+  if (diff.removed.length > 0) lines.push('', `Removed examples: ${diff.removed.join(', ')}`);
+
+  return lines.join('\n');
+}
@@ -0,0 +1,116 @@
+import { existsSync } from "node:fs";
+import { readFile, writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { loadCorpus, saveCorpus, mergeCorpus, CorpusError } from "./corpus.js";
+import { evaluateCorpus, type EvaluationReport } from "./evaluate.js";
+import { diffReports } from "./diff.js";
+import { formatDiff, formatReport } from "./format.js";
+import {
+  ensembleConfigFromEnv,
+  getDefaultEnsemble,
+  RELEVANCE_STRATEGIES,
+  type RelevanceEnsemble,
+  type RelevanceStrategy
+} from "../classifier/ensemble.js";
+import { loadModel } from "../classifier/model.js";
+
+// Resolves the same from src/ (tsx) and dist/ (node)
+const DEFAULT_CORPUS = new URL("../../eval/corpus.json", import.meta.url);
+const DEFAULT_BASELINE = new URL("../../eval/baseline.json", import.meta.url);
+
+const USAGE = `Usage: npm run eval -w apps/ingestion -- [options]
+
+Scores the relevance filters, location extractor and activity type
+detection against a labeled corpus and compares with the saved baseline.
+
+  --corpus <path>         Labeled corpus (default: apps/ingestion/eval/corpus.json)
+  --import <path>         Merge examples (e.g. a moderator label export) into the corpus first
+  --baseline <path>       Baseline to compare with (default: apps/ingestion/eval/baseline.json)
+  --strategy <name>       How rules and classifier combine: rules, classifier or ensemble
+                          (default: RELEVANCE_STRATEGY, else ensemble)
+  --model <path>          Relevance classifier model (default: apps/ingestion/models/relevance.json)
+  --update-baseline       Save this run as the new baseline
+  --fail-on-regression    Exit 1 if any example that was right is now wrong
+  --json                  Print the full report as JSON
+  --help                  Show this message`;
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      corpus: { type: "string" },
+      import: { type: "string" },
+      baseline: { type: "string" },
+      strategy: { type: "string" },
+      model: { type: "string" },
+      "update-baseline": { type: "boolean", default: false },
+      "fail-on-regression": { type: "boolean", default: false },
+      json: { type: "boolean", default: false },
+      help: { type: "boolean", default: false }
+    }
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const corpusPath = values.corpus ?? DEFAULT_CORPUS;
+  let corpus = await loadCorpus(corpusPath);
+
+  if (values.import) {
+    const merge = mergeCorpus(corpus, await loadCorpus(values.import), new Date().toISOString().slice(0, 10));
+    corpus = merge.corpus;
+    if (merge.added + merge.updated > 0) {
+      await saveCorpus(corpusPath, corpus);
+    }
+    console.error(`[Eval] Imported ${merge.added} new and ${merge.updated} updated examples (corpus revision ${corpus.revision})`);
+  }
+
+  let ensemble: RelevanceEnsemble = getDefaultEnsemble();
+  if (values.strategy !== undefined && !RELEVANCE_STRATEGIES.includes(values.strategy as RelevanceStrategy)) {
+    throw new Error(`--strategy must be one of: ${RELEVANCE_STRATEGIES.join(", ")}`);
+  }
+  if (values.strategy || values.model) {
+    ensemble = {
+      model: values.model ? loadModel(values.model) : ensemble.model,
+      config: { ...ensembleConfigFromEnv(), strategy: (values.strategy as RelevanceStrategy | undefined) ?? ensemble.config.strategy }
+    };
+  }
+
+  const report = evaluateCorpus(corpus, new Date(), ensemble);
+  const baselinePath = values.baseline ?? DEFAULT_BASELINE;
+
+  if (values.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log(formatReport(report));
+  }
+
+  let regressed = 0;
+  if (existsSync(baselinePath)) {
+    const baseline = JSON.parse(await readFile(baselinePath, "utf8")) as EvaluationReport;
+    const diff = diffReports(baseline, report);
+    regressed = diff.regressed.length;
+    if (!values.json) {
+      console.log("");
+      console.log(formatDiff(diff));
+    }
+  } else if (!values.json) {
+    console.log("");
+    console.log("No baseline yet. Run with --update-baseline to save one.");
+  }
+
+  if (values["update-baseline"]) {
+    await writeFile(baselinePath, JSON.stringify(report, null, 2) + "\n");
+    console.error(`[Eval] Baseline saved to ${baselinePath instanceof URL ? baselinePath.pathname : baselinePath}`);
+  }
+
+  if (values["fail-on-regression"] && regressed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof CorpusError ? `[Eval] Invalid corpus: ${error.message}` : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,159 @@
+import type { ActivityType } from '../location/extractor.js';
+import type { LabeledLocation } from './corpus.js';
+
+export const ACTIVITY_TYPES: ActivityType[] = ['raid', 'checkpoint', 'arrest', 'surveillance', 'other'];
+
+/**
+ * What the filters and extractor said about one example, next to its labels
+ */
+export interface ExampleResult {
+  id: string;
+  source: string;
+  language: string;
+  /** probability is the relevance classifier's, for social examples when a model is loaded */
+  relevance: { expected: boolean; predicted: boolean; reason: string; probability?: number };
+  location?: { expected: LabeledLocation | null; predicted: LabeledLocation | null; correct: boolean };
+  activityType?: { expected: ActivityType; predicted: ActivityType };
+}
+
+export interface BinaryConfusion {
+  truePositive: number;
+  falsePositive: number;
+  falseNegative: number;
+  trueNegative: number;
+}
+
+/** Precision, recall and F1 are null when there is nothing to divide by */
+export interface RelevanceMetrics {
+  confusion: BinaryConfusion;
+  precision: number | null;
+  recall: number | null;
+  f1: number | null;
+}
+
+/**
+ * A location counts as found when the extractor returned anything, and as
+ * correct when city and state both match the label
+ */
+export interface LocationMetrics {
+  labeled: number;
+  found: number;
+  correct: number;
+  precision: number | null;
+  recall: number | null;
+}
+
+export interface ActivityTypeMetrics {
+  labeled: number;
+  accuracy: number | null;
+  /** confusion[expected][predicted] */
+  confusion: Record<ActivityType, Record<ActivityType, number>>;
+}
+
+export interface GroupMetrics {
+  examples: number;
+  relevance: RelevanceMetrics;
+  location: LocationMetrics;
+  activityType: ActivityTypeMetrics;
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null;
+}
+
+function f1(precision: number | null, recall: number | null): number | null {
+  if (precision === null || recall === null) return null;
+  return precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+}
+
+function normalizePlace(value: string | null): string | null {
+  return value?.trim().toLowerCase().replace(/\s+/g, ' ') || null;
+}
+
+export function sameLocation(a: LabeledLocation | null, b: LabeledLocation | null): boolean {
+  if (a === null || b === null) return a === b;
+  return normalizePlace(a.city) === normalizePlace(b.city) && normalizePlace(a.state) === normalizePlace(b.state);
+}
+
+function relevanceMetrics(results: ExampleResult[]): RelevanceMetrics {
+  const confusion: BinaryConfusion = { truePositive: 0, falsePositive: 0, falseNegative: 0, trueNegative: 0 };
+  for (const { relevance } of results) {
+    if (relevance.expected && relevance.predicted) confusion.truePositive++;
+    else if (!relevance.expected && relevance.predicted) confusion.falsePositive++;
+    else if (relevance.expected) confusion.falseNegative++;
+    else confusion.trueNegative++;
+  }
+
+  const precision = ratio(confusion.truePositive, confusion.truePositive + confusion.falsePositive);
+  const recall = ratio(confusion.truePositive, confusion.truePositive + confusion.falseNegative);
+  return { confusion, precision, recall, f1: f1(precision, recall) };
+}
+
+function locationMetrics(results: ExampleResult[]): LocationMetrics {
+  let labeled = 0;
+  let found = 0;
+  let correct = 0;
+  let expectedPlaces = 0;
+
+  for (const { location } of results) {
+    if (!location) continue;
+    labeled++;
+    if (location.expected !== null) expectedPlaces++;
+    if (location.predicted !== null) {
+      found++;
+      if (location.correct) correct++;
+    }
+  }
+
+  return {
+    labeled,
+    found,
+    correct,
+    precision: ratio(correct, found),
+    recall: ratio(correct, expectedPlaces)
+  };
+}
+
+function activityTypeMetrics(results: ExampleResult[]): ActivityTypeMetrics {
+  const confusion = Object.fromEntries(
+    ACTIVITY_TYPES.map((expected) => [expected, Object.fromEntries(ACTIVITY_TYPES.map((predicted) => [predicted, 0]))])
+  ) as ActivityTypeMetrics['confusion'];
+
+  let labeled = 0;
+  let correct = 0;
+  for (const { activityType } of results) {
+    if (!activityType) continue;
+    labeled++;
+    confusion[activityType.expected][activityType.predicted]++;
+    if (activityType.expected === activityType.predicted) correct++;
+  }
+
+  return { labeled, accuracy: ratio(correct, labeled), confusion };
+}
+
+export function summarize(results: ExampleResult[]): GroupMetrics {
+  return {
+    examples: results.length,
+    relevance: relevanceMetrics(results),
+    location: locationMetrics(results),
+    activityType: activityTypeMetrics(results)
+  };
+}
+
+/**
+ * Metrics per value of `key` (e.g. per language), sorted by that value
+ */
+export function summarizeBy(
+  results: ExampleResult[],
+  key: (result: ExampleResult) => string
+): Record<string, GroupMetrics> {
+  const groups = new Map<string, ExampleResult[]>();
+  for (const result of results) {
+    const group = key(result);
+    groups.set(group, [...(groups.get(group) ?? []), result]);
+  }
+
+  return Object.fromEntries(
+    [...groups.keys()].sort().map((group) => [group, summarize(groups.get(group)!)])
+  );
+}
@@ -249,6 +249,35 @@ describe('Relevance Filter', () => {
       }
     });
 
+    it('should recognize first-hand reports in the other supported languages', () => {
+      const posts = [
+        'Os agentes do ICE estão aqui na frente do mercado agora mesmo',
+        'Mwen fèk wè ajan ICE devan legliz la kounye a, fè atansyon',
+        'Tôi vừa thấy nhân viên di trú ở chợ, cẩn thận',
+        '我刚才看到移民局的人在地铁站门口抓人，大家小心',
+        '방금 마트 앞에서 이민국 요원들을 봤어요 조심하세요',
+        'Nakita ko ang mga ahente ng ICE dito sa palengke ngayon mismo'
+      ];
+      for (const post of posts) {
+        const result = checkRelevance(post);
+        expect(result.isRelevant, `Expected "${post.slice(0, 50)}..." to be relevant`).toBe(true);
+      }
+    });
+
+    it('should apply exclusions in the other supported languages', () => {
+      const posts = [
+        'Segundo o jornal, a imigração prendeu 200 pessoas agora mesmo',
+        'Dapre jounal la, ajan ICE isit la kounye a',
+        'Theo báo, ICE đang ở chợ ngay bây giờ',
+        '据报道，移民局的人正在法拉盛抓人',
+        '보도에 따르면 이민국 요원들이 와 있어요',
+        'Ayon sa balita, may ICE dito sa palengke'
+      ];
+      for (const post of posts) {
+        expect(checkRelevance(post).excluded, `Expected "${post.slice(0, 50)}..." to be excluded`).toBe(true);
+      }
+    });
+
     it('should recognize indirect immediate reports (neighbor/friend texted)', () => {
       const posts = [
         'My neighbor just texted me about ICE agents on our block, multiple vehicles',
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  compileRuleSet,
+  getRuleSet,
+  loadRuleSet,
+  parseRuleFile,
+  reloadRuleSet,
+  startRuleReloading,
+  DEFAULT_RULES_DIR,
+  RuleSetError,
+  type RuleFile
+} from './rules';
+import { checkRelevance } from './relevance';
+
+function ruleFile(overrides: Partial<RuleFile> = {}): RuleFile {
+  return {
+    formatVersion: 1,
+    language: 'en',
+    version: 1,
+    groups: {
+      firstHand: { weight: 5, rules: [{ id: 'en.spotted', pattern: '\\bspotted agents\\b', flags: 'i', description: 'Spotted agents' }] },
+      sighting: { weight: 2, rules: [{ id: 'en.van', pattern: '\\bvan\\b', flags: 'i', description: 'Van', weight: 4 }] },
+      commentary: { weight: 3, rules: [{ id: 'en.evil', pattern: '\\bevil\\b', flags: 'i', description: 'Opinion' }] },
+      exclusion: { rules: [{ id: 'en.rt', pattern: '^RT @', description: 'Retweet' }] }
+    },
+    ...overrides
+  };
+}
+
+describe('loadRuleSet', () => {
+  it('should load and validate the rule files shipped with the repo', () => {
+    const rules = loadRuleSet(DEFAULT_RULES_DIR);
+
+    expect(rules.version).toBe('common@1+en@1+es@1+ht@1+ko@1+pt@1+tl@1+vi@1+zh@1');
+    expect(rules.firstHand.length).toBeGreaterThan(0);
+    expect(rules.exclusion.every((rule) => rule.weight === 0)).toBe(true);
+    expect(rules.firstHand.some((rule) => rule.language === 'es')).toBe(true);
+  });
+});
+
+describe('parseRuleFile', () => {
+  it('should reject broken patterns, stateful flags and missing weights', () => {
+    const withRule = (rule: object) => ({ ...ruleFile(), groups: { sighting: { weight: 2, rules: [rule] } } });
+
+    expect(() => parseRuleFile(withRule({ id: 'x', pattern: '(unclosed', description: 'x' }), 'en.json'))
+      .toThrow(/en\.json: groups\.sighting\.rules\[0\] \(x\): invalid pattern/);
+    expect(() => parseRuleFile(withRule({ id: 'x', pattern: 'ice', flags: 'gi', description: 'x' }), 'en.json'))
+      .toThrow(/flags/);
+    expect(() => parseRuleFile({ ...ruleFile(), groups: { firstHand: { rules: [] } } }, 'en.json'))
+      .toThrow(/weight/);
+    expect(() => parseRuleFile({ ...ruleFile(), groups: { praise: { weight: 1, rules: [] } } }, 'en.json'))
+      .toThrow(RuleSetError);
+  });
+
+  it('should reject rule ids used twice in a rule set', () => {
+    expect(() => compileRuleSet([{ name: 'en', file: ruleFile() }, { name: 'more', file: ruleFile() }]))
+      .toThrow(/duplicate rule id en\.spotted/);
+  });
+});
+
+describe('checkRelevance with a rule set', () => {
+  const rules = compileRuleSet([{ name: 'en', file: ruleFile({ version: 7 }) }]);
+
+  it('should score with the weights from the rule file and record its version', () => {
+    const result = checkRelevance('Spotted agents in a van', rules);
+
+    expect(result.score).toBe(9);
+    expect(result.isRelevant).toBe(true);
+    expect(result.ruleSetVersion).toBe('en@7');
+  });
+
+  it('should apply exclusions and commentary penalties', () => {
+    expect(checkRelevance('RT @someone spotted agents', rules).excluded).toBe(true);
+    expect(checkRelevance('Spotted agents, evil', rules).score).toBe(2);
+  });
+});
+
+describe('reloadRuleSet', () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    reloadRuleSet();
+    if (dir) rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should swap in edited rules and keep the old ones when an edit is invalid', () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    dir = mkdtempSync(join(tmpdir(), 'rules-'));
+    vi.stubEnv('RELEVANCE_RULES_DIR', dir);
+
+    writeFileSync(join(dir, 'en.json'), JSON.stringify(ruleFile({ version: 2 })));
+    expect(reloadRuleSet()?.version).toBe('en@2');
+    expect(checkRelevance('spotted agents by the van').ruleSetVersion).toBe('en@2');
+
+    writeFileSync(join(dir, 'en.json'), JSON.stringify({ ...ruleFile({ version: 3 }), formatVersion: 9 }));
+    expect(reloadRuleSet()).toBeNull();
+    expect(getRuleSet().version).toBe('en@2');
+  });
+});
+
+describe('startRuleReloading', () => {
+  it('should reload on SIGHUP until stopped', () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const before = process.listenerCount('SIGHUP');
+
+    const stop = startRuleReloading({ RELEVANCE_RULES_WATCH: 'false' });
+    expect(process.listenerCount('SIGHUP')).toBe(before + 1);
+    expect(console.log).toHaveBeenCalledWith(`[Rules] Relevance rules ${getRuleSet().version}`);
+
+    stop();
+    expect(process.listenerCount('SIGHUP')).toBe(before);
+  });
+});
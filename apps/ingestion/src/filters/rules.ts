@@ -0,0 +1,292 @@
+import { readdirSync, readFileSync, watch } from 'node:fs';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+/**
+ * Relevance rule files: the sighting filter's regexes, kept out of the code
+ * so they can be tuned and reloaded without a redeploy. Each file holds the
+ * patterns for one language (or none, for language-neutral patterns) and
+ * carries its own version; the rule set version combines them. Every file
+ * applies to every post whatever language it's detected as: people switch
+ * languages mid-post, and each file's patterns only match its own language.
+ */
+
+/** Bump when the file layout changes in a way older readers can't handle */
+export const RULE_FILE_FORMAT_VERSION = 1;
+
+// Resolves the same from src/ (tsx) and dist/ (node)
+export const DEFAULT_RULES_DIR = new URL('../../rules/relevance/', import.meta.url);
+
+/**
+ * firstHand and sighting add their weight to the score, commentary subtracts
+ * it, and any exclusion match rejects the post outright
+ */
+export type RuleGroup = 'firstHand' | 'sighting' | 'commentary' | 'exclusion';
+
+export const RULE_GROUPS: RuleGroup[] = ['firstHand', 'sighting', 'commentary', 'exclusion'];
+
+// Without g or y, RegExp#test keeps no state between posts
+const ALLOWED_FLAGS = /^[imsu]*$/;
+
+export interface RuleDefinition {
+  /** Unique across the rule set, e.g. en.urgent-alert-1 */
+  id: string;
+  pattern: string;
+  flags?: string;
+  description: string;
+  /** Overrides the group weight */
+  weight?: number;
+}
+
+export interface RuleGroupDefinition {
+  /** Required for every group except exclusion */
+  weight?: number;
+  rules: RuleDefinition[];
+}
+
+export interface RuleFile {
+  formatVersion: number;
+  /** ISO 639-1 code, or null for patterns that apply whatever the language */
+  language: string | null;
+  /** Bump on every edit; reports record it */
+  version: number;
+  description?: string;
+  groups: Partial<Record<RuleGroup, RuleGroupDefinition>>;
+}
+
+export interface CompiledRule {
+  id: string;
+  regex: RegExp;
+  weight: number;
+  description: string;
+  language: string | null;
+}
+
+export interface RuleSet {
+  /** e.g. common@1+en@3+es@2, from the file names and versions */
+  version: string;
+  firstHand: CompiledRule[];
+  sighting: CompiledRule[];
+  commentary: CompiledRule[];
+  exclusion: CompiledRule[];
+}
+
+export class RuleSetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RuleSetError';
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isWeight(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function parseRule(value: unknown, where: string): RuleDefinition {
+  if (!isObject(value)) throw new RuleSetError(`${where}: rule must be an object`);
+  if (typeof value.id !== 'string' || value.id.trim() === '') {
+    throw new RuleSetError(`${where}: id must be a non-empty string`);
+  }
+  if (typeof value.pattern !== 'string' || value.pattern === '') {
+    throw new RuleSetError(`${where} (${value.id}): pattern must be a non-empty string`);
+  }
+  if (value.flags !== undefined && (typeof value.flags !== 'string' || !ALLOWED_FLAGS.test(value.flags))) {
+    throw new RuleSetError(`${where} (${value.id}): flags may only use i, m, s and u`);
+  }
+  if (typeof value.description !== 'string' || value.description.trim() === '') {
+    throw new RuleSetError(`${where} (${value.id}): description is required`);
+  }
+  if (value.weight !== undefined && !isWeight(value.weight)) {
+    throw new RuleSetError(`${where} (${value.id}): weight must be a positive number`);
+  }
+
+  try {
+    new RegExp(value.pattern, value.flags as string | undefined);
+  } catch (error) {
+    throw new RuleSetError(`${where} (${value.id}): invalid pattern: ${(error as Error).message}`);
+  }
+
+  return {
+    id: value.id,
+    pattern: value.pattern,
+    flags: value.flags as string | undefined,
+    description: value.description,
+    weight: value.weight as number | undefined
+  };
+}
+
+/**
+ * Validate one rule file. `where` names it in error messages.
+ */
+export function parseRuleFile(value: unknown, where: string): RuleFile {
+  if (!isObject(value)) throw new RuleSetError(`${where}: rule file must be a JSON object`);
+  if (value.formatVersion !== RULE_FILE_FORMAT_VERSION) {
+    throw new RuleSetError(
+      `${where}: unsupported formatVersion ${String(value.formatVersion)} (expected ${RULE_FILE_FORMAT_VERSION})`
+    );
+  }
+  if (value.language !== null && (typeof value.language !== 'string' || !/^[a-z]{2}$/.test(value.language))) {
+    throw new RuleSetError(`${where}: language must be a two-letter code or null`);
+  }
+  if (!Number.isInteger(value.version) || (value.version as number) < 1) {
+    throw new RuleSetError(`${where}: version must be a positive integer`);
+  }
+  if (!isObject(value.groups)) throw new RuleSetError(`${where}: groups must be an object`);
+
+  const groups: Partial<Record<RuleGroup, RuleGroupDefinition>> = {};
+  for (const [name, group] of Object.entries(value.groups)) {
+    if (!RULE_GROUPS.includes(name as RuleGroup)) {
+      throw new RuleSetError(`${where}: unknown group ${name} (expected ${RULE_GROUPS.join(', ')})`);
+    }
+    if (!isObject(group) || !Array.isArray(group.rules)) {
+      throw new RuleSetError(`${where}: groups.${name} must have a rules array`);
+    }
+    if (name !== 'exclusion' && !isWeight(group.weight)) {
+      throw new RuleSetError(`${where}: groups.${name}.weight must be a positive number`);
+    }
+    groups[name as RuleGroup] = {
+      weight: group.weight as number | undefined,
+      rules: group.rules.map((rule, i) => parseRule(rule, `${where}: groups.${name}.rules[${i}]`))
+    };
+  }
+
+  return {
+    formatVersion: RULE_FILE_FORMAT_VERSION,
+    language: value.language as string | null,
+    version: value.version as number,
+    description: typeof value.description === 'string' ? value.description : undefined,
+    groups
+  };
+}
+
+/**
+ * Compile parsed files, in the order given, into one rule set
+ */
+export function compileRuleSet(files: { name: string; file: RuleFile }[]): RuleSet {
+  if (files.length === 0) throw new RuleSetError('no rule files');
+
+  const ruleSet: RuleSet = {
+    version: files.map(({ name, file }) => `${name}@${file.version}`).join('+'),
+    firstHand: [],
+    sighting: [],
+    commentary: [],
+    exclusion: []
+  };
+  const ids = new Set<string>();
+
+  for (const { name, file } of files) {
+    for (const group of RULE_GROUPS) {
+      const definition = file.groups[group];
+      if (!definition) continue;
+
+      for (const rule of definition.rules) {
+        if (ids.has(rule.id)) throw new RuleSetError(`${name}: duplicate rule id ${rule.id}`);
+        ids.add(rule.id);
+        ruleSet[group].push({
+          id: rule.id,
+          regex: new RegExp(rule.pattern, rule.flags),
+          weight: rule.weight ?? definition.weight ?? 0,
+          description: rule.description,
+          language: file.language
+        });
+      }
+    }
+  }
+
+  return ruleSet;
+}
+
+/**
+ * Read and validate every *.json file in a directory, in name order
+ */
+export function loadRuleSet(dir: string | URL): RuleSet {
+  const path = dir instanceof URL ? fileURLToPath(dir) : dir;
+  const names = readdirSync(path).filter((name) => name.endsWith('.json')).sort();
+
+  return compileRuleSet(names.map((fileName) => {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(readFileSync(join(path, fileName), 'utf8'));
+    } catch (error) {
+      throw new RuleSetError(`${fileName}: ${(error as Error).message}`);
+    }
+    return { name: fileName.replace(/\.json$/, ''), file: parseRuleFile(raw, fileName) };
+  }));
+}
+
+function rulesDir(): string | URL {
+  return process.env.RELEVANCE_RULES_DIR || DEFAULT_RULES_DIR;
+}
+
+let activeRuleSet: RuleSet | undefined;
+
+/**
+ * The rules in use, loaded from RELEVANCE_RULES_DIR (default:
+ * apps/ingestion/rules/relevance) on first use. Throws if they're invalid,
+ * so a bad deploy fails at startup.
+ */
+export function getRuleSet(): RuleSet {
+  if (!activeRuleSet) activeRuleSet = loadRuleSet(rulesDir());
+  return activeRuleSet;
+}
+
+/**
+ * Re-read the rule files. An invalid edit is logged and the rules already
+ * in use stay in place. Returns the new rule set, or null if it was rejected.
+ */
+export function reloadRuleSet(): RuleSet | null {
+  try {
+    const next = loadRuleSet(rulesDir());
+    const previous = activeRuleSet?.version;
+    activeRuleSet = next;
+    if (next.version !== previous) {
+      console.log(`[Rules] Loaded relevance rules ${next.version}${previous ? ` (was ${previous})` : ''}`);
+    }
+    return next;
+  } catch (error) {
+    console.error(`[Rules] Keeping relevance rules ${activeRuleSet?.version ?? '(none)'}: ${(error as Error).message}`);
+    return null;
+  }
+}
+
+/**
+ * Reload whenever a file in the rules directory changes. Editors write in
+ * bursts, so changes are debounced. Returns a function that stops watching.
+ */
+export function watchRuleSet(debounceMs = 500): () => void {
+  const dir = rulesDir();
+  let timer: NodeJS.Timeout | undefined;
+
+  const watcher = watch(dir instanceof URL ? fileURLToPath(dir) : dir, () => {
+    clearTimeout(timer);
+    timer = setTimeout(reloadRuleSet, debounceMs);
+  });
+  watcher.on('error', (error) => console.error('[Rules] Watch failed:', error.message));
+
+  return () => {
+    clearTimeout(timer);
+    watcher.close();
+  };
+}
+
+/**
+ * Load the rules now, so a bad edit fails the deploy rather than the first
+ * post, then reload on SIGHUP and, unless RELEVANCE_RULES_WATCH=false,
+ * whenever the files change. Returns a function that stops both.
+ */
+export function startRuleReloading(env: NodeJS.ProcessEnv = process.env): () => void {
+  console.log(`[Rules] Relevance rules ${getRuleSet().version}`);
+
+  const stopWatching = env.RELEVANCE_RULES_WATCH !== 'false' ? watchRuleSet() : () => {};
+  const onHangup = () => reloadRuleSet();
+  process.on('SIGHUP', onHangup);
+
+  return () => {
+    stopWatching();
+    process.off('SIGHUP', onHangup);
+  };
+}
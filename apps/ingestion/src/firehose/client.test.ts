@@ -0,0 +1,228 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WebSocketServer, type WebSocket } from 'ws';
+import type { AddressInfo } from 'net';
+import { cborEncode } from '@atproto/common';
+import { FirehoseClient, type FirehoseGap, type FirehoseOptions, type FirehosePost } from './client.js';
+import { MemoryCursorStore } from './cursor-store.js';
+
+// Recorded relay traffic: one post commit per seq, with a non-post event in between
+const RECORDED_EVENTS = [
+  { seq: 1, text: 'ICE agents at the bus station on 5th street' },
+  { seq: 2, text: 'Lovely weather for a picnic today' },
+  { seq: 3, text: 'ICE raid reported near the elementary school' },
+  { seq: 4, identity: true },
+  { seq: 5, text: 'Border patrol checkpoint on highway 94 eastbound' },
+  { seq: 6, text: 'La migra en la tienda de la esquina' }
+];
+
+function frame(header: Record<string, unknown>, body: Record<string, unknown>): Buffer {
+  return Buffer.concat([cborEncode(header), cborEncode(body)]);
+}
+
+function eventFrame(event: typeof RECORDED_EVENTS[number]): Buffer {
+  if (event.identity) {
+    return frame({ op: 1, t: '#identity' }, { seq: event.seq, did: 'did:plc:someone' });
+  }
+  return frame({ op: 1, t: '#commit' }, {
+    seq: event.seq,
+    repo: 'did:plc:witness',
+    ops: [{ action: 'create', path: `app.bsky.feed.post/rkey${event.seq}` }],
+    blocks: cborEncode({ $type: 'app.bsky.feed.post', text: event.text })
+  });
+}
+
+/**
+ * Minimal subscribeRepos relay: replays from the requested cursor, and
+ * only keeps events from `oldestSeq` on (its backfill window)
+ */
+class FakeRelay {
+  server: WebSocketServer;
+  cursors: (number | null)[] = [];
+  oldestSeq = 1;
+  // Close the connection after sending this many events
+  dropAfter: number | null = null;
+
+  constructor() {
+    this.server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    this.server.on('connection', (socket, req) => this.replay(socket, req.url || ''));
+  }
+
+  get url(): string {
+    return `ws://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  private replay(socket: WebSocket, url: string) {
+    const param = new URL(url, 'ws://relay').searchParams.get('cursor');
+    const cursor = param === null ? null : Number(param);
+    this.cursors.push(cursor);
+
+    // Without a cursor the relay streams from "now": nothing recorded is replayed
+    if (cursor === null) return;
+
+    if (cursor < this.oldestSeq - 1) {
+      socket.send(frame({ op: 1, t: '#info' }, {
+        name: 'OutdatedCursor',
+        message: 'Requested cursor exceeded limit. Possibly missing events'
+      }));
+    }
+
+    const events = RECORDED_EVENTS.filter((e) => e.seq > cursor && e.seq >= this.oldestSeq);
+    const toSend = this.dropAfter === null ? events : events.slice(0, this.dropAfter);
+    for (const event of toSend) socket.send(eventFrame(event));
+
+    if (this.dropAfter !== null) {
+      this.dropAfter = null;
+      setTimeout(() => socket.terminate(), 20);
+    }
+  }
+
+  listening(): Promise<void> {
+    return new Promise((resolve) => this.server.once('listening', () => resolve()));
+  }
+
+  close(): Promise<void> {
+    for (const client of this.server.clients) client.terminate();
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 3000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) throw new Error('Timed out waiting for condition');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe('FirehoseClient cursor', () => {
+  let relay: FakeRelay;
+  const clients: FirehoseClient[] = [];
+
+  function startClient(
+    store: MemoryCursorStore,
+    posts: FirehosePost[],
+    gaps: FirehoseGap[] = [],
+    options: Partial<FirehoseOptions> = {}
+  ) {
+    const client = new FirehoseClient({
+      service: relay.url,
+      cursorStore: store,
+      reconnectDelayMs: 10,
+      onPost: async (post) => { posts.push(post); },
+      onGap: (gap) => gaps.push(gap),
+      ...options
+    });
+    clients.push(client);
+    void client.connect();
+    return client;
+  }
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    relay = new FakeRelay();
+    await relay.listening();
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map((client) => client.disconnect()));
+    await relay.close();
+    vi.restoreAllMocks();
+  });
+
+  it('should resume from the stored cursor after a restart', async () => {
+    const store = new MemoryCursorStore(2);
+    const posts: FirehosePost[] = [];
+
+    const client = startClient(store, posts);
+    await waitFor(() => client.currentCursor === 6);
+    await client.disconnect();
+
+    expect(relay.cursors).toEqual([2]);
+    expect(posts.map((p) => p.uri)).toEqual([
+      'at://did:plc:witness/app.bsky.feed.post/rkey3',
+      'at://did:plc:witness/app.bsky.feed.post/rkey5',
+      'at://did:plc:witness/app.bsky.feed.post/rkey6'
+    ]);
+    expect(await store.load()).toBe(6);
+  });
+
+  it('should pick up where it stopped when the connection drops', async () => {
+    const store = new MemoryCursorStore(0);
+    const posts: FirehosePost[] = [];
+    relay.dropAfter = 2;
+
+    const client = startClient(store, posts);
+    await waitFor(() => client.currentCursor === 6);
+
+    expect(relay.cursors).toEqual([0, 2]);
+    expect(posts.map((p) => p.uri.split('/').pop())).toEqual(['rkey1', 'rkey3', 'rkey5', 'rkey6']);
+  });
+
+  it('should report a gap when the cursor is older than the relay keeps', async () => {
+    const store = new MemoryCursorStore(1);
+    const posts: FirehosePost[] = [];
+    const gaps: FirehoseGap[] = [];
+    relay.oldestSeq = 5;
+
+    const client = startClient(store, posts, gaps);
+    await waitFor(() => client.currentCursor === 6);
+
+    expect(gaps).toEqual([{
+      requestedCursor: 1,
+      resumedAt: 5,
+      message: 'Requested cursor exceeded limit. Possibly missing events'
+    }]);
+    expect(posts).toHaveLength(2);
+  });
+
+  it('should start from now without a stored cursor', async () => {
+    const store = new MemoryCursorStore();
+    const client = startClient(store, []);
+    await waitFor(() => relay.cursors.length === 1);
+    await client.disconnect();
+
+    expect(relay.cursors).toEqual([null]);
+    expect(await store.load()).toBeNull();
+  });
+
+  it('should pause on a backlog without losing frames', async () => {
+    const store = new MemoryCursorStore(0);
+    const posts: FirehosePost[] = [];
+    let release!: () => void;
+    const geocoding = new Promise<void>((resolve) => { release = resolve; });
+
+    const client = startClient(store, posts, [], {
+      maxQueuedFrames: 2,
+      onPost: async (post) => {
+        await geocoding;
+        posts.push(post);
+      }
+    });
+    await waitFor(() => vi.mocked(console.warn).mock.calls.length > 0);
+    release();
+    await waitFor(() => client.currentCursor === 6);
+
+    expect(console.warn).toHaveBeenCalledWith('[Firehose] 2 frames waiting on post handling, pausing the stream');
+    expect(posts.map((p) => p.uri.split('/').pop())).toEqual(['rkey1', 'rkey3', 'rkey5', 'rkey6']);
+    expect(relay.cursors).toEqual([0]);
+  });
+
+  it('should not move the cursor past a post that failed, and get it again', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const store = new MemoryCursorStore(0);
+    const posts: FirehosePost[] = [];
+    let failures = 1;
+
+    const client = startClient(store, posts, [], {
+      onPost: async (post) => {
+        if (post.uri.endsWith('rkey3') && failures-- > 0) throw new Error('database down');
+        posts.push(post);
+      }
+    });
+    await waitFor(() => client.currentCursor === 6);
+
+    expect(relay.cursors).toEqual([0, 2]);
+    expect(posts.map((p) => p.uri.split('/').pop())).toEqual(['rkey1', 'rkey3', 'rkey5', 'rkey6']);
+  });
+});
@@ -1,6 +1,8 @@
 import { cborDecodeMulti } from '@atproto/common';
 import WebSocket from 'ws';
-import { SEARCH_KEYWORDS } from '../bluesky/search.js';
+import { createKeywordMatcher } from './keywords.js';
+import { FrameQueue } from './frame-queue.js';
+import { CursorTracker, type CursorStore } from './cursor-store.js';
 
 export interface FirehosePost {
   uri: string;
@@ -8,6 +10,17 @@ export interface FirehosePost {
   text: string;
   authorDid: string;
   createdAt: string;
+  /** Language tags the posting client attached to the record */
+  langs?: string[];
+}
+
+/**
+ * Events we never saw because the relay no longer had them
+ */
+export interface FirehoseGap {
+  requestedCursor: number;
+  resumedAt: number | null;
+  message: string;
 }
 
 export interface FirehoseOptions {
@@ -16,6 +29,13 @@ export interface FirehoseOptions {
   onError?: (error: Error) => void;
   onConnect?: () => void;
   onDisconnect?: () => void;
+  onGap?: (gap: FirehoseGap) => void;
+  /** Resume point across reconnects and restarts; without one every connect starts from "now" */
+  cursorStore?: CursorStore;
+  cursorSaveIntervalMs?: number;
+  reconnectDelayMs?: number;
+  /** Frames allowed to wait on post handling before the stream is paused */
+  maxQueuedFrames?: number;
 }
 
 const FIREHOSE_SERVICE = 'wss://bsky.network';
@@ -30,47 +50,62 @@ export class FirehoseClient {
   private reconnectTimeout: NodeJS.Timeout | null = null;
   private shouldReconnect = true;
   private options: FirehoseOptions;
-  private keywordPatterns: RegExp[];
+  private matchesKeywords: (text: string) => boolean;
+
+  // Highest seq fully processed
+  private cursor: CursorTracker;
+  private pendingGap: { requestedCursor: number; message: string } | null = null;
+
+  // Frames are handled one at a time so the cursor never passes an unprocessed post
+  private queue: FrameQueue;
 
   constructor(options: FirehoseOptions) {
     this.options = options;
-    // Pre-compile keyword patterns for efficient matching
-    this.keywordPatterns = SEARCH_KEYWORDS.map((kw: string) => new RegExp(kw.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i'));
+    this.matchesKeywords = createKeywordMatcher();
+    this.cursor = new CursorTracker('Firehose', options.cursorStore, options.cursorSaveIntervalMs);
+    this.queue = new FrameQueue('Firehose', {
+      maxFrames: options.maxQueuedFrames,
+      onFull: () => this.ws?.pause(),
+      onDrained: () => this.ws?.resume(),
+      // The reconnect resumes from the cursor, which is still before the failed frame
+      onFailed: () => this.ws?.close()
+    });
   }
 
   /**
-   * Check if text matches any of our keywords
+   * Last fully processed sequence number
    */
-  private matchesKeywords(text: string): boolean {
-    return this.keywordPatterns.some(pattern => pattern.test(text));
+  get currentCursor(): number | null {
+    return this.cursor.current;
   }
 
   /**
-   * Connect to the firehose
+   * Connect to the firehose, resuming from the stored cursor if there is one
    */
   async connect(): Promise<void> {
     if (this.ws) {
       return;
     }
 
-    const url = `${this.options.service || FIREHOSE_SERVICE}/xrpc/com.atproto.sync.subscribeRepos`;
+    const cursor = await this.cursor.load();
+
+    const base = `${this.options.service || FIREHOSE_SERVICE}/xrpc/com.atproto.sync.subscribeRepos`;
+    const url = cursor !== null ? `${base}?cursor=${cursor}` : base;
 
     try {
+      this.queue.reset();
       this.ws = new WebSocket(url);
 
       this.ws.onopen = () => {
         console.log('[Firehose] Connected to', url);
+        this.cursor.startAutoSave();
         this.options.onConnect?.();
       };
 
-      this.ws.onmessage = async (event) => {
-        try {
-          if (typeof event.data !== 'string') {
-            await this.handleMessage(event.data);
-          }
-        } catch (error) {
-          console.error('[Firehose] Error handling message:', error);
-        }
+      this.ws.onmessage = (event) => {
+        if (typeof event.data === 'string') return;
+        const data = event.data;
+        this.queue.push(() => this.handleMessage(data));
       };
 
       this.ws.onerror = (error) => {
@@ -81,6 +116,8 @@ export class FirehoseClient {
       this.ws.onclose = () => {
         console.log('[Firehose] Disconnected');
         this.ws = null;
+        this.cursor.stopAutoSave();
+        void this.queue.idle().then(() => this.cursor.save());
         this.options.onDisconnect?.();
 
         if (this.shouldReconnect) {
@@ -109,21 +146,41 @@ export class FirehoseClient {
       return;
     }
 
+    // Decode CBOR message (header + body); many messages won't decode as
+    // posts and are skipped, but a failure to handle a post is not
+    let header: { op: number; t: string };
+    let body: unknown;
     try {
-      // Decode CBOR message (header + body)
       const decoded = cborDecodeMulti(uint8) as [{ op: number; t: string }, unknown];
-
       if (!decoded || decoded.length < 2) {
         return;
       }
+      [header, body] = decoded;
+    } catch {
+      return;
+    }
 
-      const [header, body] = decoded;
+    if (!header || !body || typeof body !== 'object') {
+      return;
+    }
 
-      // We only care about commit messages
-      if (header.t !== '#commit' || !body || typeof body !== 'object') {
-        return;
-      }
+    if (header.op === -1) {
+      this.handleErrorFrame(body as { error?: string; message?: string });
+      return;
+    }
 
+    if (header.t === '#info') {
+      this.handleInfoFrame(body as { name?: string; message?: string });
+      return;
+    }
+
+    const seq = (body as { seq?: unknown }).seq;
+    if (typeof seq === 'number') {
+      this.reportGap(seq);
+    }
+
+    // We only care about commit messages
+    if (header.t === '#commit') {
       const commit = body as {
         repo: string;
         ops: Array<{ action: string; path: string; cid?: unknown }>;
@@ -140,35 +197,79 @@ export class FirehoseClient {
           }
         }
       }
-    } catch {
-      // Silently ignore decode errors - many messages won't be posts
+    }
+
+    // Every sequenced event moves the cursor, not just the posts we keep;
+    // a post that failed above threw first, so the cursor stays before it
+    if (typeof seq === 'number') {
+      this.cursor.advance(seq);
     }
   }
 
+  /**
+   * The relay tells us when our cursor is older than its backfill window;
+   * the next event it sends is the oldest it still has
+   */
+  private handleInfoFrame(info: { name?: string; message?: string }): void {
+    if (info.name === 'OutdatedCursor' && this.cursor.current !== null) {
+      this.pendingGap = {
+        requestedCursor: this.cursor.current,
+        message: info.message || 'Requested cursor exceeded limit. Possibly missing events'
+      };
+    }
+  }
+
+  private handleErrorFrame(error: { error?: string; message?: string }): void {
+    console.error(`[Firehose] Relay error: ${error.error}${error.message ? ` - ${error.message}` : ''}`);
+
+    // A cursor from another relay (or a reset one) can never be served; start from
+    // now, and the first event we process overwrites the stored cursor
+    if (error.error === 'FutureCursor') {
+      this.cursor.reset();
+    }
+  }
+
+  private reportGap(firstSeq: number): void {
+    if (!this.pendingGap) return;
+
+    const gap: FirehoseGap = { ...this.pendingGap, resumedAt: firstSeq };
+    this.pendingGap = null;
+
+    const missed = firstSeq - gap.requestedCursor - 1;
+    console.warn(
+      `[Firehose] Gap: resumed at seq ${firstSeq} instead of ${gap.requestedCursor + 1}` +
+      `${missed > 0 ? ` (~${missed} events missed)` : ''} - ${gap.message}`
+    );
+    this.options.onGap?.(gap);
+  }
+
   /**
    * Process a post operation
    */
   private async processPostOp(repo: string, path: string, blocks: Uint8Array): Promise<void> {
+    let text: string | null;
     try {
       // Try to extract text from blocks (simplified approach)
-      const text = this.extractTextFromBlocks(blocks);
+      text = this.extractTextFromBlocks(blocks);
+    } catch {
+      // Ignore extraction errors
+      return;
+    }
 
-      if (text && this.matchesKeywords(text)) {
-        const rkey = path.split('/')[1];
-        const uri = `at://${repo}/${path}`;
+    if (text && this.matchesKeywords(text)) {
+      const rkey = path.split('/')[1];
+      const uri = `at://${repo}/${path}`;
 
-        const post: FirehosePost = {
-          uri,
-          cid: rkey,
-          text,
-          authorDid: repo,
-          createdAt: new Date().toISOString()
-        };
+      const post: FirehosePost = {
+        uri,
+        cid: rkey,
+        text,
+        authorDid: repo,
+        createdAt: new Date().toISOString()
+      };
 
-        await this.options.onPost(post);
-      }
-    } catch {
-      // Ignore extraction errors
+      // Errors propagate: the frame is retried after a reconnect
+      await this.options.onPost(post);
     }
   }
 
@@ -210,7 +311,7 @@ export class FirehoseClient {
       return;
     }
 
-    const delay = 5000 + Math.random() * 5000; // 5-10 seconds
+    const delay = this.options.reconnectDelayMs ?? 5000 + Math.random() * 5000; // 5-10 seconds
     console.log(`[Firehose] Reconnecting in ${Math.round(delay / 1000)}s...`);
 
     this.reconnectTimeout = setTimeout(() => {
@@ -220,10 +321,11 @@ export class FirehoseClient {
   }
 
   /**
-   * Disconnect from the firehose
+   * Disconnect from the firehose, finishing in-flight posts and saving the cursor
    */
-  disconnect(): void {
+  async disconnect(): Promise<void> {
     this.shouldReconnect = false;
+    this.cursor.stopAutoSave();
 
     if (this.reconnectTimeout) {
       clearTimeout(this.reconnectTimeout);
@@ -234,5 +336,8 @@ export class FirehoseClient {
       this.ws.close();
       this.ws = null;
     }
+
+    await this.queue.idle();
+    await this.cursor.save();
   }
 }
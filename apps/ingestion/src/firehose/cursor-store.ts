@@ -0,0 +1,144 @@
+import { query } from '@ice-activity-map/database';
+
+/**
+ * Where a streaming client resumes from after a reconnect or restart
+ */
+export interface CursorStore {
+  load(): Promise<number | null>;
+  save(cursor: number): Promise<void>;
+}
+
+/**
+ * Cursor kept in the ingestion_cursors table, one row per stream
+ */
+export class DatabaseCursorStore implements CursorStore {
+  private source: string;
+
+  constructor(source: string) {
+    this.source = source;
+  }
+
+  async load(): Promise<number | null> {
+    const result = await query<{ cursor: string }>(
+      'SELECT cursor FROM ingestion_cursors WHERE source = $1',
+      [this.source]
+    );
+    return result.rows[0] ? Number(result.rows[0].cursor) : null;
+  }
+
+  async save(cursor: number): Promise<void> {
+    await query(
+      `INSERT INTO ingestion_cursors (source, cursor, updated_at) VALUES ($1, $2, NOW())
+       ON CONFLICT (source) DO UPDATE SET cursor = EXCLUDED.cursor, updated_at = NOW()`,
+      [this.source, cursor]
+    );
+  }
+}
+
+/**
+ * Cursor that only lives as long as the process (database disabled)
+ */
+export class MemoryCursorStore implements CursorStore {
+  private cursor: number | null;
+
+  constructor(initial: number | null = null) {
+    this.cursor = initial;
+  }
+
+  async load(): Promise<number | null> {
+    return this.cursor;
+  }
+
+  async save(cursor: number): Promise<void> {
+    this.cursor = cursor;
+  }
+}
+
+const CURSOR_SAVE_INTERVAL_MS = 5000;
+
+/**
+ * In-memory cursor for a streaming client, loaded from and periodically
+ * written back to a CursorStore. Without a store every connect starts from "now".
+ */
+export class CursorTracker {
+  private store: CursorStore | undefined;
+  private saveIntervalMs: number;
+  private label: string;
+  private cursor: number | null = null;
+  private savedCursor: number | null = null;
+  private loaded = false;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(label: string, store?: CursorStore, saveIntervalMs = CURSOR_SAVE_INTERVAL_MS) {
+    this.label = label;
+    this.store = store;
+    this.saveIntervalMs = saveIntervalMs;
+  }
+
+  get current(): number | null {
+    return this.cursor;
+  }
+
+  /**
+   * Read the stored cursor once. A failed read is retried on the next
+   * connect rather than silently starting from now forever.
+   */
+  async load(): Promise<number | null> {
+    if (this.loaded || !this.store) return this.cursor;
+
+    try {
+      this.cursor = await this.store.load();
+      this.savedCursor = this.cursor;
+      this.loaded = true;
+      if (this.cursor !== null) {
+        console.log(`[${this.label}] Resuming from cursor ${this.cursor}`);
+      }
+    } catch (error) {
+      console.error(`[${this.label}] Could not load cursor, starting from now:`, error);
+    }
+    return this.cursor;
+  }
+
+  /**
+   * Move past a fully processed event. Cursors only go forward.
+   */
+  advance(cursor: number): void {
+    if (this.cursor === null || cursor > this.cursor) {
+      this.cursor = cursor;
+    }
+  }
+
+  /**
+   * Forget the cursor; the next processed event overwrites the stored one
+   */
+  reset(): void {
+    this.cursor = null;
+  }
+
+  /**
+   * Write the cursor to the store if it moved since the last save
+   */
+  async save(): Promise<void> {
+    const cursor = this.cursor;
+    if (!this.store || cursor === null || cursor === this.savedCursor) return;
+
+    try {
+      await this.store.save(cursor);
+      this.savedCursor = cursor;
+    } catch (error) {
+      console.error(`[${this.label}] Could not save cursor:`, error);
+    }
+  }
+
+  startAutoSave(): void {
+    if (!this.store || this.timer) return;
+    this.timer = setInterval(() => void this.save(), this.saveIntervalMs);
+  }
+
+  stopAutoSave(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { FrameQueue } from './frame-queue.js';
+
+describe('FrameQueue', () => {
+  const onFull = vi.fn();
+  const onDrained = vi.fn();
+  const onFailed = vi.fn();
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    onFull.mockReset();
+    onDrained.mockReset();
+    onFailed.mockReset();
+  });
+
+  it('should handle frames one at a time in order', async () => {
+    const queue = new FrameQueue('Test', { onFull, onDrained, onFailed });
+    const handled: number[] = [];
+
+    for (const n of [1, 2, 3]) {
+      queue.push(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 5 - n));
+        handled.push(n);
+      });
+    }
+    await queue.idle();
+
+    expect(handled).toEqual([1, 2, 3]);
+    expect(queue.size).toBe(0);
+  });
+
+  it('should ask for a pause at the high-water mark and keep every frame', async () => {
+    const queue = new FrameQueue('Test', { maxFrames: 4, onFull, onDrained, onFailed });
+    let release!: () => void;
+    const blocked = new Promise<void>((resolve) => { release = resolve; });
+    const handled: number[] = [];
+
+    for (const n of [1, 2, 3, 4, 5]) {
+      queue.push(async () => {
+        await blocked;
+        handled.push(n);
+      });
+    }
+
+    expect(onFull).toHaveBeenCalledTimes(1);
+    expect(onDrained).not.toHaveBeenCalled();
+
+    release();
+    await queue.idle();
+
+    expect(handled).toEqual([1, 2, 3, 4, 5]);
+    expect(onDrained).toHaveBeenCalledTimes(1);
+  });
+
+  it('should skip the frames behind a failed one until reset', async () => {
+    const queue = new FrameQueue('Test', { onFull, onDrained, onFailed });
+    const handled: number[] = [];
+    const error = new Error('database down');
+
+    queue.push(async () => { handled.push(1); });
+    queue.push(async () => { throw error; });
+    queue.push(async () => { handled.push(3); });
+    await queue.idle();
+    queue.push(async () => { handled.push(4); });
+    await queue.idle();
+
+    expect(onFailed).toHaveBeenCalledWith(error);
+    expect(handled).toEqual([1]);
+
+    queue.reset();
+    queue.push(async () => { handled.push(2); });
+    await queue.idle();
+
+    expect(handled).toEqual([1, 2]);
+    expect(queue.size).toBe(0);
+  });
+});
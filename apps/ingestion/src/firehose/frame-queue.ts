@@ -0,0 +1,103 @@
+const MAX_QUEUED_FRAMES = 5000;
+
+export interface FrameQueueOptions {
+  /** Frames waiting on post handling before the client stops reading */
+  maxFrames?: number;
+  /** The backlog reached `maxFrames`: stop reading from the stream */
+  onFull: () => void;
+  /** The backlog is down to half of `maxFrames`: read again */
+  onDrained: () => void;
+  /**
+   * A frame failed, and the frames queued behind it were discarded so the
+   * cursor stays before it: reconnect from the cursor to get them again
+   */
+  onFailed: (error: unknown) => void;
+}
+
+/**
+ * Frames from a streaming client, handled one at a time so the cursor never
+ * passes an unprocessed post. A frame can wait on geocoding, so when posts
+ * arrive faster than they are handled the client is told to pause reading
+ * rather than have frames pile up or be dropped.
+ */
+export class FrameQueue {
+  private label: string;
+  private options: FrameQueueOptions;
+  private maxFrames: number;
+  private tail: Promise<void> = Promise.resolve();
+  private pending = 0;
+  private full = false;
+  // Bumped on a failure, so frames queued before it are skipped
+  private generation = 0;
+  private failed = false;
+
+  constructor(label: string, options: FrameQueueOptions) {
+    this.label = label;
+    this.options = options;
+    this.maxFrames = options.maxFrames ?? MAX_QUEUED_FRAMES;
+  }
+
+  /**
+   * Frames waiting or being handled
+   */
+  get size(): number {
+    return this.pending;
+  }
+
+  /**
+   * Queue a frame handler. Frames arriving after a failure, until `reset()`,
+   * are ignored: the reconnect replays them.
+   */
+  push(handle: () => Promise<void>): void {
+    if (this.failed) return;
+
+    const generation = this.generation;
+    this.pending++;
+    if (!this.full && this.pending >= this.maxFrames) {
+      this.full = true;
+      console.warn(`[${this.label}] ${this.pending} frames waiting on post handling, pausing the stream`);
+      this.options.onFull();
+    }
+
+    this.tail = this.tail
+      .then(async () => {
+        if (generation !== this.generation) return;
+        try {
+          await handle();
+        } catch (error) {
+          this.fail(error);
+        }
+      })
+      .finally(() => this.settle());
+  }
+
+  /**
+   * Accept frames again, on a new connection after a failure
+   */
+  reset(): void {
+    this.failed = false;
+  }
+
+  /**
+   * Resolves once every queued frame has been handled or skipped
+   */
+  idle(): Promise<void> {
+    return this.tail;
+  }
+
+  private fail(error: unknown): void {
+    console.error(`[${this.label}] Error handling message, reconnecting from the last processed event:`, error);
+    this.generation++;
+    this.failed = true;
+    this.options.onFailed(error);
+  }
+
+  private settle(): void {
+    this.pending--;
+    if (this.full && this.pending <= this.maxFrames / 2) {
+      this.full = false;
+      console.log(`[${this.label}] Caught up, resuming the stream`);
+      this.options.onDrained();
+    }
+  }
+}
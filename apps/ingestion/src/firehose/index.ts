@@ -1,95 +1,35 @@
 import "dotenv/config";
-import { FirehoseClient, type FirehosePost } from "./client.js";
-import { extractLocation, detectActivityType } from "../location/extractor.js";
-import { geocode, geocodeCityState } from "../geocoding/nominatim.js";
-import { createReport, getReportBySourceId, testConnection } from "@ice-activity-map/database";
+import { FirehoseClient, type FirehoseOptions, type FirehosePost } from "./client.js";
+import { JetstreamClient } from "./jetstream.js";
+import { DatabaseCursorStore, MemoryCursorStore } from "./cursor-store.js";
+import { testConnection } from "@ice-activity-map/database";
+import { PersistentDedup } from "../dedup/persistent-cache.js";
+import { IngestionPipeline } from "../pipeline/pipeline.js";
+import { normalizeFirehosePost } from "../pipeline/normalize.js";
+import { startRuleReloading } from "../filters/rules.js";
+import { getGeocoders } from "../geocoding/chain.js";
 
 const ENABLE_DB = process.env.ENABLE_DB !== "false";
 
-const seenPostUris = new Set<string>();
+// "relay" decodes the full CBOR firehose; "jetstream" takes filtered JSON from a Jetstream instance
+const FIREHOSE_MODE = process.env.FIREHOSE_MODE === "jetstream" ? "jetstream" : "relay";
+const FIREHOSE_SERVICE = FIREHOSE_MODE === "jetstream" ? process.env.JETSTREAM_URL : process.env.FIREHOSE_RELAY_URL;
 
-async function processFirehosePost(post: FirehosePost): Promise<void> {
-  // Deduplicate
-  if (seenPostUris.has(post.uri)) {
-    return;
-  }
-  seenPostUris.add(post.uri);
-
-  // Limit seen set size
-  if (seenPostUris.size > 10000) {
-    const iterator = seenPostUris.values();
-    for (let i = 0; i < 1000; i++) {
-      const next = iterator.next();
-      if (next.done) break;
-      seenPostUris.delete(next.value);
-    }
-  }
+// Frames waiting on geocoding before the stream is paused
+const FIREHOSE_MAX_QUEUED_FRAMES = parseInt(process.env.FIREHOSE_MAX_QUEUED_FRAMES || "5000", 10);
 
-  console.log(`\n[Firehose] New matching post from ${post.authorDid}`);
-  console.log(`  Text: ${post.text.substring(0, 200)}${post.text.length > 200 ? "..." : ""}`);
-
-  // Extract location and activity type
-  const extractedLocation = extractLocation(post.text);
-  const activityType = detectActivityType(post.text);
-
-  let city: string | null = null;
-  let state: string | null = null;
-  let latitude: number | null = null;
-  let longitude: number | null = null;
-
-  if (extractedLocation) {
-    city = extractedLocation.city;
-    state = extractedLocation.state;
-
-    if (city && state) {
-      const geocoded = await geocodeCityState(city, state);
-      if (geocoded) {
-        latitude = geocoded.latitude;
-        longitude = geocoded.longitude;
-        city = geocoded.city || city;
-        state = geocoded.state || state;
-      }
-    } else if (city) {
-      const geocoded = await geocode(`${city}, USA`);
-      if (geocoded) {
-        latitude = geocoded.latitude;
-        longitude = geocoded.longitude;
-        city = geocoded.city || city;
-        state = geocoded.state || state;
-      }
-    }
-  }
+// Same dedup cache and pipeline as polling mode, so a post seen by either is handled once
+const dedup = new PersistentDedup(ENABLE_DB);
+const pipeline = new IngestionPipeline({ dedup, enableDb: ENABLE_DB });
 
-  const locationStr = city && state
-    ? `${city}, ${state}`
-    : city || state || "Unknown location";
-
-  console.log(`  Activity: ${activityType.toUpperCase()}`);
-  console.log(`  Location: ${locationStr}`);
-
-  // Save to database
-  if (ENABLE_DB && (latitude !== null || city !== null)) {
-    try {
-      const existing = await getReportBySourceId("bluesky", post.uri);
-      if (!existing) {
-        await createReport({
-          sourceType: "bluesky",
-          sourceId: post.uri,
-          activityType,
-          description: post.text,
-          city: city ?? undefined,
-          state: state ?? undefined,
-          latitude: latitude ?? undefined,
-          longitude: longitude ?? undefined,
-          authorHandle: post.authorDid,
-          authorDisplayName: undefined,
-          reportedAt: new Date(post.createdAt)
-        });
-        console.log(`  [SAVED to database]`);
-      }
-    } catch (error) {
-      console.error("  [DB Error]:", error);
-    }
+// Firehose posts trickle in one at a time; batch dedup inserts on a timer
+const DEDUP_FLUSH_INTERVAL_MS = 30 * 1000;
+
+async function processFirehosePost(post: FirehosePost): Promise<void> {
+  const result = await pipeline.ingest(normalizeFirehosePost(post));
+  // Keeps the cursor before the post; the client reconnects and it comes round again
+  if (result.processed?.decision === 'save_failed') {
+    throw new Error(`Could not save report for ${post.uri}`);
   }
 }
 
@@ -97,7 +37,7 @@ async function main(): Promise<void> {
   console.log("╔══════════════════════════════════════════════════╗");
   console.log("║   ICE Activity Map - Firehose Ingestion Mode     ║");
   console.log("╠══════════════════════════════════════════════════╣");
-  console.log(`║  Mode: Real-time firehose                        ║`);
+  console.log(`║  Mode: Real-time firehose (${FIREHOSE_MODE.padEnd(9)})            ║`);
   console.log(`║  Database: ${ENABLE_DB ? "enabled " : "disabled"}                         ║`);
 
   if (ENABLE_DB) {
@@ -110,11 +50,19 @@ async function main(): Promise<void> {
 
   console.log("╚══════════════════════════════════════════════════╝");
   console.log("");
+
+  // Relevance rules: validated now, reloaded on change and on SIGHUP
+  const stopReloadingRules = startRuleReloading();
+
+  // Same for GEOCODERS: an unknown or unconfigured geocoder fails at startup
+  console.log(`[Geocoding] ${getGeocoders().map((geocoder) => geocoder.description).join(" → ")}`);
+
   console.log("[Firehose] Starting real-time monitoring...");
-  console.log("[Firehose] Filtering for ICE/immigration keywords");
+  console.log("[Firehose] Filtering for ICE/immigration keywords, then the shared relevance pipeline");
   console.log("");
 
-  const client = new FirehoseClient({
+  const options: FirehoseOptions = {
+    service: FIREHOSE_SERVICE || undefined,
     onPost: processFirehosePost,
     onConnect: () => {
       console.log("[Firehose] ✓ Connected and listening for posts");
@@ -124,21 +72,39 @@ async function main(): Promise<void> {
     },
     onError: (error) => {
       console.error("[Firehose] Error:", error.message);
-    }
-  });
+    },
+    onGap: (gap) => {
+      console.error(`[Firehose] Posts between cursor ${gap.requestedCursor} and ${gap.resumedAt ?? "now"} were not ingested`);
+    },
+    // Resume where we left off after deploys and network blips. Relay seqs and
+    // Jetstream timestamps aren't interchangeable, so each mode keeps its own cursor.
+    cursorStore: ENABLE_DB
+      ? new DatabaseCursorStore(FIREHOSE_MODE === "jetstream" ? "bluesky_jetstream" : "bluesky_firehose")
+      : new MemoryCursorStore(),
+    maxQueuedFrames: FIREHOSE_MAX_QUEUED_FRAMES
+  };
+  const client = FIREHOSE_MODE === "jetstream" ? new JetstreamClient(options) : new FirehoseClient(options);
+
+  const flushTimer = setInterval(() => {
+    pipeline.flush().catch((error) => console.error("[Dedup] Flush failed:", error));
+  }, DEDUP_FLUSH_INTERVAL_MS);
+
+  // Daily dedup cache cleanup and archive retention
+  const stopPruning = pipeline.startArchivePruning();
 
   // Handle graceful shutdown
-  process.on("SIGINT", () => {
+  const shutdown = async () => {
     console.log("\n[Firehose] Shutting down...");
-    client.disconnect();
+    clearInterval(flushTimer);
+    stopPruning();
+    stopReloadingRules();
+    await client.disconnect();
+    await pipeline.flush().catch(() => 0);
     process.exit(0);
-  });
+  };
 
-  process.on("SIGTERM", () => {
-    console.log("\n[Firehose] Shutting down...");
-    client.disconnect();
-    process.exit(0);
-  });
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
 
   await client.connect();
 }
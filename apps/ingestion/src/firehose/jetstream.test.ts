@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WebSocketServer, type WebSocket } from 'ws';
+import type { AddressInfo } from 'net';
+import { JetstreamClient } from './jetstream.js';
+import type { FirehoseGap, FirehoseOptions, FirehosePost } from './client.js';
+import { MemoryCursorStore } from './cursor-store.js';
+
+const BASE_US = 1_760_000_000_000_000;
+
+// Recorded Jetstream traffic, one event every second
+const RECORDED_EVENTS = [
+  { text: 'ICE agents at the bus station on 5th street' },
+  { text: 'Lovely weather for a picnic today' },
+  { text: 'ICE raid reported near the elementary school' },
+  { identity: true },
+  { text: 'Border patrol checkpoint on highway 94 eastbound' }
+].map((event, i) => ({ ...event, timeUs: BASE_US + i * 1_000_000, rkey: `rkey${i + 1}` }));
+
+function eventJson(event: typeof RECORDED_EVENTS[number]): string {
+  if (event.identity) {
+    return JSON.stringify({ did: 'did:plc:someone', time_us: event.timeUs, kind: 'identity', identity: {} });
+  }
+  return JSON.stringify({
+    did: 'did:plc:witness',
+    time_us: event.timeUs,
+    kind: 'commit',
+    commit: {
+      rev: 'rev',
+      operation: 'create',
+      collection: 'app.bsky.feed.post',
+      rkey: event.rkey,
+      cid: `cid-${event.rkey}`,
+      record: { $type: 'app.bsky.feed.post', text: event.text, createdAt: '2026-10-19T12:00:00.000Z' }
+    }
+  });
+}
+
+/**
+ * Minimal Jetstream: replays from the requested time_us, and silently starts
+ * from `oldestUs` when the cursor is older than its retention
+ */
+class FakeJetstream {
+  server: WebSocketServer;
+  requests: URL[] = [];
+  oldestUs = BASE_US;
+
+  constructor() {
+    this.server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    this.server.on('connection', (socket, req) => this.replay(socket, req.url || ''));
+  }
+
+  get url(): string {
+    return `ws://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  private replay(socket: WebSocket, url: string) {
+    const request = new URL(url, 'ws://jetstream');
+    this.requests.push(request);
+
+    const param = request.searchParams.get('cursor');
+    if (param === null) return;
+
+    const cursor = Math.max(Number(param), this.oldestUs);
+    for (const event of RECORDED_EVENTS.filter((e) => e.timeUs >= cursor)) {
+      socket.send(eventJson(event));
+    }
+  }
+
+  listening(): Promise<void> {
+    return new Promise((resolve) => this.server.once('listening', () => resolve()));
+  }
+
+  close(): Promise<void> {
+    for (const client of this.server.clients) client.terminate();
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 3000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) throw new Error('Timed out waiting for condition');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe('JetstreamClient', () => {
+  let jetstream: FakeJetstream;
+  const clients: JetstreamClient[] = [];
+  const lastUs = RECORDED_EVENTS[RECORDED_EVENTS.length - 1].timeUs;
+
+  function startClient(
+    store: MemoryCursorStore,
+    posts: FirehosePost[],
+    gaps: FirehoseGap[] = [],
+    options: Partial<FirehoseOptions> = {}
+  ) {
+    const client = new JetstreamClient({
+      service: jetstream.url,
+      cursorStore: store,
+      reconnectDelayMs: 10,
+      onPost: async (post) => { posts.push(post); },
+      onGap: (gap) => gaps.push(gap),
+      ...options
+    });
+    clients.push(client);
+    void client.connect();
+    return client;
+  }
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    jetstream = new FakeJetstream();
+    await jetstream.listening();
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map((client) => client.disconnect()));
+    await jetstream.close();
+    vi.restoreAllMocks();
+  });
+
+  it('should subscribe to posts only and resume from the stored cursor', async () => {
+    const store = new MemoryCursorStore(RECORDED_EVENTS[1].timeUs);
+    const posts: FirehosePost[] = [];
+
+    const client = startClient(store, posts);
+    await waitFor(() => client.currentCursor === lastUs);
+    await client.disconnect();
+
+    expect(jetstream.requests[0].pathname).toBe('/subscribe');
+    expect(jetstream.requests[0].searchParams.getAll('wantedCollections')).toEqual(['app.bsky.feed.post']);
+    expect(jetstream.requests[0].searchParams.get('cursor')).toBe(String(RECORDED_EVENTS[1].timeUs));
+    expect(await store.load()).toBe(lastUs);
+    expect(posts.map((p) => p.uri.split('/').pop())).toEqual(['rkey3', 'rkey5']);
+  });
+
+  it('should emit keyword matches in the same shape as the relay client', async () => {
+    const posts: FirehosePost[] = [];
+
+    const client = startClient(new MemoryCursorStore(BASE_US), posts);
+    await waitFor(() => client.currentCursor === lastUs);
+
+    expect(posts).toHaveLength(3);
+    expect(posts[0]).toEqual({
+      uri: 'at://did:plc:witness/app.bsky.feed.post/rkey1',
+      cid: 'cid-rkey1',
+      text: 'ICE agents at the bus station on 5th street',
+      authorDid: 'did:plc:witness',
+      createdAt: '2026-10-19T12:00:00.000Z'
+    });
+  });
+
+  it('should report a gap when the cursor is older than Jetstream keeps', async () => {
+    const requested = BASE_US - 10 * 60 * 1_000_000;
+    const gaps: FirehoseGap[] = [];
+
+    const client = startClient(new MemoryCursorStore(requested), [], gaps);
+    await waitFor(() => client.currentCursor === lastUs);
+
+    expect(gaps).toEqual([{
+      requestedCursor: requested,
+      resumedAt: BASE_US,
+      message: 'Cursor is older than Jetstream retention. Possibly missing events'
+    }]);
+  });
+
+  it('should start from now without a stored cursor', async () => {
+    const client = startClient(new MemoryCursorStore(), []);
+    await waitFor(() => jetstream.requests.length === 1);
+    await client.disconnect();
+
+    expect(jetstream.requests[0].searchParams.has('cursor')).toBe(false);
+  });
+
+  it('should not move the cursor past a post that failed, and get it again', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const store = new MemoryCursorStore(RECORDED_EVENTS[0].timeUs - 1);
+    const posts: FirehosePost[] = [];
+    let failures = 1;
+
+    const client = startClient(store, posts, [], {
+      onPost: async (post) => {
+        if (post.uri.endsWith('rkey3') && failures-- > 0) throw new Error('database down');
+        posts.push(post);
+      }
+    });
+    await waitFor(() => client.currentCursor === lastUs);
+
+    expect(jetstream.requests.map((request) => Number(request.searchParams.get('cursor'))))
+      .toEqual([RECORDED_EVENTS[0].timeUs - 1, RECORDED_EVENTS[1].timeUs]);
+    expect(posts.map((p) => p.uri.split('/').pop())).toEqual(['rkey1', 'rkey3', 'rkey5']);
+  });
+});
@@ -0,0 +1,219 @@
+import WebSocket from 'ws';
+import { createKeywordMatcher } from './keywords.js';
+import { FrameQueue } from './frame-queue.js';
+import { CursorTracker } from './cursor-store.js';
+import type { FirehoseGap, FirehoseOptions, FirehosePost } from './client.js';
+
+const JETSTREAM_SERVICE = 'wss://jetstream2.us-east.bsky.network';
+const POST_COLLECTION = 'app.bsky.feed.post';
+
+// Events are microseconds apart on a live network; a first event this far past
+// the requested cursor means Jetstream no longer had what we asked for
+const GAP_THRESHOLD_US = 60 * 1000 * 1000;
+
+interface JetstreamEvent {
+  did: string;
+  time_us: number;
+  kind: 'commit' | 'identity' | 'account';
+  commit?: {
+    operation: 'create' | 'update' | 'delete';
+    collection: string;
+    rkey: string;
+    cid?: string;
+    record?: { text?: string; createdAt?: string; langs?: string[] };
+  };
+}
+
+/**
+ * Jetstream client: the same posts as the relay firehose, but as JSON and
+ * filtered server-side to post records, so there is no CBOR/CAR decoding and
+ * far less bandwidth. The cursor is the event's time_us rather than a relay seq.
+ */
+export class JetstreamClient {
+  private ws: WebSocket | null = null;
+  private reconnectTimeout: NodeJS.Timeout | null = null;
+  private shouldReconnect = true;
+  private options: FirehoseOptions;
+  private matchesKeywords: (text: string) => boolean;
+
+  // time_us of the last fully processed event
+  private cursor: CursorTracker;
+  private requestedCursor: number | null = null;
+
+  // Events are handled one at a time so the cursor never passes an unprocessed post
+  private queue: FrameQueue;
+
+  constructor(options: FirehoseOptions) {
+    this.options = options;
+    this.matchesKeywords = createKeywordMatcher();
+    this.cursor = new CursorTracker('Jetstream', options.cursorStore, options.cursorSaveIntervalMs);
+    this.queue = new FrameQueue('Jetstream', {
+      maxFrames: options.maxQueuedFrames,
+      onFull: () => this.ws?.pause(),
+      onDrained: () => this.ws?.resume(),
+      // The reconnect resumes from the cursor, which is still before the failed frame
+      onFailed: () => this.ws?.close()
+    });
+  }
+
+  /**
+   * time_us of the last fully processed event
+   */
+  get currentCursor(): number | null {
+    return this.cursor.current;
+  }
+
+  /**
+   * Connect to Jetstream, resuming from the stored cursor if there is one
+   */
+  async connect(): Promise<void> {
+    if (this.ws) {
+      return;
+    }
+
+    const cursor = await this.cursor.load();
+    this.requestedCursor = cursor;
+
+    const params = new URLSearchParams({ wantedCollections: POST_COLLECTION });
+    if (cursor !== null) {
+      params.set('cursor', String(cursor));
+    }
+    const url = `${this.options.service || JETSTREAM_SERVICE}/subscribe?${params}`;
+
+    try {
+      this.queue.reset();
+      this.ws = new WebSocket(url);
+
+      this.ws.onopen = () => {
+        console.log('[Jetstream] Connected to', url);
+        this.cursor.startAutoSave();
+        this.options.onConnect?.();
+      };
+
+      this.ws.onmessage = (event) => {
+        const data = Array.isArray(event.data) ? Buffer.concat(event.data).toString() : event.data.toString();
+        this.queue.push(() => this.handleMessage(data));
+      };
+
+      this.ws.onerror = (error) => {
+        console.error('[Jetstream] WebSocket error:', error);
+        this.options.onError?.(new Error('WebSocket error'));
+      };
+
+      this.ws.onclose = () => {
+        console.log('[Jetstream] Disconnected');
+        this.ws = null;
+        this.cursor.stopAutoSave();
+        void this.queue.idle().then(() => this.cursor.save());
+        this.options.onDisconnect?.();
+
+        if (this.shouldReconnect) {
+          this.scheduleReconnect();
+        }
+      };
+    } catch (error) {
+      console.error('[Jetstream] Failed to connect:', error);
+      this.scheduleReconnect();
+    }
+  }
+
+  /**
+   * Handle one JSON event
+   */
+  private async handleMessage(data: string): Promise<void> {
+    let event: JetstreamEvent;
+    try {
+      event = JSON.parse(data) as JetstreamEvent;
+    } catch {
+      return;
+    }
+
+    if (typeof event.time_us !== 'number') {
+      return;
+    }
+
+    this.checkGap(event.time_us);
+
+    const commit = event.commit;
+    if (
+      event.kind === 'commit' &&
+      commit?.operation === 'create' &&
+      commit.collection === POST_COLLECTION &&
+      typeof commit.record?.text === 'string' &&
+      this.matchesKeywords(commit.record.text)
+    ) {
+      const post: FirehosePost = {
+        uri: `at://${event.did}/${POST_COLLECTION}/${commit.rkey}`,
+        cid: commit.cid || commit.rkey,
+        text: commit.record.text,
+        authorDid: event.did,
+        createdAt: commit.record.createdAt || new Date(event.time_us / 1000).toISOString(),
+        langs: commit.record.langs
+      };
+
+      await this.options.onPost(post);
+    }
+
+    // Every event moves the cursor, not just the posts we keep
+    this.cursor.advance(event.time_us);
+  }
+
+  /**
+   * Jetstream silently starts from the oldest event it still has when the
+   * cursor is past its retention, so compare the first event to what we asked for
+   */
+  private checkGap(firstTimeUs: number): void {
+    const requested = this.requestedCursor;
+    if (requested === null) return;
+    this.requestedCursor = null;
+
+    if (firstTimeUs - requested <= GAP_THRESHOLD_US) return;
+
+    const gap: FirehoseGap = {
+      requestedCursor: requested,
+      resumedAt: firstTimeUs,
+      message: 'Cursor is older than Jetstream retention. Possibly missing events'
+    };
+    const missedSeconds = Math.round((firstTimeUs - requested) / 1_000_000);
+    console.warn(`[Jetstream] Gap: resumed ${missedSeconds}s after the requested cursor - ${gap.message}`);
+    this.options.onGap?.(gap);
+  }
+
+  /**
+   * Schedule reconnection
+   */
+  private scheduleReconnect(): void {
+    if (this.reconnectTimeout) {
+      return;
+    }
+
+    const delay = this.options.reconnectDelayMs ?? 5000 + Math.random() * 5000; // 5-10 seconds
+    console.log(`[Jetstream] Reconnecting in ${Math.round(delay / 1000)}s...`);
+
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.connect();
+    }, delay);
+  }
+
+  /**
+   * Disconnect from Jetstream, finishing in-flight posts and saving the cursor
+   */
+  async disconnect(): Promise<void> {
+    this.shouldReconnect = false;
+    this.cursor.stopAutoSave();
+
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+
+    if (this.ws) {
+      this.ws.close();
+      this.ws = null;
+    }
+
+    await this.queue.idle();
+    await this.cursor.save();
+  }
+}
@@ -0,0 +1,11 @@
+import { SEARCH_KEYWORDS } from '../bluesky/search.js';
+
+/**
+ * Cheap prefilter for streaming modes: only posts mentioning one of the
+ * search keywords go on to the ingestion pipeline
+ */
+export function createKeywordMatcher(keywords: string[] = SEARCH_KEYWORDS): (text: string) => boolean {
+  // Pre-compile keyword patterns for efficient matching
+  const patterns = keywords.map((kw) => new RegExp(kw.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i'));
+  return (text) => patterns.some((pattern) => pattern.test(text));
+}
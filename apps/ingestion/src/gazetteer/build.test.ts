@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { buildGazetteer, formatGazetteer, parsePopulation, placeName } from './build';
+import { Gazetteer, GazetteerError, parseGazetteer } from './gazetteer';
+
+const PLACES = [
+  'USPS\tGEOID\tANSICODE\tNAME\tLSAD\tFUNCSTAT\tALAND\tAWATER\tALAND_SQMI\tAWATER_SQMI\tINTPTLAT\tINTPTLONG                                                                                                               ',
+  'CA\t0644000\t02410877\tLos Angeles city\t25\tA\t1216005823\t86436914\t469.502\t33.373\t34.019394\t-118.410825',
+  'CA\t0620802\t02408059\tEast Los Angeles CDP\t57\tS\t19308560\t0\t7.455\t0\t34.031075\t-118.169052',
+  'TN\t4752006\t02405092\tNashville-Davidson metropolitan government (balance)\t00\tF\t1230000000\t50000000\t475\t19\t36.171800\t-86.785002',
+  'HI\t1571550\t02630783\tUrban Honolulu CDP\t57\tS\t156753700\t0\t60.52\t0\t21.325803\t-157.845315'
+].join('\n');
+
+const COUNTIES = [
+  'USPS\tGEOID\tANSICODE\tNAME\tALAND\tAWATER\tALAND_SQMI\tAWATER_SQMI\tINTPTLAT\tINTPTLONG',
+  'CA\t06037\t00277283\tLos Angeles County\t10510000000\t1790000000\t4057.884\t691.055\t34.196398\t-118.261862',
+  'VA\t51760\t01789073\tRichmond city\t155000000\t6000000\t59.8\t2.3\t37.531399\t-77.476009'
+].join('\n');
+
+const ESTIMATES = [
+  'SUMLEV,STATE,COUNTY,PLACE,COUSUB,CONCIT,PRIMGEO_FLAG,FUNCSTAT,NAME,STNAME,ESTIMATESBASE2020,POPESTIMATE2020,POPESTIMATE2023',
+  '162,06,000,44000,00000,00000,0,A,Los Angeles city,California,3898767,3895848,3820914',
+  '157,06,037,44000,00000,00000,0,A,Los Angeles city,California,3898767,3895848,3820914',
+  '050,06,037,00000,00000,00000,0,A,"Los Angeles County",California,10014042,10001781,9663345'
+].join('\n');
+
+describe('placeName', () => {
+  it('should drop the legal description and tell CDPs apart', () => {
+    expect(placeName('Los Angeles city')).toEqual({ name: 'Los Angeles', aliases: [], kind: 'city' });
+    expect(placeName('East Los Angeles CDP')).toEqual({ name: 'East Los Angeles', aliases: [], kind: 'cdp' });
+    expect(placeName('Salt Lake City city').name).toBe('Salt Lake City');
+  });
+
+  it('should name consolidated cities the way posts do', () => {
+    expect(placeName('Nashville-Davidson metropolitan government (balance)'))
+      .toEqual({ name: 'Nashville', aliases: ['Nashville-Davidson'], kind: 'city' });
+    expect(placeName('Louisville/Jefferson County metro government (balance)').name).toBe('Louisville');
+    expect(placeName('Urban Honolulu CDP')).toEqual({ name: 'Honolulu', aliases: ['Urban Honolulu'], kind: 'cdp' });
+  });
+});
+
+describe('parsePopulation', () => {
+  it('should read the latest estimate for places and counties', () => {
+    expect(parsePopulation(ESTIMATES)).toEqual(new Map([
+      ['place:0644000', 3820914],
+      ['county:06037', 9663345]
+    ]));
+  });
+
+  it('should read Census API exports', () => {
+    expect(parsePopulation('P1_001N,state,place\n118786,06,20802')).toEqual(new Map([['place:0620802', 118786]]));
+    expect(parsePopulation('[["P1_001N","state","place"],\n["118786","06","20802"]]')).toEqual(new Map([['place:0620802', 118786]]));
+    expect(() => parsePopulation('[{"P1_001N":"118786"}]')).toThrow(GazetteerError);
+    expect(() => parsePopulation('NAME,STATE\nx,06')).toThrow(GazetteerError);
+  });
+});
+
+describe('buildGazetteer', () => {
+  const seed = parseGazetteer([
+    'Los Angeles\tCA\tcity\t34.05\t-118.24\t3898747',
+    'San Ysidro\tCA\tcommunity\t32.5561\t-117.0431\t28000',
+    'Honolulu\tHI\tcdp\t21.3\t-157.85\t350964'
+  ].join('\n'));
+
+  const places = buildGazetteer({
+    places: PLACES,
+    counties: COUNTIES,
+    population: [ESTIMATES],
+    seed,
+    aliases: '# alias\tname\tstate\nLA\tLos Angeles\tCA\nLA County\tLos Angeles County\tCA\n'
+  });
+
+  it('should combine Census places, counties, populations, seed places and aliases', () => {
+    expect(places.map((place) => `${place.name}, ${place.state} (${place.kind})`)).toEqual([
+      'Los Angeles County, CA (county)',
+      'Los Angeles, CA (city)',
+      'Honolulu, HI (cdp)',
+      'San Ysidro, CA (community)',
+      'East Los Angeles, CA (cdp)',
+      'Nashville, TN (city)'
+    ]);
+    expect(places[1]).toEqual({
+      name: 'Los Angeles',
+      state: 'CA',
+      kind: 'city',
+      latitude: 34.0194,
+      longitude: -118.4108,
+      population: 3820914,
+      aliases: ['LA']
+    });
+    // Without an estimate, the seed's population stays
+    expect(places[2]).toMatchObject({ population: 350964, latitude: 21.3258, aliases: ['Urban Honolulu'] });
+    expect(places[0].aliases).toEqual(['LA County']);
+  });
+
+  it('should reject aliases for places it does not have', () => {
+    expect(() => buildGazetteer({ seed, aliases: 'Frisco\tSan Francisco\tCA' })).toThrow(/isn't in the gazetteer/);
+  });
+
+  it('should write a file the gazetteer reads back', () => {
+    const text = formatGazetteer(places, ['2023_Gaz_place_national.txt']);
+    const gazetteer = new Gazetteer(parseGazetteer(text));
+
+    expect(text.split('\n')[1]).toBe('# Built by npm run build-gazetteer from 2023_Gaz_place_national.txt');
+    expect(gazetteer.places).toEqual(places);
+    expect(gazetteer.lookup('LA')[0].name).toBe('Los Angeles');
+  });
+});
@@ -0,0 +1,289 @@
+import { GAZETTEER_FORMAT_VERSION, GazetteerError, normalizePlaceName, type GazetteerPlace, type PlaceKind } from './gazetteer.js';
+
+/**
+ * Turns the Census Bureau's Gazetteer files (one row per place or county
+ * with its internal point) and population estimates into the compact file
+ * the gazetteer reads. https://www.census.gov/geographies/reference-files/time-series/geo/gazetteer-files.html
+ */
+
+export interface GazetteerSources {
+  /** Contents of a places Gazetteer file (2020 and later layout) */
+  places?: string;
+  /** Contents of a counties Gazetteer file */
+  counties?: string;
+  /** Contents of population CSVs: sub-est, co-est or a Census API export */
+  population?: string[];
+  /** Hand-maintained places, in the gazetteer format */
+  seed?: GazetteerPlace[];
+  /** Hand-maintained aliases: alias, place name and state, tab-separated */
+  aliases?: string;
+}
+
+// The legal description Census appends to place names, longest first
+const PLACE_SUFFIXES = [
+  ' consolidated government (balance)',
+  ' metropolitan government (balance)',
+  ' unified government (balance)',
+  ' metro government (balance)',
+  ' city and borough',
+  ' urban county',
+  ' (balance)',
+  ' municipality',
+  ' zona urbana',
+  ' comunidad',
+  ' borough',
+  ' village',
+  ' city',
+  ' town',
+  ' CDP'
+];
+
+const CDP_SUFFIXES = [' CDP', ' comunidad', ' zona urbana'];
+
+// Consolidated city-counties Census names after both ("Nashville-Davidson",
+// "Louisville/Jefferson County"); posts use the city part
+const CONSOLIDATED_SUFFIXES = [' (balance)', ' urban county'];
+
+// Census names posts don't use
+const DISPLAY_NAMES: Record<string, string> = {
+  'Urban Honolulu': 'Honolulu',
+  'Boise City': 'Boise'
+};
+
+/**
+ * A Census place name without its legal description, the name posts use
+ * for it, and whether it's a census-designated place
+ */
+export function placeName(censusName: string): { name: string; aliases: string[]; kind: PlaceKind } {
+  const suffix = PLACE_SUFFIXES.find((candidate) => censusName.endsWith(candidate));
+  const base = suffix ? censusName.slice(0, -suffix.length) : censusName;
+  const kind: PlaceKind = suffix && CDP_SUFFIXES.includes(suffix) ? 'cdp' : 'city';
+  const consolidated = suffix !== undefined && CONSOLIDATED_SUFFIXES.some((candidate) => suffix.endsWith(candidate));
+
+  if (consolidated && /[-/]/.test(base)) {
+    return { name: base.split(/[-/]/)[0].trim(), aliases: [base], kind };
+  }
+  if (DISPLAY_NAMES[base]) {
+    return { name: DISPLAY_NAMES[base], aliases: [base], kind };
+  }
+  return { name: base, aliases: [], kind };
+}
+
+function parseTable(text: string, separator: string): Record<string, string>[] {
+  const lines = text.split('\n').map((line) => line.replace(/\r$/, '')).filter((line) => line.trim());
+  if (lines.length === 0) return [];
+  const split = separator === ',' ? splitCsvLine : (line: string) => line.split(separator);
+  const header = split(lines[0]).map((column) => column.trim().replace(/^\uFEFF/, ''));
+
+  return lines.slice(1).map((line) => {
+    const values = split(line);
+    return Object.fromEntries(header.map((column, i) => [column, (values[i] ?? '').trim()]));
+  });
+}
+
+function splitCsvLine(line: string): string[] {
+  const values: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"' && quoted && line[i + 1] === '"') {
+      current += '"';
+      i++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === ',' && !quoted) {
+      values.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  values.push(current);
+  return values;
+}
+
+function column(row: Record<string, string>, ...names: string[]): string | undefined {
+  for (const name of names) {
+    const key = Object.keys(row).find((candidate) => candidate.toLowerCase() === name.toLowerCase());
+    if (key !== undefined && row[key] !== '') return row[key];
+  }
+  return undefined;
+}
+
+function coordinates(row: Record<string, string>, source: string): { latitude: number; longitude: number } {
+  const latitude = Number(column(row, 'INTPTLAT'));
+  const longitude = Number(column(row, 'INTPTLONG'));
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+    throw new GazetteerError(`${source}: ${column(row, 'NAME') ?? 'row'} has no INTPTLAT/INTPTLONG`);
+  }
+  return { latitude: Number(latitude.toFixed(4)), longitude: Number(longitude.toFixed(4)) };
+}
+
+/**
+ * The Census API's JSON: an array of rows, the first one the header
+ */
+function parseJsonTable(text: string): Record<string, string>[] {
+  let table: unknown;
+  try {
+    table = JSON.parse(text);
+  } catch {
+    throw new GazetteerError('population file looks like JSON but does not parse');
+  }
+  if (!Array.isArray(table) || !table.every(Array.isArray)) {
+    throw new GazetteerError('population JSON must be an array of rows, as the Census API returns');
+  }
+  const [header = [], ...rows] = table as unknown[][];
+  return rows.map((values) => Object.fromEntries(header.map((name, i) => [String(name), String(values[i] ?? '')])));
+}
+
+/**
+ * Populations by GEOID, as "place:0644000" and "county:06037". Reads the
+ * latest POPESTIMATE column of the Census estimates files, or P1_001N /
+ * POPULATION with state, place or county codes from other exports, as CSV
+ * or the Census API's JSON (CDPs aren't in the estimates).
+ */
+export function parsePopulation(text: string): Map<string, number> {
+  const populations = new Map<string, number>();
+  const rows = text.trimStart().startsWith('[') ? parseJsonTable(text) : parseTable(text, ',');
+  if (rows.length === 0) return populations;
+
+  const columns = Object.keys(rows[0]);
+  const populationColumn = columns.filter((name) => /^POPESTIMATE\d{4}$/i.test(name)).sort().pop()
+    ?? columns.find((name) => /^(P1_001N|POPULATION|POP)$/i.test(name));
+  if (!populationColumn) {
+    throw new GazetteerError('population file has no POPESTIMATE<year>, P1_001N or POPULATION column');
+  }
+
+  for (const row of rows) {
+    const population = Number(row[populationColumn]);
+    if (!Number.isFinite(population)) continue;
+    const summaryLevel = column(row, 'SUMLEV');
+    const state = column(row, 'STATE')?.padStart(2, '0');
+    const place = column(row, 'PLACE');
+    const county = column(row, 'COUNTY');
+    if (!state) continue;
+
+    // sub-est files repeat places for every county they're in (SUMLEV 157)
+    if (summaryLevel && !['050', '162', '170', '172'].includes(summaryLevel)) continue;
+    if (place && place !== '00000' && summaryLevel !== '050') {
+      populations.set(`place:${state}${place.padStart(5, '0')}`, population);
+    } else if (county && county !== '000') {
+      populations.set(`county:${state}${county.padStart(3, '0')}`, population);
+    }
+  }
+  return populations;
+}
+
+function placeKey(place: Pick<GazetteerPlace, 'name' | 'state' | 'kind'>): string {
+  return `${normalizePlaceName(place.name)}|${place.state}|${place.kind === 'county' ? 'county' : 'place'}`;
+}
+
+/**
+ * Every place in the sources, most populous first. Seed places fill in
+ * what Census doesn't list and stand in for it when built without the
+ * Census files; a Census row for the same place replaces the seed's
+ * coordinates and population but keeps its aliases.
+ */
+export function buildGazetteer(sources: GazetteerSources): GazetteerPlace[] {
+  const populations = new Map<string, number>();
+  for (const text of sources.population ?? []) {
+    for (const [geoid, population] of parsePopulation(text)) populations.set(geoid, population);
+  }
+
+  const places = new Map<string, GazetteerPlace>();
+  for (const place of sources.seed ?? []) {
+    places.set(placeKey(place), { ...place, aliases: [...place.aliases] });
+  }
+
+  const merge = (place: GazetteerPlace) => {
+    const existing = places.get(placeKey(place));
+    places.set(placeKey(place), existing
+      ? {
+          ...place,
+          // CDPs have no population estimates; keep the seed's until one is given
+          population: place.population || existing.population,
+          aliases: [...new Set([...existing.aliases, ...place.aliases])]
+        }
+      : place);
+  };
+
+  for (const row of sources.places ? parseTable(sources.places, '\t') : []) {
+    const { name, aliases, kind } = placeName(column(row, 'NAME') ?? '');
+    const state = column(row, 'USPS') ?? '';
+    if (!name || !state) continue;
+    merge({
+      name,
+      state,
+      kind,
+      ...coordinates(row, 'places'),
+      population: populations.get(`place:${column(row, 'GEOID')}`) ?? 0,
+      aliases
+    });
+  }
+
+  for (const row of sources.counties ? parseTable(sources.counties, '\t') : []) {
+    const name = column(row, 'NAME') ?? '';
+    const state = column(row, 'USPS') ?? '';
+    // Independent cities (Baltimore city, St. Louis city) are in the places file too
+    if (!name || !state || name.endsWith(' city')) continue;
+    merge({
+      name,
+      state,
+      kind: 'county',
+      ...coordinates(row, 'counties'),
+      population: populations.get(`county:${column(row, 'GEOID')}`) ?? 0,
+      aliases: []
+    });
+  }
+
+  const byName = new Map<string, GazetteerPlace[]>();
+  for (const place of places.values()) {
+    const key = `${normalizePlaceName(place.name)}|${place.state}`;
+    byName.set(key, [...(byName.get(key) ?? []), place].sort((a, b) => b.population - a.population));
+  }
+
+  for (const row of parseAliases(sources.aliases ?? '')) {
+    const [target] = byName.get(`${normalizePlaceName(row.name)}|${row.state}`) ?? [];
+    if (!target) {
+      throw new GazetteerError(`alias "${row.alias}" is for ${row.name}, ${row.state}, which isn't in the gazetteer`);
+    }
+    if (!target.aliases.includes(row.alias)) target.aliases.push(row.alias);
+  }
+
+  return [...places.values()].sort((a, b) => b.population - a.population || a.name.localeCompare(b.name));
+}
+
+function parseAliases(text: string): { alias: string; name: string; state: string }[] {
+  return text.split('\n')
+    .map((line) => line.replace(/\r$/, ''))
+    .filter((line) => line.trim() && !line.startsWith('#'))
+    .map((line, i) => {
+      const [alias, name, state] = line.split('\t').map((field) => field?.trim());
+      if (!alias || !name || !state) {
+        throw new GazetteerError(`aliases line ${i + 1}: expected alias, place name and state`);
+      }
+      return { alias, name, state: state.toUpperCase() };
+    });
+}
+
+/**
+ * The gazetteer file: a header naming the sources, then one place per line
+ */
+export function formatGazetteer(places: GazetteerPlace[], sources: string[]): string {
+  const header = [
+    `# format: ${GAZETTEER_FORMAT_VERSION}`,
+    `# Built by npm run build-gazetteer from ${sources.join(', ')}`,
+    '# name\tstate\tkind\tlatitude\tlongitude\tpopulation\taliases'
+  ];
+  const rows = places.map((place) => [
+    place.name,
+    place.state,
+    place.kind,
+    place.latitude,
+    place.longitude,
+    place.population,
+    place.aliases.join('|')
+  ].join('\t'));
+  return [...header, ...rows].join('\n') + '\n';
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_GAZETTEER_PATH,
+  Gazetteer,
+  GazetteerError,
+  loadGazetteer,
+  normalizePlaceName,
+  parseGazetteer
+} from './gazetteer';
+
+const PLACES = `# format: 1
+Aurora\tCO\tcity\t39.7294\t-104.8319\t386261
+Aurora\tIL\tcity\t41.7606\t-88.3201\t180542
+Aurora\tNE\tcity\t40.8672\t-98.0042\t4571
+Portland\tOR\tcity\t45.5152\t-122.6784\t652503
+Portland\tME\tcity\t43.6591\t-70.2568\t68408
+Los Angeles\tCA\tcity\t34.0522\t-118.2437\t3898747\tLA|Los Angelas
+Los Angeles County\tCA\tcounty\t34.3209\t-118.2247\t10014009
+St. Louis\tMO\tcity\t38.6270\t-90.1994\t301578
+Sacramento\tCA\tcity\t38.5816\t-121.4944\t524943
+Truth or Consequences\tNM\tcity\t33.1284\t-107.2528\t6052
+`;
+
+const gazetteer = new Gazetteer(parseGazetteer(PLACES));
+
+describe('parseGazetteer', () => {
+  it('should read places with their aliases', () => {
+    const places = parseGazetteer(PLACES);
+
+    expect(places).toHaveLength(10);
+    expect(places[5]).toEqual({
+      name: 'Los Angeles',
+      state: 'CA',
+      kind: 'city',
+      latitude: 34.0522,
+      longitude: -118.2437,
+      population: 3898747,
+      aliases: ['LA', 'Los Angelas']
+    });
+  });
+
+  it('should reject malformed rows and other formats', () => {
+    expect(() => parseGazetteer('Aurora\tCO\tcity\t39.7\t-104.8')).toThrow(GazetteerError);
+    expect(() => parseGazetteer('Aurora\tColorado\tcity\t39.7\t-104.8\t386261')).toThrow(/line 1: state/);
+    expect(() => parseGazetteer('Aurora\tCO\ttownship\t39.7\t-104.8\t386261')).toThrow(/unknown kind/);
+    expect(() => parseGazetteer('Aurora\tCO\tcity\tnorth\t-104.8\t386261')).toThrow(/latitude/);
+    expect(() => parseGazetteer('# format: 2\n')).toThrow(/unsupported format 2/);
+  });
+
+  it('should read the bundled gazetteer', () => {
+    const bundled = loadGazetteer(DEFAULT_GAZETTEER_PATH);
+
+    expect(bundled.size).toBeGreaterThan(300);
+    expect(bundled.lookup('Sasabe', 'AZ')).toHaveLength(1);
+    expect(bundled.lookup('NYC')[0]).toMatchObject({ name: 'New York', state: 'NY' });
+  });
+});
+
+describe('normalizePlaceName', () => {
+  it('should ignore case, accents, punctuation and abbreviations', () => {
+    expect(normalizePlaceName('St. Louis')).toBe('saint louis');
+    expect(normalizePlaceName('saint louis')).toBe('saint louis');
+    expect(normalizePlaceName('Los Ángeles')).toBe('los angeles');
+    expect(normalizePlaceName('Winston-Salem')).toBe('winston salem');
+    expect(normalizePlaceName('Ft. Worth')).toBe('fort worth');
+  });
+});
+
+describe('Gazetteer', () => {
+  it('should look up names and aliases, most populous first', () => {
+    expect(gazetteer.lookup('aurora').map((place) => place.state)).toEqual(['CO', 'IL', 'NE']);
+    expect(gazetteer.lookup('Aurora', 'il')).toHaveLength(1);
+    expect(gazetteer.lookup('Los Angelas')[0].name).toBe('Los Angeles');
+    expect(gazetteer.lookup('St Louis')[0].name).toBe('St. Louis');
+    expect(gazetteer.lookup('Springfield')).toEqual([]);
+  });
+
+  it('should resolve a name by state, then the states in the text, then population', () => {
+    expect(gazetteer.resolve('Portland')).toMatchObject({ place: { state: 'OR' }, ambiguous: false });
+    expect(gazetteer.resolve('Portland', { state: 'ME' })).toMatchObject({ place: { state: 'ME' }, ambiguous: false });
+    expect(gazetteer.resolve('Portland', { states: ['ME', 'NH'] })).toMatchObject({ place: { state: 'ME' } });
+    expect(gazetteer.resolve('Portland', { states: ['TX'] })).toMatchObject({ place: { state: 'OR' } });
+    expect(gazetteer.resolve('Portland', { state: 'TX' })).toBeNull();
+  });
+
+  it('should call a name ambiguous when two places are about as big', () => {
+    expect(gazetteer.resolve('Aurora')).toMatchObject({ place: { state: 'CO' }, ambiguous: true });
+    expect(gazetteer.resolve('Aurora', { states: ['IL'] })).toMatchObject({ place: { state: 'IL' }, ambiguous: false });
+  });
+
+  it('should find misspelled names', () => {
+    expect(gazetteer.fuzzyLookup('Sacremento')[0]).toMatchObject({ place: { name: 'Sacramento' }, score: 0.9 });
+    expect(gazetteer.fuzzyLookup('Los Angels')[0].place.name).toBe('Los Angeles');
+    expect(gazetteer.fuzzyLookup('Aurorra', { minPopulation: 200_000 }).map(({ place }) => place.state)).toEqual(['CO']);
+    expect(gazetteer.fuzzyLookup('Xyzzytown')).toEqual([]);
+  });
+
+  it('should find places named in text, longest name first', () => {
+    const mentions = gazetteer.findInText('Raids in Los Angeles County and Aurora today');
+
+    expect(mentions.map(({ text, index }) => [text, index])).toEqual([['Los Angeles County', 9], ['Aurora', 32]]);
+    expect(mentions[1].places).toHaveLength(3);
+  });
+
+  it('should only take capitalized names and capitalized abbreviations from text', () => {
+    expect(gazetteer.findInText('la migra took him to aurora').map(({ text }) => text)).toEqual(['aurora']);
+    expect(gazetteer.findInText('La migra is in Aurora')).toHaveLength(1);
+    expect(gazetteer.findInText('ICE in LA and Truth or Consequences').map(({ text, alias }) => [text, alias])).toEqual([
+      ['LA', true],
+      ['Truth or Consequences', false]
+    ]);
+    expect(gazetteer.findInText('Portland, Los Angeles').map(({ text }) => text)).toEqual(['Portland', 'Los Angeles']);
+  });
+});
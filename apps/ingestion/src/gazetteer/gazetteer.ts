@@ -0,0 +1,405 @@
+import { readFileSync } from 'node:fs';
+
+/**
+ * Bump when the file layout changes in a way older readers can't handle.
+ * Rebuilding from newer Census files only changes the rows.
+ */
+export const GAZETTEER_FORMAT_VERSION = 1;
+
+// Resolves the same from src/ (tsx) and dist/ (node)
+export const DEFAULT_GAZETTEER_PATH = new URL('../../gazetteer/us-places.tsv', import.meta.url);
+
+/**
+ * Census places (incorporated places and CDPs), counties, and communities
+ * the Census doesn't list as places but posts name like towns (San Ysidro)
+ */
+export type PlaceKind = 'city' | 'cdp' | 'county' | 'community';
+
+export const PLACE_KINDS: PlaceKind[] = ['city', 'cdp', 'county', 'community'];
+
+export interface GazetteerPlace {
+  name: string;
+  /** Two-letter USPS code */
+  state: string;
+  kind: PlaceKind;
+  latitude: number;
+  longitude: number;
+  population: number;
+  /** Other names posts use for the place: abbreviations, nicknames, Spanish names, misspellings */
+  aliases: string[];
+}
+
+export interface PlaceMatch {
+  place: GazetteerPlace;
+  /** 1 for an exact name or alias, the similarity of the closest name otherwise */
+  score: number;
+  /**
+   * Another place with the name is about as big and nothing in the context
+   * picked between them (Aurora, CO or Aurora, IL)
+   */
+  ambiguous: boolean;
+}
+
+export interface ResolveContext {
+  /** The place must be in this state */
+  state?: string | null;
+  /** States the rest of the text mentions; places there win over bigger ones elsewhere */
+  states?: string[];
+  /** Ignore places smaller than this */
+  minPopulation?: number;
+}
+
+export interface PlaceMention {
+  /** The words as written in the text */
+  text: string;
+  index: number;
+  /** Every place with the name, most populous first */
+  places: GazetteerPlace[];
+  /** Whether the words are one of the places' aliases rather than a name */
+  alias: boolean;
+  /**
+   * Whether the words start a sentence, so their capital letter says
+   * nothing ("Reading about..."); never set in all-lowercase text
+   */
+  sentenceStart: boolean;
+}
+
+export class GazetteerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GazetteerError';
+  }
+}
+
+// A second place at least this fraction of the biggest one's population
+// makes a bare name ambiguous
+const AMBIGUOUS_POPULATION_RATIO = 1 / 3;
+
+// Longest place name, in words, looked for in text ("Rancho Santa Margarita")
+const MAX_NAME_WORDS = 5;
+
+// Lowercase words inside a capitalized place name ("Truth or Consequences")
+const NAME_CONNECTORS = new Set(['and', 'de', 'del', 'la', 'las', 'los', 'of', 'on', 'or', 'the', 'upon', 'y']);
+
+const ABBREVIATED_WORDS: Record<string, string> = { st: 'saint', ste: 'sainte', ft: 'fort', mt: 'mount' };
+
+/**
+ * Lookup key for a place name: lowercase without accents or punctuation,
+ * with St., Ft. and Mt. spelled out. "St. Louis", "Saint Louis" and
+ * "st louis" are the same key.
+ */
+export function normalizePlaceName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/['’.]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+    .split(' ')
+    .map((word) => ABBREVIATED_WORDS[word] ?? word)
+    .join(' ');
+}
+
+function levenshteinDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = a[i - 1] === b[j - 1]
+        ? previous[j - 1]
+        : Math.min(previous[j - 1], previous[j], current[j - 1]) + 1;
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Similarity (0-1) of two normalized names
+ */
+function similarity(a: string, b: string): number {
+  const maxLength = Math.max(a.length, b.length);
+  return maxLength === 0 ? 1 : 1 - levenshteinDistance(a, b) / maxLength;
+}
+
+function trigrams(key: string): Set<string> {
+  const padded = `  ${key} `;
+  const grams = new Set<string>();
+  for (let i = 0; i + 3 <= padded.length; i++) grams.add(padded.slice(i, i + 3));
+  return grams;
+}
+
+const KIND_ORDER: Record<PlaceKind, number> = { city: 0, cdp: 1, community: 2, county: 3 };
+
+function byProminence(a: GazetteerPlace, b: GazetteerPlace): number {
+  return b.population - a.population || KIND_ORDER[a.kind] - KIND_ORDER[b.kind];
+}
+
+function isAbbreviation(alias: string): boolean {
+  return /\p{Lu}/u.test(alias) && alias === alias.toUpperCase();
+}
+
+/**
+ * US places by name and alias, with a trigram index for misspellings.
+ * Names are shared by many places (there are dozens of Springfields), so
+ * lookups return every match, most populous first, and `resolve` picks one
+ * using the state and the rest of the text.
+ */
+export class Gazetteer {
+  private readonly byKey = new Map<string, GazetteerPlace[]>();
+  private readonly aliasKeys = new Set<string>();
+  /** Aliases like "LA" or "DC" that only count in text when written in capitals */
+  private readonly abbreviationKeys = new Set<string>();
+  private trigramIndex: Map<string, string[]> | null = null;
+
+  constructor(readonly places: GazetteerPlace[]) {
+    const nameKeys = new Set<string>();
+    for (const place of places) {
+      const key = normalizePlaceName(place.name);
+      nameKeys.add(key);
+      this.add(key, place);
+      for (const alias of place.aliases) {
+        const aliasKey = normalizePlaceName(alias);
+        this.aliasKeys.add(aliasKey);
+        if (isAbbreviation(alias)) this.abbreviationKeys.add(aliasKey);
+        this.add(aliasKey, place);
+      }
+    }
+    for (const key of nameKeys) {
+      this.aliasKeys.delete(key);
+      this.abbreviationKeys.delete(key);
+    }
+    for (const matches of this.byKey.values()) matches.sort(byProminence);
+  }
+
+  get size(): number {
+    return this.places.length;
+  }
+
+  private add(key: string, place: GazetteerPlace): void {
+    if (!key) return;
+    const matches = this.byKey.get(key);
+    if (!matches) this.byKey.set(key, [place]);
+    else if (!matches.includes(place)) matches.push(place);
+  }
+
+  /**
+   * Places with this exact name or alias, most populous first
+   */
+  lookup(name: string, state?: string | null): GazetteerPlace[] {
+    const matches = this.byKey.get(normalizePlaceName(name)) ?? [];
+    const stateCode = state?.trim().toUpperCase();
+    return stateCode ? matches.filter((place) => place.state === stateCode) : matches;
+  }
+
+  /**
+   * Places whose name or alias is close to `name`, best match first. Only
+   * names sharing some three-letter sequences are compared, so this stays
+   * fast over tens of thousands of places.
+   */
+  fuzzyLookup(
+    name: string,
+    options: { state?: string | null; minPopulation?: number; minSimilarity?: number; limit?: number } = {}
+  ): { place: GazetteerPlace; score: number }[] {
+    const key = normalizePlaceName(name);
+    if (key.length < 3) return [];
+    const minSimilarity = options.minSimilarity ?? 0.8;
+    const stateCode = options.state?.trim().toUpperCase();
+    const index = this.getTrigramIndex();
+
+    const grams = trigrams(key);
+    const shared = new Map<string, number>();
+    for (const gram of grams) {
+      for (const candidate of index.get(gram) ?? []) {
+        shared.set(candidate, (shared.get(candidate) ?? 0) + 1);
+      }
+    }
+
+    const found: { place: GazetteerPlace; score: number }[] = [];
+    for (const [candidate, count] of shared) {
+      // Names this close share at least a third of their trigrams
+      if (count < grams.size / 3) continue;
+      if (Math.abs(candidate.length - key.length) > (1 - minSimilarity) * Math.max(candidate.length, key.length)) continue;
+      const score = similarity(key, candidate);
+      if (score < minSimilarity) continue;
+      for (const place of this.byKey.get(candidate)!) {
+        if (stateCode && place.state !== stateCode) continue;
+        if (place.population < (options.minPopulation ?? 0)) continue;
+        found.push({ place, score });
+      }
+    }
+
+    found.sort((a, b) => b.score - a.score || byProminence(a.place, b.place));
+    const seen = new Set<GazetteerPlace>();
+    return found
+      .filter(({ place }) => !seen.has(place) && seen.add(place))
+      .slice(0, options.limit ?? 10);
+  }
+
+  /**
+   * The place a name most likely means. A state narrows the choice to that
+   * state; otherwise places in states the text mentions win, then the most
+   * populous. Exact names and aliases only; see `fuzzyLookup` for misspellings.
+   */
+  resolve(name: string, context: ResolveContext = {}): PlaceMatch | null {
+    const candidates = this.lookup(name, context.state)
+      .filter((place) => place.population >= (context.minPopulation ?? 0));
+    if (candidates.length === 0) return null;
+
+    const inMentionedStates = context.states?.length
+      ? candidates.filter((place) => context.states!.includes(place.state))
+      : [];
+    const pool = inMentionedStates.length > 0 ? inMentionedStates : candidates;
+    const [place, runnerUp] = pool;
+
+    return {
+      place,
+      score: 1,
+      ambiguous: !context.state && inMentionedStates.length === 0 && runnerUp !== undefined
+        && runnerUp.population >= place.population * AMBIGUOUS_POPULATION_RATIO
+    };
+  }
+
+  /**
+   * Place names and aliases in free text, longest first ("Los Angeles
+   * County" before "Los Angeles"). Unless the whole text is lowercase, a
+   * name must be capitalized, and an alias like "LA" must be in capitals,
+   * so "la migra" and "the mission" aren't places. Callers decide what to
+   * make of a name that starts a sentence.
+   */
+  findInText(text: string): PlaceMention[] {
+    const lowercaseText = text === text.toLowerCase();
+    const words = [...text.matchAll(/[\p{L}\p{N}][\p{L}\p{N}'’.-]*/gu)].map((match) => ({
+      word: match[0].replace(/['’]s$/i, '').replace(/[.'’-]+$/, ''),
+      start: match.index!,
+      end: match.index! + match[0].length
+    }));
+
+    const mentions: PlaceMention[] = [];
+    for (let i = 0; i < words.length; i++) {
+      for (let length = Math.min(MAX_NAME_WORDS, words.length - i); length >= 1; length--) {
+        const span = words.slice(i, i + length);
+        // Names don't run across punctuation: "Houston, Texas" is two
+        if (span.some((word, j) => j > 0 && !/^\s+$/.test(text.slice(span[j - 1].end, word.start)))) continue;
+
+        const written = span.map(({ word }) => word).join(' ');
+        const key = normalizePlaceName(written);
+        const places = this.byKey.get(key);
+        if (!places) continue;
+        if (this.abbreviationKeys.has(key) && written !== written.toUpperCase()) continue;
+        if (!lowercaseText && !isCapitalizedName(span.map(({ word }) => word))) continue;
+
+        mentions.push({
+          text: written,
+          index: span[0].start,
+          places,
+          alias: this.aliasKeys.has(key),
+          sentenceStart: !lowercaseText && SENTENCE_END.test(text.slice(0, span[0].start))
+        });
+        i += length - 1;
+        break;
+      }
+    }
+    return mentions;
+  }
+
+  private getTrigramIndex(): Map<string, string[]> {
+    if (this.trigramIndex) return this.trigramIndex;
+    const index = new Map<string, string[]>();
+    for (const key of this.byKey.keys()) {
+      for (const gram of trigrams(key)) {
+        const keys = index.get(gram);
+        if (keys) keys.push(key);
+        else index.set(gram, [key]);
+      }
+    }
+    this.trigramIndex = index;
+    return index;
+  }
+}
+
+// Nothing but the end of a sentence (or nothing at all) before a word
+const SENTENCE_END = /(?:^|[.!?¡¿…]["'”’)]*)\s*$/u;
+
+function isCapitalizedName(words: string[]): boolean {
+  return words.every((word, i) =>
+    /^[\p{Lu}\p{N}]/u.test(word) || (i > 0 && (NAME_CONNECTORS.has(word) || /^d['’]/.test(word))));
+}
+
+/**
+ * Read a gazetteer file: comment lines starting with #, then one place per
+ * line, tab-separated: name, state, kind, latitude, longitude, population
+ * and |-separated aliases
+ */
+export function parseGazetteer(text: string): GazetteerPlace[] {
+  const places: GazetteerPlace[] = [];
+
+  text.split('\n').forEach((line, i) => {
+    const lineNumber = i + 1;
+    if (line.startsWith('#')) {
+      const format = line.match(/^#\s*format\s*:?\s*(\d+)/i);
+      if (format && Number(format[1]) !== GAZETTEER_FORMAT_VERSION) {
+        throw new GazetteerError(`unsupported format ${format[1]} (expected ${GAZETTEER_FORMAT_VERSION})`);
+      }
+      return;
+    }
+    if (!line.trim()) return;
+
+    const fields = line.replace(/\r$/, '').split('\t');
+    if (fields.length < 6) {
+      throw new GazetteerError(`line ${lineNumber}: expected at least 6 tab-separated fields, got ${fields.length}`);
+    }
+    const [name, state, kind, latitude, longitude, population, aliases = ''] = fields;
+    const place: GazetteerPlace = {
+      name: name.trim(),
+      state: state.trim().toUpperCase(),
+      kind: kind.trim() as PlaceKind,
+      latitude: Number(latitude),
+      longitude: Number(longitude),
+      population: Number(population),
+      aliases: aliases.split('|').map((alias) => alias.trim()).filter(Boolean)
+    };
+
+    if (!place.name) throw new GazetteerError(`line ${lineNumber}: name is empty`);
+    if (!/^[A-Z]{2}$/.test(place.state)) throw new GazetteerError(`line ${lineNumber}: state must be a two-letter code`);
+    if (!PLACE_KINDS.includes(place.kind)) throw new GazetteerError(`line ${lineNumber}: unknown kind ${kind}`);
+    if (!Number.isFinite(place.latitude) || Math.abs(place.latitude) > 90
+      || !Number.isFinite(place.longitude) || Math.abs(place.longitude) > 180) {
+      throw new GazetteerError(`line ${lineNumber}: latitude and longitude must be numbers`);
+    }
+    if (!Number.isInteger(place.population) || place.population < 0) {
+      throw new GazetteerError(`line ${lineNumber}: population must be a whole number`);
+    }
+    places.push(place);
+  });
+
+  return places;
+}
+
+/**
+ * Read a gazetteer synchronously; the location extractor that uses it is sync
+ */
+export function loadGazetteer(path: string | URL): Gazetteer {
+  return new Gazetteer(parseGazetteer(readFileSync(path, 'utf8')));
+}
+
+let defaultGazetteer: Gazetteer | undefined;
+
+/**
+ * The gazetteer at GAZETTEER_PATH (default: apps/ingestion/gazetteer/us-places.tsv).
+ * Loaded once; a missing or broken file leaves an empty gazetteer, and
+ * places are then only found through Nominatim.
+ */
+export function getGazetteer(): Gazetteer {
+  if (defaultGazetteer) return defaultGazetteer;
+
+  const path = process.env.GAZETTEER_PATH || DEFAULT_GAZETTEER_PATH;
+  try {
+    defaultGazetteer = loadGazetteer(path);
+  } catch (error) {
+    console.warn(`[Gazetteer] No gazetteer loaded, geocoding online only: ${(error as Error).message}`);
+    defaultGazetteer = new Gazetteer([]);
+  }
+  return defaultGazetteer;
+}
@@ -0,0 +1,91 @@
+import { parseArgs } from "node:util";
+import { readFile, writeFile } from "node:fs/promises";
+import { basename } from "node:path";
+import { fileURLToPath } from "node:url";
+import { DEFAULT_GAZETTEER_PATH, GazetteerError, parseGazetteer } from "./gazetteer.js";
+import { buildGazetteer, formatGazetteer } from "./build.js";
+
+// Resolves the same from src/ (tsx) and dist/ (node)
+const DEFAULT_SEED = new URL("../../gazetteer/seed-places.tsv", import.meta.url);
+const DEFAULT_ALIASES = new URL("../../gazetteer/aliases.tsv", import.meta.url);
+
+const USAGE = `Usage: npm run build-gazetteer -w apps/ingestion -- [options]
+
+Builds the offline gazetteer the location extractor and geocoder consult
+before Nominatim, from the Census Bureau's Gazetteer files
+(https://www.census.gov/geographies/reference-files/time-series/geo/gazetteer-files.html)
+and population estimates
+(https://www.census.gov/programs-surveys/popest/data/tables.html).
+Without them, only the seed places are written; the ingestion Docker image
+builds with them (see apps/ingestion/Dockerfile).
+
+  --places <path>      Places Gazetteer file, e.g. 2023_Gaz_place_national.txt
+  --counties <path>    Counties Gazetteer file, e.g. 2023_Gaz_counties_national.txt
+  --population <path>  Population CSV (sub-est, co-est), or a Census API export
+                       with P1_001N for CDPs as CSV or JSON; repeat to combine
+                       several, later files winning
+  --seed <path>        Hand-maintained places (default: apps/ingestion/gazetteer/seed-places.tsv)
+  --aliases <path>     Hand-maintained aliases (default: apps/ingestion/gazetteer/aliases.tsv)
+  --out <path>         Where to write the gazetteer (default: apps/ingestion/gazetteer/us-places.tsv)
+  --help               Show this message`;
+
+function fail(message: string): never {
+  console.error(message);
+  console.error("");
+  console.error(USAGE);
+  process.exit(1);
+}
+
+function fileName(path: string | URL): string {
+  return basename(path instanceof URL ? fileURLToPath(path) : path);
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      places: { type: "string" },
+      counties: { type: "string" },
+      population: { type: "string", multiple: true },
+      seed: { type: "string" },
+      aliases: { type: "string" },
+      out: { type: "string" },
+      help: { type: "boolean", default: false }
+    }
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (values.population?.length && !values.places && !values.counties) {
+    fail("--population needs --places or --counties to attach to");
+  }
+
+  const seedPath = values.seed ?? DEFAULT_SEED;
+  const aliasesPath = values.aliases ?? DEFAULT_ALIASES;
+  const inputs = [values.places, values.counties, ...(values.population ?? []), seedPath, aliasesPath]
+    .filter((path): path is string | URL => path !== undefined);
+
+  const places = buildGazetteer({
+    places: values.places ? await readFile(values.places, "utf8") : undefined,
+    counties: values.counties ? await readFile(values.counties, "utf8") : undefined,
+    // The estimates files are Latin-1; only their codes and numbers are read
+    population: await Promise.all((values.population ?? []).map((path) => readFile(path, "latin1"))),
+    seed: parseGazetteer(await readFile(seedPath, "utf8")),
+    aliases: await readFile(aliasesPath, "utf8")
+  });
+
+  const outPath = values.out ?? DEFAULT_GAZETTEER_PATH;
+  await writeFile(outPath, formatGazetteer(places, inputs.map(fileName)));
+
+  const counts = new Map<string, number>();
+  for (const place of places) counts.set(place.kind, (counts.get(place.kind) ?? 0) + 1);
+  console.log(`[Gazetteer] ${places.length} places (${[...counts].map(([kind, count]) => `${count} ${kind}`).join(", ")})`);
+  console.log(`[Gazetteer] ${places.filter((place) => place.population === 0).length} without a population; give CDP populations with --population`);
+  console.log(`[Gazetteer] Saved to ${outPath instanceof URL ? outPath.pathname : outPath}`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof GazetteerError ? `[Gazetteer] Invalid input: ${error.message}` : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GeocoderConfigError, geocodeWithChain, resolveGeocoders } from './chain';
+import { NominatimGeocoder } from './nominatim';
+import type { Geocoder, GeocoderId, GeocodingResult } from './geocoder';
+
+function stubGeocoder(id: GeocoderId, result: Partial<GeocodingResult> | null): Geocoder & { calls: number } {
+  return {
+    id,
+    description: id,
+    calls: 0,
+    async geocode() {
+      this.calls++;
+      return result && {
+        latitude: 34.0522,
+        longitude: -118.2437,
+        city: 'Los Angeles',
+        state: 'CA',
+        displayName: 'Los Angeles, CA',
+        confidence: 'high',
+        source: id,
+        provider: id,
+        ...result
+      };
+    }
+  };
+}
+
+describe('resolveGeocoders', () => {
+  it('should default to the gazetteer, then public Nominatim', () => {
+    const geocoders = resolveGeocoders({});
+
+    expect(geocoders.map((geocoder) => geocoder.id)).toEqual(['gazetteer', 'nominatim']);
+    expect(geocoders[1].description).toBe('Nominatim (https://nominatim.openstreetmap.org)');
+  });
+
+  it('should build the chain GEOCODERS lists, in order', () => {
+    const geocoders = resolveGeocoders({
+      GEOCODERS: 'Pelias, photon,nominatim,pelias',
+      PELIAS_URL: 'http://pelias.internal:4000/',
+      NOMINATIM_URL: 'http://nominatim.internal:8080'
+    });
+
+    expect(geocoders.map((geocoder) => geocoder.description)).toEqual([
+      'Pelias (http://pelias.internal:4000)',
+      'Photon (https://photon.komoot.io)',
+      'Nominatim (http://nominatim.internal:8080)'
+    ]);
+  });
+
+  it('should reject unknown geocoders and ones missing their URL', () => {
+    expect(() => resolveGeocoders({ GEOCODERS: 'gazetteer,google' })).toThrow(GeocoderConfigError);
+    expect(() => resolveGeocoders({ GEOCODERS: 'google' })).toThrow(/Unknown geocoder "google"/);
+    expect(() => resolveGeocoders({ GEOCODERS: 'pelias' })).toThrow(/PELIAS_URL isn't set/);
+    expect(() => resolveGeocoders({ GEOCODERS: ' , ' })).toThrow(/empty/);
+  });
+
+  it('should only wait between requests to public instances unless told to', async () => {
+    const [, selfHosted] = resolveGeocoders({ NOMINATIM_URL: 'http://localhost:8080' });
+    const [, publicInstance] = resolveGeocoders({});
+    const [, configured] = resolveGeocoders({ NOMINATIM_URL: 'http://localhost:8080', NOMINATIM_REQUEST_DELAY_MS: '250' });
+
+    expect(selfHosted).toBeInstanceOf(NominatimGeocoder);
+    expect(selfHosted).toMatchObject({ options: { requestDelayMs: 0 } });
+    expect(publicInstance).toMatchObject({ options: { requestDelayMs: 1100 } });
+    expect(configured).toMatchObject({ options: { requestDelayMs: 250 } });
+  });
+});
+
+describe('geocodeWithChain', () => {
+  it('should take the first geocoder with an answer and record which one it was', async () => {
+    const gazetteer = stubGeocoder('gazetteer', null);
+    const photon = stubGeocoder('photon', { placeType: 'city' });
+    const pelias = stubGeocoder('pelias', {});
+
+    const result = await geocodeWithChain([gazetteer, photon, pelias], { query: 'Los Angeles, CA' });
+
+    expect(result).toMatchObject({ provider: 'photon', source: 'photon', placeType: 'city' });
+    expect([gazetteer.calls, photon.calls, pelias.calls]).toEqual([1, 1, 0]);
+  });
+
+  it('should move on when a geocoder places the query outside the US', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const nominatim = stubGeocoder('nominatim', { latitude: 19.4326, longitude: -99.1332 });
+    const pelias = stubGeocoder('pelias', {});
+
+    expect(await geocodeWithChain([nominatim, pelias], { query: 'Juarez' })).toMatchObject({ provider: 'pelias' });
+    expect(await geocodeWithChain([nominatim], { query: 'Juarez' })).toBeNull();
+  });
+});
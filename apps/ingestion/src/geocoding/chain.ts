@@ -0,0 +1,129 @@
+import { NOMINATIM_PUBLIC_URL, validateUSCoordinates } from '@ice-activity-map/geo';
+import { GazetteerGeocoder } from './gazetteer.js';
+import { NominatimGeocoder } from './nominatim.js';
+import { PhotonGeocoder, PHOTON_PUBLIC_URL } from './photon.js';
+import { PeliasGeocoder } from './pelias.js';
+import {
+  GEOCODER_IDS,
+  type GeocodeRequest,
+  type Geocoder,
+  type GeocoderId,
+  type GeocodingResult,
+  type HttpGeocoderOptions
+} from './geocoder.js';
+
+const DEFAULT_GEOCODERS = 'gazetteer,nominatim';
+
+// The public Nominatim and Photon instances ask for at most one request a second
+const PUBLIC_REQUEST_DELAY_MS = 1100;
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_USER_AGENT = 'ICEActivityMap/1.0';
+
+/**
+ * GEOCODERS names a geocoder that doesn't exist or lacks its settings
+ */
+export class GeocoderConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GeocoderConfigError';
+  }
+}
+
+function envInt(value: string | undefined): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+/**
+ * URL, user agent, request delay and timeout for an HTTP geocoder, keyed
+ * off its id: <ID>_URL and <ID>_REQUEST_DELAY_MS, plus the shared
+ * NOMINATIM_USER_AGENT and GEOCODER_TIMEOUT_MS. A public instance waits
+ * between requests unless told otherwise; a self-hosted one doesn't.
+ */
+function httpOptions(
+  id: GeocoderId,
+  env: NodeJS.ProcessEnv,
+  publicUrl?: string
+): HttpGeocoderOptions {
+  const prefix = id.toUpperCase();
+  const baseUrl = env[`${prefix}_URL`] || publicUrl;
+  if (!baseUrl) {
+    throw new GeocoderConfigError(`GEOCODERS includes ${id}, but ${prefix}_URL isn't set`);
+  }
+
+  return {
+    baseUrl,
+    userAgent: env.NOMINATIM_USER_AGENT || DEFAULT_USER_AGENT,
+    requestDelayMs: envInt(env[`${prefix}_REQUEST_DELAY_MS`]) ?? (baseUrl === publicUrl ? PUBLIC_REQUEST_DELAY_MS : 0),
+    timeoutMs: envInt(env.GEOCODER_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS
+  };
+}
+
+function createGeocoder(id: GeocoderId, env: NodeJS.ProcessEnv): Geocoder {
+  switch (id) {
+    case 'gazetteer':
+      return new GazetteerGeocoder();
+    case 'nominatim':
+      return new NominatimGeocoder(httpOptions(id, env, NOMINATIM_PUBLIC_URL));
+    case 'photon':
+      return new PhotonGeocoder(httpOptions(id, env, PHOTON_PUBLIC_URL));
+    case 'pelias':
+      return new PeliasGeocoder({ ...httpOptions(id, env), apiKey: env.PELIAS_API_KEY || undefined });
+  }
+}
+
+/**
+ * The geocoders GEOCODERS lists, comma-separated and in the order they're
+ * tried (default: gazetteer,nominatim). Leaving out the public services
+ * and pointing NOMINATIM_URL, PHOTON_URL or PELIAS_URL at your own
+ * instances runs geocoding fully self-hosted.
+ */
+export function resolveGeocoders(env: NodeJS.ProcessEnv = process.env): Geocoder[] {
+  const ids = (env.GEOCODERS || DEFAULT_GEOCODERS)
+    .split(',')
+    .map((id) => id.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (ids.length === 0) {
+    throw new GeocoderConfigError('GEOCODERS is empty');
+  }
+  for (const id of ids) {
+    if (!GEOCODER_IDS.includes(id as GeocoderId)) {
+      throw new GeocoderConfigError(`Unknown geocoder "${id}" in GEOCODERS (expected ${GEOCODER_IDS.join(', ')})`);
+    }
+  }
+
+  return [...new Set(ids as GeocoderId[])].map((id) => createGeocoder(id, env));
+}
+
+let defaultGeocoders: Geocoder[] | undefined;
+
+/**
+ * The geocoders configured for this process, resolved on first use
+ */
+export function getGeocoders(): Geocoder[] {
+  defaultGeocoders ??= resolveGeocoders();
+  return defaultGeocoders;
+}
+
+/**
+ * Ask each geocoder in turn; the first US result wins. A result outside
+ * the US is a wrong match for the query, so the next geocoder gets a try.
+ */
+export async function geocodeWithChain(
+  geocoders: Geocoder[],
+  request: GeocodeRequest
+): Promise<GeocodingResult | null> {
+  for (const geocoder of geocoders) {
+    const result = await geocoder.geocode(request);
+    if (!result) continue;
+
+    const validation = validateUSCoordinates(result.latitude, result.longitude);
+    if (validation.isValid) {
+      return result;
+    }
+    console.warn(`[Geocoding] ${geocoder.description} returned non-US coordinates for "${request.query}": ${validation.issue}`);
+  }
+  return null;
+}
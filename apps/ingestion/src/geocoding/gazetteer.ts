@@ -0,0 +1,76 @@
+import { FUZZY_MIN_POPULATION } from './fuzzy.js';
+import { getGazetteer, type Gazetteer, type PlaceKind } from '../gazetteer/gazetteer.js';
+import type { GeocodeRequest, Geocoder, GeocodingResult } from './geocoder.js';
+
+// Nominatim's names for the kinds of places in the gazetteer; San Ysidro
+// and other communities are part of a city
+const GAZETTEER_PLACE_TYPES: Record<PlaceKind, string> = {
+  city: 'city',
+  cdp: 'town',
+  community: 'neighbourhood',
+  county: 'county'
+};
+
+/**
+ * "City, ST, USA" as the city and state the gazetteer looks up
+ */
+export function splitCityState(location: string): { city: string; state: string | null } {
+  const withoutCountry = location.replace(/,?\s*(?:USA|United States)$/i, '');
+  const match = withoutCountry.match(/^(.+?),\s*([A-Za-z]{2})$/);
+  return match ? { city: match[1], state: match[2] } : { city: withoutCountry, state: null };
+}
+
+/**
+ * The offline gazetteer (instant, no API call): exact names and aliases,
+ * then close misspellings. Without a state the most populous place with
+ * the name wins, with less confidence when another one is about as big.
+ * It only knows places, so street-level requests go to the next geocoder.
+ */
+export class GazetteerGeocoder implements Geocoder {
+  readonly id = 'gazetteer';
+  readonly description = 'offline gazetteer';
+  private gazetteer: Gazetteer | undefined;
+
+  /** Without a gazetteer, the one getGazetteer() loads */
+  constructor(gazetteer?: Gazetteer) {
+    this.gazetteer = gazetteer;
+  }
+
+  async geocode(request: GeocodeRequest): Promise<GeocodingResult | null> {
+    if (request.viewbox) {
+      return null;
+    }
+
+    const gazetteer = this.gazetteer ?? getGazetteer();
+    const { city, state } = request.city
+      ? { city: request.city, state: request.state ?? null }
+      : splitCityState(request.query);
+
+    let match = gazetteer.resolve(city, { state });
+    if (!match) {
+      // A misspelling of a place in the state, or of a big city anywhere
+      const [closest] = gazetteer.fuzzyLookup(city, {
+        state,
+        minSimilarity: 0.9,
+        minPopulation: state ? 0 : FUZZY_MIN_POPULATION
+      });
+      match = closest ? { ...closest, ambiguous: false } : null;
+    }
+    if (!match) {
+      return null;
+    }
+
+    const { place } = match;
+    return {
+      latitude: place.latitude,
+      longitude: place.longitude,
+      city: place.name,
+      state: place.state,
+      displayName: `${place.name}, ${place.state}`,
+      confidence: match.score >= 0.95 && !match.ambiguous ? 'high' : 'medium',
+      source: 'gazetteer',
+      provider: 'gazetteer',
+      placeType: GAZETTEER_PLACE_TYPES[place.kind]
+    };
+  }
+}
@@ -0,0 +1,241 @@
+import { query } from '@ice-activity-map/database';
+import { validateUSCoordinates } from '@ice-activity-map/geo';
+import { fuzzyMatchCity, normalizeCity, cleanLocationString, getDefaultState } from './fuzzy.js';
+import { geocodeWithChain, getGeocoders } from './chain.js';
+import type { GeocodeRequest, GeocoderId, GeocodingResult, Viewbox } from './geocoder.js';
+
+export type { GeocodingResult } from './geocoder.js';
+
+interface GeocodeCache {
+  latitude: number | null;
+  longitude: number | null;
+  city: string | null;
+  state: string | null;
+  placeType: string | null;
+  provider: GeocoderId | null;
+}
+
+export interface GeocodeOptions {
+  /** Read the geocode cache but don't add to it, as in a reprocess dry run */
+  readOnly?: boolean;
+}
+
+// How far from the city center a street-level result may be
+const STREET_LEVEL_RADIUS_KM = 25;
+const KM_PER_DEGREE_LATITUDE = 111.32;
+
+/**
+ * Check cache for existing geocoding result
+ */
+async function checkCache(queryStr: string): Promise<GeocodeCache | null> {
+  try {
+    const result = await query<GeocodeCache>(
+      'SELECT latitude, longitude, city, state, place_type AS "placeType", provider FROM geocode_cache WHERE query = $1',
+      [queryStr.toLowerCase()]
+    );
+    return result.rows[0] || null;
+  } catch {
+    // Cache miss or DB error, proceed with geocoding
+    return null;
+  }
+}
+
+/**
+ * Save geocoding result to cache
+ */
+async function saveToCache(queryStr: string, result: GeocodingResult | null): Promise<void> {
+  try {
+    await query(
+      `INSERT INTO geocode_cache (query, latitude, longitude, city, state, place_type, provider)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (query) DO UPDATE SET
+         latitude = EXCLUDED.latitude,
+         longitude = EXCLUDED.longitude,
+         city = EXCLUDED.city,
+         state = EXCLUDED.state,
+         place_type = EXCLUDED.place_type,
+         provider = EXCLUDED.provider`,
+      [
+        queryStr.toLowerCase(),
+        result?.latitude || null,
+        result?.longitude || null,
+        result?.city || null,
+        result?.state || null,
+        result?.placeType || null,
+        result?.provider || null
+      ]
+    );
+  } catch (error) {
+    console.warn('[Geocoding] Failed to save to cache:', error);
+  }
+}
+
+/**
+ * A cached result, or null when the query was cached as not found
+ */
+function fromCache(cached: GeocodeCache, displayName: string): GeocodingResult | null {
+  if (cached.latitude === null || cached.longitude === null) {
+    return null;
+  }
+  return {
+    latitude: cached.latitude,
+    longitude: cached.longitude,
+    city: cached.city,
+    state: cached.state,
+    displayName,
+    confidence: 'high',
+    source: 'cache',
+    provider: cached.provider,
+    placeType: cached.placeType
+  };
+}
+
+/**
+ * Geocode a location string using multiple strategies:
+ * 1. Check cache
+ * 2. Ask each configured geocoder in turn (see chain.ts)
+ * 3. Fuzzy-correct the name to a gazetteer place and ask them again
+ */
+export async function geocode(location: string, options: GeocodeOptions = {}): Promise<GeocodingResult | null> {
+  return geocodeQuery({ query: cleanLocationString(location) }, options);
+}
+
+async function geocodeQuery(request: GeocodeRequest, options: GeocodeOptions): Promise<GeocodingResult | null> {
+  const cleanedLocation = request.query;
+  const save = (result: GeocodingResult | null) =>
+    options.readOnly ? Promise.resolve() : saveToCache(cleanedLocation, result);
+
+  // Check cache first
+  const cached = await checkCache(cleanedLocation);
+  if (cached) {
+    const hit = fromCache(cached, cleanedLocation);
+    if (!hit) {
+      // Cached null result (location not found previously)
+      return null;
+    }
+    // Validate cached coordinates; invalid ones are re-geocoded
+    if (validateUSCoordinates(hit.latitude, hit.longitude).isValid) {
+      return hit;
+    }
+  }
+
+  const geocoders = getGeocoders();
+  const result = await geocodeWithChain(geocoders, request);
+  if (result) {
+    await save(result);
+    return result;
+  }
+
+  // Try fuzzy matching as fallback
+  const fuzzyResult = fuzzyMatchCity(cleanedLocation);
+  if (fuzzyResult && fuzzyResult.score >= 0.8) {
+    const fuzzyQuery = fuzzyResult.state
+      ? `${fuzzyResult.city}, ${fuzzyResult.state}, USA`
+      : `${fuzzyResult.city}, USA`;
+
+    const fuzzyGeocode = await geocodeWithChain(geocoders, {
+      query: fuzzyQuery,
+      city: fuzzyResult.city,
+      state: fuzzyResult.state
+    });
+    if (fuzzyGeocode) {
+      const corrected: GeocodingResult = {
+        ...fuzzyGeocode,
+        confidence: fuzzyResult.score >= 0.95 ? 'medium' : 'low',
+        source: 'fuzzy'
+      };
+      await save(corrected);
+      return corrected;
+    }
+  }
+
+  // Cache the null result to avoid repeated lookups
+  await save(null);
+  return null;
+}
+
+/**
+ * Geocode with city and state
+ */
+export async function geocodeCityState(
+  city: string,
+  state: string,
+  options: GeocodeOptions = {}
+): Promise<GeocodingResult | null> {
+  const normalizedState = state.toUpperCase().trim();
+  const normalizedCity = normalizeCity(city);
+
+  // The gazetteer gets the name as written, since an alias elsewhere
+  // ("Frisco" for San Francisco) may be a place's own name in this state
+  return geocodeQuery({
+    query: cleanLocationString(`${normalizedCity}, ${normalizedState}, USA`),
+    city: city.trim(),
+    state: normalizedState
+  }, options);
+}
+
+/**
+ * Geocode a street, address or place name within `radiusKm` of a point,
+ * usually the center of the city a post names. Names like "Main St" or
+ * "Home Depot" are everywhere, so results outside the box don't count.
+ */
+export async function geocodeNear(
+  location: string,
+  near: { latitude: number; longitude: number },
+  radiusKm: number = STREET_LEVEL_RADIUS_KM,
+  options: GeocodeOptions = {}
+): Promise<GeocodingResult | null> {
+  const cleanedLocation = cleanLocationString(location);
+  const cacheKey = `${cleanedLocation} @ ${near.latitude.toFixed(3)},${near.longitude.toFixed(3)},${radiusKm}`;
+
+  const cached = await checkCache(cacheKey);
+  if (cached) {
+    return fromCache(cached, cleanedLocation);
+  }
+
+  const latitudeDelta = radiusKm / KM_PER_DEGREE_LATITUDE;
+  const longitudeDelta = radiusKm / (KM_PER_DEGREE_LATITUDE * Math.cos(near.latitude * Math.PI / 180));
+  const viewbox: Viewbox = {
+    west: near.longitude - longitudeDelta,
+    south: near.latitude - latitudeDelta,
+    east: near.longitude + longitudeDelta,
+    north: near.latitude + latitudeDelta
+  };
+  const result = await geocodeWithChain(getGeocoders(), { query: cleanedLocation, viewbox });
+
+  if (!options.readOnly) {
+    await saveToCache(cacheKey, result);
+  }
+  return result;
+}
+
+/**
+ * Geocode with just a city name (tries to infer state)
+ */
+export async function geocodeCity(city: string): Promise<GeocodingResult | null> {
+  const normalizedCity = normalizeCity(city);
+
+  // Try to get default state for this city
+  const defaultState = getDefaultState(normalizedCity);
+
+  if (defaultState) {
+    return geocodeCityState(normalizedCity, defaultState);
+  }
+
+  // No known state, geocode with just city
+  return geocode(`${normalizedCity}, USA`);
+}
+
+/**
+ * Batch geocode multiple locations (respects rate limits)
+ */
+export async function geocodeBatch(locations: string[]): Promise<Map<string, GeocodingResult | null>> {
+  const results = new Map<string, GeocodingResult | null>();
+
+  for (const location of locations) {
+    const result = await geocode(location);
+    results.set(location, result);
+  }
+
+  return results;
+}
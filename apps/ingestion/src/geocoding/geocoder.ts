@@ -0,0 +1,104 @@
+/**
+ * The backends geocoding can use. Each is tried in the order GEOCODERS
+ * lists them (see chain.ts) until one has a US result.
+ */
+export type GeocoderId = 'gazetteer' | 'nominatim' | 'photon' | 'pelias';
+
+export const GEOCODER_IDS: GeocoderId[] = ['gazetteer', 'nominatim', 'photon', 'pelias'];
+
+export interface GeocodingResult {
+  latitude: number;
+  longitude: number;
+  city: string | null;
+  state: string | null;
+  displayName: string;
+  confidence: 'high' | 'medium' | 'low';
+  /** How the result was found: from the cache, a geocoder, or a geocoder after fuzzy-correcting the name */
+  source: 'cache' | 'fuzzy' | GeocoderId;
+  /** The geocoder that answered; null for results cached before it was recorded */
+  provider: GeocoderId | null;
+  /**
+   * What kind of place the query resolved to, in OSM terms (city, suburb,
+   * road, ...), when known
+   */
+  placeType?: string | null;
+}
+
+/**
+ * Only results inside the box count, not just ranked by it
+ */
+export interface Viewbox {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+export interface GeocodeRequest {
+  /** Free-form query, e.g. "Main St, Los Angeles, CA" */
+  query: string;
+  /** The city and state the query is for, when the caller knows them */
+  city?: string | null;
+  state?: string | null;
+  viewbox?: Viewbox;
+}
+
+/**
+ * A geocoding backend. `geocode` resolves to null when it has nothing for
+ * the request or fails; failures are logged rather than thrown so the chain
+ * can move on to the next one.
+ */
+export interface Geocoder {
+  id: GeocoderId;
+  /** For logs: the backend and where it's hosted */
+  description: string;
+  geocode(request: GeocodeRequest): Promise<GeocodingResult | null>;
+}
+
+/**
+ * Settings shared by the geocoders that are HTTP services
+ */
+export interface HttpGeocoderOptions {
+  baseUrl: string;
+  userAgent: string;
+  /** Minimum time between requests; public instances ask for about a second */
+  requestDelayMs: number;
+  timeoutMs: number;
+}
+
+/**
+ * GET a geocoder's JSON response, or null (logged) on an HTTP error,
+ * timeout or unreachable server
+ */
+export async function fetchGeocoderJson<T>(
+  name: string,
+  url: string,
+  query: string,
+  options: HttpGeocoderOptions
+): Promise<T | null> {
+  try {
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': options.userAgent,
+        Accept: 'application/json'
+      },
+      signal: AbortSignal.timeout(options.timeoutMs)
+    });
+
+    if (!response.ok) {
+      console.warn(`[Geocoding] ${name} returned ${response.status} for "${query}"`);
+      return null;
+    }
+    return await response.json() as T;
+  } catch (error) {
+    console.error(`[Geocoding] Error geocoding "${query}" with ${name}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Base URL without a trailing slash, so paths can be appended
+ */
+export function trimBaseUrl(url: string): string {
+  return url.replace(/\/+$/, '');
+}
@@ -2,10 +2,12 @@
  * Geocoding module - provides location resolution services
  *
  * Features:
- * - Nominatim API integration with caching
+ * - Pluggable backends (offline gazetteer, Nominatim, Photon, Pelias) tried
+ *   in a configurable order, with caching
  * - Fuzzy city name matching (handles misspellings, abbreviations)
  * - Coordinate validation (ensures US territory)
- * - Known city database for instant lookups (no API call)
+ * - Street-level lookups bounded to the city a post names
+ * - Offline gazetteer of US places for instant lookups (no API call)
  * - Border city support for immigration-related reports
  */
 
@@ -13,17 +15,29 @@ export {
   geocode,
   geocodeCityState,
   geocodeCity,
+  geocodeNear,
   geocodeBatch,
   type GeocodingResult
-} from './nominatim.js';
+} from './geocode.js';
+
+export {
+  resolveGeocoders,
+  getGeocoders,
+  geocodeWithChain,
+  GeocoderConfigError
+} from './chain.js';
+
+export { GEOCODER_IDS, type Geocoder, type GeocoderId, type GeocodeRequest } from './geocoder.js';
+export { GazetteerGeocoder } from './gazetteer.js';
+export { NominatimGeocoder } from './nominatim.js';
+export { PhotonGeocoder } from './photon.js';
+export { PeliasGeocoder } from './pelias.js';
 
 export {
   fuzzyMatchCity,
   normalizeCity,
   getDefaultState,
-  cleanLocationString,
-  CITY_STATE_MAP,
-  CITY_ALIASES
+  cleanLocationString
 } from './fuzzy.js';
 
 export {
@@ -32,4 +46,4 @@ export {
   approximateState,
   validateStateCoordinateMatch,
   type ValidationResult
-} from './validation.js';
+} from '@ice-activity-map/geo';
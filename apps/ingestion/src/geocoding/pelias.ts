@@ -0,0 +1,111 @@
+import { createThrottle, type Throttle } from '@ice-activity-map/geo';
+import {
+  fetchGeocoderJson,
+  trimBaseUrl,
+  type GeocodeRequest,
+  type Geocoder,
+  type GeocodingResult,
+  type HttpGeocoderOptions
+} from './geocoder.js';
+
+// Pelias layers in the OSM terms the pipeline uses
+const PELIAS_PLACE_TYPES: Record<string, string> = {
+  venue: 'poi',
+  address: 'house',
+  street: 'road',
+  neighbourhood: 'neighbourhood',
+  macrohood: 'city_district',
+  borough: 'borough',
+  locality: 'city',
+  localadmin: 'town',
+  county: 'county',
+  region: 'state',
+  postalcode: 'postcode'
+};
+
+export interface PeliasGeocoderOptions extends HttpGeocoderOptions {
+  /** Hosted Pelias (geocode.earth) needs one; a self-hosted instance doesn't */
+  apiKey?: string;
+}
+
+interface PeliasProperties {
+  name?: string;
+  label?: string;
+  layer?: string;
+  locality?: string;
+  localadmin?: string;
+  region?: string;
+  region_a?: string;
+  /** 0-1, how well the result matches the query */
+  confidence?: number;
+}
+
+interface PeliasResponse {
+  features: {
+    geometry: { coordinates: [number, number] };
+    properties: PeliasProperties;
+  }[];
+}
+
+/**
+ * Pelias' /v1/search, restricted to the US. There's no public instance, so
+ * `baseUrl` is a self-hosted one or a hosted service with its API key.
+ */
+export class PeliasGeocoder implements Geocoder {
+  readonly id = 'pelias';
+  readonly description: string;
+  private options: PeliasGeocoderOptions;
+  private throttle: Throttle;
+
+  constructor(options: PeliasGeocoderOptions) {
+    this.options = { ...options, baseUrl: trimBaseUrl(options.baseUrl) };
+    this.description = `Pelias (${this.options.baseUrl})`;
+    this.throttle = createThrottle(options.requestDelayMs);
+  }
+
+  async geocode(request: GeocodeRequest): Promise<GeocodingResult | null> {
+    const params = new URLSearchParams({
+      text: request.query,
+      size: '1',
+      'boundary.country': 'USA'
+    });
+    if (request.viewbox) {
+      const { west, south, east, north } = request.viewbox;
+      params.set('boundary.rect.min_lon', String(west));
+      params.set('boundary.rect.min_lat', String(south));
+      params.set('boundary.rect.max_lon', String(east));
+      params.set('boundary.rect.max_lat', String(north));
+    }
+    if (this.options.apiKey) {
+      params.set('api_key', this.options.apiKey);
+    }
+
+    await this.throttle();
+    const data = await fetchGeocoderJson<PeliasResponse>(
+      'Pelias',
+      `${this.options.baseUrl}/v1/search?${params}`,
+      request.query,
+      this.options
+    );
+    const feature = data?.features?.[0];
+    if (!feature) {
+      return null;
+    }
+
+    const [longitude, latitude] = feature.geometry.coordinates;
+    const properties = feature.properties;
+    const matchConfidence = properties.confidence ?? 1;
+
+    return {
+      latitude,
+      longitude,
+      city: properties.locality ?? properties.localadmin ?? null,
+      state: properties.region_a ?? properties.region ?? null,
+      displayName: properties.label ?? properties.name ?? request.query,
+      confidence: matchConfidence >= 0.8 ? 'high' : matchConfidence >= 0.5 ? 'medium' : 'low',
+      source: 'pelias',
+      provider: 'pelias',
+      placeType: PELIAS_PLACE_TYPES[properties.layer ?? ''] ?? properties.layer ?? null
+    };
+  }
+}
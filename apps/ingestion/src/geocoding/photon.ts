@@ -0,0 +1,109 @@
+import { createThrottle, type Throttle } from '@ice-activity-map/geo';
+import {
+  fetchGeocoderJson,
+  trimBaseUrl,
+  type GeocodeRequest,
+  type Geocoder,
+  type GeocodingResult,
+  type HttpGeocoderOptions
+} from './geocoder.js';
+
+// Komoot's public instance; fair use only, so self-host for volume
+export const PHOTON_PUBLIC_URL = 'https://photon.komoot.io';
+
+// Photon can't be asked for one country, so a few results are fetched and
+// the first US one taken
+const PHOTON_RESULT_LIMIT = 5;
+
+// Photon's own result types in the OSM terms the pipeline uses
+const PHOTON_PLACE_TYPES: Record<string, string> = {
+  house: 'house',
+  street: 'road',
+  locality: 'neighbourhood',
+  district: 'suburb',
+  city: 'city',
+  county: 'county',
+  state: 'state'
+};
+
+const CITY_PLACE_TYPES = new Set(['city', 'town', 'village', 'municipality']);
+
+interface PhotonProperties {
+  name?: string;
+  osm_key?: string;
+  osm_value?: string;
+  type?: string;
+  housenumber?: string;
+  street?: string;
+  city?: string;
+  county?: string;
+  state?: string;
+  countrycode?: string;
+}
+
+interface PhotonResponse {
+  features: {
+    geometry: { coordinates: [number, number] };
+    properties: PhotonProperties;
+  }[];
+}
+
+/**
+ * Photon's /api search over OpenStreetMap data
+ */
+export class PhotonGeocoder implements Geocoder {
+  readonly id = 'photon';
+  readonly description: string;
+  private options: HttpGeocoderOptions;
+  private throttle: Throttle;
+
+  constructor(options: HttpGeocoderOptions) {
+    this.options = { ...options, baseUrl: trimBaseUrl(options.baseUrl) };
+    this.description = `Photon (${this.options.baseUrl})`;
+    this.throttle = createThrottle(options.requestDelayMs);
+  }
+
+  async geocode(request: GeocodeRequest): Promise<GeocodingResult | null> {
+    const params = new URLSearchParams({
+      q: request.query,
+      limit: String(PHOTON_RESULT_LIMIT),
+      lang: 'en'
+    });
+    if (request.viewbox) {
+      const { west, south, east, north } = request.viewbox;
+      params.set('bbox', `${west},${south},${east},${north}`);
+    }
+
+    await this.throttle();
+    const data = await fetchGeocoderJson<PhotonResponse>(
+      'Photon',
+      `${this.options.baseUrl}/api?${params}`,
+      request.query,
+      this.options
+    );
+    const feature = data?.features?.find((candidate) => candidate.properties.countrycode?.toUpperCase() === 'US');
+    if (!feature) {
+      return null;
+    }
+
+    const [longitude, latitude] = feature.geometry.coordinates;
+    const properties = feature.properties;
+    const placeType = properties.osm_key === 'place'
+      ? properties.osm_value ?? null
+      : PHOTON_PLACE_TYPES[properties.type ?? ''] ?? properties.type ?? null;
+    const city = properties.city ?? (CITY_PLACE_TYPES.has(placeType ?? '') ? properties.name ?? null : null);
+    const street = [properties.housenumber, properties.street].filter(Boolean).join(' ');
+
+    return {
+      latitude,
+      longitude,
+      city,
+      state: properties.state ?? null,
+      displayName: [...new Set([properties.name, street, city, properties.state].filter(Boolean))].join(', '),
+      confidence: 'high',
+      source: 'photon',
+      provider: 'photon',
+      placeType
+    };
+  }
+}
@@ -0,0 +1,192 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { NominatimGeocoder } from './nominatim';
+import { PhotonGeocoder } from './photon';
+import { PeliasGeocoder } from './pelias';
+import { GazetteerGeocoder } from './gazetteer';
+import type { HttpGeocoderOptions } from './geocoder';
+import { Gazetteer, parseGazetteer } from '../gazetteer/gazetteer';
+
+// A local stub standing in for all three services: each path answers with
+// whatever the test put in `responses`, and every request is recorded
+const responses = new Map<string, { status: number; body: unknown }>();
+const requests: { url: URL; headers: IncomingMessage['headers'] }[] = [];
+let server: Server;
+let options: HttpGeocoderOptions;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    requests.push({ url, headers: req.headers });
+    const response = responses.get(url.pathname) ?? { status: 404, body: {} };
+    res.writeHead(response.status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(response.body));
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  options = { baseUrl: `http://127.0.0.1:${port}/`, userAgent: 'ICEActivityMap/test', requestDelayMs: 0, timeoutMs: 2000 };
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  responses.clear();
+  requests.length = 0;
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+const VIEWBOX = { west: -118.5, south: 33.8, east: -118, north: 34.3 };
+
+describe('NominatimGeocoder', () => {
+  it('should search US results and read the address', async () => {
+    responses.set('/search', {
+      status: 200,
+      body: [{
+        lat: '34.0469',
+        lon: '-118.2054',
+        display_name: 'Boyle Heights, Los Angeles, California, United States',
+        addresstype: 'suburb',
+        address: { city: 'Los Angeles', state: 'California' }
+      }]
+    });
+
+    const result = await new NominatimGeocoder(options).geocode({ query: 'Boyle Heights, Los Angeles, CA' });
+
+    expect(result).toEqual({
+      latitude: 34.0469,
+      longitude: -118.2054,
+      city: 'Los Angeles',
+      state: 'California',
+      displayName: 'Boyle Heights, Los Angeles, California, United States',
+      confidence: 'high',
+      source: 'nominatim',
+      provider: 'nominatim',
+      placeType: 'suburb'
+    });
+    expect(requests[0].url.searchParams.get('q')).toBe('Boyle Heights, Los Angeles, CA');
+    expect(requests[0].url.searchParams.get('countrycodes')).toBe('us');
+    expect(requests[0].headers['user-agent']).toBe('ICEActivityMap/test');
+  });
+
+  it('should bound street-level searches to the box', async () => {
+    responses.set('/search', { status: 200, body: [] });
+
+    expect(await new NominatimGeocoder(options).geocode({ query: 'Cesar Chavez Ave', viewbox: VIEWBOX })).toBeNull();
+    expect(requests[0].url.searchParams.get('viewbox')).toBe('-118.5,34.3,-118,33.8');
+    expect(requests[0].url.searchParams.get('bounded')).toBe('1');
+  });
+
+  it('should give up quietly when the server fails or is unreachable', async () => {
+    responses.set('/search', { status: 503, body: {} });
+
+    expect(await new NominatimGeocoder(options).geocode({ query: 'Los Angeles' })).toBeNull();
+    expect(await new NominatimGeocoder({ ...options, baseUrl: 'http://127.0.0.1:1' }).geocode({ query: 'Los Angeles' })).toBeNull();
+  });
+});
+
+describe('PhotonGeocoder', () => {
+  it('should take the first US feature and describe it in OSM terms', async () => {
+    responses.set('/api', {
+      status: 200,
+      body: {
+        features: [
+          { geometry: { coordinates: [-106.4245, 31.6904] }, properties: { name: 'Juárez', countrycode: 'MX', osm_key: 'place', osm_value: 'city' } },
+          { geometry: { coordinates: [-106.485, 31.7587] }, properties: { name: 'El Paso', state: 'Texas', countrycode: 'US', osm_key: 'place', osm_value: 'city' } }
+        ]
+      }
+    });
+
+    const result = await new PhotonGeocoder(options).geocode({ query: 'El Paso' });
+
+    expect(result).toMatchObject({
+      latitude: 31.7587,
+      longitude: -106.485,
+      city: 'El Paso',
+      state: 'Texas',
+      displayName: 'El Paso, Texas',
+      source: 'photon',
+      provider: 'photon',
+      placeType: 'city'
+    });
+    expect(requests[0].url.searchParams.get('q')).toBe('El Paso');
+  });
+
+  it('should map its own result types and pass the box as bbox', async () => {
+    responses.set('/api', {
+      status: 200,
+      body: {
+        features: [{
+          geometry: { coordinates: [-118.2, 34.05] },
+          properties: { name: 'Cesar E Chavez Avenue', city: 'Los Angeles', state: 'California', countrycode: 'US', osm_key: 'highway', type: 'street' }
+        }]
+      }
+    });
+
+    const result = await new PhotonGeocoder(options).geocode({ query: 'Cesar Chavez Ave', viewbox: VIEWBOX });
+
+    expect(result).toMatchObject({ city: 'Los Angeles', placeType: 'road' });
+    expect(requests[0].url.searchParams.get('bbox')).toBe('-118.5,33.8,-118,34.3');
+  });
+});
+
+describe('PeliasGeocoder', () => {
+  it('should search the US with its API key and read the state code', async () => {
+    responses.set('/v1/search', {
+      status: 200,
+      body: {
+        features: [{
+          geometry: { coordinates: [-117.0431, 32.5561] },
+          properties: { name: 'San Ysidro', label: 'San Ysidro, San Diego, CA, USA', layer: 'neighbourhood', locality: 'San Diego', region: 'California', region_a: 'CA', confidence: 0.6 }
+        }]
+      }
+    });
+
+    const result = await new PeliasGeocoder({ ...options, apiKey: 'ge-123' }).geocode({ query: 'San Ysidro', viewbox: VIEWBOX });
+
+    expect(result).toEqual({
+      latitude: 32.5561,
+      longitude: -117.0431,
+      city: 'San Diego',
+      state: 'CA',
+      displayName: 'San Ysidro, San Diego, CA, USA',
+      confidence: 'medium',
+      source: 'pelias',
+      provider: 'pelias',
+      placeType: 'neighbourhood'
+    });
+    const params = requests[0].url.searchParams;
+    expect([params.get('text'), params.get('boundary.country'), params.get('api_key')]).toEqual(['San Ysidro', 'USA', 'ge-123']);
+    expect(params.get('boundary.rect.min_lon')).toBe('-118.5');
+    expect(params.get('boundary.rect.max_lat')).toBe('34.3');
+  });
+
+  it('should find nothing in an empty collection', async () => {
+    responses.set('/v1/search', { status: 200, body: { features: [] } });
+
+    expect(await new PeliasGeocoder(options).geocode({ query: 'Xyzzytown' })).toBeNull();
+    expect(requests[0].url.searchParams.has('api_key')).toBe(false);
+  });
+});
+
+describe('GazetteerGeocoder', () => {
+  const geocoder = new GazetteerGeocoder(new Gazetteer(parseGazetteer([
+    'Aurora\tCO\tcity\t39.7294\t-104.8319\t386261',
+    'Aurora\tIL\tcity\t41.7606\t-88.3201\t180542',
+    'San Ysidro\tCA\tcommunity\t32.5561\t-117.0431\t28000'
+  ].join('\n'))));
+
+  it('should resolve the city and state a request names', async () => {
+    expect(await geocoder.geocode({ query: 'Aurora, IL, USA' })).toMatchObject({ state: 'IL', confidence: 'high', provider: 'gazetteer' });
+    expect(await geocoder.geocode({ query: 'whatever', city: 'Aurora', state: 'IL' })).toMatchObject({ state: 'IL' });
+    expect(await geocoder.geocode({ query: 'Aurora, USA' })).toMatchObject({ state: 'CO', confidence: 'medium' });
+    expect(await geocoder.geocode({ query: 'San Ysidro' })).toMatchObject({ placeType: 'neighbourhood' });
+  });
+
+  it('should leave street-level requests to other geocoders', async () => {
+    expect(await geocoder.geocode({ query: 'Aurora', viewbox: VIEWBOX })).toBeNull();
+  });
+});
@@ -1,4 +1,5 @@
 import { XMLParser } from "fast-xml-parser";
+import { checkRateLimit, RateLimitError } from "../sources/rate-limit.js";
 
 export const NEWS_KEYWORDS = [
   // ICE-specific
@@ -113,6 +114,8 @@ async function fetchRss(query: string): Promise<GoogleNewsArticle[]> {
       },
     });
 
+    checkRateLimit("Google News", response);
+
     if (!response.ok) {
       console.error(`[Google News] HTTP ${response.status} for query: ${query}`);
       return [];
@@ -149,6 +152,7 @@ async function fetchRss(query: string): Promise<GoogleNewsArticle[]> {
         };
       });
   } catch (error) {
+    if (error instanceof RateLimitError) throw error;
     console.error(`[Google News] Fetch error for query "${query}":`, error);
     return [];
   }
@@ -158,7 +162,7 @@ async function fetchRss(query: string): Promise<GoogleNewsArticle[]> {
  * Search Google News RSS for all configured keywords
  * Deduplicates by guid and returns sorted by date (newest first)
  */
-export async function searchGoogleNews(): Promise<GoogleNewsArticle[]> {
+export async function searchGoogleNews(requestDelayMs = 1000): Promise<GoogleNewsArticle[]> {
   const seenGuids = new Set<string>();
   const allArticles: GoogleNewsArticle[] = [];
 
@@ -175,8 +179,9 @@ export async function searchGoogleNews(): Promise<GoogleNewsArticle[]> {
       }
 
       // Delay between queries to be respectful
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+      await new Promise((resolve) => setTimeout(resolve, requestDelayMs));
     } catch (error) {
+      if (error instanceof RateLimitError) throw error;
       console.error(`[Google News] Failed to search for "${keyword}":`, error);
     }
   }
@@ -0,0 +1,15 @@
+import { searchGoogleNews, type GoogleNewsArticle } from "./search.js";
+import { normalizeGoogleNewsArticle } from "../pipeline/normalize.js";
+import type { SourceAdapter } from "../sources/adapter.js";
+
+export const googleNewsSource: SourceAdapter<GoogleNewsArticle> = {
+  id: "google_news",
+  name: "Google News",
+  shortName: "N",
+  icon: "📰",
+  category: "news",
+  defaultPollIntervalMs: 10 * 60_000,
+  rateLimit: { requestDelayMs: 1000, maxConcurrency: 1 },
+  fetch: (config) => searchGoogleNews(config.rateLimit.requestDelayMs),
+  normalize: normalizeGoogleNewsArticle,
+};
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Report } from '@ice-activity-map/database';
+
+vi.mock('@ice-activity-map/database', () => ({
+  assignReportToIncident: vi.fn(),
+  getIncidentCandidates: vi.fn().mockResolvedValue([]),
+  getUnclusteredReports: vi.fn().mockResolvedValue([])
+}));
+
+import { assignReportToIncident, getIncidentCandidates } from '@ice-activity-map/database';
+import { hammingDistance, simhash, wordOverlap } from './similarity';
+import { clusterReport, clusteringConfigFromEnv, matchIncident, DEFAULT_CLUSTERING_CONFIG } from './cluster';
+
+const RAID = 'ICE agents raiding the Home Depot on Sunset Blvd in Los Angeles, CA right now. At least 6 vans.';
+const SAME_SCENE = 'Immigration raid at the Sunset Home Depot in LA, people being detained in the parking lot';
+const CHECKPOINT = 'ICE checkpoint on the 405 near Westwood, Los Angeles. Avoid the area';
+
+function report(overrides: Partial<Report>): Report {
+  return {
+    id: 'report-new',
+    sourceType: 'bluesky',
+    sourceId: 'at://did:plc:abc/app.bsky.feed.post/1',
+    activityType: 'raid',
+    description: RAID,
+    city: 'Los Angeles',
+    state: 'California',
+    latitude: 34.0522,
+    longitude: -118.2437,
+    locationPrecision: 'city',
+    locationRadiusM: 8000,
+    authorHandle: 'witness.bsky.social',
+    authorDisplayName: null,
+    photoUrl: null,
+    status: 'unverified',
+    metadata: {},
+    language: 'en',
+    incidentId: null,
+    occurredAt: null,
+    occurredAtConfidence: null,
+    reportedAt: new Date('2026-10-19T15:00:00Z'),
+    createdAt: new Date('2026-10-19T15:00:05Z'),
+    updatedAt: new Date('2026-10-19T15:00:05Z'),
+    ...overrides
+  };
+}
+
+describe('similarity', () => {
+  it('should put near-duplicate posts a few simhash bits apart', () => {
+    const crossPost = `${RAID} https://t.co/abc #ICE`;
+
+    expect(hammingDistance(simhash(RAID), simhash(crossPost))).toBeLessThanOrEqual(10);
+    expect(hammingDistance(simhash(RAID), simhash(CHECKPOINT))).toBeGreaterThan(20);
+  });
+
+  it('should measure overlap on distinctive words only', () => {
+    expect(wordOverlap(RAID, SAME_SCENE)).toBeGreaterThanOrEqual(0.2);
+    expect(wordOverlap(RAID, CHECKPOINT)).toBeLessThan(0.2);
+    expect(wordOverlap('ICE agents here right now', 'ICE agents there right now')).toBe(0);
+  });
+});
+
+describe('matchIncident', () => {
+  const earlier = report({ id: 'report-1', incidentId: 'incident-1', sourceType: 'mastodon', reportedAt: new Date('2026-10-19T14:00:00Z') });
+
+  it('should join a cross-post of an earlier report', () => {
+    const crossPost = report({ description: `${RAID} https://t.co/abc`, activityType: 'other' });
+
+    expect(matchIncident(crossPost, [earlier])).toEqual({ incidentId: 'incident-1', reportId: 'report-1', nearDuplicate: true, similarity: 1 });
+  });
+
+  it('should join a different description of the same scene within the window', () => {
+    const sameScene = report({ description: SAME_SCENE });
+
+    expect(matchIncident(sameScene, [earlier])).toEqual(expect.objectContaining({ incidentId: 'incident-1', nearDuplicate: false }));
+    expect(matchIncident({ ...sameScene, reportedAt: new Date('2026-10-20T04:00:00Z') }, [earlier])).toBeNull();
+  });
+
+  it('should keep different activity and unrelated text apart', () => {
+    expect(matchIncident(report({ description: CHECKPOINT, activityType: 'checkpoint' }), [earlier])).toBeNull();
+    expect(matchIncident(report({ description: SAME_SCENE, activityType: 'checkpoint' }), [earlier])).toBeNull();
+  });
+
+  it('should prefer a near-duplicate over a better-overlapping neighbour', () => {
+    const other = report({ id: 'report-2', incidentId: 'incident-2', description: SAME_SCENE });
+    const copy = report({ description: RAID.replace('6 vans', 'six vans') });
+
+    expect(matchIncident(copy, [other, earlier])?.incidentId).toBe('incident-1');
+  });
+});
+
+describe('clusterReport', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should look nearby and start a new incident when nothing matches', async () => {
+    const saved = report({});
+    vi.mocked(assignReportToIncident).mockResolvedValueOnce({ id: 'incident-9', reportCount: 1 } as never);
+
+    const result = await clusterReport(saved);
+
+    expect(getIncidentCandidates).toHaveBeenCalledWith(expect.objectContaining({
+      reportId: 'report-new',
+      latitude: 34.0522,
+      city: 'Los Angeles',
+      radiusKm: DEFAULT_CLUSTERING_CONFIG.radiusKm,
+      reportedAfter: new Date('2026-10-17T15:00:00Z'),
+      reportedBefore: new Date('2026-10-21T15:00:00Z')
+    }));
+    expect(assignReportToIncident).toHaveBeenCalledWith('report-new', undefined);
+    expect(result).toEqual({ incident: { id: 'incident-9', reportCount: 1 }, match: null });
+  });
+});
+
+describe('clusteringConfigFromEnv', () => {
+  it('should read the settings and ignore bad values', () => {
+    expect(clusteringConfigFromEnv({ INCIDENT_WINDOW_HOURS: '6', INCIDENT_RADIUS_KM: 'far', INCIDENT_MIN_SIMILARITY: '2' }))
+      .toEqual({ ...DEFAULT_CLUSTERING_CONFIG, windowHours: 6 });
+  });
+});
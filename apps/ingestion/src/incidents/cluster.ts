@@ -0,0 +1,159 @@
+import {
+  assignReportToIncident,
+  getIncidentCandidates,
+  getUnclusteredReports,
+  type Incident,
+  type Report
+} from '@ice-activity-map/database';
+import { hammingDistance, simhash, wordOverlap } from './similarity.js';
+
+/**
+ * Incident clustering: reports of the same event from different posts and
+ * sources (a raid posted to Bluesky, cross-posted to Mastodon, covered by
+ * Google News) go into one incident, so the map shows one marker for it.
+ * A report joins the incident of an earlier report when the two are close
+ * in place and time and either the text is a near-duplicate, or the
+ * activity types agree and the texts share enough distinctive words.
+ */
+
+export interface IncidentClusteringConfig {
+  /** Reports further apart in time than this are different events, unless the text is a near-duplicate */
+  windowHours: number;
+  /** Reports with coordinates further apart than this are different events */
+  radiusKm: number;
+  /** Word overlap (0-1) a nearby report that isn't a near-duplicate needs to join */
+  minSimilarity: number;
+}
+
+export const DEFAULT_CLUSTERING_CONFIG: IncidentClusteringConfig = {
+  windowHours: 12,
+  radiusKm: 2,
+  minSimilarity: 0.2
+};
+
+// Copies of a post turn up for a while after it (reposts, late cross-posts),
+// so near-duplicates are matched over a longer window
+const DUPLICATE_WINDOW_HOURS = 48;
+
+// Simhash bits two near-duplicate posts may differ by. Short posts have few
+// shingles, so small edits move more bits than they would in an article;
+// unrelated texts differ by about 32.
+const MAX_DUPLICATE_DISTANCE = 10;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface IncidentMatch {
+  incidentId: string;
+  /** The earlier report it matched */
+  reportId: string;
+  nearDuplicate: boolean;
+  /** Word overlap with the matched report */
+  similarity: number;
+}
+
+function envNumber(value: string | undefined, min: number, max: number): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const parsed = parseFloat(value);
+  return parsed >= min && parsed <= max ? parsed : undefined;
+}
+
+/**
+ * INCIDENT_WINDOW_HOURS, INCIDENT_RADIUS_KM and INCIDENT_MIN_SIMILARITY,
+ * falling back to the defaults for anything unset or out of range
+ */
+export function clusteringConfigFromEnv(env: NodeJS.ProcessEnv = process.env): IncidentClusteringConfig {
+  return {
+    windowHours: envNumber(env.INCIDENT_WINDOW_HOURS, 0, DUPLICATE_WINDOW_HOURS) ?? DEFAULT_CLUSTERING_CONFIG.windowHours,
+    radiusKm: envNumber(env.INCIDENT_RADIUS_KM, 0, 100) ?? DEFAULT_CLUSTERING_CONFIG.radiusKm,
+    minSimilarity: envNumber(env.INCIDENT_MIN_SIMILARITY, 0, 1) ?? DEFAULT_CLUSTERING_CONFIG.minSimilarity
+  };
+}
+
+function compatibleActivity(a: Report['activityType'], b: Report['activityType']): boolean {
+  return a === b || a === 'other' || b === 'other';
+}
+
+/**
+ * The incident a report belongs in, from candidates already known to be
+ * nearby (see getIncidentCandidates), or null if it's a new event.
+ * Near-duplicates win over word overlap; ties go to the closest in time.
+ */
+export function matchIncident(
+  report: Report,
+  candidates: Report[],
+  config: IncidentClusteringConfig = DEFAULT_CLUSTERING_CONFIG
+): IncidentMatch | null {
+  const hash = simhash(report.description);
+  let best: (IncidentMatch & { gapMs: number }) | null = null;
+
+  for (const candidate of candidates) {
+    if (!candidate.incidentId || candidate.id === report.id) continue;
+
+    const gapMs = Math.abs(candidate.reportedAt.getTime() - report.reportedAt.getTime());
+    const nearDuplicate = gapMs <= DUPLICATE_WINDOW_HOURS * HOUR_MS
+      && hammingDistance(hash, simhash(candidate.description)) <= MAX_DUPLICATE_DISTANCE;
+    const similarity = wordOverlap(report.description, candidate.description);
+    const related = gapMs <= config.windowHours * HOUR_MS
+      && compatibleActivity(report.activityType, candidate.activityType)
+      && similarity >= config.minSimilarity;
+    if (!nearDuplicate && !related) continue;
+
+    const better = !best
+      || (nearDuplicate && !best.nearDuplicate)
+      || (nearDuplicate === best.nearDuplicate && (similarity > best.similarity || (similarity === best.similarity && gapMs < best.gapMs)));
+    if (better) {
+      best = { incidentId: candidate.incidentId, reportId: candidate.id, nearDuplicate, similarity, gapMs };
+    }
+  }
+
+  if (!best) return null;
+  const { gapMs: _gapMs, ...match } = best;
+  return match;
+}
+
+export interface ClusterResult {
+  incident: Incident;
+  /** null when the report started a new incident */
+  match: IncidentMatch | null;
+}
+
+/**
+ * Put a saved report into the incident it matches, or a new one. Returns
+ * null if the report was deleted in the meantime.
+ */
+export async function clusterReport(
+  report: Report,
+  config: IncidentClusteringConfig = DEFAULT_CLUSTERING_CONFIG
+): Promise<ClusterResult | null> {
+  const reportedAt = report.reportedAt.getTime();
+  const candidates = await getIncidentCandidates({
+    reportId: report.id,
+    latitude: report.latitude,
+    longitude: report.longitude,
+    city: report.city,
+    state: report.state,
+    reportedAfter: new Date(reportedAt - DUPLICATE_WINDOW_HOURS * HOUR_MS),
+    reportedBefore: new Date(reportedAt + DUPLICATE_WINDOW_HOURS * HOUR_MS),
+    radiusKm: config.radiusKm
+  });
+
+  const match = matchIncident(report, candidates, config);
+  const incident = await assignReportToIncident(report.id, match?.incidentId);
+  return incident ? { incident, match } : null;
+}
+
+/**
+ * Cluster reports that aren't in an incident yet, oldest first: user
+ * submissions, and reports whose clustering failed when they were saved.
+ * Returns how many were clustered.
+ */
+export async function clusterPendingReports(
+  config: IncidentClusteringConfig = DEFAULT_CLUSTERING_CONFIG,
+  limit = 200
+): Promise<number> {
+  let clustered = 0;
+  for (const report of await getUnclusteredReports(limit)) {
+    if (await clusterReport(report, config)) clustered++;
+  }
+  return clustered;
+}
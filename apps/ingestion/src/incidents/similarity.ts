@@ -0,0 +1,93 @@
+import { tokenize } from '../classifier/tokenize.js';
+
+/**
+ * Text similarity for grouping reports of the same event. Simhash catches
+ * near-duplicates (cross-posts, quote posts, "RT"-style copies) cheaply;
+ * word overlap catches different people describing the same scene.
+ */
+
+// Placeholders, function words and words nearly every report uses: they
+// say nothing about which event a post is about
+const IGNORED_TOKENS = new Set([
+  '_url_', '_mention_', '_num_',
+  'the', 'and', 'are', 'was', 'were', 'this', 'that', 'with', 'for', 'from', 'near', 'outside', 'just',
+  'right', 'now', 'here', 'there', 'have', 'has', 'been', 'they', 'their', 'them', 'you', 'your', 'all',
+  'los', 'las', 'del', 'con', 'por', 'para', 'una', 'estan', 'aqui', 'ahora', 'cerca',
+  'ice', 'agents', 'agent', 'officers', 'immigration', 'federal', 'migra', 'agentes', 'people', 'today',
+  'area', 'careful', 'avoid', 'alert', 'heads'
+]);
+
+const FNV_OFFSET = 0xcbf29ce484222325n;
+const FNV_PRIME = 0x100000001b3n;
+const MASK_64 = (1n << 64n) - 1n;
+
+function fnv1a64(value: string): bigint {
+  let hash = FNV_OFFSET;
+  for (const byte of new TextEncoder().encode(value)) {
+    hash ^= BigInt(byte);
+    hash = (hash * FNV_PRIME) & MASK_64;
+  }
+  return hash;
+}
+
+/**
+ * Distinct word n-grams of a text, using the classifier's tokenizer. A text
+ * shorter than `size` words is one shingle.
+ */
+export function shingles(text: string, size = 3): Set<string> {
+  const tokens = tokenize(text);
+  if (tokens.length <= size) return new Set(tokens.length > 0 ? [tokens.join(' ')] : []);
+
+  const result = new Set<string>();
+  for (let i = 0; i + size <= tokens.length; i++) {
+    result.add(tokens.slice(i, i + size).join(' '));
+  }
+  return result;
+}
+
+/**
+ * 64-bit simhash over a text's word 3-grams. Near-identical texts get
+ * hashes a few bits apart.
+ */
+export function simhash(text: string): bigint {
+  const counts = new Array<number>(64).fill(0);
+  for (const shingle of shingles(text)) {
+    const hash = fnv1a64(shingle);
+    for (let bit = 0; bit < 64; bit++) {
+      counts[bit] += (hash >> BigInt(bit)) & 1n ? 1 : -1;
+    }
+  }
+
+  let result = 0n;
+  counts.forEach((count, bit) => {
+    if (count > 0) result |= 1n << BigInt(bit);
+  });
+  return result;
+}
+
+export function hammingDistance(a: bigint, b: bigint): number {
+  let diff = a ^ b;
+  let distance = 0;
+  while (diff > 0n) {
+    distance += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return distance;
+}
+
+/**
+ * Share of distinct words two texts have in common (Jaccard), ignoring
+ * links, mentions, numbers and one- and two-letter words
+ */
+export function wordOverlap(a: string, b: string): number {
+  const words = (text: string) => new Set(tokenize(text).filter((token) => token.length > 2 && !IGNORED_TOKENS.has(token)));
+  const left = words(a);
+  const right = words(b);
+  if (left.size === 0 || right.size === 0) return 0;
+
+  let shared = 0;
+  for (const word of left) {
+    if (right.has(word)) shared++;
+  }
+  return shared / (left.size + right.size - shared);
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { detectLanguage, normalizeLanguageTag } from './detect';
+
+describe('detectLanguage', () => {
+  it('should tell the supported languages apart', () => {
+    expect(detectLanguage('I just saw ICE agents outside the Home Depot right now')).toBe('en');
+    expect(detectLanguage('Están aquí los de la migra en la calle 35, cuidado')).toBe('es');
+    expect(detectLanguage('Os agentes do ICE estão aqui na rua agora, cuidado gente')).toBe('pt');
+    expect(detectLanguage('Mwen fèk wè ajan ICE nan katye a kounye a, fè atansyon')).toBe('ht');
+    expect(detectLanguage('Tôi vừa thấy nhân viên di trú ở chợ')).toBe('vi');
+    expect(detectLanguage('我刚才看到移民局的人在法拉盛抓人')).toBe('zh');
+    expect(detectLanguage('방금 이민국 요원들을 봤어요 조심하세요')).toBe('ko');
+    expect(detectLanguage('May ICE dito sa palengke ngayon, ingat po kayo')).toBe('tl');
+  });
+
+  it('should not call text too short or in another language', () => {
+    expect(detectLanguage('ICE raid')).toBe('und');
+    expect(detectLanguage('東京で移民局を見た')).toBe('und');
+    expect(detectLanguage('')).toBe('und');
+  });
+
+  it('should fall back on the source language tags only when the text is undecided', () => {
+    expect(detectLanguage('ICE raid!!', ['fr', 'pt-BR'])).toBe('pt');
+    expect(detectLanguage('I just saw ICE agents outside the Home Depot', ['es'])).toBe('en');
+  });
+});
+
+describe('normalizeLanguageTag', () => {
+  it('should reduce tags to supported ISO 639-1 codes', () => {
+    expect(normalizeLanguageTag('zh-Hant')).toBe('zh');
+    expect(normalizeLanguageTag('fil')).toBe('tl');
+    expect(normalizeLanguageTag('EN_us')).toBe('en');
+    expect(normalizeLanguageTag('fr')).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Language detection for ingested posts. Posts are short and informal, so
+ * this stays deliberately simple: the writing system settles Chinese, Korean
+ * and Vietnamese, and a count of function words that only one language uses
+ * separates the Latin-script languages. Anything it can't call is `und`.
+ */
+
+/** ISO 639-1 codes of the languages the filter has rules for */
+export const SUPPORTED_LANGUAGES = ['en', 'es', 'pt', 'ht', 'vi', 'zh', 'ko', 'tl'] as const;
+
+export type SupportedLanguage = typeof SUPPORTED_LANGUAGES[number];
+
+/** ISO 639-2 code for "undetermined" */
+export const UNDETERMINED = 'und';
+
+export type DetectedLanguage = SupportedLanguage | typeof UNDETERMINED;
+
+// Function words used by one language and not the others in this list;
+// words two of them share (de, que, la, no, sa, na, ...) are left out
+const STOPWORDS: Record<Exclude<SupportedLanguage, 'vi' | 'zh' | 'ko'>, Set<string>> = {
+  en: new Set([
+    'the', 'and', 'is', 'are', 'was', 'were', 'i', 'you', 'they', 'them', 'this', 'that', 'with',
+    'just', 'right', 'now', 'here', 'there', 'near', 'outside', 'have', 'has', 'it', 'my', 'we',
+    'saw', 'of', 'to', 'at', 'on', 'in', 'be', 'what', 'who', 'people', 'today', 'street'
+  ]),
+  es: new Set([
+    'el', 'la', 'los', 'las', 'y', 'es', 'están', 'estan', 'esta', 'hay', 'del', 'al', 'un', 'una',
+    'por', 'para', 'con', 'en', 'aquí', 'aqui', 'ahora', 'ahorita', 'mi', 'ellos', 'cerca', 'afuera',
+    'calle', 'mismo', 'pero', 'muy', 'lo', 'le', 'su', 'sus', 'hoy', 'migra', 'vayan', 'tengan'
+  ]),
+  pt: new Set([
+    'o', 'os', 'e', 'é', 'são', 'estão', 'tão', 'em', 'nas', 'do', 'da', 'dos', 'das', 'um', 'uma',
+    'com', 'aqui', 'agora', 'não', 'perto', 'rua', 'você', 'vocês', 'eles', 'muito', 'imigração',
+    'polícia', 'hoje', 'tem', 'isso', 'essa', 'esse', 'fora', 'gente'
+  ]),
+  ht: new Set([
+    'mwen', 'nou', 'li', 'ak', 'nan', 'pou', 'gen', 'kounye', 'isit', 'ap', 'yon', 'anpil', 'tout',
+    'sou', 'lè', 'fè', 'pa', 'moun', 'lapolis', 'imigrasyon', 'atansyon', 'katye', 'kay', 'tanpri',
+    'kote', 'gade', 'ajan'
+  ]),
+  tl: new Set([
+    'ang', 'ng', 'mga', 'ay', 'ako', 'ko', 'siya', 'sila', 'kami', 'tayo', 'dito', 'doon', 'ngayon',
+    'hindi', 'po', 'nang', 'lang', 'ba', 'yung', 'nasa', 'kayo', 'ingat', 'nakita', 'namin',
+    'natin', 'hinuli', 'nahuli', 'noong', 'isang', 'ayon'
+  ])
+};
+
+const HANGUL = /\p{Script=Hangul}/gu;
+const HAN = /\p{Script=Han}/gu;
+const KANA = /[\p{Script=Hiragana}\p{Script=Katakana}]/gu;
+// ă đ ơ ư and the precomposed Vietnamese block; â ê ô are left out because
+// Portuguese uses them too
+const VIETNAMESE_LETTERS = /[ăđơưẠ-ỹ]/giu;
+
+// Fewer distinctive characters or words than this and the text is too short to call
+const MIN_SIGNAL = 2;
+
+function count(text: string, pattern: RegExp): number {
+  return text.match(pattern)?.length ?? 0;
+}
+
+/**
+ * Reduce a language tag from a source (pt-BR, zh-Hant, fil) to a supported
+ * ISO 639-1 code, or null
+ */
+export function normalizeLanguageTag(tag: string): SupportedLanguage | null {
+  const primary = tag.trim().toLowerCase().split(/[-_]/)[0];
+  const code = primary === 'fil' ? 'tl' : primary;
+  return (SUPPORTED_LANGUAGES as readonly string[]).includes(code) ? code as SupportedLanguage : null;
+}
+
+/**
+ * Detect the language of a post. `hints` are the language tags the source
+ * attached (Bluesky langs, Mastodon language); they're often just the app's
+ * interface language, so they only decide when the text itself can't.
+ */
+export function detectLanguage(text: string, hints: string[] = []): DetectedLanguage {
+  const cleaned = text
+    .normalize('NFC')
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/@[\w.-]+/g, ' ');
+
+  const hangul = count(cleaned, HANGUL);
+  const han = count(cleaned, HAN);
+  if (hangul >= MIN_SIGNAL && hangul >= han) return 'ko';
+  // Japanese mixes kana into Han text; it isn't supported, so don't call it Chinese
+  if (han >= MIN_SIGNAL && count(cleaned, KANA) === 0) return 'zh';
+  if (count(cleaned, VIETNAMESE_LETTERS) >= MIN_SIGNAL) return 'vi';
+
+  const words = cleaned.toLowerCase().match(/\p{L}+/gu) ?? [];
+  const scores = Object.entries(STOPWORDS)
+    .map(([language, stopwords]) => ({
+      language: language as SupportedLanguage,
+      score: words.filter((word) => stopwords.has(word)).length
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = scores;
+  if (best.score >= MIN_SIGNAL && best.score > runnerUp.score) return best.language;
+
+  for (const hint of hints) {
+    const language = normalizeLanguageTag(hint);
+    if (language) return language;
+  }
+  return UNDETERMINED;
+}
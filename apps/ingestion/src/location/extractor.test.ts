@@ -29,6 +29,54 @@ describe('Location Extractor', () => {
       }
     });
 
+    it('should keep only the place name when a phrase leads into it', () => {
+      expect(extractLocation('ICE agents outside the Home Depot in Los Angeles, CA')?.city).toBe('Los Angeles');
+      expect(extractLocation('Os agentes estão no mercado em Newark, NJ')?.city).toBe('Newark');
+      expect(extractLocation('Mwen wè ajan ICE nan Miami, FL')?.city).toBe('Miami');
+      expect(extractLocation('May ICE dito sa Daly City, CA')?.city).toBe('Daly City');
+    });
+
+    it('should find places from the gazetteer, by name or alias', () => {
+      expect(extractLocation('ICE raids in Hidalgo County this week')).toMatchObject({ city: 'Hidalgo County', state: 'TX', confidence: 'high' });
+      expect(extractLocation('Saw ICE in Philly near the courthouse')).toMatchObject({ city: 'Philadelphia', state: 'PA' });
+      expect(extractLocation('Agents at the port of entry in San Ysidro')).toMatchObject({ city: 'San Ysidro', state: 'CA' });
+      expect(extractLocation('ICE detained workers at the plant in Postville')).toMatchObject({ city: 'Postville', state: 'IA', confidence: 'medium' });
+      expect(extractLocation('St Louis, MO agents seen')).toMatchObject({ city: 'St. Louis', state: 'MO' });
+    });
+
+    it('should resolve names several places share by context, then population', () => {
+      expect(extractLocation('ICE agents all over Portland right now')).toMatchObject({ state: 'OR', confidence: 'high' });
+      expect(extractLocation('Checkpoint outside Portland this morning, Maine state police helping'))
+        .toMatchObject({ city: 'Portland', state: 'ME' });
+      expect(extractLocation('ICE at the Arlington courthouse in northern Virginia')).toMatchObject({ city: 'Arlington', state: 'VA' });
+      expect(extractLocation('Raids across Kansas City today')).toMatchObject({ state: 'MO' });
+      // Aurora, IL is half the size of Aurora, CO
+      expect(extractLocation('ICE raid reported in Aurora this morning')).toMatchObject({ state: 'CO', confidence: 'medium' });
+      expect(extractLocation('Agents in Aurora, the Chicago suburb')).toMatchObject({ state: 'IL', confidence: 'high' });
+    });
+
+    it('should not take common words for small places', () => {
+      expect(extractLocation('The mission was to arrest people at the Justice center')).toBeNull();
+      expect(extractLocation('la migra está en la esquina de Whittier y Atlantic')).toBeNull();
+    });
+
+    it('should not take a word for a place because it starts a sentence', () => {
+      expect(extractLocation('Independence Day raids: ICE agents detained 3 in Chicago')).toMatchObject({ city: 'Chicago', state: 'IL' });
+      expect(extractLocation("Reading about last year's ICE raids in Chicago. Still makes me angry.")).toMatchObject({ city: 'Chicago' });
+      expect(extractLocation('Independence Missouri has ICE at the courthouse')).toMatchObject({ city: 'Independence', state: 'MO' });
+    });
+
+    it('should prefer a place after in, at or near over one named earlier', () => {
+      expect(extractLocation('Mission Viejo? No, ICE checkpoint in Denver right now')).toMatchObject({ city: 'Denver', state: 'CO' });
+      expect(extractLocation('Houston friends: agents are near Dallas now')).toMatchObject({ city: 'Dallas', state: 'TX' });
+    });
+
+    it('should want the state for border towns named like words', () => {
+      expect(extractLocation('They took him from the Mission district shelter')).toBeNull();
+      expect(extractLocation('Checkpoint outside Mission, Texas')).toMatchObject({ city: 'Mission', state: 'TX' });
+      expect(extractLocation('Texas DPS is helping the agents in Mission')).toMatchObject({ city: 'Mission', state: 'TX' });
+    });
+
     it('should return null for text without location', () => {
       const result = extractLocation('ICE is a government agency');
       // May or may not find location depending on implementation
@@ -57,6 +105,16 @@ describe('Location Extractor', () => {
       expect(detectActivityType('surveillance van spotted')).toBe('surveillance');
     });
 
+    it('should detect activity types in the other supported languages', () => {
+      expect(detectActivityType('A imigração fez uma batida na obra')).toBe('raid');
+      expect(detectActivityType('ICE đột kích tiệm nail')).toBe('raid');
+      expect(detectActivityType('移民局在高速公路设了检查站')).toBe('checkpoint');
+      expect(detectActivityType('Ajan yo arete de moun')).toBe('arrest');
+      expect(detectActivityType('Hinuli ng ICE ang kapitbahay namin')).toBe('arrest');
+      expect(detectActivityType('이민국 요원이 두 명을 체포했어요')).toBe('arrest');
+      expect(detectActivityType('Carro descaracterizado vigiando a rua')).toBe('surveillance');
+    });
+
     it('should return other for unclassified activity', () => {
       expect(detectActivityType('ICE activity reported')).toBe('other');
       expect(detectActivityType('immigration enforcement')).toBe('other');
@@ -1,63 +1,56 @@
-import { fuzzyMatchCity, normalizeCity, getDefaultState } from '../geocoding/fuzzy.js';
-
-// US State abbreviations and full names
-const STATE_ABBREVIATIONS: Record<string, string> = {
-  'AL': 'Alabama', 'AK': 'Alaska', 'AZ': 'Arizona', 'AR': 'Arkansas',
-  'CA': 'California', 'CO': 'Colorado', 'CT': 'Connecticut', 'DE': 'Delaware',
-  'FL': 'Florida', 'GA': 'Georgia', 'HI': 'Hawaii', 'ID': 'Idaho',
-  'IL': 'Illinois', 'IN': 'Indiana', 'IA': 'Iowa', 'KS': 'Kansas',
-  'KY': 'Kentucky', 'LA': 'Louisiana', 'ME': 'Maine', 'MD': 'Maryland',
-  'MA': 'Massachusetts', 'MI': 'Michigan', 'MN': 'Minnesota', 'MS': 'Mississippi',
-  'MO': 'Missouri', 'MT': 'Montana', 'NE': 'Nebraska', 'NV': 'Nevada',
-  'NH': 'New Hampshire', 'NJ': 'New Jersey', 'NM': 'New Mexico', 'NY': 'New York',
-  'NC': 'North Carolina', 'ND': 'North Dakota', 'OH': 'Ohio', 'OK': 'Oklahoma',
-  'OR': 'Oregon', 'PA': 'Pennsylvania', 'RI': 'Rhode Island', 'SC': 'South Carolina',
-  'SD': 'South Dakota', 'TN': 'Tennessee', 'TX': 'Texas', 'UT': 'Utah',
-  'VT': 'Vermont', 'VA': 'Virginia', 'WA': 'Washington', 'WV': 'West Virginia',
-  'WI': 'Wisconsin', 'WY': 'Wyoming', 'DC': 'District of Columbia',
-  'PR': 'Puerto Rico'
-};
-
-const STATE_NAMES = Object.values(STATE_ABBREVIATIONS);
-const STATE_ABBR_PATTERN = Object.keys(STATE_ABBREVIATIONS).join('|');
-
-// Major US cities for quick matching (includes border cities)
-const MAJOR_CITIES = [
-  'Los Angeles', 'New York', 'Chicago', 'Houston', 'Phoenix', 'Philadelphia',
-  'San Antonio', 'San Diego', 'Dallas', 'San Jose', 'Austin', 'Jacksonville',
-  'Fort Worth', 'Columbus', 'Charlotte', 'San Francisco', 'Indianapolis',
-  'Seattle', 'Denver', 'Washington', 'Boston', 'El Paso', 'Nashville',
-  'Detroit', 'Oklahoma City', 'Portland', 'Las Vegas', 'Memphis', 'Louisville',
-  'Baltimore', 'Milwaukee', 'Albuquerque', 'Tucson', 'Fresno', 'Mesa',
-  'Sacramento', 'Atlanta', 'Kansas City', 'Colorado Springs', 'Miami',
-  'Raleigh', 'Omaha', 'Long Beach', 'Virginia Beach', 'Oakland', 'Minneapolis',
-  'Tulsa', 'Tampa', 'Arlington', 'New Orleans', 'Bakersfield', 'Wichita',
-  'Cleveland', 'Aurora', 'Anaheim', 'Honolulu', 'Santa Ana', 'Riverside',
-  'Corpus Christi', 'Lexington', 'Henderson', 'Stockton', 'Saint Paul',
-  'Cincinnati', 'St. Louis', 'Pittsburgh', 'Greensboro', 'Lincoln', 'Anchorage',
-  'Plano', 'Orlando', 'Irvine', 'Newark', 'Durham', 'Chula Vista', 'Toledo',
-  'Fort Wayne', 'St. Petersburg', 'Laredo', 'Jersey City', 'Chandler',
-  'Madison', 'Lubbock', 'Scottsdale', 'Reno', 'Buffalo', 'Gilbert', 'Glendale',
-  'North Las Vegas', 'Winston-Salem', 'Chesapeake', 'Norfolk', 'Fremont',
-  'Garland', 'Irving', 'Hialeah', 'Richmond', 'Boise', 'Spokane', 'Baton Rouge',
-  // Border cities (high priority for immigration reports)
+import { normalizeState, US_STATES } from '@ice-activity-map/geo';
+import { fuzzyMatchCity } from '../geocoding/fuzzy.js';
+import { getGazetteer, type PlaceMatch, type PlaceMention, type ResolveContext } from '../gazetteer/gazetteer.js';
+import { extractStreetLevelCandidates, type StreetLevelCandidate } from './street-level.js';
+
+const STATE_NAMES = Object.values(US_STATES);
+const STATE_ABBR_PATTERN = Object.keys(US_STATES).join('|');
+
+// A place named in passing, without a state or a preposition, must be at
+// least this big to count; the gazetteer has a town for most common words
+const MENTION_MIN_POPULATION = 50_000;
+
+// Border crossings and the towns around them, which come up in posts far
+// more than their size suggests
+const BORDER_COMMUNITIES = new Set([
   'San Ysidro', 'El Centro', 'McAllen', 'Brownsville', 'Calexico', 'Nogales',
   'Yuma', 'Douglas', 'Del Rio', 'Eagle Pass', 'Roma', 'Hidalgo', 'Pharr',
   'Harlingen', 'Edinburg', 'Mission', 'Weslaco', 'Rio Grande City', 'Presidio',
   'Fabens', 'San Luis', 'Lukeville', 'Sasabe', 'Naco'
-];
+]);
+
+// Border towns whose names are also words or surnames ("Mission", "Douglas").
+// Without their state in the post they're held to this size, which none of
+// them reach, so "the Mission district" isn't Mission, TX
+const WORD_NAME_MIN_POPULATION = 100_000;
+const WORD_NAME_BORDER_COMMUNITIES = new Set(['Mission', 'Roma', 'Hidalgo', 'Douglas', 'Presidio']);
+
+// "in", "at" and their counterparts in the other languages the filter reads
+const PREPOSITIONS = 'in|at|near|around|outside|by|en|em|de|nan|sa';
+const AFTER_PREPOSITION = new RegExp(`\\b(?:${PREPOSITIONS})\\s+$`, 'i');
+
+// Abbreviations only in capitals: "Reading in Chicago" isn't Reading, IN
+const FOLLOWING_STATE_ABBR = new RegExp(`^\\s*,?\\s*(?:${STATE_ABBR_PATTERN})\\b`);
+const FOLLOWING_STATE_NAME = new RegExp(`^\\s*,?\\s*(?:${STATE_NAMES.join('|')})\\b`, 'i');
 
 export interface ExtractedLocation {
   city: string | null;
   state: string | null;
   confidence: 'high' | 'medium' | 'low';
   rawMatch: string;
+  /** Addresses, intersections, places and streets within the city, most precise first */
+  streetLevel: StreetLevelCandidate[];
 }
 
 /**
  * Extract location information from text using regex patterns
  */
 export function extractLocation(text: string): ExtractedLocation | null {
+  const place = extractCityState(text);
+  return place ? { ...place, streetLevel: extractStreetLevelCandidates(text) } : null;
+}
+
+function extractCityState(text: string): Omit<ExtractedLocation, 'streetLevel'> | null {
   // Normalize text
   const normalizedText = text.replace(/\s+/g, ' ').trim();
 
@@ -68,40 +61,53 @@ export function extractLocation(text: string): ExtractedLocation | null {
   );
   const cityStateMatch = normalizedText.match(cityStatePattern);
   if (cityStateMatch) {
-    const city = cityStateMatch[1].trim();
+    const city = stripLeadingPhrase(cityStateMatch[1].trim());
     const stateInput = cityStateMatch[2].toUpperCase();
-    const state = STATE_ABBREVIATIONS[stateInput] || stateInput;
+    const state = normalizeState(US_STATES[stateInput] || stateInput);
+    // The gazetteer's spelling ("LA, CA" is Los Angeles, "St Louis" St. Louis)
+    const known = knownPlace(city, { state });
 
     return {
-      city,
-      state: normalizeState(state),
+      city: known?.place.name ?? city,
+      state,
       confidence: 'high',
       rawMatch: cityStateMatch[0]
     };
   }
 
-  // Pattern 2: Known major city names (exact match)
-  for (const city of MAJOR_CITIES) {
-    const cityPattern = new RegExp(`\\b${escapeRegex(city)}\\b`, 'i');
-    if (cityPattern.test(normalizedText)) {
-      // Try to get default state for this city
-      const defaultState = getDefaultState(city);
+  // A capitalized word starting a sentence ("Reading about...", "Independence
+  // Day") is only a place when its state follows
+  const mentions = getGazetteer().findInText(normalizedText)
+    .filter((mention) => !mention.sentenceStart || stateFollows(normalizedText, mention));
+  // Places named elsewhere in the post pick between places that share a name
+  const contextStates = mentionedStates(normalizedText, mentions);
+
+  // Pattern 2: Places from the gazetteer (exact name or alias); "in Denver"
+  // wins over a place named in passing earlier on
+  const byPreposition = [
+    ...mentions.filter((mention) => afterPreposition(normalizedText, mention)),
+    ...mentions.filter((mention) => !afterPreposition(normalizedText, mention))
+  ];
+  for (const mention of byPreposition) {
+    const match = getGazetteer().resolve(mention.text, { states: contextStates });
+    if (match && isNotable(match, mention, contextStates)) {
       return {
-        city: normalizeCity(city),
-        state: defaultState,
-        confidence: defaultState ? 'high' : 'medium',
-        rawMatch: city
+        city: match.place.name,
+        state: match.place.state,
+        confidence: match.ambiguous ? 'medium' : 'high',
+        rawMatch: mention.text
       };
     }
   }
 
-  // Pattern 2b: Fuzzy match for common misspellings and abbreviations
+  // Pattern 2b: Fuzzy match for common misspellings; exact names were
+  // Pattern 2's to find, with its capitalization and size checks
   const words = normalizedText.split(/\s+/);
   for (let i = 0; i < words.length; i++) {
     // Try single word
     const singleWord = words[i].replace(/[,.:;!?]/g, '');
     const fuzzyResult = fuzzyMatchCity(singleWord);
-    if (fuzzyResult && fuzzyResult.score >= 0.9) {
+    if (fuzzyResult && fuzzyResult.score >= 0.9 && fuzzyResult.score < 1) {
       return {
         city: fuzzyResult.city,
         state: fuzzyResult.state,
@@ -114,7 +120,7 @@ export function extractLocation(text: string): ExtractedLocation | null {
     if (i < words.length - 1) {
       const twoWords = `${words[i]} ${words[i + 1]}`.replace(/[,.:;!?]/g, '');
       const fuzzyResult2 = fuzzyMatchCity(twoWords);
-      if (fuzzyResult2 && fuzzyResult2.score >= 0.85) {
+      if (fuzzyResult2 && fuzzyResult2.score >= 0.85 && fuzzyResult2.score < 1) {
         return {
           city: fuzzyResult2.city,
           state: fuzzyResult2.state,
@@ -128,7 +134,7 @@ export function extractLocation(text: string): ExtractedLocation | null {
     if (i < words.length - 2) {
       const threeWords = `${words[i]} ${words[i + 1]} ${words[i + 2]}`.replace(/[,.:;!?]/g, '');
       const fuzzyResult3 = fuzzyMatchCity(threeWords);
-      if (fuzzyResult3 && fuzzyResult3.score >= 0.85) {
+      if (fuzzyResult3 && fuzzyResult3.score >= 0.85 && fuzzyResult3.score < 1) {
         return {
           city: fuzzyResult3.city,
           state: fuzzyResult3.state,
@@ -144,8 +150,18 @@ export function extractLocation(text: string): ExtractedLocation | null {
   const prepositionMatch = normalizedText.match(prepositionPattern);
   if (prepositionMatch) {
     const potentialCity = prepositionMatch[1].trim();
-    // Filter out common false positives
-    if (!isCommonWord(potentialCity) && potentialCity.length > 2) {
+    // Filter out common false positives, and streets and places that aren't a city
+    if (!isCommonWord(potentialCity) && potentialCity.length > 2 && extractStreetLevelCandidates(prepositionMatch[0]).length === 0) {
+      // "in Postville" is a place of any size
+      const known = knownPlace(potentialCity, { states: contextStates });
+      if (known) {
+        return {
+          city: known.place.name,
+          state: known.place.state,
+          confidence: 'medium',
+          rawMatch: prepositionMatch[0]
+        };
+      }
       return {
         city: potentialCity,
         state: null,
@@ -173,32 +189,82 @@ export function extractLocation(text: string): ExtractedLocation | null {
   return null;
 }
 
+// Whatever comes before the last preposition isn't part of the place name
+const LEADING_PHRASE = new RegExp(`^.*\\b(?:${PREPOSITIONS})\\s+`, 'i');
+
 /**
- * Normalize state name to abbreviation
+ * The city pattern matches as far back as letters go, so "agents outside
+ * the Home Depot in Los Angeles, CA" or "agentes em Newark, NJ" capture the
+ * whole phrase. Keep what follows the last preposition.
  */
-function normalizeState(state: string): string {
-  const upper = state.toUpperCase().trim();
+function stripLeadingPhrase(match: string): string {
+  const stripped = match.replace(LEADING_PHRASE, '');
+  return stripped.length > 0 ? stripped : match;
+}
 
-  // Already an abbreviation
-  if (STATE_ABBREVIATIONS[upper]) {
-    return upper;
-  }
+/**
+ * The place a pattern's capture names: all of it, or else the last place
+ * in it, since the patterns can take in words before the name ("Portland
+ * this morning, Maine", "at the plant in Postville")
+ */
+function knownPlace(words: string, context: ResolveContext): PlaceMatch | null {
+  return getGazetteer().resolve(words, context)
+    ?? getGazetteer().findInText(words)
+      .map((mention) => getGazetteer().resolve(mention.text, context))
+      .filter((match) => match !== null)
+      .pop()
+    ?? null;
+}
 
-  // Find abbreviation from full name
-  for (const [abbr, name] of Object.entries(STATE_ABBREVIATIONS)) {
-    if (name.toUpperCase() === upper) {
-      return abbr;
-    }
+/**
+ * Whether a place named in passing is one a post would mean: a city of some
+ * size, a border town, a county by name ("Hidalgo County"), or an alias
+ * like "Philly" that no one writes by accident
+ */
+function isNotable(match: PlaceMatch, mention: PlaceMention, states: string[]): boolean {
+  const { name, population, state } = match.place;
+  if (WORD_NAME_BORDER_COMMUNITIES.has(name) && !states.includes(state)) {
+    return population >= WORD_NAME_MIN_POPULATION;
   }
+  return population >= MENTION_MIN_POPULATION
+    || BORDER_COMMUNITIES.has(name)
+    || match.place.kind === 'county'
+    || mention.alias;
+}
+
+/**
+ * Whether a state comes right after a mention ("Independence, MO",
+ * "Reading Pennsylvania")
+ */
+function stateFollows(text: string, mention: PlaceMention): boolean {
+  const rest = text.slice(mention.index + mention.text.length);
+  return FOLLOWING_STATE_ABBR.test(rest) || FOLLOWING_STATE_NAME.test(rest);
+}
 
-  return state;
+function afterPreposition(text: string, mention: PlaceMention): boolean {
+  return AFTER_PREPOSITION.test(text.slice(0, mention.index));
 }
 
 /**
- * Escape special regex characters
+ * States a post names ("Maine", ", TX"), and the states of the other
+ * places it names when there's no doubt which place is meant
  */
-function escapeRegex(str: string): string {
-  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+function mentionedStates(text: string, mentions: PlaceMention[]): string[] {
+  const states = new Set<string>();
+  // "Kansas City" doesn't name Kansas
+  const inPlaceName = (index: number) =>
+    mentions.some((mention) => index >= mention.index && index < mention.index + mention.text.length);
+  for (const match of text.matchAll(new RegExp(`\\b(${STATE_NAMES.join('|')})\\b`, 'gi'))) {
+    if (!inPlaceName(match.index!)) states.add(normalizeState(match[1]));
+  }
+  for (const match of text.matchAll(new RegExp(`,\\s*(${STATE_ABBR_PATTERN})\\b`, 'g'))) {
+    states.add(match[1]);
+  }
+  for (const mention of mentions) {
+    const match = getGazetteer().resolve(mention.text);
+    if (match && !match.ambiguous && isNotable(match, mention, [])) states.add(match.place.state);
+  }
+  return [...states];
 }
 
 /**
@@ -214,32 +280,43 @@ function isCommonWord(str: string): boolean {
   return commonWords.has(str.toLowerCase());
 }
 
+export type ActivityType = 'raid' | 'checkpoint' | 'arrest' | 'surveillance' | 'other';
+
+// Keywords per language, first match wins in this order. Portuguese,
+// Haitian Creole and Tagalog posts often use the English words, which the
+// first pattern of each type already covers. Vietnamese, Chinese and Korean
+// keywords have no \b, which only knows ASCII letters.
+const ACTIVITY_PATTERNS: [Exclude<ActivityType, 'other'>, RegExp[]][] = [
+  ['raid', [
+    /\b(raid|redada|raided|raiding|workplace\s+enforcement)\b/i, // en, es
+    /\b(batidas?|desant|sinalakay|pagsalakay)\b/i, // pt, ht, tl
+    /(đột kích|bố ráp|突袭|突襲|搜捕|급습|기습 ?단속)/iu // vi, zh, ko
+  ]],
+  ['checkpoint', [
+    /\b(checkpoint|checkpoints|retén|reten|document\s+check|stopping\s+vehicles)\b/i, // en, es
+    /\b(blitz|barreira|posto de controle|baraj|chèkpwen|tsekpoint)\b/i, // pt, ht, tl
+    /(trạm kiểm soát|chốt chặn|检查站|檢查站|关卡|關卡|검문소|검문)/iu // vi, zh, ko
+  ]],
+  ['arrest', [
+    /\b(arrest|arrested|detained|custody|taken\s+into|apprehended|detenido)\b/i, // en, es
+    /\b(pres[oa]s?|prenderam|detid[oa]s?|arete|arestasyon|hinuli|nahuli|inaresto|arestado)\b/i, // pt, ht, tl
+    /(bắt giữ|bị bắt|逮捕|抓走|被抓|抓人|拘留|체포|연행|구금)/iu // vi, zh, ko
+  ]],
+  ['surveillance', [
+    /\b(surveillance|watching|monitoring|unmarked|observing|plainclothes|vigilancia)\b/i, // en, es
+    /\b(vigiando|vigilância|descaracterizad[oa]s?|siveyans|ap veye|nagmamatyag|binabantayan|nakasibilyan)\b/i, // pt, ht, tl
+    /(theo dõi|giám sát|监视|監視|跟踪|跟蹤|便衣|감시|잠복|사복)/iu // vi, zh, ko
+  ]]
+];
+
 /**
  * Detect activity type from text
  */
-export type ActivityType = 'raid' | 'checkpoint' | 'arrest' | 'surveillance' | 'other';
-
 export function detectActivityType(text: string): ActivityType {
-  const lowerText = text.toLowerCase();
-
-  // Raid indicators
-  if (/\b(raid|redada|raided|raiding|workplace\s+enforcement)\b/i.test(lowerText)) {
-    return 'raid';
-  }
-
-  // Checkpoint indicators
-  if (/\b(checkpoint|checkpoints|retén|reten|document\s+check|stopping\s+vehicles)\b/i.test(lowerText)) {
-    return 'checkpoint';
-  }
-
-  // Arrest indicators
-  if (/\b(arrest|arrested|detained|custody|taken\s+into|apprehended|detenido)\b/i.test(lowerText)) {
-    return 'arrest';
-  }
-
-  // Surveillance indicators
-  if (/\b(surveillance|watching|monitoring|unmarked|observing|plainclothes|vigilancia)\b/i.test(lowerText)) {
-    return 'surveillance';
+  for (const [type, patterns] of ACTIVITY_PATTERNS) {
+    if (patterns.some((pattern) => pattern.test(text))) {
+      return type;
+    }
   }
 
   return 'other';
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { candidateQuery, extractStreetLevelCandidates } from './street-level';
+import { extractLocation } from './extractor';
+
+function queries(text: string) {
+  return extractStreetLevelCandidates(text).map((candidate) => `${candidate.kind}: ${candidateQuery(candidate)}`);
+}
+
+describe('extractStreetLevelCandidates', () => {
+  it('should find intersections and places', () => {
+    expect(queries('ICE at the Home Depot on Cesar Chavez Ave and Soto in Los Angeles')).toEqual([
+      'intersection: Cesar Chavez Ave & Soto',
+      'poi: Home Depot'
+    ]);
+    expect(queries('Checkpoint at Main St & 5th Ave right now')).toEqual(['intersection: Main St & 5th Ave']);
+    expect(queries('Agents at the corner of Whittier and Atlantic')).toEqual(['intersection: Whittier & Atlantic']);
+  });
+
+  it('should find addresses and streets', () => {
+    expect(queries('ICE vans parked at 1234 Main St, Houston TX')).toEqual(['address: 1234 Main St']);
+    expect(queries('Raid on Olympic Blvd near the swap meet')).toEqual(['poi: Swap Meet', 'street: Olympic Blvd']);
+    expect(queries('Agents outside Roosevelt High School')).toEqual(['poi: Roosevelt High School']);
+  });
+
+  it('should read Spanish intersections, streets and places', () => {
+    expect(queries('La migra está en la esquina de Whittier y Atlantic')).toEqual(['intersection: Whittier & Atlantic']);
+    expect(queries('Retén sobre la calle 35 en Phoenix')).toEqual(['street: calle 35']);
+    expect(queries('Agentes afuera de la escuela Roosevelt')).toEqual(['poi: Roosevelt School']);
+    expect(queries('ICE afuera del Walmart de Pico Rivera')).toEqual(['poi: Walmart']);
+  });
+
+  it('should not take ordinary phrases for streets or intersections', () => {
+    expect(queries('ICE raids at Walmart and Target stores')).toEqual(['poi: Walmart']);
+    expect(queries('Saw agents on my way to work in Chicago')).toEqual([]);
+    expect(queries('ICE and CBP agents in Denver today')).toEqual([]);
+  });
+
+  it('should come with the city from the location extractor', () => {
+    const location = extractLocation('ICE at the Home Depot on Cesar Chavez Ave and Soto, Los Angeles, CA');
+
+    expect(location).toMatchObject({ city: 'Los Angeles', state: 'CA' });
+    expect(location?.streetLevel[0]).toMatchObject({ kind: 'intersection', name: 'Cesar Chavez Ave', crossStreet: 'Soto' });
+  });
+});
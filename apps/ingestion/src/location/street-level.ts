@@ -0,0 +1,231 @@
+/**
+ * Street-level places in a post: addresses ("1234 Main St"), intersections
+ * ("Cesar Chavez Ave and Soto", "esquina de Whittier y Atlantic"), streets
+ * ("on Olympic Blvd", "en la calle 35") and points of interest ("the Home
+ * Depot", "la escuela Roosevelt"). They are only geocoded within the city
+ * the post names, so they don't need to be unambiguous on their own.
+ */
+
+export type StreetLevelKind = 'address' | 'intersection' | 'poi' | 'street';
+
+export interface StreetLevelCandidate {
+  kind: StreetLevelKind;
+  /** Street of an address or street, first street of an intersection, or the place name */
+  name: string;
+  /** Second street of an intersection */
+  crossStreet?: string;
+  /** House number of an address */
+  houseNumber?: string;
+  rawMatch: string;
+}
+
+const SUFFIXES = [
+  'st', 'street', 'ave', 'avenue', 'av', 'blvd', 'boulevard', 'rd', 'road', 'dr', 'drive', 'way', 'ln', 'lane',
+  'pl', 'place', 'pkwy', 'parkway', 'hwy', 'highway', 'ct', 'court', 'ter', 'terrace', 'cir', 'circle'
+];
+const SUFFIX = `(?:${SUFFIXES.join('|')})\\.?`;
+const DIRECTION = '(?:[NSEW]\\.?|north|south|east|west)';
+// Spanish names put the street type first: calle 35, avenida Central
+const ES_PREFIX = '(?:calle|avenida|av\\.|bulevar|calzada)';
+
+// Words that end a place name: prepositions, articles, connectors and
+// possessives ("on my way" is not a street)
+const STOPWORDS = [
+  'on', 'at', 'in', 'near', 'by', 'of', 'off', 'and', 'the', 'to', 'from', 'with', 'for', 'is', 'are', 'was',
+  'a', 'an', 'my', 'your', 'his', 'her', 'their', 'our', 'its', 'this', 'that', 'same', 'whole',
+  'y', 'e', 'con', 'en', 'el', 'la', 'los', 'las', 'del', 'al', 'por', 'sobre', 'entre', 'cerca', 'esquina', 'cruce'
+];
+const WORD = `(?<![\\p{L}\\p{N}'’.-])(?!(?:${STOPWORDS.join('|')})\\b)[\\p{L}\\p{N}'’.-]+`;
+
+const ADDRESS_PATTERN = new RegExp(
+  `\\b(\\d{1,5})\\s+((?:${DIRECTION}\\s+)?(?:${WORD}\\s+){0,3}?${SUFFIX})(?=[^\\p{L}\\p{N}]|$)`,
+  'giu'
+);
+
+// "X and Y", "X & Y", "X y Y", "X con Y", "X at Y". The sides are trimmed
+// afterwards to the words that look like a street name.
+const INTERSECTION_PATTERN = new RegExp(
+  `((?:${WORD}\\s+){0,4}${WORD})\\s*(&|/|\\band\\b|\\by\\b|\\bcon\\b|\\bat\\b)\\s*((?:${WORD}\\s*){1,5})`,
+  'giu'
+);
+const INTERSECTION_CUE = /\b(?:intersection|corner|esquina|cruce|crucero)\s+(?:of|de|del)?\s*$/i;
+
+const STREET_PATTERN = new RegExp(
+  `\\b(?:on|at|near|along|off|down|up|sobre|por|en)\\s+(?:the\\s+|la\\s+|el\\s+)?` +
+    `((?:${DIRECTION}\\s+)?(?:${WORD}\\s+){0,3}?${WORD}\\s+${SUFFIX}|${ES_PREFIX}\\s+(?:${WORD}\\s*){1,3})(?=[^\\p{L}\\p{N}]|$)`,
+  'giu'
+);
+
+// Chains and landmarks posts mention by name, as a geocoder knows them
+const KNOWN_PLACES: [RegExp, string][] = [
+  [/home\s*depot/i, 'Home Depot'],
+  [/lowe'?s/i, "Lowe's"],
+  [/walmart|wal-mart/i, 'Walmart'],
+  [/target/i, 'Target'],
+  [/costco/i, 'Costco'],
+  [/safeway/i, 'Safeway'],
+  [/kroger/i, 'Kroger'],
+  [/publix/i, 'Publix'],
+  [/7-eleven|7-11|seven eleven/i, '7-Eleven'],
+  [/food 4 less|food4less/i, 'Food 4 Less'],
+  [/el super/i, 'El Super'],
+  [/vallarta/i, 'Vallarta Supermarkets'],
+  [/northgate/i, 'Northgate Market'],
+  [/cardenas/i, 'Cardenas Markets'],
+  [/fiesta mart/i, 'Fiesta Mart'],
+  [/la michoacana/i, 'La Michoacana'],
+  [/greyhound/i, 'Greyhound'],
+  [/swap ?meet/i, 'Swap Meet']
+];
+const KNOWN_PLACE_PATTERN = new RegExp(
+  `\\b(?:at|near|outside|in front of|by|across from|en|afuera del?|cerca del?|frente al?|enfrente del?)\\s+` +
+    `(?:the\\s+|el\\s+|la\\s+|un\\s+|una\\s+)?(${KNOWN_PLACES.map(([pattern]) => pattern.source).join('|')})\\b`,
+  'gi'
+);
+
+const PLACE_TYPES = 'plaza|mall|market|swap meet|high school|middle school|elementary|school|church|park|station|courthouse|hospital|library|clinic|center|centre|college';
+const NAMED_PLACE_PATTERN = new RegExp(
+  `\\b(?:at|near|outside|in front of|by|across from)\\s+(?:the\\s+)?((?:${WORD}\\s+){1,3}(?:${PLACE_TYPES}))\\b`,
+  'giu'
+);
+
+// "la escuela Roosevelt" is queried as "Roosevelt School"
+const ES_PLACE_TYPES: Record<string, string> = {
+  escuela: 'School', preparatoria: 'High School', iglesia: 'Church', parque: 'Park', mercado: 'Market',
+  tienda: 'Store', plaza: 'Plaza', estacion: 'Station', clinica: 'Clinic', hospital: 'Hospital', corte: 'Courthouse'
+};
+const ES_NAMED_PLACE_PATTERN = new RegExp(
+  `\\b(?:en|afuera de|cerca de|frente a|enfrente de)\\s+(?:la|el)\\s+(${Object.keys(ES_PLACE_TYPES).join('|')})\\s+((?:${WORD}\\s*){1,3})`,
+  'giu'
+);
+
+const SUFFIX_WORD = new RegExp(`^${SUFFIX}$`, 'i');
+const ORDINAL_WORD = /^\d+(?:st|nd|rd|th)$/i;
+const ES_PREFIX_WORD = new RegExp(`^${ES_PREFIX}$`, 'i');
+
+function isStreetLike(name: string): boolean {
+  const words = name.split(/\s+/);
+  return words.some((word) => SUFFIX_WORD.test(word) || ORDINAL_WORD.test(word)) || ES_PREFIX_WORD.test(words[0]);
+}
+
+function isNameWord(word: string, lowercasePost: boolean): boolean {
+  if (/^\d/.test(word) || SUFFIX_WORD.test(word) || ES_PREFIX_WORD.test(word)) return true;
+  return lowercasePost || /^\p{Lu}/u.test(word);
+}
+
+/**
+ * The words next to a connector that look like a street name: capitalized
+ * words, numbers and street types, at most three plus a street type. Posts
+ * written all in lowercase get the nearest word, or up to a street type.
+ */
+function trimName(text: string, side: 'left' | 'right', lowercasePost: boolean): string {
+  const words = text.trim().split(/\s+/).map((word) => word.replace(/[,;:!?()"]+$/, ''));
+  const ordered = side === 'left' ? [...words].reverse() : words;
+  const kept: string[] = [];
+
+  for (const word of ordered) {
+    if (!word || !isNameWord(word, lowercasePost)) break;
+    kept.push(word);
+    if (side === 'right' && SUFFIX_WORD.test(word)) break;
+    if (kept.length >= 4) break;
+  }
+
+  if (lowercasePost) {
+    const suffixAt = kept.findIndex((word) => SUFFIX_WORD.test(word));
+    if (side === 'right') kept.splice(suffixAt >= 0 ? suffixAt + 1 : ES_PREFIX_WORD.test(kept[0] ?? '') ? 2 : 1);
+    else if (suffixAt < 0) kept.splice(1);
+  }
+  return (side === 'left' ? kept.reverse() : kept).join(' ');
+}
+
+function tidy(name: string): string {
+  return name.replace(/\s+/g, ' ').replace(/[.,;:!?]+$/, '').trim();
+}
+
+function intersections(text: string, lowercasePost: boolean): StreetLevelCandidate[] {
+  const found: StreetLevelCandidate[] = [];
+  const pattern = new RegExp(INTERSECTION_PATTERN);
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    const connector = match[2].toLowerCase();
+    const name = tidy(trimName(match[1], 'left', lowercasePost));
+    const crossStreet = tidy(trimName(match[3], 'right', lowercasePost));
+
+    const cued = INTERSECTION_CUE.test(text.slice(0, match.index + match[0].indexOf(name)));
+    const streets = [isStreetLike(name), isStreetLike(crossStreet)];
+    // "at" joins plenty of things that aren't streets, so both sides must look like one
+    const plausible = connector === 'at' ? streets.every(Boolean) : cued || streets.some(Boolean);
+    if (name && crossStreet && name.toLowerCase() !== crossStreet.toLowerCase() && plausible) {
+      found.push({ kind: 'intersection', name, crossStreet, rawMatch: `${name} ${match[2]} ${crossStreet}` });
+    } else {
+      // The right side may still start an intersection: "agents at Main St at 5th Ave"
+      pattern.lastIndex = match.index + match[1].length;
+    }
+  }
+  return found;
+}
+
+/**
+ * Street-level places in a post, most precise first: addresses, then
+ * intersections, points of interest and streets
+ */
+export function extractStreetLevelCandidates(text: string): StreetLevelCandidate[] {
+  const normalizedText = text.replace(/\s+/g, ' ').trim();
+  const lowercasePost = normalizedText === normalizedText.toLowerCase();
+  const candidates: StreetLevelCandidate[] = [];
+
+  for (const match of normalizedText.matchAll(ADDRESS_PATTERN)) {
+    candidates.push({ kind: 'address', name: tidy(match[2]), houseNumber: match[1], rawMatch: match[0] });
+  }
+
+  candidates.push(...intersections(normalizedText, lowercasePost));
+
+  for (const match of normalizedText.matchAll(KNOWN_PLACE_PATTERN)) {
+    const name = KNOWN_PLACES.find(([pattern]) => pattern.test(match[1]))![1];
+    candidates.push({ kind: 'poi', name, rawMatch: match[0] });
+  }
+  for (const match of normalizedText.matchAll(NAMED_PLACE_PATTERN)) {
+    const name = tidy(match[1]);
+    if (lowercasePost || /^\p{Lu}/u.test(name)) {
+      candidates.push({ kind: 'poi', name, rawMatch: match[0] });
+    }
+  }
+  for (const match of normalizedText.matchAll(ES_NAMED_PLACE_PATTERN)) {
+    const placeName = tidy(trimName(match[2], 'right', lowercasePost));
+    const type = ES_PLACE_TYPES[match[1].toLowerCase()];
+    if (placeName) candidates.push({ kind: 'poi', name: `${placeName} ${type}`, rawMatch: match[0].trim() });
+  }
+
+  for (const match of normalizedText.matchAll(STREET_PATTERN)) {
+    const name = ES_PREFIX_WORD.test(match[1].split(/\s+/)[0])
+      ? tidy(trimName(match[1], 'right', lowercasePost))
+      : tidy(match[1]);
+    if (name.split(/\s+/).length > 1) candidates.push({ kind: 'street', name, rawMatch: match[0] });
+  }
+
+  // A street that's part of an address or intersection adds nothing
+  const seen = new Set<string>();
+  return candidates.filter((candidate) => {
+    const key = `${candidate.kind}:${candidateQuery(candidate).toLowerCase()}`;
+    const covered = candidate.kind === 'street' && candidates.some((other) =>
+      (other.kind === 'address' || other.kind === 'intersection')
+        && other.rawMatch.toLowerCase().includes(candidate.name.toLowerCase()));
+    if (seen.has(key) || covered) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * What to ask a geocoder for, without the city
+ */
+export function candidateQuery(candidate: StreetLevelCandidate): string {
+  switch (candidate.kind) {
+    case 'address':
+      return `${candidate.houseNumber} ${candidate.name}`;
+    case 'intersection':
+      return `${candidate.name} & ${candidate.crossStreet}`;
+    default:
+      return candidate.name;
+  }
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+function status(instance: string, id: string) {
+  return {
+    id,
+    uri: `https://${instance}/users/witness/statuses/${id}`,
+    url: `https://${instance}/@witness/${id}`,
+    content: '<p>ICE agents outside the courthouse</p>',
+    created_at: '2026-10-19T12:00:00.000Z',
+    language: 'en',
+    account: { acct: 'witness', display_name: 'Witness', username: 'witness', url: `https://${instance}/@witness` }
+  };
+}
+
+// One status per instance, and mas.to refusing with a 429
+function stubInstances(limited: Record<string, Response>) {
+  const requests: string[] = [];
+  vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+    const instance = new URL(url).hostname;
+    requests.push(instance);
+    if (limited[instance]) return limited[instance].clone();
+    return new Response(JSON.stringify({ statuses: [status(instance, '1')] }), { status: 200 });
+  }));
+  return requests;
+}
+
+describe('searchAllInstances', () => {
+  let searchAllInstances: typeof import('./search.js').searchAllInstances;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    // Instance rate limits are kept between polls, so each test starts clean
+    vi.resetModules();
+    ({ searchAllInstances } = await import('./search.js'));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should skip only the instance that rate limited, keeping the others', async () => {
+    const requests = stubInstances({ 'mas.to': new Response('', { status: 429, headers: { 'Retry-After': '600' } }) });
+
+    const posts = await searchAllInstances(0, 3);
+
+    expect(posts.map((post) => post.instance).sort()).toEqual(['mastodon.online', 'mastodon.social', 'mstdn.social', 'techhub.social']);
+    expect(requests.filter((instance) => instance === 'mas.to')).toHaveLength(1);
+
+    requests.length = 0;
+    await searchAllInstances(0, 3);
+    expect(requests).not.toContain('mas.to');
+  });
+
+  it('should keep the results of a response that used up the quota', async () => {
+    const quota = new Response(JSON.stringify({ statuses: [status('mas.to', '1')] }), {
+      status: 200,
+      headers: { 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': new Date(Date.now() + 60_000).toISOString() }
+    });
+    const requests = stubInstances({ 'mas.to': quota });
+
+    const posts = await searchAllInstances(0, 1);
+
+    expect(posts.map((post) => post.instance)).toContain('mas.to');
+    expect(requests.filter((instance) => instance === 'mas.to')).toHaveLength(1);
+  });
+
+  it('should back off the whole source only when every instance is limited', async () => {
+    const limited = new Response('', { status: 429, headers: { 'Retry-After': '120' } });
+    stubInstances(Object.fromEntries(
+      ['mastodon.social', 'mstdn.social', 'mas.to', 'mastodon.online', 'techhub.social'].map((instance) => [instance, limited])
+    ));
+
+    // The module was reloaded, so RateLimitError is a fresh class here
+    await expect(searchAllInstances(0, 3)).rejects.toMatchObject({
+      name: 'RateLimitError',
+      retryAfterMs: expect.any(Number),
+      items: []
+    });
+  });
+});
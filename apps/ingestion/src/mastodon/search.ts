@@ -1,5 +1,14 @@
 // Mastodon API client for searching public posts
 
+import { checkQuota, checkRateLimit, RateLimitError } from '../sources/rate-limit.js';
+
+// How long to leave an instance alone when it rate limits without saying for how long
+const INSTANCE_BACKOFF_MS = 15 * 60_000;
+
+// Instances are separate servers with their own limits: one that asked us to
+// back off is skipped until then, while the others are still searched
+const instanceLimitedUntil = new Map<string, number>();
+
 export interface MastodonPost {
   id: string;
   uri: string;
@@ -10,6 +19,8 @@ export interface MastodonPost {
   authorHandle: string;
   authorDisplayName: string;
   instance: string;
+  /** Language the author's client tagged the status with */
+  language: string | null;
 }
 
 interface MastodonStatus {
@@ -18,6 +29,7 @@ interface MastodonStatus {
   url: string;
   content: string;
   created_at: string;
+  language: string | null;
   account: {
     acct: string;
     display_name: string;
@@ -84,7 +96,8 @@ function statusToPost(status: MastodonStatus): MastodonPost {
     createdAt: status.created_at,
     authorHandle: status.account.acct,
     authorDisplayName: status.account.display_name || status.account.username,
-    instance: extractInstance(status.account.url)
+    instance: extractInstance(status.account.url),
+    language: status.language ?? null
   };
 }
 
@@ -101,6 +114,8 @@ async function searchInstance(instance: string, keyword: string): Promise<Mastod
       }
     });
 
+    checkRateLimit(`Mastodon (${instance})`, response);
+
     if (!response.ok) {
       console.warn(`[Mastodon] ${instance} search failed: ${response.status}`);
       return posts;
@@ -111,39 +126,72 @@ async function searchInstance(instance: string, keyword: string): Promise<Mastod
     for (const status of data.statuses) {
       posts.push(statusToPost(status));
     }
+
+    const quota = checkQuota(`Mastodon (${instance})`, response.headers, posts);
+    if (quota) throw quota;
   } catch (error) {
+    if (error instanceof RateLimitError) throw error;
     console.warn(`[Mastodon] Error searching ${instance}:`, (error as Error).message);
   }
 
   return posts;
 }
 
-export async function searchAllInstances(): Promise<MastodonPost[]> {
+export async function searchAllInstances(requestDelayMs = 500, maxConcurrency = 1): Promise<MastodonPost[]> {
   const allPosts: MastodonPost[] = [];
   const seenUris = new Set<string>();
+  const now = Date.now();
+  const pending = MASTODON_INSTANCES.filter((instance) => (instanceLimitedUntil.get(instance) ?? 0) <= now);
+  const skipped = MASTODON_INSTANCES.length - pending.length;
+  if (skipped > 0) {
+    console.log(`[Mastodon] Skipping ${skipped} rate-limited instance(s)`);
+  }
 
-  // Search each instance with each keyword
-  for (const instance of MASTODON_INSTANCES) {
-    for (const keyword of SEARCH_KEYWORDS) {
-      const posts = await searchInstance(instance, keyword);
+  const add = (posts: MastodonPost[]) => {
+    for (const post of posts) {
+      if (!seenUris.has(post.uri)) {
+        seenUris.add(post.uri);
+        allPosts.push(post);
+      }
+    }
+  };
 
-      for (const post of posts) {
-        if (!seenUris.has(post.uri)) {
-          seenUris.add(post.uri);
-          allPosts.push(post);
+  // Instances are separate servers, so several can be searched at once; the
+  // keywords against any one instance still go one after another
+  const worker = async () => {
+    for (let instance = pending.shift(); instance; instance = pending.shift()) {
+      for (const keyword of SEARCH_KEYWORDS) {
+        try {
+          add(await searchInstance(instance, keyword));
+        } catch (error) {
+          // Only searchInstance's rate limits get here: keep what came back
+          // and leave this instance alone until it resets
+          const limit = error as RateLimitError;
+          add(limit.items as MastodonPost[]);
+          instanceLimitedUntil.set(instance, Date.now() + (limit.retryAfterMs ?? INSTANCE_BACKOFF_MS));
+          console.warn(`[Mastodon] ${limit.message}, skipping ${instance} until ${new Date(instanceLimitedUntil.get(instance)!).toISOString()}`);
+          break;
         }
-      }
 
-      // Small delay between requests to be respectful
-      await new Promise(resolve => setTimeout(resolve, 500));
+        // Small delay between requests to be respectful
+        await new Promise(resolve => setTimeout(resolve, requestDelayMs));
+      }
     }
-  }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, maxConcurrency) }, worker));
 
   // Sort by creation time, newest first
   allPosts.sort((a, b) =>
     new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
   );
 
+  // The source as a whole only backs off when no instance will take a search
+  const nextOpen = Math.min(...MASTODON_INSTANCES.map((instance) => instanceLimitedUntil.get(instance) ?? 0));
+  if (nextOpen > Date.now()) {
+    throw new RateLimitError('Mastodon rate limited on every instance', nextOpen - Date.now(), allPosts);
+  }
+
   return allPosts;
 }
 
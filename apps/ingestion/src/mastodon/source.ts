@@ -0,0 +1,15 @@
+import { searchAllInstances, type MastodonPost } from "./search.js";
+import { normalizeMastodonPost } from "../pipeline/normalize.js";
+import type { SourceAdapter } from "../sources/adapter.js";
+
+export const mastodonSource: SourceAdapter<MastodonPost> = {
+  id: "mastodon",
+  name: "Mastodon",
+  shortName: "M",
+  icon: "🐘",
+  category: "social",
+  defaultPollIntervalMs: 5 * 60_000,
+  rateLimit: { requestDelayMs: 500, maxConcurrency: 3 },
+  fetch: (config) => searchAllInstances(config.rateLimit.requestDelayMs, config.rateLimit.maxConcurrency),
+  normalize: normalizeMastodonPost,
+};
@@ -0,0 +1,120 @@
+import type { ReportSource } from '@ice-activity-map/database';
+import type { BlueskyPost } from '../bluesky/search.js';
+import type { MastodonPost } from '../mastodon/search.js';
+import type { RedditPost } from '../reddit/search.js';
+import type { GoogleNewsArticle } from '../google-news/search.js';
+import type { WikiArticle } from '../wiki/search.js';
+import type { FirehosePost } from '../firehose/client.js';
+
+// Every report source except user submissions, which come in through the API
+export type SourceType = Exclude<ReportSource, 'user_submitted'>;
+export type Category = 'social' | 'news';
+
+/**
+ * A post from any source in the shape the pipeline works on
+ */
+export interface NormalizedPost {
+  sourceType: SourceType;
+  sourceId: string;
+  text: string;
+  authorHandle: string;
+  authorDisplayName: string | null;
+  createdAt: string;
+  url: string;
+  category: Category;
+  /**
+   * Language tags the source attached (Bluesky langs, Mastodon language).
+   * Often just the posting app's interface language, so detection only
+   * falls back on them.
+   */
+  languageHints?: string[];
+}
+
+function blueskyPostUrl(author: string, uri: string): string {
+  return `https://bsky.app/profile/${author}/post/${uri.split('/').pop()}`;
+}
+
+export function normalizeBlueskyPost(post: BlueskyPost): NormalizedPost {
+  return {
+    sourceType: 'bluesky',
+    sourceId: post.uri,
+    text: post.text,
+    authorHandle: post.authorHandle,
+    authorDisplayName: post.authorDisplayName,
+    createdAt: post.createdAt,
+    url: blueskyPostUrl(post.authorHandle, post.uri),
+    category: 'social',
+    languageHints: post.langs
+  };
+}
+
+/**
+ * Firehose commits only carry the author's DID. The source id is the same
+ * at:// URI search returns, so both modes dedup against each other.
+ */
+export function normalizeFirehosePost(post: FirehosePost): NormalizedPost {
+  return {
+    sourceType: 'bluesky',
+    sourceId: post.uri,
+    text: post.text,
+    authorHandle: post.authorDid,
+    authorDisplayName: null,
+    createdAt: post.createdAt,
+    url: blueskyPostUrl(post.authorDid, post.uri),
+    category: 'social',
+    languageHints: post.langs
+  };
+}
+
+export function normalizeMastodonPost(post: MastodonPost): NormalizedPost {
+  return {
+    sourceType: 'mastodon',
+    sourceId: post.uri,
+    text: post.plainText,
+    authorHandle: `${post.authorHandle}@${post.instance}`,
+    authorDisplayName: post.authorDisplayName,
+    createdAt: post.createdAt,
+    url: post.url,
+    category: 'social',
+    languageHints: post.language ? [post.language] : undefined
+  };
+}
+
+export function normalizeRedditPost(post: RedditPost): NormalizedPost {
+  return {
+    sourceType: 'reddit',
+    sourceId: post.uri,
+    text: post.fullText,
+    authorHandle: `u/${post.authorHandle}`,
+    authorDisplayName: null,
+    createdAt: post.createdAt,
+    url: post.url,
+    category: 'social'
+  };
+}
+
+export function normalizeGoogleNewsArticle(article: GoogleNewsArticle): NormalizedPost {
+  return {
+    sourceType: 'google_news',
+    sourceId: article.guid,
+    text: `${article.title}\n\n${article.description}`,
+    authorHandle: article.source,
+    authorDisplayName: article.source,
+    createdAt: article.pubDate,
+    url: article.link,
+    category: 'news'
+  };
+}
+
+export function normalizeWikiArticle(article: WikiArticle): NormalizedPost {
+  return {
+    sourceType: 'wiki',
+    sourceId: article.id,
+    text: `${article.title}\n\n${article.description}`,
+    authorHandle: 'wiki.icelist.is',
+    authorDisplayName: 'ICE List Wiki',
+    createdAt: new Date(article.date + 'T00:00:00Z').toISOString(),
+    url: article.url,
+    category: 'news'
+  };
+}
@@ -0,0 +1,286 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@ice-activity-map/database', () => ({
+  createReport: vi.fn().mockImplementation(async (input) => ({ id: 'report-1', incidentId: null, ...input })),
+  getReportBySourceId: vi.fn().mockResolvedValue(null),
+  recordIngestedPost: vi.fn().mockResolvedValue({}),
+  pruneIngestedPosts: vi.fn().mockResolvedValue(3),
+  getIncidentCandidates: vi.fn().mockResolvedValue([]),
+  assignReportToIncident: vi.fn().mockResolvedValue({ id: 'incident-1', reportCount: 1, sourceCount: 1 }),
+  query: vi.fn()
+}));
+
+vi.mock('../geocoding/geocode.js', () => ({
+  geocodeCityState: vi.fn().mockResolvedValue({
+    latitude: 34.0522,
+    longitude: -118.2437,
+    city: 'Los Angeles',
+    state: 'California'
+  }),
+  geocode: vi.fn().mockResolvedValue(null),
+  geocodeNear: vi.fn().mockResolvedValue(null)
+}));
+
+import { assignReportToIncident, createReport, recordIngestedPost } from '@ice-activity-map/database';
+import { geocode, geocodeCityState, geocodeNear } from '../geocoding/geocode.js';
+import { PersistentDedup } from '../dedup/persistent-cache.js';
+import { IngestionPipeline, decideRelevance } from './pipeline.js';
+import { normalizeBlueskyPost, normalizeFirehosePost, normalizeGoogleNewsArticle } from './normalize.js';
+
+const URI = 'at://did:plc:abc123/app.bsky.feed.post/3kxyz';
+const SIGHTING = 'I just saw ICE agents outside the Home Depot in Los Angeles, CA right now. Be careful!';
+const COMMENTARY = 'ICE is a disgrace and this administration should be ashamed of its immigration policy';
+
+function polled(text: string) {
+  return normalizeBlueskyPost({
+    uri: URI,
+    cid: 'cid',
+    text,
+    authorHandle: 'witness.bsky.social',
+    authorDisplayName: 'Witness',
+    createdAt: new Date().toISOString(),
+    indexedAt: new Date().toISOString(),
+    langs: ['en']
+  });
+}
+
+function firehose(text: string) {
+  return normalizeFirehosePost({
+    uri: URI,
+    cid: 'cid',
+    text,
+    authorDid: 'did:plc:abc123',
+    createdAt: new Date().toISOString()
+  });
+}
+
+describe('IngestionPipeline', () => {
+  let pipeline: IngestionPipeline;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    pipeline = new IngestionPipeline({ dedup: new PersistentDedup(false), enableDb: true });
+  });
+
+  it('should make the same decision for a post from polling or the firehose', () => {
+    for (const text of [SIGHTING, COMMENTARY]) {
+      expect(decideRelevance(firehose(text))).toEqual(decideRelevance(polled(text)));
+    }
+  });
+
+  it('should filter commentary that firehose mode used to store', async () => {
+    const result = await pipeline.ingest(firehose(COMMENTARY));
+
+    expect(result.outcome).toBe('filtered');
+    expect(createReport).not.toHaveBeenCalled();
+  });
+
+  it('should save relevant firehose posts as located Bluesky reports', async () => {
+    const result = await pipeline.ingest(firehose(SIGHTING));
+
+    expect(result.outcome).toBe('processed');
+    expect(result.processed?.saved).toBe(true);
+    expect(createReport).toHaveBeenCalledWith(expect.objectContaining({
+      sourceType: 'bluesky',
+      sourceId: URI,
+      authorHandle: 'did:plc:abc123',
+      city: 'Los Angeles',
+      latitude: 34.0522,
+      metadata: expect.objectContaining({
+        classifier_probability: expect.any(Number),
+        rule_set_version: 'common@1+en@1+es@1+ht@1+ko@1+pt@1+tl@1+vi@1+zh@1'
+      }),
+      language: 'en'
+    }));
+  });
+
+  it('should place a report on the street it names, within its city', async () => {
+    vi.mocked(geocodeNear)
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({
+        latitude: 34.0339,
+        longitude: -118.1963,
+        city: 'Los Angeles',
+        state: 'CA',
+        displayName: 'Cesar Chavez Avenue, Los Angeles',
+        confidence: 'high',
+        source: 'photon',
+        provider: 'photon'
+      });
+
+    await pipeline.ingest(polled('ICE checkpoint on Cesar Chavez Ave and Soto in Los Angeles, CA right now. Avoid the area'));
+
+    expect(geocodeNear).toHaveBeenNthCalledWith(1, 'Cesar Chavez Ave & Soto, Los Angeles, California', expect.objectContaining({ latitude: 34.0522 }), undefined, {});
+    expect(geocodeNear).toHaveBeenNthCalledWith(2, 'Cesar Chavez Ave, Los Angeles, California', expect.anything(), undefined, {});
+    expect(createReport).toHaveBeenCalledWith(expect.objectContaining({
+      city: 'Los Angeles',
+      latitude: 34.0339,
+      longitude: -118.1963,
+      locationPrecision: 'street',
+      locationRadiusM: 1000,
+      metadata: expect.objectContaining({ street_level_match: 'Cesar Chavez Ave and Soto', geocoder: 'photon' })
+    }));
+  });
+
+  it('should fall back to the city when the street is not found', async () => {
+    await pipeline.ingest(firehose(SIGHTING));
+
+    expect(geocodeNear).toHaveBeenCalledWith('Home Depot, Los Angeles, California', expect.anything(), undefined, {});
+    expect(createReport).toHaveBeenCalledWith(expect.objectContaining({ latitude: 34.0522, locationPrecision: 'city' }));
+  });
+
+  it('should mark a place the geocoder knows as part of a city as a neighborhood', async () => {
+    vi.mocked(geocode).mockResolvedValueOnce({
+      latitude: 34.0339,
+      longitude: -118.2050,
+      city: 'Los Angeles',
+      state: 'CA',
+      displayName: 'Boyle Heights, Los Angeles',
+      confidence: 'high',
+      source: 'nominatim',
+      placeType: 'suburb'
+    });
+
+    await pipeline.ingest(polled('ICE raid happening right now in Boyle Heights, be careful'));
+
+    expect(createReport).toHaveBeenCalledWith(expect.objectContaining({
+      city: 'Los Angeles',
+      latitude: 34.0339,
+      locationPrecision: 'neighborhood'
+    }));
+  });
+
+  it('should give a report placed at the center of a county the whole county as its radius', async () => {
+    vi.mocked(geocodeCityState).mockResolvedValueOnce({
+      latitude: 26.3964,
+      longitude: -98.1812,
+      city: 'Hidalgo County',
+      state: 'TX',
+      displayName: 'Hidalgo County, TX',
+      confidence: 'high',
+      source: 'gazetteer',
+      provider: 'gazetteer',
+      placeType: 'county'
+    });
+
+    await pipeline.ingest(polled('ICE raids happening right now in Hidalgo County, stay home'));
+
+    expect(geocodeCityState).toHaveBeenCalledWith('Hidalgo County', 'TX', {});
+    expect(createReport).toHaveBeenCalledWith(expect.objectContaining({
+      city: 'Hidalgo County',
+      locationPrecision: 'city',
+      locationRadiusM: 40000,
+      metadata: expect.objectContaining({ geocoder: 'gazetteer' })
+    }));
+  });
+
+  it('should save sightings in other languages with the detected language', async () => {
+    const result = await pipeline.ingest(polled('Os agentes do ICE estão aqui na rua agora em Newark, NJ, cuidado gente'));
+
+    expect(result.outcome).toBe('processed');
+    expect(createReport).toHaveBeenCalledWith(expect.objectContaining({ language: 'pt' }));
+  });
+
+  it('should save when the activity happened when the post says', async () => {
+    const post = polled('I saw ICE agents outside the Home Depot in Los Angeles, CA 2 hours ago. Be careful!');
+    await pipeline.ingest(post);
+
+    expect(createReport).toHaveBeenCalledWith(expect.objectContaining({
+      occurredAt: new Date(new Date(post.createdAt).getTime() - 2 * 60 * 60 * 1000),
+      occurredAtConfidence: 'high',
+      reportedAt: new Date(post.createdAt)
+    }));
+  });
+
+  it('should group a saved report into an incident', async () => {
+    const result = await pipeline.ingest(firehose(SIGHTING));
+
+    expect(assignReportToIncident).toHaveBeenCalledWith('report-1', undefined);
+    expect(result.processed?.incidentId).toBe('incident-1');
+  });
+
+  it('should dedup a post seen by one mode when the other delivers it', async () => {
+    await pipeline.ingest(firehose(SIGHTING));
+    const result = await pipeline.ingest(polled(SIGHTING));
+
+    expect(result.outcome).toBe('duplicate');
+    expect(createReport).toHaveBeenCalledTimes(1);
+  });
+
+  it('should let a post whose report failed to save be tried again', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(createReport).mockRejectedValueOnce(new Error('connection refused'));
+
+    const failed = await pipeline.ingest(firehose(SIGHTING));
+    const retried = await pipeline.ingest(firehose(SIGHTING));
+
+    expect(failed.processed?.decision).toBe('save_failed');
+    expect(retried.processed?.decision).toBe('saved');
+  });
+
+  it('should skip blocked news sources', async () => {
+    const article = normalizeGoogleNewsArticle({
+      guid: 'news-1',
+      title: 'ICE agents arrest workers in Los Angeles',
+      description: '',
+      source: 'Breitbart',
+      pubDate: new Date().toISOString(),
+      link: 'https://example.com/news-1'
+    });
+
+    const result = await pipeline.ingest(article);
+
+    expect(result.outcome).toBe('blocked');
+  });
+
+  it('should archive rejected posts with the filter reason', async () => {
+    await pipeline.ingest(firehose(COMMENTARY));
+
+    expect(recordIngestedPost).toHaveBeenCalledWith(expect.objectContaining({
+      sourceType: 'bluesky',
+      sourceId: URI,
+      decision: 'filtered',
+      relevanceScore: expect.any(Number),
+      relevanceReason: expect.any(String)
+    }));
+    const [input] = vi.mocked(recordIngestedPost).mock.calls[0];
+    expect(input.extractedLocation).toBeUndefined();
+  });
+
+  it('should archive saved posts once with the location, geocode and report', async () => {
+    await pipeline.ingest(polled(SIGHTING));
+    await pipeline.ingest(firehose(SIGHTING));
+
+    expect(recordIngestedPost).toHaveBeenCalledWith(expect.objectContaining({
+      decision: 'saved',
+      reportId: 'report-1',
+      url: 'https://bsky.app/profile/witness.bsky.social/post/3kxyz',
+      extractedLocation: expect.objectContaining({ state: 'CA' }),
+      geocodeResult: expect.objectContaining({ latitude: 34.0522 })
+    }));
+    expect(recordIngestedPost).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not archive anything when the archive is off', async () => {
+    const unarchived = new IngestionPipeline({ dedup: new PersistentDedup(false), enableDb: true, archive: false });
+    await unarchived.ingest(polled(SIGHTING));
+
+    expect(recordIngestedPost).not.toHaveBeenCalled();
+  });
+
+  it('should prune the archive daily with the configured retention', async () => {
+    vi.useFakeTimers();
+    const { pruneIngestedPosts } = await import('@ice-activity-map/database');
+
+    const stop = pipeline.startArchivePruning({ INGESTED_POSTS_RETENTION_DAYS: '7' });
+    await vi.advanceTimersByTimeAsync(24 * 60 * 60 * 1000);
+    stop();
+    await vi.advanceTimersByTimeAsync(24 * 60 * 60 * 1000);
+
+    expect(pruneIngestedPosts).toHaveBeenCalledTimes(1);
+    expect(pruneIngestedPosts).toHaveBeenCalledWith(7);
+    expect(console.log).toHaveBeenCalledWith('[Archive] Pruned 3 posts older than 7 days');
+    vi.useRealTimers();
+  });
+});
@@ -0,0 +1,552 @@
+import {
+  createReport,
+  getReportBySourceId,
+  recordIngestedPost,
+  pruneIngestedPosts,
+  type CreateReportInput,
+  type IngestDecision,
+  type LocationPrecision,
+  type RecordIngestedPostInput,
+  type Report
+} from '@ice-activity-map/database';
+import {
+  extractLocation,
+  detectActivityType,
+  type ActivityType,
+  type ExtractedLocation
+} from '../location/extractor.js';
+import { candidateQuery, type StreetLevelCandidate, type StreetLevelKind } from '../location/street-level.js';
+import { geocode, geocodeCityState, geocodeNear, type GeocodeOptions, type GeocodingResult } from '../geocoding/geocode.js';
+import type { GeocoderId } from '../geocoding/geocoder.js';
+import { checkNewsRelevance } from '../filters/relevance.js';
+import { classifySource } from '../filters/news-sources.js';
+import { getSource } from '../sources/registry.js';
+import { getDefaultEnsemble, scoreRelevance, type RelevanceEnsemble } from '../classifier/ensemble.js';
+import { detectLanguage, type DetectedLanguage } from '../language/detect.js';
+import { clusterReport, clusteringConfigFromEnv, type IncidentClusteringConfig } from '../incidents/cluster.js';
+import { extractOccurredAt, type ExtractedTime } from '../temporal/extractor.js';
+import { timeZoneForState } from '../temporal/time-zones.js';
+import type { PersistentDedup } from '../dedup/persistent-cache.js';
+import type { NormalizedPost } from './normalize.js';
+
+export interface RelevanceDecision {
+  accept: boolean;
+  blockedSource: boolean;
+  needsReview: boolean;
+  confidence: string;
+  /** Sighting score for social posts; news relevance is a yes/no */
+  score: number | null;
+  /** Relevance classifier's probability for social posts, when a model is loaded */
+  classifierProbability: number | null;
+  /** Rule set that scored a social post; news doesn't go through the rule files */
+  ruleSetVersion: string | null;
+  /** Detected language of the post; the classifier sits out languages it wasn't trained on */
+  language: DetectedLanguage;
+  reason: string;
+}
+
+export interface PostLocation {
+  city: string | null;
+  state: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  locationPrecision: LocationPrecision | null;
+  /** Uncertainty in meters when the geocoding says more than the precision's usual radius */
+  locationRadiusM: number | null;
+  /** What the extractor found in the text, before geocoding */
+  extracted: ExtractedLocation | null;
+  geocoded: GeocodingResult | null;
+  /** The street-level candidate the coordinates came from, if any */
+  streetLevel: StreetLevelCandidate | null;
+  /** The geocoder that placed the coordinates: the street-level lookup's when there was one */
+  geocoder: GeocoderId | null;
+}
+
+export interface ProcessedPost {
+  post: NormalizedPost;
+  location: PostLocation;
+  activityType: ActivityType;
+  needsReview: boolean;
+  saved: boolean;
+  decision: IngestDecision;
+  reportId: string | null;
+  /** Incident the saved report was grouped into */
+  incidentId: string | null;
+}
+
+export type IngestOutcome = 'duplicate' | 'blocked' | 'filtered' | 'processed';
+
+export interface IngestResult {
+  outcome: IngestOutcome;
+  post: NormalizedPost;
+  decision?: RelevanceDecision;
+  processed?: ProcessedPost;
+}
+
+export interface IngestionPipelineOptions {
+  dedup: PersistentDedup;
+  enableDb: boolean;
+  /** Record every post and its decision in ingested_posts (default: enableDb) */
+  archive?: boolean;
+  /** How saved reports are grouped into incidents (default: from the environment) */
+  clustering?: IncidentClusteringConfig;
+}
+
+/**
+ * Relevance filtering with confidence tiering. News goes through source
+ * reliability and news relevance; social posts through the sighting filter
+ * and the relevance classifier, combined as the ensemble is configured.
+ * Low-confidence posts with some signal, and posts only the classifier
+ * accepted, are kept but flagged for review.
+ */
+export function decideRelevance(
+  post: NormalizedPost,
+  ensemble: RelevanceEnsemble = getDefaultEnsemble()
+): RelevanceDecision {
+  const language = detectLanguage(post.text, post.languageHints);
+
+  if (post.category === 'news') {
+    if (classifySource(post.authorHandle) === 'blocked') {
+      return { accept: false, blockedSource: true, needsReview: false, confidence: 'high', score: null, classifierProbability: null, ruleSetVersion: null, language, reason: 'Blocked source' };
+    }
+    const newsRelevance = checkNewsRelevance(post.text, '', post.authorHandle);
+    return {
+      accept: newsRelevance.isRelevant,
+      blockedSource: false,
+      needsReview: false,
+      confidence: 'low',
+      score: null,
+      classifierProbability: null,
+      ruleSetVersion: null,
+      language,
+      reason: newsRelevance.reason
+    };
+  }
+
+  const { rules: socialRelevance, probability, decision } = scoreRelevance(post.text, ensemble, language);
+  if (decision.accept) {
+    return {
+      accept: true,
+      blockedSource: false,
+      needsReview: decision.override === 'rescue',
+      confidence: socialRelevance.confidence,
+      score: socialRelevance.score,
+      classifierProbability: probability,
+      ruleSetVersion: socialRelevance.ruleSetVersion,
+      language,
+      reason: decision.reason
+    };
+  }
+
+  // Low confidence but some signal → process but flag, unless the classifier ruled it out
+  const needsReview = decision.override !== 'veto' && socialRelevance.confidence === 'low' && socialRelevance.score >= 2;
+  return {
+    accept: needsReview,
+    blockedSource: false,
+    needsReview,
+    confidence: socialRelevance.confidence,
+    score: socialRelevance.score,
+    classifierProbability: probability,
+    ruleSetVersion: socialRelevance.ruleSetVersion,
+    language,
+    reason: decision.reason
+  };
+}
+
+/**
+ * Extract a place from the text and geocode it
+ */
+export async function locatePost(text: string, geocodeOptions: GeocodeOptions = {}): Promise<PostLocation> {
+  const extractedLocation = extractLocation(text);
+
+  let city: string | null = null;
+  let state: string | null = null;
+  let latitude: number | null = null;
+  let longitude: number | null = null;
+  let geocoded: GeocodingResult | null = null;
+  let streetLevel: StreetLevelCandidate | null = null;
+  let locationRadiusM: number | null = null;
+  let geocoder: GeocoderId | null = null;
+
+  if (extractedLocation) {
+    city = extractedLocation.city;
+    state = extractedLocation.state;
+
+    geocoded = city && state
+      ? await geocodeCityState(city, state, geocodeOptions)
+      : city
+        ? await geocode(`${city}, USA`, geocodeOptions)
+        : null;
+
+    if (geocoded) {
+      latitude = geocoded.latitude;
+      longitude = geocoded.longitude;
+      geocoder = geocoded.provider;
+      city = geocoded.city || city;
+      state = geocoded.state || state;
+      if (geocoded.placeType === 'county') {
+        locationRadiusM = COUNTY_RADIUS_M;
+      }
+
+      const street = await locateStreetLevel(extractedLocation.streetLevel, city, state, geocoded, geocodeOptions);
+      if (street) {
+        latitude = street.result.latitude;
+        longitude = street.result.longitude;
+        geocoder = street.result.provider;
+        streetLevel = street.candidate;
+        locationRadiusM = STREET_LEVEL_RADIUS_M[street.kind];
+      }
+    }
+  }
+
+  const locationPrecision: LocationPrecision | null = streetLevel
+    ? 'street'
+    : NEIGHBORHOOD_PLACE_TYPES.has(geocoded?.placeType ?? '')
+      ? 'neighborhood'
+      : city
+        ? 'city'
+        : state ? 'state' : null;
+
+  return {
+    city,
+    state,
+    latitude,
+    longitude,
+    locationPrecision,
+    locationRadiusM,
+    extracted: extractedLocation,
+    geocoded,
+    streetLevel,
+    geocoder
+  };
+}
+
+// Each lookup may be a rate-limited geocoder request, so only the most precise few
+const MAX_STREET_LEVEL_LOOKUPS = 3;
+
+// A geocoded street is a line, so its point is only somewhere along it
+const STREET_LEVEL_RADIUS_M: Record<StreetLevelKind, number> = {
+  address: 50,
+  intersection: 100,
+  poi: 200,
+  street: 1000
+};
+
+// A county is placed at its center like a city, but a report there could
+// be anywhere in it
+const COUNTY_RADIUS_M = 40000;
+
+// OSM place types for part of a city ("in Boyle Heights"); every geocoder
+// reports its results in these terms
+const NEIGHBORHOOD_PLACE_TYPES = new Set(['suburb', 'neighbourhood', 'quarter', 'city_district', 'borough']);
+
+/**
+ * Geocode the street-level candidates a post names within its city, most
+ * precise first. Geocoders rarely know intersections, so one that isn't
+ * found falls back to its first street.
+ */
+async function locateStreetLevel(
+  candidates: StreetLevelCandidate[],
+  city: string | null,
+  state: string | null,
+  cityCenter: GeocodingResult,
+  geocodeOptions: GeocodeOptions
+): Promise<{ candidate: StreetLevelCandidate; kind: StreetLevelKind; result: GeocodingResult } | null> {
+  const place = [city, state].filter(Boolean).join(', ');
+  const queries = candidates.flatMap((candidate): { candidate: StreetLevelCandidate; kind: StreetLevelKind; query: string }[] =>
+    candidate.kind === 'intersection'
+      ? [
+          { candidate, kind: 'intersection', query: candidateQuery(candidate) },
+          { candidate, kind: 'street', query: candidate.name }
+        ]
+      : [{ candidate, kind: candidate.kind, query: candidateQuery(candidate) }]);
+
+  for (const { candidate, kind, query } of queries.slice(0, MAX_STREET_LEVEL_LOOKUPS)) {
+    const result = await geocodeNear(`${query}, ${place}`, cityCenter, undefined, geocodeOptions);
+    if (result) {
+      return { candidate, kind, result };
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether a post has enough of a location to become a report
+ */
+export function isLocated(location: PostLocation): boolean {
+  return location.latitude !== null || location.city !== null;
+}
+
+/**
+ * When the activity in a post happened, read in the local time of where it
+ * happened, or null if the text doesn't say
+ */
+export function estimateOccurredAt(post: NormalizedPost, location: PostLocation): ExtractedTime | null {
+  return extractOccurredAt(post.text, new Date(post.createdAt), timeZoneForState(location.state));
+}
+
+/**
+ * The report a located post becomes
+ */
+export function toReportInput(
+  post: NormalizedPost,
+  relevance: RelevanceDecision,
+  location: PostLocation,
+  activityType: ActivityType
+): CreateReportInput {
+  const metadata: Record<string, unknown> = {};
+  if (relevance.needsReview) {
+    metadata.needs_review = true;
+    metadata.filter_confidence = relevance.confidence;
+  }
+  if (relevance.classifierProbability !== null) {
+    metadata.classifier_probability = Math.round(relevance.classifierProbability * 1000) / 1000;
+  }
+  if (relevance.ruleSetVersion !== null) {
+    metadata.rule_set_version = relevance.ruleSetVersion;
+  }
+  const occurred = estimateOccurredAt(post, location);
+  if (occurred) {
+    metadata.occurred_at_expression = occurred.rawMatch;
+  }
+  if (location.streetLevel) {
+    metadata.street_level_match = location.streetLevel.rawMatch;
+  }
+  if (location.geocoder) {
+    metadata.geocoder = location.geocoder;
+  }
+
+  return {
+    sourceType: post.sourceType,
+    sourceId: post.sourceId,
+    activityType,
+    description: post.text,
+    city: location.city ?? undefined,
+    state: location.state ?? undefined,
+    latitude: location.latitude ?? undefined,
+    longitude: location.longitude ?? undefined,
+    locationPrecision: location.locationPrecision ?? undefined,
+    locationRadiusM: location.locationRadiusM ?? undefined,
+    authorHandle: post.authorHandle,
+    authorDisplayName: post.authorDisplayName ?? undefined,
+    metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+    language: relevance.language,
+    occurredAt: occurred?.occurredAt,
+    occurredAtConfidence: occurred?.confidence,
+    reportedAt: new Date(post.createdAt)
+  };
+}
+
+/**
+ * The ingested_posts row for a post and what the pipeline decided about it
+ */
+export function toIngestedPostInput(
+  post: NormalizedPost,
+  relevance: RelevanceDecision,
+  decision: IngestDecision,
+  location?: PostLocation,
+  reportId?: string | null
+): RecordIngestedPostInput {
+  const postedAt = new Date(post.createdAt);
+  return {
+    sourceType: post.sourceType,
+    sourceId: post.sourceId,
+    url: post.url,
+    text: post.text,
+    authorHandle: post.authorHandle,
+    authorDisplayName: post.authorDisplayName ?? undefined,
+    category: post.category,
+    postedAt: Number.isNaN(postedAt.getTime()) ? undefined : postedAt,
+    relevanceScore: relevance.score ?? undefined,
+    relevanceConfidence: relevance.confidence,
+    relevanceReason: relevance.reason,
+    needsReview: relevance.needsReview,
+    extractedLocation: location?.extracted ? { ...location.extracted } : undefined,
+    geocodeResult: location?.geocoded ? { ...location.geocoded } : undefined,
+    decision,
+    reportId: reportId ?? undefined
+  };
+}
+
+export function formatProcessedPost(processed: ProcessedPost): string {
+  const { post, location, activityType, saved } = processed;
+  const timestamp = new Date(post.createdAt).toLocaleString();
+  const locationStr = location.city && location.state
+    ? `${location.city}, ${location.state}`
+    : location.city || location.state || 'Unknown location';
+  const coordsStr = location.latitude && location.longitude
+    ? ` (${location.latitude.toFixed(4)}, ${location.longitude.toFixed(4)})`
+    : '';
+  const savedStr = saved ? ' [SAVED]' : '';
+  const incidentStr = processed.incidentId ? ` [INCIDENT ${processed.incidentId.slice(0, 8)}]` : '';
+  const sourceIcon = getSource(post.sourceType)?.icon ?? '•';
+
+  return `
+────────────────────────────────────────
+${sourceIcon} [${post.sourceType.toUpperCase()}] [${activityType.toUpperCase()}] ${locationStr}${coordsStr}${savedStr}${incidentStr}
+Author: ${post.authorHandle} (${post.authorDisplayName || 'No display name'})
+Time: ${timestamp}
+Text: ${post.text.substring(0, 280)}${post.text.length > 280 ? '...' : ''}
+URL: ${post.url}
+────────────────────────────────────────`;
+}
+
+// How often the dedup cache and the archive are cleaned up
+const CLEANUP_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Dedup → relevance filter → extract → geocode → save → cluster. Polling and the
+ * firehose both feed posts through here so the same post gets the same
+ * decision whichever way it arrived.
+ */
+export class IngestionPipeline {
+  private dedup: PersistentDedup;
+  private enableDb: boolean;
+  private archive: boolean;
+  private clustering: IncidentClusteringConfig;
+
+  constructor(options: IngestionPipelineOptions) {
+    this.dedup = options.dedup;
+    this.enableDb = options.enableDb;
+    this.archive = options.archive ?? options.enableDb;
+    this.clustering = options.clustering ?? clusteringConfigFromEnv();
+  }
+
+  async ingest(post: NormalizedPost): Promise<IngestResult> {
+    // Persistent dedup check
+    if (await this.dedup.hasSeen(post.sourceType, post.sourceId)) {
+      return { outcome: 'duplicate', post };
+    }
+    this.dedup.markSeen(post.sourceType, post.sourceId);
+
+    const decision = decideRelevance(post);
+
+    if (decision.blockedSource) {
+      console.log(`[Skip] [${post.sourceType}] Blocked source: "${post.authorHandle}"`);
+      await this.record(post, decision, 'blocked');
+      return { outcome: 'blocked', post, decision };
+    }
+
+    if (!decision.accept) {
+      console.log(`[Skip] [${post.sourceType}] Filtered: "${post.text.substring(0, 60)}..." - ${decision.reason}`);
+      await this.record(post, decision, 'filtered');
+      return { outcome: 'filtered', post, decision };
+    }
+
+    const processed = await this.process(post, decision);
+    console.log(formatProcessedPost(processed));
+    if (processed.decision === 'save_failed') {
+      // Not seen until it is saved: the next poll, or the firehose replaying it, tries again
+      this.dedup.forget(post.sourceType, post.sourceId);
+    }
+    await this.record(post, decision, processed.decision, processed);
+
+    return { outcome: 'processed', post, decision, processed };
+  }
+
+  /**
+   * Write buffered dedup entries to the database
+   */
+  async flush(): Promise<number> {
+    return this.dedup.flush();
+  }
+
+  /**
+   * Drop archived posts past the retention window
+   */
+  async pruneArchive(retentionDays: number): Promise<number> {
+    if (!this.archive) return 0;
+    return pruneIngestedPosts(retentionDays);
+  }
+
+  /**
+   * Once a day, expire the dedup cache and prune archived posts older than
+   * INGESTED_POSTS_RETENTION_DAYS (default 30). Returns a function that stops it.
+   */
+  startArchivePruning(env: NodeJS.ProcessEnv = process.env): () => void {
+    const retentionDays = parseInt(env.INGESTED_POSTS_RETENTION_DAYS || '30', 10);
+
+    const timer = setInterval(async () => {
+      const cleaned = await this.dedup.cleanup();
+      if (cleaned > 0) {
+        console.log(`[Dedup] Cleaned up ${cleaned} expired cache entries`);
+      }
+      const pruned = await this.pruneArchive(retentionDays).catch((error) => {
+        console.error('[Archive] Prune failed:', error);
+        return 0;
+      });
+      if (pruned > 0) {
+        console.log(`[Archive] Pruned ${pruned} posts older than ${retentionDays} days`);
+      }
+    }, CLEANUP_INTERVAL_MS);
+
+    return () => clearInterval(timer);
+  }
+
+  private async process(post: NormalizedPost, decision: RelevanceDecision): Promise<ProcessedPost> {
+    const location = await locatePost(post.text);
+    const activityType = detectActivityType(post.text);
+
+    let saved = false;
+    let outcome: IngestDecision = 'no_location';
+    let reportId: string | null = null;
+    let incidentId: string | null = null;
+    if (this.enableDb && isLocated(location)) {
+      try {
+        const existing = await getReportBySourceId(post.sourceType, post.sourceId);
+        if (existing) {
+          outcome = 'existing_report';
+          reportId = existing.id;
+        } else {
+          const report = await createReport(toReportInput(post, decision, location, activityType));
+          saved = true;
+          outcome = 'saved';
+          reportId = report.id;
+          incidentId = await this.cluster(report);
+        }
+      } catch (error) {
+        outcome = 'save_failed';
+        console.error(`[DB] Error saving ${post.sourceType} report:`, error);
+      }
+    }
+
+    return { post, location, activityType, needsReview: decision.needsReview, saved, decision: outcome, reportId, incidentId };
+  }
+
+  /**
+   * Group a saved report with other reports of the same event. A failure is
+   * logged and the report stays unclustered until the next sweep picks it up.
+   */
+  private async cluster(report: Report): Promise<string | null> {
+    try {
+      const result = await clusterReport(report, this.clustering);
+      if (result?.match) {
+        const how = result.match.nearDuplicate ? 'near-duplicate of' : 'same event as';
+        console.log(`[Incidents] Report ${report.id} is a ${how} ${result.match.reportId} (${result.incident.reportCount} reports, ${result.incident.sourceCount} sources)`);
+      }
+      return result?.incident.id ?? null;
+    } catch (error) {
+      console.error(`[Incidents] Error clustering report ${report.id}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Archive the post and what happened to it. Failing to archive never
+   * stops ingestion.
+   */
+  private async record(
+    post: NormalizedPost,
+    relevance: RelevanceDecision,
+    decision: IngestDecision,
+    processed?: ProcessedPost
+  ): Promise<void> {
+    if (!this.archive) return;
+
+    try {
+      await recordIngestedPost(toIngestedPostInput(post, relevance, decision, processed?.location, processed?.reportId));
+    } catch (error) {
+      console.error(`[Archive] Error recording ${post.sourceType} post:`, error);
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { searchReddit } from './search.js';
+import { RateLimitError } from '../sources/rate-limit.js';
+
+function listing(id: string) {
+  return {
+    kind: 'Listing',
+    data: {
+      children: [{
+        kind: 't3',
+        data: {
+          id,
+          name: `t3_${id}`,
+          title: 'ICE raid reported downtown',
+          selftext: '',
+          author: 'witness',
+          subreddit: 'news',
+          subreddit_name_prefixed: 'r/news',
+          permalink: `/r/news/comments/${id}/`,
+          url: `https://reddit.com/r/news/comments/${id}/`,
+          created_utc: 1_790_000_000,
+          score: 1,
+          num_comments: 0,
+          is_self: true
+        }
+      }]
+    }
+  };
+}
+
+describe('searchReddit', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should keep what it fetched when the quota runs out, and stop there', async () => {
+    let calls = 0;
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      calls++;
+      const headers = calls === 2 ? { 'X-Ratelimit-Remaining': '0.0', 'X-Ratelimit-Reset': '45' } : {};
+      return new Response(JSON.stringify(listing(`post${calls}`)), { status: 200, headers });
+    }));
+
+    const error = await searchReddit(0).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect((error as RateLimitError).retryAfterMs).toBe(45_000);
+    expect(((error as RateLimitError).items as { id: string }[]).map((post) => post.id).sort()).toEqual(['post1', 'post2']);
+    expect(calls).toBe(2);
+  });
+});
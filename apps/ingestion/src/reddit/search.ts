@@ -1,5 +1,7 @@
 // Reddit API client for searching public posts
 
+import { checkQuota, checkRateLimit, RateLimitError } from '../sources/rate-limit.js';
+
 export interface RedditPost {
   id: string;
   uri: string;
@@ -94,12 +96,10 @@ async function searchSubreddit(subreddit: string, keyword: string): Promise<Redd
       }
     });
 
+    checkRateLimit('Reddit', response);
+
     if (!response.ok) {
-      if (response.status === 429) {
-        console.warn(`[Reddit] Rate limited on r/${subreddit}`);
-      } else {
-        console.warn(`[Reddit] r/${subreddit} search failed: ${response.status}`);
-      }
+      console.warn(`[Reddit] r/${subreddit} search failed: ${response.status}`);
       return posts;
     }
 
@@ -110,7 +110,11 @@ async function searchSubreddit(subreddit: string, keyword: string): Promise<Redd
         posts.push(listingToPost(child.data));
       }
     }
+
+    const quota = checkQuota('Reddit', response.headers, posts);
+    if (quota) throw quota;
   } catch (error) {
+    if (error instanceof RateLimitError) throw error;
     console.warn(`[Reddit] Error searching r/${subreddit}:`, (error as Error).message);
   }
 
@@ -130,6 +134,8 @@ async function searchAll(keyword: string): Promise<RedditPost[]> {
       }
     });
 
+    checkRateLimit('Reddit', response);
+
     if (!response.ok) {
       console.warn(`[Reddit] Global search failed: ${response.status}`);
       return posts;
@@ -142,55 +148,62 @@ async function searchAll(keyword: string): Promise<RedditPost[]> {
         posts.push(listingToPost(child.data));
       }
     }
+
+    const quota = checkQuota('Reddit', response.headers, posts);
+    if (quota) throw quota;
   } catch (error) {
+    if (error instanceof RateLimitError) throw error;
     console.warn(`[Reddit] Error in global search:`, (error as Error).message);
   }
 
   return posts;
 }
 
-export async function searchReddit(): Promise<RedditPost[]> {
+export async function searchReddit(requestDelayMs = 1000): Promise<RedditPost[]> {
   const allPosts: RedditPost[] = [];
   const seenIds = new Set<string>();
 
-  // First, do a global search for each keyword
-  for (const keyword of SEARCH_KEYWORDS) {
-    const posts = await searchAll(keyword);
-
+  const add = (posts: RedditPost[]) => {
     for (const post of posts) {
       if (!seenIds.has(post.id)) {
         seenIds.add(post.id);
         allPosts.push(post);
       }
     }
+  };
 
-    // Respectful delay between requests
-    await new Promise(resolve => setTimeout(resolve, 1000));
-  }
+  try {
+    // First, do a global search for each keyword
+    for (const keyword of SEARCH_KEYWORDS) {
+      add(await searchAll(keyword));
+
+      // Respectful delay between requests
+      await new Promise(resolve => setTimeout(resolve, requestDelayMs));
+    }
 
-  // Then search specific subreddits for ICE-related content
-  for (const subreddit of SUBREDDITS) {
-    for (const keyword of ['ICE raid', 'ICE checkpoint']) {
-      const posts = await searchSubreddit(subreddit, keyword);
+    // Then search specific subreddits for ICE-related content
+    for (const subreddit of SUBREDDITS) {
+      for (const keyword of ['ICE raid', 'ICE checkpoint']) {
+        add(await searchSubreddit(subreddit, keyword));
 
-      for (const post of posts) {
-        if (!seenIds.has(post.id)) {
-          seenIds.add(post.id);
-          allPosts.push(post);
-        }
+        // Respectful delay
+        await new Promise(resolve => setTimeout(resolve, requestDelayMs));
       }
-
-      // Respectful delay
-      await new Promise(resolve => setTimeout(resolve, 1000));
     }
+  } catch (error) {
+    if (!(error instanceof RateLimitError)) throw error;
+    // Keep what the earlier searches (and the last response) found
+    add(error.items as RedditPost[]);
+    throw new RateLimitError(error.message, error.retryAfterMs, newestFirst(allPosts));
   }
 
-  // Sort by creation time, newest first
-  allPosts.sort((a, b) =>
+  return newestFirst(allPosts);
+}
+
+function newestFirst(posts: RedditPost[]): RedditPost[] {
+  return posts.sort((a, b) =>
     new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
   );
-
-  return allPosts;
 }
 
 export function formatPostForLog(post: RedditPost): string {
@@ -0,0 +1,15 @@
+import { searchReddit, type RedditPost } from "./search.js";
+import { normalizeRedditPost } from "../pipeline/normalize.js";
+import type { SourceAdapter } from "../sources/adapter.js";
+
+export const redditSource: SourceAdapter<RedditPost> = {
+  id: "reddit",
+  name: "Reddit",
+  shortName: "R",
+  icon: "🔴",
+  category: "social",
+  defaultPollIntervalMs: 5 * 60_000,
+  rateLimit: { requestDelayMs: 1000, maxConcurrency: 1 },
+  fetch: (config) => searchReddit(config.rateLimit.requestDelayMs),
+  normalize: normalizeRedditPost,
+};
@@ -0,0 +1,111 @@
+import "dotenv/config";
+import { parseArgs } from "node:util";
+import { closePool, testConnection } from "@ice-activity-map/database";
+import { getSource } from "../sources/registry.js";
+import type { SourceType } from "../pipeline/normalize.js";
+import { reprocess, type ReprocessTarget } from "./reprocess.js";
+
+const USAGE = `Usage: npm run reprocess -w apps/ingestion -- [options]
+
+Re-runs the current relevance filter, location extraction and geocoding
+over archived posts or existing reports. Dry run unless --apply is given.
+
+  --from <archive|reports>  What to replay (default: archive)
+  --since <date>            Only items created at or after this ISO date
+  --until <date>            Only items created before this ISO date (default: now)
+  --source <id>             Only one source, e.g. bluesky
+  --limit <n>               Stop after n items
+  --apply                   Update reports and record each change
+  --help                    Show this message`;
+
+function fail(message: string): never {
+  console.error(message);
+  console.error("");
+  console.error(USAGE);
+  process.exit(1);
+}
+
+function parseDate(value: string | undefined, flag: string): Date | undefined {
+  if (value === undefined) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) fail(`${flag} must be an ISO date`);
+  return date;
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      from: { type: "string", default: "archive" },
+      since: { type: "string" },
+      until: { type: "string" },
+      source: { type: "string" },
+      limit: { type: "string" },
+      apply: { type: "boolean", default: false },
+      help: { type: "boolean", default: false }
+    }
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  if (values.from !== "archive" && values.from !== "reports") {
+    fail("--from must be archive or reports");
+  }
+  const target: ReprocessTarget = values.from;
+
+  if (values.source !== undefined && !getSource(values.source as SourceType)) {
+    fail(`Unknown source "${values.source}"`);
+  }
+
+  const limit = values.limit !== undefined ? parseInt(values.limit, 10) : undefined;
+  if (limit !== undefined && !(limit > 0)) fail("--limit must be a positive number");
+
+  const since = parseDate(values.since, "--since");
+  // Pin the window so posts ingested while this runs don't shift the pages
+  const until = parseDate(values.until, "--until") ?? new Date();
+
+  if (!(await testConnection())) {
+    console.error("[Reprocess] Database connection failed");
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(`[Reprocess] ${values.apply ? "Applying" : "Dry run"}: ${target} created ${since ? since.toISOString() : "any time"} → ${until.toISOString()}${values.source ? ` (${values.source} only)` : ""}`);
+
+  const summary = await reprocess({
+    target,
+    since,
+    until,
+    sourceType: values.source as SourceType | undefined,
+    apply: values.apply,
+    limit
+  });
+
+  const count = (kind: string) => summary.changes.filter((change) => change.kind === kind).length;
+
+  console.log("");
+  console.log(`[Reprocess] ${summary.applied ? "Applied" : "Would apply"} (run ${summary.runId}):`);
+  console.log(`  Scanned:     ${summary.scanned}`);
+  console.log(`  New reports: ${count("new_report")}`);
+  console.log(`  Rejected:    ${count("rejected")}`);
+  console.log(`  Relocated:   ${count("relocated")}`);
+  console.log(`  Unchanged:   ${summary.unchanged}`);
+  console.log(`  Skipped:     ${summary.skipped} (verified by a moderator)`);
+  console.log(`  Failed:      ${summary.failed}`);
+
+  if (!summary.applied && summary.changes.length > 0) {
+    console.log("");
+    console.log("[Reprocess] Nothing was written. Re-run with --apply to make these changes.");
+  }
+
+  if (summary.failed > 0) process.exitCode = 1;
+}
+
+main()
+  .catch((error) => {
+    console.error("[Reprocess] Fatal error:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => closePool());
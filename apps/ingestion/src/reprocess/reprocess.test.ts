@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@ice-activity-map/database', () => ({
+  createReport: vi.fn().mockResolvedValue({ id: 'report-new', status: 'unverified' }),
+  getIngestedPostsForReprocess: vi.fn().mockResolvedValue([]),
+  getReportById: vi.fn().mockResolvedValue(null),
+  getReportBySourceId: vi.fn().mockResolvedValue(null),
+  getReportsForReprocess: vi.fn().mockResolvedValue([]),
+  moderateReport: vi.fn().mockResolvedValue(undefined),
+  recordIngestedPost: vi.fn().mockResolvedValue({}),
+  recordReportRevision: vi.fn().mockResolvedValue({}),
+  updateReportLocation: vi.fn().mockResolvedValue({}),
+  query: vi.fn()
+}));
+
+vi.mock('../geocoding/geocode.js', () => ({
+  geocodeCityState: vi.fn().mockResolvedValue({
+    latitude: 34.0522,
+    longitude: -118.2437,
+    city: 'Los Angeles',
+    state: 'California'
+  }),
+  geocode: vi.fn().mockResolvedValue(null),
+  geocodeNear: vi.fn().mockResolvedValue(null)
+}));
+
+import {
+  createReport,
+  getIngestedPostsForReprocess,
+  getReportsForReprocess,
+  moderateReport,
+  recordIngestedPost,
+  recordReportRevision,
+  updateReportLocation,
+  type IngestedPost,
+  type Report
+} from '@ice-activity-map/database';
+import { geocodeCityState } from '../geocoding/geocode.js';
+import { reprocess } from './reprocess.js';
+
+const URI = 'at://did:plc:abc123/app.bsky.feed.post/3kxyz';
+const SIGHTING = 'I just saw ICE agents outside the Home Depot in Los Angeles, CA right now. Be careful!';
+const COMMENTARY = 'ICE is a disgrace and this administration should be ashamed of its immigration policy';
+
+function archived(overrides: Partial<IngestedPost> = {}): IngestedPost {
+  return {
+    id: 'post-1',
+    sourceType: 'bluesky',
+    sourceId: URI,
+    url: 'https://bsky.app/profile/witness.bsky.social/post/3kxyz',
+    text: SIGHTING,
+    authorHandle: 'witness.bsky.social',
+    authorDisplayName: 'Witness',
+    category: 'social',
+    postedAt: new Date('2026-10-01T12:00:00Z'),
+    relevanceScore: 1,
+    relevanceConfidence: 'low',
+    relevanceReason: 'Not enough signal',
+    needsReview: false,
+    extractedLocation: null,
+    geocodeResult: null,
+    decision: 'filtered',
+    reportId: null,
+    createdAt: new Date('2026-10-01T12:00:05Z'),
+    updatedAt: new Date('2026-10-01T12:00:05Z'),
+    ...overrides
+  };
+}
+
+function report(overrides: Partial<Report> = {}): Report {
+  return {
+    id: 'report-1',
+    sourceType: 'bluesky',
+    sourceId: URI,
+    activityType: 'other',
+    description: SIGHTING,
+    city: 'Los Angeles',
+    state: 'California',
+    latitude: 34.0522,
+    longitude: -118.2437,
+    authorHandle: 'witness.bsky.social',
+    authorDisplayName: 'Witness',
+    photoUrl: null,
+    status: 'unverified',
+    metadata: {},
+    reportedAt: new Date('2026-10-01T12:00:00Z'),
+    createdAt: new Date('2026-10-01T12:00:05Z'),
+    updatedAt: new Date('2026-10-01T12:00:05Z'),
+    ...overrides
+  };
+}
+
+describe('reprocess', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('should report new reports from archived posts without writing in a dry run', async () => {
+    vi.mocked(getIngestedPostsForReprocess).mockResolvedValueOnce([archived()]);
+
+    const summary = await reprocess({ target: 'archive', apply: false });
+
+    expect(summary.scanned).toBe(1);
+    expect(summary.changes).toEqual([
+      expect.objectContaining({ kind: 'new_report', sourceId: URI, before: null })
+    ]);
+    expect(summary.changes[0].after?.latitude).toBeCloseTo(34.0522);
+    expect(createReport).not.toHaveBeenCalled();
+    expect(recordReportRevision).not.toHaveBeenCalled();
+    expect(recordIngestedPost).not.toHaveBeenCalled();
+    expect(geocodeCityState).toHaveBeenCalledWith('Los Angeles', 'CA', { readOnly: true });
+  });
+
+  it('should create the report, record the revision and relink the archive when applying', async () => {
+    vi.mocked(getIngestedPostsForReprocess).mockResolvedValueOnce([archived()]);
+
+    const summary = await reprocess({ target: 'archive', apply: true, runId: 'run-1' });
+
+    expect(createReport).toHaveBeenCalledWith(expect.objectContaining({
+      sourceType: 'bluesky',
+      sourceId: URI,
+      metadata: expect.objectContaining({ reprocess_run_id: 'run-1' })
+    }));
+    expect(recordReportRevision).toHaveBeenCalledWith(expect.objectContaining({
+      runId: 'run-1',
+      reportId: 'report-new',
+      change: 'created'
+    }));
+    expect(recordIngestedPost).toHaveBeenCalledWith(expect.objectContaining({
+      sourceId: URI,
+      decision: 'saved',
+      reportId: 'report-new'
+    }));
+    expect(summary.changes[0].reportId).toBe('report-new');
+    expect(geocodeCityState).toHaveBeenCalledWith('Los Angeles', 'CA', { readOnly: false });
+  });
+
+  it('should dispute reports the filter now rejects, but keep verified ones', async () => {
+    vi.mocked(getReportsForReprocess).mockResolvedValueOnce([
+      report({ id: 'report-1', description: COMMENTARY }),
+      report({ id: 'report-2', sourceId: `${URI}2`, description: COMMENTARY, status: 'verified' })
+    ]);
+
+    const summary = await reprocess({ target: 'reports', apply: true, runId: 'run-1' });
+
+    expect(summary.changes).toEqual([expect.objectContaining({ kind: 'rejected', reportId: 'report-1' })]);
+    expect(summary.skipped).toBe(1);
+    expect(moderateReport).toHaveBeenCalledTimes(1);
+    expect(moderateReport).toHaveBeenCalledWith('report-1', 'disputed', 'reprocess', expect.any(String));
+    expect(recordReportRevision).toHaveBeenCalledWith(expect.objectContaining({
+      reportId: 'report-1',
+      change: 'rejected',
+      beforeState: expect.objectContaining({ status: 'unverified' }),
+      afterState: expect.objectContaining({ status: 'disputed' })
+    }));
+  });
+
+  it('should move reports whose location now resolves elsewhere', async () => {
+    vi.mocked(getReportsForReprocess).mockResolvedValueOnce([
+      report({ city: 'Long Beach', latitude: 33.7701, longitude: -118.1937 }),
+      report({ id: 'report-2', sourceId: `${URI}2`, latitude: 34.05221 })
+    ]);
+
+    const summary = await reprocess({ target: 'reports', apply: true, runId: 'run-1' });
+
+    expect(summary.unchanged).toBe(1);
+    expect(summary.changes).toEqual([expect.objectContaining({ kind: 'relocated', reportId: 'report-1' })]);
+    expect(updateReportLocation).toHaveBeenCalledWith('report-1', expect.objectContaining({ city: 'Los Angeles' }));
+    expect(recordReportRevision).toHaveBeenCalledWith(expect.objectContaining({
+      change: 'relocated',
+      beforeState: expect.objectContaining({ city: 'Long Beach' })
+    }));
+  });
+
+  it('should page by the last row read and stop at the start of the run', async () => {
+    const first = archived({ id: 'post-1' });
+    const second = archived({ id: 'post-2', sourceId: `${URI}2`, text: COMMENTARY });
+    vi.mocked(getIngestedPostsForReprocess)
+      .mockResolvedValueOnce([first, second])
+      .mockResolvedValueOnce([]);
+    const before = new Date();
+
+    const summary = await reprocess({ target: 'archive', apply: false, batchSize: 2 });
+
+    expect(summary.scanned).toBe(2);
+    const [[firstPage], [secondPage]] = vi.mocked(getIngestedPostsForReprocess).mock.calls;
+    expect(firstPage?.after).toBeUndefined();
+    expect(firstPage?.createdBefore!.getTime()).toBeGreaterThanOrEqual(before.getTime());
+    expect(secondPage).toEqual(expect.objectContaining({
+      after: expect.objectContaining({ id: 'post-2', createdAt: second.createdAt }),
+      createdBefore: firstPage?.createdBefore
+    }));
+  });
+});
@@ -0,0 +1,351 @@
+import { randomUUID } from 'node:crypto';
+import {
+  createReport,
+  getIngestedPostsForReprocess,
+  getReportById,
+  getReportBySourceId,
+  getReportsForReprocess,
+  moderateReport,
+  recordIngestedPost,
+  recordReportRevision,
+  updateReportLocation,
+  type IngestDecision,
+  type IngestedPost,
+  type LocationPrecision,
+  type Report,
+  type ReprocessCursor
+} from '@ice-activity-map/database';
+import { detectActivityType } from '../location/extractor.js';
+import {
+  decideRelevance,
+  isLocated,
+  locatePost,
+  toIngestedPostInput,
+  toReportInput,
+  type PostLocation,
+  type RelevanceDecision
+} from '../pipeline/pipeline.js';
+import { getSource } from '../sources/registry.js';
+import type { NormalizedPost, SourceType } from '../pipeline/normalize.js';
+
+/**
+ * `archive` replays every archived post, so posts that were filtered before
+ * can become reports. `reports` replays the text of existing reports, which
+ * also covers reports from before the archive existed.
+ */
+export type ReprocessTarget = 'archive' | 'reports';
+
+export type ReprocessChangeKind = 'new_report' | 'rejected' | 'relocated';
+
+export interface ReportLocationSnapshot {
+  city: string | null;
+  state: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  locationPrecision: LocationPrecision | null;
+  locationRadiusM: number | null;
+}
+
+export interface ReprocessChange {
+  kind: ReprocessChangeKind;
+  sourceType: string;
+  sourceId: string;
+  reportId: string | null;
+  reason: string;
+  before: ReportLocationSnapshot | null;
+  after: ReportLocationSnapshot | null;
+}
+
+export interface ReprocessOptions {
+  target: ReprocessTarget;
+  /** Only posts/reports created at or after this time */
+  since?: Date;
+  /** Only posts/reports created before this time */
+  until?: Date;
+  sourceType?: SourceType;
+  /** Write the changes; otherwise only report what would change */
+  apply: boolean;
+  /** Stop after this many posts/reports */
+  limit?: number;
+  batchSize?: number;
+  /** Groups the report_revisions rows written by one run */
+  runId?: string;
+}
+
+export interface ReprocessSummary {
+  runId: string;
+  applied: boolean;
+  scanned: number;
+  unchanged: number;
+  /** Would change, but a moderator verified the report */
+  skipped: number;
+  failed: number;
+  changes: ReprocessChange[];
+}
+
+const DEFAULT_BATCH_SIZE = 100;
+
+// ~100m; geocoder results for the same place wobble less than this
+const COORDINATE_TOLERANCE = 0.001;
+
+interface Candidate {
+  post: NormalizedPost;
+  report: Report | null;
+  archived: IngestedPost | null;
+}
+
+interface Evaluation {
+  change: ReprocessChange | null;
+  relevance: RelevanceDecision;
+  location: PostLocation | null;
+  decision: IngestDecision;
+}
+
+function snapshot(location: ReportLocationSnapshot): ReportLocationSnapshot {
+  const { city, state, latitude, longitude, locationPrecision, locationRadiusM } = location;
+  return { city, state, latitude, longitude, locationPrecision, locationRadiusM };
+}
+
+function sameLocation(a: ReportLocationSnapshot, b: ReportLocationSnapshot): boolean {
+  const text = (value: string | null) => value?.trim().toLowerCase() || null;
+  const coord = (x: number | null, y: number | null) =>
+    x === null || y === null ? x === y : Math.abs(x - y) <= COORDINATE_TOLERANCE;
+
+  return text(a.city) === text(b.city) &&
+    text(a.state) === text(b.state) &&
+    coord(a.latitude, b.latitude) &&
+    coord(a.longitude, b.longitude);
+}
+
+export function formatLocation(location: ReportLocationSnapshot | null): string {
+  if (!location) return 'none';
+  const place = [location.city, location.state].filter(Boolean).join(', ') || 'Unknown location';
+  return location.latitude !== null && location.longitude !== null
+    ? `${place} (${location.latitude.toFixed(4)}, ${location.longitude.toFixed(4)})`
+    : place;
+}
+
+function archivedToPost(archived: IngestedPost): NormalizedPost {
+  return {
+    sourceType: archived.sourceType as SourceType,
+    sourceId: archived.sourceId,
+    text: archived.text,
+    authorHandle: archived.authorHandle ?? '',
+    authorDisplayName: archived.authorDisplayName,
+    createdAt: (archived.postedAt ?? archived.createdAt).toISOString(),
+    url: archived.url ?? '',
+    category: archived.category === 'news' ? 'news' : 'social'
+  };
+}
+
+function reportToPost(report: Report): NormalizedPost {
+  const sourceType = report.sourceType as SourceType;
+  return {
+    sourceType,
+    sourceId: report.sourceId!,
+    text: report.description,
+    authorHandle: report.authorHandle,
+    authorDisplayName: report.authorDisplayName,
+    createdAt: report.reportedAt.toISOString(),
+    url: '',
+    category: getSource(sourceType)?.category ?? 'social'
+  };
+}
+
+/**
+ * Run the current relevance filter, extractor and geocoder over a post and
+ * compare the result with the report it has (or doesn't have) today.
+ * Disputed reports stay disputed even if the post now passes. A dry run
+ * reads the geocode cache without adding to it.
+ */
+async function evaluate({ post, report }: Candidate, apply: boolean): Promise<Evaluation> {
+  const relevance = decideRelevance(post);
+  const change = (
+    kind: ReprocessChangeKind,
+    reason: string,
+    after: ReportLocationSnapshot | null
+  ): ReprocessChange => ({
+    kind,
+    sourceType: post.sourceType,
+    sourceId: post.sourceId,
+    reportId: report?.id ?? null,
+    reason,
+    before: report ? snapshot(report) : null,
+    after
+  });
+
+  if (!relevance.accept) {
+    const decision: IngestDecision = relevance.blockedSource ? 'blocked' : 'filtered';
+    const rejected = report && report.status !== 'disputed'
+      ? change('rejected', relevance.reason, null)
+      : null;
+    return { change: rejected, relevance, location: null, decision };
+  }
+
+  const location = await locatePost(post.text, { readOnly: !apply });
+
+  if (!isLocated(location)) {
+    const rejected = report && report.status !== 'disputed'
+      ? change('rejected', 'No location found', null)
+      : null;
+    return { change: rejected, relevance, location, decision: 'no_location' };
+  }
+
+  if (!report) {
+    return { change: change('new_report', relevance.reason, snapshot(location)), relevance, location, decision: 'saved' };
+  }
+
+  const relocated = report.status !== 'disputed' && !sameLocation(report, location)
+    ? change('relocated', 'Location changed', snapshot(location))
+    : null;
+  return { change: relocated, relevance, location, decision: 'existing_report' };
+}
+
+/**
+ * Write one change: the report itself, a report_revisions row, and the
+ * archived post's new decision
+ */
+async function applyChange(candidate: Candidate, evaluation: Evaluation, runId: string): Promise<void> {
+  const { post, report, archived } = candidate;
+  const { change, relevance, location } = evaluation;
+  if (!change) return;
+
+  let reportId = report?.id ?? null;
+
+  switch (change.kind) {
+    case 'new_report': {
+      const input = toReportInput(post, relevance, location!, detectActivityType(post.text));
+      const created = await createReport({
+        ...input,
+        metadata: { ...input.metadata, reprocess_run_id: runId }
+      });
+      reportId = created.id;
+      change.reportId = created.id;
+      await recordReportRevision({
+        runId,
+        reportId: created.id,
+        change: 'created',
+        reason: change.reason,
+        afterState: { ...change.after, status: created.status }
+      });
+      break;
+    }
+    case 'rejected':
+      await moderateReport(report!.id, 'disputed', 'reprocess', change.reason);
+      await recordReportRevision({
+        runId,
+        reportId: report!.id,
+        change: 'rejected',
+        reason: change.reason,
+        beforeState: { ...change.before, status: report!.status },
+        afterState: { ...change.before, status: 'disputed' }
+      });
+      break;
+    case 'relocated':
+      await updateReportLocation(report!.id, change.after!);
+      await recordReportRevision({
+        runId,
+        reportId: report!.id,
+        change: 'relocated',
+        reason: change.reason,
+        beforeState: { ...change.before },
+        afterState: { ...change.after }
+      });
+      break;
+  }
+
+  if (archived) {
+    await recordIngestedPost(
+      toIngestedPostInput(post, relevance, evaluation.decision, location ?? undefined, reportId)
+    );
+  }
+}
+
+/**
+ * Posts or reports oldest first, paged by `(created_at, id)`. The window ends
+ * when the run started at the latest, so reports it creates aren't revisited.
+ */
+async function* candidates(options: ReprocessOptions, startedAt: Date): AsyncGenerator<Candidate> {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const window = {
+    sourceType: options.sourceType,
+    createdAfter: options.since,
+    createdBefore: options.until && options.until < startedAt ? options.until : startedAt,
+    limit: batchSize
+  };
+  let after: ReprocessCursor | undefined;
+
+  for (;;) {
+    if (options.target === 'archive') {
+      const posts = await getIngestedPostsForReprocess({ ...window, after });
+
+      for (const archived of posts) {
+        const report = archived.reportId
+          ? await getReportById(archived.reportId)
+          : await getReportBySourceId(archived.sourceType, archived.sourceId);
+        yield { post: archivedToPost(archived), report, archived };
+      }
+      if (posts.length < batchSize) return;
+      after = posts[posts.length - 1];
+    } else {
+      const reports = await getReportsForReprocess({ ...window, after });
+
+      for (const report of reports) {
+        yield { post: reportToPost(report), report, archived: null };
+      }
+      if (reports.length < batchSize) return;
+      after = reports[reports.length - 1];
+    }
+  }
+}
+
+/**
+ * Re-run the current filter, extraction and geocoding over archived posts
+ * or existing reports. In dry-run mode nothing is written; with `apply` each
+ * change is made and recorded in report_revisions under one run id.
+ */
+export async function reprocess(options: ReprocessOptions): Promise<ReprocessSummary> {
+  const summary: ReprocessSummary = {
+    runId: options.runId ?? randomUUID(),
+    applied: options.apply,
+    scanned: 0,
+    unchanged: 0,
+    skipped: 0,
+    failed: 0,
+    changes: []
+  };
+
+  for await (const candidate of candidates(options, new Date())) {
+    if (options.limit !== undefined && summary.scanned >= options.limit) break;
+    summary.scanned++;
+
+    const { post, report } = candidate;
+    try {
+      const evaluation = await evaluate(candidate, options.apply);
+      const { change } = evaluation;
+
+      if (!change) {
+        summary.unchanged++;
+        continue;
+      }
+
+      // A moderator's verification outranks the filter
+      if (report?.status === 'verified' && change.kind === 'rejected') {
+        console.log(`[Reprocess] Keeping verified report ${report.id}: ${change.reason}`);
+        summary.skipped++;
+        continue;
+      }
+
+      if (options.apply) {
+        await applyChange(candidate, evaluation, summary.runId);
+      }
+      summary.changes.push(change);
+      console.log(`[Reprocess] ${change.kind} [${post.sourceType}] ${post.sourceId}: ${formatLocation(change.before)} → ${formatLocation(change.after)} (${change.reason})`);
+    } catch (error) {
+      summary.failed++;
+      console.error(`[Reprocess] Error reprocessing ${post.sourceType} ${post.sourceId}:`, error);
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,41 @@
+import type { Category, NormalizedPost, SourceType } from '../pipeline/normalize.js';
+
+/**
+ * How hard a source may be hit. Search modules pause `requestDelayMs`
+ * between the individual queries that make up one poll, and keep at most
+ * `maxConcurrency` of them in flight.
+ */
+export interface SourceRateLimit {
+  requestDelayMs: number;
+  maxConcurrency: number;
+}
+
+/**
+ * Resolved per-deployment settings for one source (see resolveSourceConfig)
+ */
+export interface SourceConfig {
+  enabled: boolean;
+  pollIntervalMs: number;
+  /** Each run is scheduled pollIntervalMs ± this fraction of it */
+  jitterRatio: number;
+  rateLimit: SourceRateLimit;
+}
+
+/**
+ * Everything the orchestrator needs to know about a polled source. `fetch`
+ * returns the source's raw items; `normalize` turns each into the shape the
+ * pipeline works on.
+ */
+export interface SourceAdapter<TItem = unknown> {
+  id: SourceType;
+  /** Display name for logs */
+  name: string;
+  /** One-letter tag for the metrics line */
+  shortName: string;
+  icon: string;
+  category: Category;
+  defaultPollIntervalMs: number;
+  rateLimit: SourceRateLimit;
+  fetch(config: SourceConfig): Promise<TItem[]>;
+  normalize(item: TItem): NormalizedPost;
+}
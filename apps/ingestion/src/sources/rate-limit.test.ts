@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { checkQuota, checkRateLimit, parseQuotaReset, parseRetryAfter, RateLimitError } from './rate-limit.js';
+
+const NOW = Date.parse('2026-10-19T12:00:00Z');
+
+describe('parseRetryAfter', () => {
+  it('should read delay-seconds and HTTP dates', () => {
+    expect(parseRetryAfter('120', NOW)).toBe(120_000);
+    expect(parseRetryAfter('Mon, 19 Oct 2026 12:01:30 GMT', NOW)).toBe(90_000);
+    expect(parseRetryAfter('later', NOW)).toBeNull();
+    expect(parseRetryAfter(null, NOW)).toBeNull();
+  });
+});
+
+describe('parseQuotaReset', () => {
+  it('should only report a reset once the quota is used up', () => {
+    expect(parseQuotaReset({ 'x-ratelimit-remaining': '12.0', 'x-ratelimit-reset': '300' }, NOW)).toBeNull();
+    expect(parseQuotaReset({}, NOW)).toBeNull();
+  });
+
+  it('should understand Reddit, Mastodon and Bluesky reset formats', () => {
+    // Reddit: seconds from now
+    expect(parseQuotaReset(new Headers({ 'X-Ratelimit-Remaining': '0.0', 'X-Ratelimit-Reset': '45' }), NOW)).toBe(45_000);
+    // Mastodon: ISO date
+    expect(parseQuotaReset({ 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '2026-10-19T12:05:00.000Z' }, NOW)).toBe(300_000);
+    // Bluesky: unix timestamp
+    expect(parseQuotaReset({ 'ratelimit-remaining': '0', 'ratelimit-reset': String(NOW / 1000 + 60) }, NOW)).toBe(60_000);
+  });
+});
+
+describe('checkRateLimit', () => {
+  it('should throw with the Retry-After delay on a 429', () => {
+    const response = { status: 429, headers: new Headers({ 'Retry-After': '30' }) };
+
+    expect(() => checkRateLimit('Reddit', response, NOW)).toThrow(RateLimitError);
+    try {
+      checkRateLimit('Reddit', response, NOW);
+    } catch (error) {
+      expect((error as RateLimitError).retryAfterMs).toBe(30_000);
+    }
+  });
+
+  it('should throw without a delay when a 429 gives no hint', () => {
+    expect(() => checkRateLimit('Wiki', { status: 429, headers: {} }, NOW)).toThrow(
+      expect.objectContaining({ retryAfterMs: null })
+    );
+  });
+
+  it('should pass ordinary responses through', () => {
+    expect(() => checkRateLimit('Mastodon', { status: 200, headers: { 'x-ratelimit-remaining': '299' } }, NOW)).not.toThrow();
+    expect(() => checkRateLimit('Mastodon', { status: 503, headers: {} }, NOW)).not.toThrow();
+  });
+
+  it('should not throw away a successful response that used up the quota', () => {
+    const headers = { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '45' };
+    expect(() => checkRateLimit('Reddit', { status: 200, headers }, NOW)).not.toThrow();
+  });
+});
+
+describe('checkQuota', () => {
+  it('should carry the results and the reset once the quota is used up', () => {
+    const quota = checkQuota('Reddit', { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '45' }, ['post'], NOW);
+
+    expect(quota).toBeInstanceOf(RateLimitError);
+    expect(quota).toMatchObject({ retryAfterMs: 45_000, items: ['post'] });
+    expect(checkQuota('Reddit', { 'x-ratelimit-remaining': '12' }, ['post'], NOW)).toBeNull();
+  });
+});
@@ -0,0 +1,99 @@
+type HeaderSource = Headers | Record<string, string | undefined>;
+
+/**
+ * The source told us to back off. `retryAfterMs` is how long it asked for,
+ * or null when it didn't say and the scheduler should pick a delay.
+ * `items` are what the poll fetched before it ran into the limit; the run
+ * still ingests them.
+ */
+export class RateLimitError extends Error {
+  retryAfterMs: number | null;
+  items: unknown[];
+
+  constructor(message: string, retryAfterMs: number | null, items: unknown[] = []) {
+    super(message);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+    this.items = items;
+  }
+}
+
+function getHeader(headers: HeaderSource | undefined, name: string): string | null {
+  if (!headers) return null;
+  if (headers instanceof Headers) {
+    return headers.get(name);
+  }
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === name);
+  return key ? headers[key] ?? null : null;
+}
+
+/**
+ * Retry-After is either delay-seconds or an HTTP date
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+  if (!value) return null;
+
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(parseFloat(trimmed) * 1000);
+  }
+
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * When the quota headers say nothing is left, how long until it resets.
+ * Reddit sends x-ratelimit-* with the reset in seconds from now, Mastodon
+ * sends it as an ISO date, and Bluesky sends ratelimit-* with a unix timestamp.
+ */
+export function parseQuotaReset(headers: HeaderSource | undefined, now = Date.now()): number | null {
+  for (const prefix of ['x-ratelimit', 'ratelimit']) {
+    const remaining = getHeader(headers, `${prefix}-remaining`);
+    if (remaining === null || parseFloat(remaining) > 0) continue;
+
+    const value = getHeader(headers, `${prefix}-reset`)?.trim() ?? '';
+    if (!/^\d+(\.\d+)?$/.test(value)) {
+      const date = Date.parse(value);
+      return Number.isNaN(date) ? null : Math.max(0, date - now);
+    }
+
+    const reset = parseFloat(value);
+
+    // Anything this large is an epoch timestamp rather than a delay
+    return reset > 1e9 ? Math.max(0, reset * 1000 - now) : Math.round(reset * 1000);
+  }
+  return null;
+}
+
+/**
+ * Throw a RateLimitError for a 429 (or a 503 with Retry-After): the
+ * request was refused, so there is nothing in the response to keep
+ */
+export function checkRateLimit(
+  source: string,
+  response: { status: number; headers?: HeaderSource },
+  now = Date.now()
+): void {
+  const retryAfter = parseRetryAfter(getHeader(response.headers, 'retry-after'), now);
+
+  if (response.status === 429 || (response.status === 503 && retryAfter !== null)) {
+    throw new RateLimitError(`${source} rate limited (HTTP ${response.status})`, retryAfter ?? parseQuotaReset(response.headers, now));
+  }
+}
+
+/**
+ * A RateLimitError carrying `items` when a successful response used up the
+ * last of the quota, else null. The response's results are kept; the rest
+ * of this poll would be refused, and search results are recency windows,
+ * so the run after the reset picks up what this one skipped.
+ */
+export function checkQuota(
+  source: string,
+  headers: HeaderSource | undefined,
+  items: unknown[],
+  now = Date.now()
+): RateLimitError | null {
+  const quotaReset = parseQuotaReset(headers, now);
+  return quotaReset === null ? null : new RateLimitError(`${source} rate limit quota exhausted`, quotaReset, items);
+}
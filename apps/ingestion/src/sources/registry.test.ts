@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getSource, getSources, registerSource, resolveSourceConfig } from './registry.js';
+import type { SourceAdapter } from './adapter.js';
+import { normalizeRedditPost } from '../pipeline/normalize.js';
+
+const fakeSource: SourceAdapter = {
+  id: 'reddit',
+  name: 'Fake',
+  shortName: 'F',
+  icon: '?',
+  category: 'social',
+  defaultPollIntervalMs: 300_000,
+  rateLimit: { requestDelayMs: 2000, maxConcurrency: 1 },
+  fetch: async () => [],
+  normalize: normalizeRedditPost
+};
+
+describe('source registry', () => {
+  it('should register every built-in source once', () => {
+    const ids = getSources().map((source) => source.id);
+
+    expect(ids).toEqual(['bluesky', 'mastodon', 'reddit', 'google_news', 'wiki']);
+    expect(new Set(getSources().map((source) => source.shortName)).size).toBe(ids.length);
+    expect(getSource('google_news')?.category).toBe('news');
+  });
+
+  it('should reject a second adapter with the same id', () => {
+    expect(() => registerSource(fakeSource)).toThrow('Source "reddit" is already registered');
+    expect(getSource('reddit')?.name).toBe('Reddit');
+  });
+});
+
+describe('resolveSourceConfig', () => {
+  it('should use the adapter defaults when nothing is set', () => {
+    expect(resolveSourceConfig(fakeSource, {})).toEqual({
+      enabled: true,
+      pollIntervalMs: 300_000,
+      jitterRatio: 0.1,
+      rateLimit: { requestDelayMs: 2000, maxConcurrency: 1 }
+    });
+  });
+
+  it('should read settings keyed off the source id', () => {
+    const config = resolveSourceConfig({ ...fakeSource, id: 'google_news' }, {
+      ENABLE_GOOGLE_NEWS: 'false',
+      GOOGLE_NEWS_POLL_INTERVAL_MS: '600000',
+      GOOGLE_NEWS_POLL_JITTER: '0.25',
+      GOOGLE_NEWS_REQUEST_DELAY_MS: '250',
+      GOOGLE_NEWS_MAX_CONCURRENCY: '4'
+    });
+
+    expect(config).toEqual({
+      enabled: false,
+      pollIntervalMs: 600_000,
+      jitterRatio: 0.25,
+      rateLimit: { requestDelayMs: 250, maxConcurrency: 4 }
+    });
+  });
+
+  it('should fall back to the global poll interval and ignore bad values', () => {
+    const config = resolveSourceConfig(fakeSource, {
+      POLL_INTERVAL_MS: '120000',
+      REDDIT_REQUEST_DELAY_MS: 'soon'
+    });
+
+    expect(config.pollIntervalMs).toBe(120_000);
+    expect(config.rateLimit.requestDelayMs).toBe(2000);
+  });
+
+  it('should refuse poll intervals that would spin', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(resolveSourceConfig(fakeSource, { REDDIT_POLL_INTERVAL_MS: '0' }).pollIntervalMs).toBe(300_000);
+    expect(resolveSourceConfig(fakeSource, {
+      REDDIT_POLL_INTERVAL_MS: '500',
+      POLL_INTERVAL_MS: '120000'
+    }).pollIntervalMs).toBe(120_000);
+    expect(resolveSourceConfig(fakeSource, { POLL_INTERVAL_MS: '0' }).pollIntervalMs).toBe(300_000);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('REDDIT_POLL_INTERVAL_MS=0'));
+    expect(warn).toHaveBeenCalledTimes(3);
+
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,95 @@
+import { blueskySource } from '../bluesky/source.js';
+import { mastodonSource } from '../mastodon/source.js';
+import { redditSource } from '../reddit/source.js';
+import { googleNewsSource } from '../google-news/source.js';
+import { wikiSource } from '../wiki/source.js';
+import type { SourceType } from '../pipeline/normalize.js';
+import type { SourceAdapter, SourceConfig } from './adapter.js';
+
+const adapters = new Map<SourceType, SourceAdapter>();
+
+/**
+ * Make a source available to the orchestrator. Registering the same id twice
+ * is a programming error, not an override.
+ */
+export function registerSource(adapter: SourceAdapter): void {
+  if (adapters.has(adapter.id)) {
+    throw new Error(`Source "${adapter.id}" is already registered`);
+  }
+  adapters.set(adapter.id, adapter);
+}
+
+export function getSource(id: SourceType): SourceAdapter | undefined {
+  return adapters.get(id);
+}
+
+/**
+ * All registered sources, in registration order
+ */
+export function getSources(): SourceAdapter[] {
+  return [...adapters.values()];
+}
+
+const DEFAULT_JITTER_RATIO = 0.1;
+
+// Anything shorter polls a source in a near-tight loop; 0 would spin
+const MIN_POLL_INTERVAL_MS = 10_000;
+
+function envInt(value: string | undefined): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined;
+}
+
+/**
+ * A poll interval setting, or undefined (with a warning) when it's missing,
+ * unparseable or shorter than MIN_POLL_INTERVAL_MS
+ */
+function envPollInterval(env: NodeJS.ProcessEnv, name: string): number | undefined {
+  const value = env[name];
+  if (value === undefined || value === '') return undefined;
+
+  const parsed = parseInt(value, 10);
+  if (!Number.isFinite(parsed) || parsed < MIN_POLL_INTERVAL_MS) {
+    console.warn(`[Sources] Ignoring ${name}=${value}: poll intervals must be at least ${MIN_POLL_INTERVAL_MS} ms`);
+    return undefined;
+  }
+  return parsed;
+}
+
+function envRatio(value: string | undefined): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const parsed = parseFloat(value);
+  return parsed >= 0 && parsed < 1 ? parsed : undefined;
+}
+
+/**
+ * Per-deployment settings for a source, all keyed off its id:
+ * ENABLE_<ID>, <ID>_POLL_INTERVAL_MS, <ID>_POLL_JITTER, <ID>_REQUEST_DELAY_MS
+ * and <ID>_MAX_CONCURRENCY. POLL_INTERVAL_MS, if set, applies to every source
+ * that has no interval of its own.
+ */
+export function resolveSourceConfig(
+  adapter: SourceAdapter,
+  env: NodeJS.ProcessEnv = process.env
+): SourceConfig {
+  const prefix = adapter.id.toUpperCase();
+
+  return {
+    enabled: env[`ENABLE_${prefix}`] !== 'false',
+    pollIntervalMs:
+      envPollInterval(env, `${prefix}_POLL_INTERVAL_MS`) ??
+      envPollInterval(env, 'POLL_INTERVAL_MS') ??
+      adapter.defaultPollIntervalMs,
+    jitterRatio: envRatio(env[`${prefix}_POLL_JITTER`]) ?? DEFAULT_JITTER_RATIO,
+    rateLimit: {
+      requestDelayMs: envInt(env[`${prefix}_REQUEST_DELAY_MS`]) ?? adapter.rateLimit.requestDelayMs,
+      maxConcurrency: Math.max(1, envInt(env[`${prefix}_MAX_CONCURRENCY`]) ?? adapter.rateLimit.maxConcurrency)
+    }
+  };
+}
+
+// Built-in sources. A new source is an adapter module, its id in ReportSource and one line here.
+for (const adapter of [blueskySource, mastodonSource, redditSource, googleNewsSource, wikiSource]) {
+  registerSource(adapter);
+}
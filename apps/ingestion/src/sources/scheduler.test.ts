@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SourceScheduler, describeSchedule, type ScheduledSource } from './scheduler.js';
+import { RateLimitError } from './rate-limit.js';
+import type { SourceAdapter } from './adapter.js';
+import type { SourceType } from '../pipeline/normalize.js';
+
+function source(id: SourceType, pollIntervalMs: number, jitterRatio = 0): ScheduledSource {
+  const adapter = {
+    id,
+    name: id,
+    shortName: id[0].toUpperCase(),
+    icon: '',
+    category: 'social',
+    defaultPollIntervalMs: pollIntervalMs,
+    rateLimit: { requestDelayMs: 0, maxConcurrency: 1 },
+    fetch: async () => [],
+    normalize: () => { throw new Error('unused'); }
+  } satisfies SourceAdapter;
+  return { adapter, config: { enabled: true, pollIntervalMs, jitterRatio, rateLimit: adapter.rateLimit } };
+}
+
+describe('SourceScheduler', () => {
+  let scheduler: SourceScheduler | null = null;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await scheduler?.stop();
+    scheduler = null;
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should run each source on its own interval', async () => {
+    const runs: string[] = [];
+    scheduler = new SourceScheduler({
+      sources: [source('bluesky', 1000), source('reddit', 3000)],
+      run: async ({ adapter }) => { runs.push(adapter.id); },
+      random: () => 0
+    });
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(6000);
+
+    expect(runs.filter((id) => id === 'bluesky')).toHaveLength(7);
+    expect(runs.filter((id) => id === 'reddit')).toHaveLength(3);
+  });
+
+  it('should keep jittered runs within the configured spread', async () => {
+    const runTimes: number[] = [];
+    scheduler = new SourceScheduler({
+      sources: [source('mastodon', 10_000, 0.2)],
+      run: async () => { runTimes.push(Date.now()); },
+      random: () => 1
+    });
+
+    const start = Date.now();
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(40_000);
+
+    // random() = 1 → first run delayed by the full window, later runs +20%
+    expect(runTimes.map((t) => t - start)).toEqual([2000, 14_000, 26_000, 38_000]);
+  });
+
+  it('should wait as long as Retry-After says and expose it in the schedule', async () => {
+    let calls = 0;
+    scheduler = new SourceScheduler({
+      sources: [source('reddit', 1000)],
+      run: async () => {
+        calls++;
+        if (calls === 1) throw new RateLimitError('Reddit rate limited (HTTP 429)', 30_000);
+      },
+      random: () => 0
+    });
+
+    const start = Date.now();
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    const [entry] = scheduler.getSchedule();
+    expect(entry.nextRunAt!.getTime() - start).toBe(30_000);
+    expect(entry.rateLimitedUntil!.getTime() - start).toBe(30_000);
+
+    await vi.advanceTimersByTimeAsync(29_999);
+    expect(calls).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(calls).toBe(2);
+    expect(scheduler.getSchedule()[0].rateLimitedUntil).toBeNull();
+  });
+
+  it('should back off exponentially after failures', async () => {
+    const runTimes: number[] = [];
+    scheduler = new SourceScheduler({
+      sources: [source('wiki', 1000)],
+      run: async () => {
+        runTimes.push(Date.now());
+        throw new Error('HTTP 500');
+      },
+      random: () => 0.5
+    });
+
+    const start = Date.now();
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(15_000);
+
+    expect(runTimes.map((t) => t - start)).toEqual([0, 1000, 3000, 7000, 15_000]);
+    expect(scheduler.getSchedule()[0].consecutiveFailures).toBe(5);
+  });
+
+  it('should not run more sources at once than the concurrency budget', async () => {
+    let active = 0;
+    let maxActive = 0;
+    let completed = 0;
+    scheduler = new SourceScheduler({
+      sources: [source('bluesky', 10_000), source('mastodon', 10_000), source('reddit', 10_000)],
+      run: async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise((resolve) => setTimeout(resolve, 500));
+        active--;
+        completed++;
+      },
+      maxConcurrent: 2,
+      random: () => 0
+    });
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(completed).toBe(3);
+    expect(maxActive).toBe(2);
+  });
+
+  it('should finish a run in progress on stop and not schedule another', async () => {
+    let completed = 0;
+    scheduler = new SourceScheduler({
+      sources: [source('google_news', 1000)],
+      run: async () => {
+        await new Promise((resolve) => setTimeout(resolve, 500));
+        completed++;
+      },
+      random: () => 0
+    });
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(100);
+    const stopped = scheduler.stop();
+    await vi.advanceTimersByTimeAsync(500);
+    await stopped;
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(completed).toBe(1);
+    expect(scheduler.getSchedule()[0].nextRunAt).toBeNull();
+  });
+});
+
+describe('describeSchedule', () => {
+  it('should show when each source runs next and how it is doing', () => {
+    const now = Date.parse('2026-10-19T14:00:00.000Z');
+    const entry = {
+      id: 'bluesky',
+      name: 'Bluesky',
+      pollIntervalMs: 60_000,
+      running: false,
+      lastRunAt: new Date(now - 18_000),
+      nextRunAt: new Date(now + 42_000),
+      consecutiveFailures: 0,
+      rateLimitedUntil: null
+    };
+
+    expect(describeSchedule([
+      entry,
+      { ...entry, id: 'reddit', name: 'Reddit', consecutiveFailures: 2, rateLimitedUntil: new Date(now + 42_000) },
+      { ...entry, id: 'wiki', name: 'Wiki', running: true, lastRunAt: null }
+    ], now)).toEqual([
+      'Bluesky: next run 2026-10-19T14:00:42.000Z (in 42s), last 2026-10-19T13:59:42.000Z',
+      'Reddit: next run 2026-10-19T14:00:42.000Z (in 42s), last 2026-10-19T13:59:42.000Z, 2 failures in a row, rate limited until 2026-10-19T14:00:42.000Z',
+      'Wiki: running, last never'
+    ]);
+  });
+});
@@ -0,0 +1,222 @@
+import { RateLimitError } from './rate-limit.js';
+import type { SourceAdapter, SourceConfig } from './adapter.js';
+
+export interface ScheduledSource {
+  adapter: SourceAdapter;
+  config: SourceConfig;
+}
+
+/**
+ * Where a source stands in the schedule
+ */
+export interface SourceScheduleEntry {
+  id: string;
+  name: string;
+  pollIntervalMs: number;
+  running: boolean;
+  lastRunAt: Date | null;
+  nextRunAt: Date | null;
+  consecutiveFailures: number;
+  /** Set while the next run is pushed out by a 429 or an exhausted quota */
+  rateLimitedUntil: Date | null;
+}
+
+export interface SourceSchedulerOptions {
+  sources: ScheduledSource[];
+  /** One poll of one source: fetch, then feed the pipeline */
+  run: (source: ScheduledSource) => Promise<void>;
+  /** How many sources may poll at the same time */
+  maxConcurrent?: number;
+  maxBackoffMs?: number;
+  random?: () => number;
+}
+
+/**
+ * One line per source for the periodic schedule log, e.g.
+ * "Bluesky: next run 2026-10-19T14:03:12.000Z (in 42s), last 2026-10-19T14:02:12.000Z"
+ */
+export function describeSchedule(entries: SourceScheduleEntry[], now = Date.now()): string[] {
+  return entries.map((entry) => {
+    const state = entry.running
+      ? 'running'
+      : entry.nextRunAt
+        ? `next run ${entry.nextRunAt.toISOString()} (in ${Math.max(0, Math.round((entry.nextRunAt.getTime() - now) / 1000))}s)`
+        : 'not scheduled';
+    const details = [
+      `last ${entry.lastRunAt ? entry.lastRunAt.toISOString() : 'never'}`,
+      entry.consecutiveFailures > 0 ? `${entry.consecutiveFailures} failures in a row` : null,
+      entry.rateLimitedUntil ? `rate limited until ${entry.rateLimitedUntil.toISOString()}` : null
+    ].filter(Boolean);
+    return `${entry.name}: ${state}, ${details.join(', ')}`;
+  });
+}
+
+const DEFAULT_MAX_CONCURRENT = 2;
+const DEFAULT_MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+interface SourceState {
+  source: ScheduledSource;
+  entry: SourceScheduleEntry;
+  timer: NodeJS.Timeout | null;
+}
+
+/**
+ * Runs each source on its own cadence instead of all of them in lockstep.
+ * Runs are jittered so sources drift apart, at most `maxConcurrent` poll at
+ * once, failures back off exponentially, and a rate-limited source waits at
+ * least as long as it was told to.
+ */
+export class SourceScheduler {
+  private states: SourceState[];
+  private maxConcurrent: number;
+  private maxBackoffMs: number;
+  private random: () => number;
+  private run: (source: ScheduledSource) => Promise<void>;
+
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private inFlight = new Set<Promise<void>>();
+  private stopped = true;
+
+  constructor(options: SourceSchedulerOptions) {
+    this.run = options.run;
+    this.maxConcurrent = Math.max(1, options.maxConcurrent ?? DEFAULT_MAX_CONCURRENT);
+    this.maxBackoffMs = options.maxBackoffMs ?? DEFAULT_MAX_BACKOFF_MS;
+    this.random = options.random ?? Math.random;
+    this.states = options.sources.map((source) => ({
+      source,
+      timer: null,
+      entry: {
+        id: source.adapter.id,
+        name: source.adapter.name,
+        pollIntervalMs: source.config.pollIntervalMs,
+        running: false,
+        lastRunAt: null,
+        nextRunAt: null,
+        consecutiveFailures: 0,
+        rateLimitedUntil: null
+      }
+    }));
+  }
+
+  /**
+   * Start every source. First runs are spread over the jitter window so a
+   * restart doesn't fire all sources in the same second.
+   */
+  start(): void {
+    if (!this.stopped) return;
+    this.stopped = false;
+
+    for (const state of this.states) {
+      const { pollIntervalMs, jitterRatio } = state.source.config;
+      this.schedule(state, this.random() * jitterRatio * pollIntervalMs);
+    }
+  }
+
+  /**
+   * Cancel pending runs and wait for the ones in progress
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    for (const state of this.states) {
+      if (state.timer) clearTimeout(state.timer);
+      state.timer = null;
+      state.entry.nextRunAt = null;
+    }
+    // Queued runs give up their turn rather than starting after a stop
+    for (const release of this.waiting.splice(0)) release();
+    await Promise.all(this.inFlight);
+  }
+
+  getSchedule(): SourceScheduleEntry[] {
+    return this.states.map((state) => ({ ...state.entry }));
+  }
+
+  private schedule(state: SourceState, delayMs: number): void {
+    if (this.stopped) return;
+
+    const delay = Math.max(0, Math.round(delayMs));
+    state.entry.nextRunAt = new Date(Date.now() + delay);
+    state.timer = setTimeout(() => {
+      state.timer = null;
+      const run = this.execute(state);
+      this.inFlight.add(run);
+      void run.finally(() => this.inFlight.delete(run));
+    }, delay);
+  }
+
+  private async execute(state: SourceState): Promise<void> {
+    await this.acquire();
+    if (this.stopped) {
+      this.release();
+      return;
+    }
+
+    const { entry, source } = state;
+    entry.running = true;
+    entry.lastRunAt = new Date();
+
+    let delayMs: number;
+    try {
+      await this.run(source);
+      entry.consecutiveFailures = 0;
+      entry.rateLimitedUntil = null;
+      delayMs = this.jittered(source.config);
+    } catch (error) {
+      delayMs = this.delayAfterError(state, error);
+    } finally {
+      entry.running = false;
+      this.release();
+    }
+
+    this.schedule(state, delayMs);
+    if (!this.stopped) {
+      console.log(`[Scheduler] ${entry.name} next run at ${entry.nextRunAt!.toISOString()} (in ${Math.round(delayMs / 1000)}s)`);
+    }
+  }
+
+  private delayAfterError(state: SourceState, error: unknown): number {
+    const { entry, source } = state;
+    entry.consecutiveFailures++;
+
+    const backoff = Math.min(
+      source.config.pollIntervalMs * Math.pow(2, entry.consecutiveFailures - 1),
+      this.maxBackoffMs
+    );
+
+    if (error instanceof RateLimitError) {
+      // Never earlier than the source asked for; jitter only ever adds to it
+      const delayMs = error.retryAfterMs !== null
+        ? Math.max(error.retryAfterMs, source.config.pollIntervalMs) + this.random() * source.config.jitterRatio * source.config.pollIntervalMs
+        : this.jittered(source.config, backoff);
+      entry.rateLimitedUntil = new Date(Date.now() + delayMs);
+      console.warn(`[Scheduler] ${entry.name} rate limited: ${error.message}`);
+      return delayMs;
+    }
+
+    console.error(`[Scheduler] ${entry.name} run failed (${entry.consecutiveFailures} in a row):`, error);
+    return this.jittered(source.config, backoff);
+  }
+
+  private jittered(config: SourceConfig, baseMs = config.pollIntervalMs): number {
+    return baseMs * (1 + (this.random() * 2 - 1) * config.jitterRatio);
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.maxConcurrent) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      this.waiting.push(() => {
+        this.active++;
+        resolve();
+      });
+    });
+  }
+
+  private release(): void {
+    this.active--;
+    this.waiting.shift()?.();
+  }
+}
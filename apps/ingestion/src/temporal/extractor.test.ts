@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { extractOccurredAt } from './extractor';
+import { timeZoneForState, zonedTime } from './time-zones';
+
+// Monday 19 October 2026, 2:30pm in Los Angeles
+const POSTED_AT = new Date('2026-10-19T21:30:00Z');
+const LA = 'America/Los_Angeles';
+
+function extract(text: string) {
+  return extractOccurredAt(text, POSTED_AT, LA);
+}
+
+function local(day: number, hour: number, minute = 0) {
+  return zonedTime(2026, 10, day, hour, minute, LA);
+}
+
+describe('extractOccurredAt', () => {
+  it('should take offsets from the post time', () => {
+    expect(extract('ICE raid at the Home Depot 2 hours ago')).toEqual({
+      occurredAt: new Date('2026-10-19T19:30:00Z'),
+      confidence: 'high',
+      rawMatch: '2 hours ago'
+    });
+    expect(extract('Redada hace 20 min en Pico Rivera')?.occurredAt).toEqual(new Date('2026-10-19T21:10:00Z'));
+    expect(extract('La migra pasó hace una hora')?.occurredAt).toEqual(new Date('2026-10-19T20:30:00Z'));
+    expect(extract('Agents left a few minutes ago')?.confidence).toBe('medium');
+    expect(extract('Estaban aquí hace un rato')?.confidence).toBe('low');
+  });
+
+  it('should place parts of the day in local time', () => {
+    expect(extract('ICE at the 7-Eleven this morning')).toMatchObject({ occurredAt: local(19, 9), confidence: 'medium' });
+    expect(extract('Ayer en la tarde la migra se llevó a dos')).toMatchObject({ occurredAt: local(18, 15), confidence: 'medium' });
+    expect(extract('Agents came to our building last night')?.occurredAt).toEqual(local(18, 22));
+    expect(extract('Anoche hubo un retén en Whittier')?.occurredAt).toEqual(local(18, 22));
+  });
+
+  it('should read clock times, weekdays and Spanish hours', () => {
+    expect(extract('They arrived at 4pm yesterday')).toMatchObject({ occurredAt: local(18, 16), confidence: 'high' });
+    expect(extract('Checkpoint since 11am on Atlantic')?.occurredAt).toEqual(local(19, 11));
+    expect(extract('ayer a las 9 de la noche')?.occurredAt).toEqual(local(18, 21));
+    expect(extract('Raid on Saturday at the car wash')).toMatchObject({ occurredAt: local(17, 12), confidence: 'low' });
+    expect(extract('El sábado en la noche detuvieron a tres')?.occurredAt).toEqual(local(17, 22));
+  });
+
+  it('should take the latest matching time for an hour without am or pm', () => {
+    expect(extract('Llegaron a las 10')).toMatchObject({ occurredAt: local(19, 10), confidence: 'medium' });
+    expect(extract('Llegaron a las 3 de la tarde')?.occurredAt).toEqual(local(18, 15));
+  });
+
+  it('should never estimate a time after the post', () => {
+    expect(extract('ICE checkpoint tonight on Figueroa')?.occurredAt).toEqual(POSTED_AT);
+    expect(extract('Agents here right now')).toMatchObject({ occurredAt: POSTED_AT, confidence: 'high' });
+  });
+
+  it('should return null when the text does not say', () => {
+    expect(extract('ICE raid today at the Home Depot')).toBeNull();
+    expect(extract('Cyber Monday protest planned outside the field office')).toBeNull();
+    expect(extract('Mañana habrá una marcha')).toBeNull();
+    expect(extract('Deported 30 days ago after a traffic stop')).toBeNull();
+    expect(extractOccurredAt('2 hours ago', new Date('not a date'))).toBeNull();
+  });
+
+  it('should work in the time zone of the report', () => {
+    const newYork = extractOccurredAt('this morning', POSTED_AT, timeZoneForState('New York'));
+
+    expect(newYork?.occurredAt).toEqual(new Date('2026-10-19T13:00:00Z'));
+    expect(timeZoneForState('CA')).toBe(LA);
+    expect(timeZoneForState(null)).toBe('America/Chicago');
+  });
+});
@@ -0,0 +1,279 @@
+import { DEFAULT_TIME_ZONE, wallTime, zonedTime } from './time-zones.js';
+
+/**
+ * Event-time extraction. A post's timestamp is when it was written, but
+ * posts often say when the activity happened: "2 hours ago", "this
+ * morning", "ayer en la tarde", "on Tuesday". This estimates that time
+ * from English and Spanish expressions, in the local time of the place
+ * the report is about, and says how precise the estimate is.
+ */
+
+export interface ExtractedTime {
+  occurredAt: Date;
+  /** high: an offset or clock time; medium: a part of the day or vague offset; low: only the day */
+  confidence: 'high' | 'medium' | 'low';
+  /** The expressions it was estimated from */
+  rawMatch: string;
+}
+
+// Expressions pointing further back than this are more likely about
+// something other than the activity being reported
+const MAX_LOOKBACK_DAYS = 7;
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, fifteen: 15, twenty: 20, thirty: 30, forty: 40, 'forty-five': 45,
+  un: 1, una: 1, uno: 1, dos: 2, tres: 3, cuatro: 4, cinco: 5, seis: 6, siete: 7, ocho: 8, nueve: 9,
+  diez: 10, once: 11, doce: 12, quince: 15, veinte: 20, treinta: 30, cuarenta: 40
+};
+
+// Counts that only say "some": a few minutes, unos minutos
+const VAGUE_COUNTS: Record<string, number> = {
+  'a few': 3, few: 3, 'a couple of': 2, 'a couple': 2, several: 3, unos: 3, unas: 3, 'un par de': 2
+};
+
+const COUNT = `\\d{1,3}|${[...Object.keys(VAGUE_COUNTS), ...Object.keys(NUMBER_WORDS)].join('|')}`;
+const UNIT = 'minutes?|mins?|m|hours?|hrs?|hr|h|days?|minutos?|horas?|dias?';
+
+const RELATIVE_PATTERNS = [
+  new RegExp(`\\b(${COUNT})\\s*(${UNIT})\\s+ago\\b`),
+  new RegExp(`\\bhace\\s+(${COUNT})\\s*(${UNIT})\\b`)
+];
+const HALF_HOUR_PATTERN = /\b(?:half an hour ago|hace media hora)\b/;
+const WHILE_AGO_PATTERN = /\b(?:a (?:little )?while ago|a bit ago|hace (?:un )?(?:rato|ratito))\b/;
+
+const NOW_PATTERN = /\b(?:right now|just now|happening now|as we speak|at this moment|ahora mismo|ahorita|justo ahora|en este momento)\b/;
+
+const WEEKDAY_NAMES: [RegExp, number][] = [
+  [/^(?:sunday|domingo)$/, 0], [/^(?:monday|lunes)$/, 1], [/^(?:tuesday|martes)$/, 2],
+  [/^(?:wednesday|miercoles)$/, 3], [/^(?:thursday|jueves)$/, 4], [/^(?:friday|viernes)$/, 5],
+  [/^(?:saturday|sabado)$/, 6]
+];
+const WEEKDAY = 'sunday|monday|tuesday|wednesday|thursday|friday|saturday|domingo|lunes|martes|miercoles|jueves|viernes|sabado';
+
+// Bare weekday names turn up in other senses ("Cyber Monday"), so they
+// need "on", "last", "el" or a part of the day next to them
+const WEEKDAY_PATTERNS = [
+  new RegExp(`\\b(?:on|last|this past|since)\\s+(${WEEKDAY})\\b`),
+  new RegExp(`\\b(?:el|este)\\s+(${WEEKDAY})\\b`),
+  new RegExp(`\\b(${WEEKDAY})\\s+(?:morning|afternoon|evening|night|(?:en|por) la (?:manana|tarde|noche|madrugada))\\b`)
+];
+
+const DAY_PATTERNS: [RegExp, number][] = [
+  [/\b(?:day before yesterday|anteayer|antier|antes de ayer)\b/, 2],
+  [/\b(?:yesterday|last night|ayer|anoche)\b/, 1],
+  [/\b(?:today|tonight|this (?:morning|afternoon|evening)|hoy|esta (?:manana|tarde|noche|madrugada))\b/, 0]
+];
+
+// Hour taken as the middle of each part of the day
+const ES_PART = '(?:esta|en la|por la|de la)';
+const PARTS_OF_DAY: [RegExp, number][] = [
+  [new RegExp(`\\b(?:(?:this|yesterday|early|in the|${WEEKDAY}) morning|${ES_PART} manana)\\b`), 9],
+  [new RegExp(`\\b(?:(?:this|yesterday|in the|${WEEKDAY}) afternoon|${ES_PART} tarde)\\b`), 15],
+  [new RegExp(`\\b(?:this|yesterday|in the|${WEEKDAY}) evening\\b`), 19],
+  [new RegExp(`\\b(?:tonight|last night|(?:yesterday|${WEEKDAY}) night|anoche|${ES_PART} noche)\\b`), 22],
+  [new RegExp(`\\b(?:${ES_PART} madrugada|early hours)\\b`), 3]
+];
+
+const CLOCK_12H = /\b(?:at|around|about|since|by|a las?)?\s*(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)(?=\W|$)/;
+const CLOCK_24H = /\b(?:at|around|about|since|a las?)\s+(\d{1,2}):(\d{2})\b/;
+// "a las 3" needs "de la tarde" or the post's own time to say which 3
+const CLOCK_ES = /\ba las?\s+(\d{1,2})(?!\s*(?::|am|pm|a\.m\.|p\.m\.))\b/;
+const NOON_PATTERN = /\b(?:at|around) noon\b|\bal mediodia\b/;
+
+interface Match {
+  raw: string;
+}
+
+interface DayMatch extends Match {
+  /** Days before the post's local date */
+  daysBack: number;
+}
+
+interface ClockMatch extends Match {
+  hour: number;
+  minute: number;
+  /** No am/pm: could be either half of the day */
+  ambiguous: boolean;
+}
+
+/**
+ * Lowercase and drop accents, so "mañana" and "manana", "miércoles" and
+ * "miercoles" match the same patterns
+ */
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().replace(/\s+/g, ' ');
+}
+
+function countValue(word: string): { value: number; vague: boolean } | null {
+  if (/^\d+$/.test(word)) return { value: parseInt(word, 10), vague: false };
+  if (word in VAGUE_COUNTS) return { value: VAGUE_COUNTS[word], vague: true };
+  if (word in NUMBER_WORDS) return { value: NUMBER_WORDS[word], vague: false };
+  return null;
+}
+
+function unitMs(unit: string): number {
+  if (/^(?:d|dias?|days?)$/.test(unit)) return DAY_MS;
+  if (/^(?:h|hrs?|hr|hours?|horas?)$/.test(unit)) return HOUR_MS;
+  return MINUTE_MS;
+}
+
+/**
+ * "2 hours ago", "hace 20 min", "hace un rato": an offset from the post
+ */
+function relativeTime(text: string, postedAt: Date): ExtractedTime | null {
+  for (const pattern of RELATIVE_PATTERNS) {
+    const match = text.match(pattern);
+    const count = match && countValue(match[1]);
+    if (!match || !count) continue;
+
+    const unit = unitMs(match[2]);
+    return {
+      occurredAt: new Date(postedAt.getTime() - count.value * unit),
+      confidence: unit === DAY_MS ? 'low' : count.vague ? 'medium' : 'high',
+      rawMatch: match[0]
+    };
+  }
+
+  const halfHour = text.match(HALF_HOUR_PATTERN);
+  if (halfHour) {
+    return { occurredAt: new Date(postedAt.getTime() - 30 * MINUTE_MS), confidence: 'high', rawMatch: halfHour[0] };
+  }
+
+  const whileAgo = text.match(WHILE_AGO_PATTERN);
+  if (whileAgo) {
+    return { occurredAt: new Date(postedAt.getTime() - 30 * MINUTE_MS), confidence: 'low', rawMatch: whileAgo[0] };
+  }
+
+  return null;
+}
+
+function dayOf(text: string, postedWeekday: number): DayMatch | null {
+  for (const pattern of WEEKDAY_PATTERNS) {
+    const match = text.match(pattern);
+    if (!match) continue;
+    const weekday = WEEKDAY_NAMES.find(([name]) => name.test(match[1]))![1];
+    return { raw: match[0], daysBack: (postedWeekday - weekday + 7) % 7 };
+  }
+
+  for (const [pattern, daysBack] of DAY_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) return { raw: match[0], daysBack };
+  }
+  return null;
+}
+
+function partOfDay(text: string): (Match & { hour: number }) | null {
+  for (const [pattern, hour] of PARTS_OF_DAY) {
+    const match = text.match(pattern);
+    if (match) return { raw: match[0], hour };
+  }
+  return null;
+}
+
+function clockTime(text: string): ClockMatch | null {
+  const twelveHour = text.match(CLOCK_12H);
+  if (twelveHour) {
+    const hour = parseInt(twelveHour[1], 10);
+    const minute = twelveHour[2] ? parseInt(twelveHour[2], 10) : 0;
+    if (hour >= 1 && hour <= 12 && minute < 60) {
+      const pm = twelveHour[3].startsWith('p');
+      return { raw: twelveHour[0].trim(), hour: (hour % 12) + (pm ? 12 : 0), minute, ambiguous: false };
+    }
+  }
+
+  const twentyFourHour = text.match(CLOCK_24H);
+  if (twentyFourHour) {
+    const hour = parseInt(twentyFourHour[1], 10);
+    const minute = parseInt(twentyFourHour[2], 10);
+    if (hour < 24 && minute < 60) {
+      return { raw: twentyFourHour[0], hour, minute, ambiguous: hour <= 12 };
+    }
+  }
+
+  const spanish = text.match(CLOCK_ES);
+  if (spanish) {
+    const hour = parseInt(spanish[1], 10);
+    if (hour >= 1 && hour <= 12) return { raw: spanish[0], hour, minute: 0, ambiguous: true };
+  }
+
+  const noon = text.match(NOON_PATTERN);
+  if (noon) return { raw: noon[0], hour: 12, minute: 0, ambiguous: false };
+
+  return null;
+}
+
+/**
+ * When the activity a post describes happened, or null if the text doesn't
+ * say. Never later than the post, and never more than a week before it.
+ * `timeZone` is where the activity took place; see timeZoneForState.
+ */
+export function extractOccurredAt(
+  text: string,
+  postedAt: Date,
+  timeZone: string = DEFAULT_TIME_ZONE
+): ExtractedTime | null {
+  if (Number.isNaN(postedAt.getTime())) return null;
+
+  const normalized = normalize(text);
+  const relative = relativeTime(normalized, postedAt);
+  if (relative) {
+    return postedAt.getTime() - relative.occurredAt.getTime() <= MAX_LOOKBACK_DAYS * DAY_MS ? relative : null;
+  }
+
+  const local = wallTime(postedAt, timeZone);
+  const day = dayOf(normalized, local.weekday);
+  const part = partOfDay(normalized);
+  const clock = clockTime(normalized);
+
+  if (!day && !part && !clock) {
+    const now = normalized.match(NOW_PATTERN);
+    return now ? { occurredAt: postedAt, confidence: 'high', rawMatch: now[0] } : null;
+  }
+
+  const rawMatch = [...new Set([day?.raw, part?.raw, clock?.raw].filter(Boolean))].join(', ');
+  const at = (daysBack: number, hour: number, minute: number) =>
+    zonedTime(local.year, local.month, local.day - daysBack, hour, minute, timeZone);
+
+  // A clock time without a day is the latest one not after the post,
+  // including either half of the day for "a las 3"
+  if (clock && !day) {
+    const hours = clock.ambiguous && !part
+      ? [clock.hour % 12, (clock.hour % 12) + 12]
+      : [resolveHour(clock, part?.hour)];
+    const candidates = [0, 1].flatMap((daysBack) => hours.map((hour) => at(daysBack, hour, clock.minute)));
+    const occurredAt = candidates
+      .filter((candidate) => candidate.getTime() <= postedAt.getTime())
+      .reduce((latest, candidate) => (candidate > latest ? candidate : latest));
+    return { occurredAt, confidence: clock.ambiguous && !part ? 'medium' : 'high', rawMatch };
+  }
+
+  // Only "today" says nothing the post time doesn't already
+  if (!clock && !part && day!.daysBack === 0) return null;
+
+  const daysBack = day?.daysBack ?? 0;
+  const estimate = clock
+    ? at(daysBack, resolveHour(clock, part?.hour), clock.minute)
+    : part
+      ? at(daysBack, part.hour, 0)
+      : at(daysBack, 12, 0);
+  const confidence = clock ? (clock.ambiguous && !part ? 'medium' : 'high') : part ? 'medium' : 'low';
+
+  // "This morning" posted at 8am, "tonight" posted at 8pm: it's happening now
+  const occurredAt = estimate.getTime() > postedAt.getTime() ? postedAt : estimate;
+  return { occurredAt, confidence, rawMatch };
+}
+
+/**
+ * An hour without am/pm, placed in the half of the day the part of day
+ * points to: "a las 3 de la tarde" is 15:00, "a las 10 de la noche" 22:00
+ */
+function resolveHour(clock: ClockMatch, partHour: number | undefined): number {
+  if (!clock.ambiguous || partHour === undefined) return clock.hour;
+  const hour = clock.hour % 12;
+  return partHour >= 12 && hour < 12 ? hour + 12 : hour;
+}
@@ -0,0 +1,106 @@
+import { normalizeState } from '@ice-activity-map/geo';
+
+/**
+ * Local wall-clock time for the places reports come from. "This morning"
+ * in a post from Los Angeles is a different instant from one in New York,
+ * so the event-time extractor works in the time zone of the report's state.
+ */
+
+// The zone most of each state's population lives in; states split across
+// two zones get the larger side
+const STATE_TIME_ZONES: Record<string, string> = {
+  CT: 'America/New_York', DE: 'America/New_York', DC: 'America/New_York', FL: 'America/New_York',
+  GA: 'America/New_York', KY: 'America/New_York', ME: 'America/New_York', MD: 'America/New_York',
+  MA: 'America/New_York', NH: 'America/New_York', NJ: 'America/New_York', NY: 'America/New_York',
+  NC: 'America/New_York', OH: 'America/New_York', PA: 'America/New_York', RI: 'America/New_York',
+  SC: 'America/New_York', VT: 'America/New_York', VA: 'America/New_York', WV: 'America/New_York',
+  MI: 'America/Detroit', IN: 'America/Indiana/Indianapolis',
+  AL: 'America/Chicago', AR: 'America/Chicago', IL: 'America/Chicago', IA: 'America/Chicago',
+  KS: 'America/Chicago', LA: 'America/Chicago', MN: 'America/Chicago', MS: 'America/Chicago',
+  MO: 'America/Chicago', NE: 'America/Chicago', ND: 'America/Chicago', OK: 'America/Chicago',
+  SD: 'America/Chicago', TN: 'America/Chicago', TX: 'America/Chicago', WI: 'America/Chicago',
+  CO: 'America/Denver', ID: 'America/Boise', MT: 'America/Denver', NM: 'America/Denver',
+  UT: 'America/Denver', WY: 'America/Denver', AZ: 'America/Phoenix',
+  CA: 'America/Los_Angeles', NV: 'America/Los_Angeles', OR: 'America/Los_Angeles', WA: 'America/Los_Angeles',
+  AK: 'America/Anchorage', HI: 'Pacific/Honolulu', PR: 'America/Puerto_Rico'
+};
+
+/** Used when a report has no state: the middle of the continental US, at most two hours off */
+export const DEFAULT_TIME_ZONE = 'America/Chicago';
+
+/**
+ * IANA time zone for a state name or abbreviation
+ */
+export function timeZoneForState(state: string | null | undefined): string {
+  if (!state) return DEFAULT_TIME_ZONE;
+  return STATE_TIME_ZONES[normalizeState(state)] ?? DEFAULT_TIME_ZONE;
+}
+
+export interface WallTime {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  /** 0 = Sunday */
+  weekday: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(timeZone: string): Intl.DateTimeFormat {
+  let format = formatters.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short'
+    });
+    formatters.set(timeZone, format);
+  }
+  return format;
+}
+
+/**
+ * What a clock in `timeZone` showed at an instant
+ */
+export function wallTime(instant: Date, timeZone: string): WallTime {
+  const parts: Record<string, string> = {};
+  for (const part of formatter(timeZone).formatToParts(instant)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday)
+  };
+}
+
+function offsetMs(instant: number, timeZone: string): number {
+  const local = wallTime(new Date(instant), timeZone);
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+  return asUtc - Math.floor(instant / 60_000) * 60_000;
+}
+
+/**
+ * The instant a clock in `timeZone` shows the given date and time. Days
+ * and hours out of range roll over, so `day - 1` is the day before.
+ */
+export function zonedTime(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): Date {
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+  // Correct twice so times next to a daylight saving change land on the right side
+  let instant = asUtc - offsetMs(asUtc, timeZone);
+  instant = asUtc - offsetMs(instant, timeZone);
+  return new Date(instant);
+}
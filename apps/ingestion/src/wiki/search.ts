@@ -1,4 +1,5 @@
 import { createHash } from "crypto";
+import { checkRateLimit } from "../sources/rate-limit.js";
 
 const WIKI_RAW_URL =
   "https://wiki.icelist.is/index.php?title=ICE_List:News&action=raw";
@@ -101,6 +102,8 @@ export async function searchWiki(): Promise<WikiArticle[]> {
     headers: { "User-Agent": "ICEActivityMap/1.0" },
   });
 
+  checkRateLimit("Wiki", response);
+
   if (!response.ok) {
     throw new Error(`Wiki fetch failed: HTTP ${response.status}`);
   }
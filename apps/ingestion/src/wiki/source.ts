@@ -0,0 +1,16 @@
+import { searchWiki, type WikiArticle } from "./search.js";
+import { normalizeWikiArticle } from "../pipeline/normalize.js";
+import type { SourceAdapter } from "../sources/adapter.js";
+
+// A single page fetch per poll, so there is nothing to space out
+export const wikiSource: SourceAdapter<WikiArticle> = {
+  id: "wiki",
+  name: "Wiki",
+  shortName: "W",
+  icon: "📋",
+  category: "news",
+  defaultPollIntervalMs: 30 * 60_000,
+  rateLimit: { requestDelayMs: 0, maxConcurrency: 1 },
+  fetch: () => searchWiki(),
+  normalize: normalizeWikiArticle,
+};
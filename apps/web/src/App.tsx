@@ -27,7 +27,9 @@ function AppContent() {
   const [colorByActivity, setColorByActivity] = useState(false);
   const [filters, setFilters] = useState<FilterState>({
     timeRange: 'all',
-    activityTypes: ALL_ACTIVITY_TYPES
+    activityTypes: ALL_ACTIVITY_TYPES,
+    postLanguage: 'all',
+    hideCityLevel: false
   });
   const [mapCenter, setMapCenter] = useState<{ lat: number; lng: number } | null>(null);
   const [listPanelOpen, setListPanelOpen] = useState(false);
@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useI18n } from '../../i18n';
+import { LabelActions } from './LabelActions';
 
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
 
@@ -33,11 +34,27 @@ interface ModerationLogEntry {
   };
 }
 
+interface ReportLabel {
+  id: string;
+  reportId: string | null;
+  label: 'not_sighting' | 'wrong_location' | 'wrong_activity_type';
+  text: string;
+  sourceType: string;
+  reportedCity: string | null;
+  reportedState: string | null;
+  reportedActivityType: string | null;
+  correctedCity: string | null;
+  correctedState: string | null;
+  correctedActivityType: string | null;
+  moderator: string;
+  createdAt: string;
+}
+
 interface AdminDashboardProps {
   onClose: () => void;
 }
 
-type Tab = 'queue' | 'flagged' | 'log';
+type Tab = 'queue' | 'flagged' | 'log' | 'labels';
 
 export function AdminDashboard({ onClose }: AdminDashboardProps) {
   const { t } = useI18n();
@@ -48,6 +65,7 @@ export function AdminDashboard({ onClose }: AdminDashboardProps) {
   const [queue, setQueue] = useState<QueueReport[]>([]);
   const [flagged, setFlagged] = useState<QueueReport[]>([]);
   const [log, setLog] = useState<ModerationLogEntry[]>([]);
+  const [labels, setLabels] = useState<ReportLabel[]>([]);
   const [loading, setLoading] = useState(false);
   const modalRef = useRef<HTMLDivElement>(null);
   const previousFocusRef = useRef<HTMLElement | null>(null);
@@ -154,13 +172,53 @@ export function AdminDashboard({ onClose }: AdminDashboardProps) {
     }
   }, [adminKey]);
 
+  const fetchLabels = useCallback(async () => {
+    if (!adminKey) return;
+    setLoading(true);
+    try {
+      const response = await fetch(`${API_URL}/api/moderation/labels`, {
+        headers: { 'X-Admin-Key': adminKey }
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setLabels(data.labels || []);
+      }
+    } catch (err) {
+      console.error('Error fetching labels:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [adminKey]);
+
   useEffect(() => {
     if (isAuthenticated) {
       if (activeTab === 'queue') fetchQueue();
       else if (activeTab === 'flagged') fetchFlagged();
       else if (activeTab === 'log') fetchLog();
+      else if (activeTab === 'labels') fetchLabels();
     }
-  }, [isAuthenticated, activeTab, fetchQueue, fetchFlagged, fetchLog]);
+  }, [isAuthenticated, activeTab, fetchQueue, fetchFlagged, fetchLog, fetchLabels]);
+
+  // The export needs the admin key header, so fetch it and save the blob
+  const handleExportLabels = async () => {
+    try {
+      const response = await fetch(`${API_URL}/api/moderation/labels/export`, {
+        headers: { 'X-Admin-Key': adminKey }
+      });
+      if (!response.ok) return;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `moderator-labels-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error exporting labels:', err);
+    }
+  };
+
+  const formatLocation = (city: string | null, state: string | null) =>
+    [city, state].filter(Boolean).join(', ') || '—';
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -360,6 +418,19 @@ export function AdminDashboard({ onClose }: AdminDashboardProps) {
             >
               {t.admin?.moderationLog || 'Moderation Log'}
             </button>
+            <button
+              onClick={() => setActiveTab('labels')}
+              role="tab"
+              aria-selected={activeTab === 'labels'}
+              aria-controls="labels-panel"
+              className={`py-3 px-1 border-b-2 font-medium text-sm transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-inset ${
+                activeTab === 'labels'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {t.admin?.labels || 'Labels'}
+            </button>
           </div>
         </div>
 
@@ -426,6 +497,7 @@ export function AdminDashboard({ onClose }: AdminDashboardProps) {
                         </button>
                       </div>
                     </div>
+                    <LabelActions reportId={report.id} adminKey={adminKey} />
                   </div>
                 ))
               )}
@@ -484,6 +556,7 @@ export function AdminDashboard({ onClose }: AdminDashboardProps) {
                         </button>
                       </div>
                     </div>
+                    <LabelActions reportId={report.id} adminKey={adminKey} />
                   </div>
                 ))
               )}
@@ -531,6 +604,60 @@ export function AdminDashboard({ onClose }: AdminDashboardProps) {
               )}
             </div>
           )}
+
+          {/* Labels Tab */}
+          {activeTab === 'labels' && !loading && (
+            <div className="space-y-3">
+              <div className="flex justify-end">
+                <button
+                  onClick={handleExportLabels}
+                  disabled={labels.length === 0}
+                  className="px-3 py-1.5 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {t.admin?.exportLabels || 'Export for evaluation corpus'}
+                </button>
+              </div>
+              {labels.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  {t.admin?.noLabels || 'No labels yet'}
+                </div>
+              ) : (
+                labels.map((entry) => (
+                  <div
+                    key={entry.id}
+                    className="border rounded-lg p-3 text-sm"
+                  >
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="font-medium text-gray-900">
+                        {entry.label === 'not_sighting' && (t.admin?.notSighting || 'Not a sighting')}
+                        {entry.label === 'wrong_location' && (t.admin?.wrongLocation || 'Wrong location')}
+                        {entry.label === 'wrong_activity_type' && (t.admin?.wrongActivityType || 'Wrong activity type')}
+                      </span>
+                      {entry.label === 'wrong_location' && (
+                        <span className="text-gray-500">
+                          {formatLocation(entry.reportedCity, entry.reportedState)} → {formatLocation(entry.correctedCity, entry.correctedState)}
+                        </span>
+                      )}
+                      {entry.label === 'wrong_activity_type' && (
+                        <span className="text-gray-500">
+                          {entry.reportedActivityType} → {entry.correctedActivityType}
+                        </span>
+                      )}
+                      <span className="text-gray-400 ml-auto">
+                        {formatDate(entry.createdAt)}
+                      </span>
+                    </div>
+                    <p className="text-gray-600 truncate">
+                      {entry.text}
+                    </p>
+                    <p className="text-gray-500 text-xs mt-1">
+                      {entry.sourceType} · {entry.moderator}
+                    </p>
+                  </div>
+                ))
+              )}
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,171 @@
+import { useState } from 'react';
+import { useI18n, getActivityTypeLabel, ACTIVITY_TYPE_KEYS } from '../../i18n';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+
+type LabelKind = 'not_sighting' | 'wrong_location' | 'wrong_activity_type';
+
+interface LabelActionsProps {
+  reportId: string;
+  adminKey: string;
+}
+
+/**
+ * Lets a moderator mark what the pipeline got wrong about a report. Labels
+ * end up in the evaluation corpus, so they don't change the report itself.
+ */
+export function LabelActions({ reportId, adminKey }: LabelActionsProps) {
+  const { t, language } = useI18n();
+  const [editing, setEditing] = useState<LabelKind | null>(null);
+  const [labeled, setLabeled] = useState<LabelKind[]>([]);
+  const [city, setCity] = useState('');
+  const [state, setState] = useState('');
+  const [activityType, setActivityType] = useState<string>(ACTIVITY_TYPE_KEYS[0]);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const submitLabel = async (label: LabelKind, corrections: Record<string, string | undefined> = {}) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`${API_URL}/api/moderation/reports/${reportId}/labels`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Admin-Key': adminKey
+        },
+        body: JSON.stringify({ label, moderator: 'admin', ...corrections })
+      });
+      if (response.ok) {
+        setLabeled((previous) => previous.includes(label) ? previous : [...previous, label]);
+        setEditing(null);
+      } else {
+        const data = await response.json().catch(() => ({}));
+        setError(data.error || 'Failed to save label');
+      }
+    } catch (err) {
+      console.error('Error labeling report:', err);
+      setError('Failed to save label');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const buttonClass = (label: LabelKind) =>
+    `px-2 py-1 text-xs rounded border focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 ${
+      labeled.includes(label)
+        ? 'border-blue-300 bg-blue-50 text-blue-700'
+        : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+    }`;
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-200">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-gray-500">{t.admin?.labelAs || 'Label as'}:</span>
+        <button
+          onClick={() => submitLabel('not_sighting')}
+          disabled={saving}
+          className={buttonClass('not_sighting')}
+        >
+          {t.admin?.notSighting || 'Not a sighting'}
+        </button>
+        <button
+          onClick={() => setEditing(editing === 'wrong_location' ? null : 'wrong_location')}
+          disabled={saving}
+          aria-expanded={editing === 'wrong_location'}
+          className={buttonClass('wrong_location')}
+        >
+          {t.admin?.wrongLocation || 'Wrong location'}
+        </button>
+        <button
+          onClick={() => setEditing(editing === 'wrong_activity_type' ? null : 'wrong_activity_type')}
+          disabled={saving}
+          aria-expanded={editing === 'wrong_activity_type'}
+          className={buttonClass('wrong_activity_type')}
+        >
+          {t.admin?.wrongActivityType || 'Wrong activity type'}
+        </button>
+        {labeled.length > 0 && (
+          <span className="text-xs text-blue-700" aria-live="polite">
+            {t.admin?.labeled || 'Labeled'}
+          </span>
+        )}
+      </div>
+
+      {editing === 'wrong_location' && (
+        <form
+          className="flex flex-wrap items-center gap-2 mt-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            submitLabel('wrong_location', {
+              correctedCity: city.trim() || undefined,
+              correctedState: state.trim() || undefined
+            });
+          }}
+        >
+          <input
+            type="text"
+            value={city}
+            onChange={(e) => setCity(e.target.value)}
+            placeholder={t.form.city}
+            aria-label={t.form.city}
+            className="border border-gray-300 rounded px-2 py-1 text-sm w-40"
+          />
+          <input
+            type="text"
+            value={state}
+            onChange={(e) => setState(e.target.value)}
+            placeholder="ST"
+            aria-label={t.form.state}
+            maxLength={2}
+            className="border border-gray-300 rounded px-2 py-1 text-sm w-14 uppercase"
+          />
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            {t.admin?.saveLabel || 'Save label'}
+          </button>
+          <span className="text-xs text-gray-500">
+            {t.admin?.noPlaceHint || 'Leave both empty if the text names no place'}
+          </span>
+        </form>
+      )}
+
+      {editing === 'wrong_activity_type' && (
+        <form
+          className="flex flex-wrap items-center gap-2 mt-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            submitLabel('wrong_activity_type', { correctedActivityType: activityType });
+          }}
+        >
+          <select
+            value={activityType}
+            onChange={(e) => setActivityType(e.target.value)}
+            aria-label={t.admin?.wrongActivityType || 'Wrong activity type'}
+            className="border border-gray-300 rounded px-2 py-1 text-sm"
+          >
+            {ACTIVITY_TYPE_KEYS.map((type) => (
+              <option key={type} value={type}>
+                {getActivityTypeLabel(type, language)}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            {t.admin?.saveLabel || 'Save label'}
+          </button>
+        </form>
+      )}
+
+      {error && (
+        <p className="text-xs text-red-600 mt-2" role="alert">{error}</p>
+      )}
+    </div>
+  );
+}
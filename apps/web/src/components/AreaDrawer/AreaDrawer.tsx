@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { MapContainer, TileLayer, Polygon, Polyline, CircleMarker, useMapEvents } from 'react-leaflet';
+import { useI18n } from '../../i18n';
+
+/**
+ * GeoJSON polygon in [longitude, latitude] order, as the API expects
+ */
+export interface AreaPolygon {
+  type: 'Polygon';
+  coordinates: number[][][];
+}
+
+export const MAX_AREAS = 10;
+
+export type AreaMode = 'radius' | 'draw';
+
+interface AreaDrawerProps {
+  areas: AreaPolygon[];
+  onChange: (areas: AreaPolygon[]) => void;
+  latitude?: number;
+  longitude?: number;
+}
+
+// Center of continental US
+const US_CENTER: [number, number] = [39.8283, -98.5795];
+
+const AREA_STYLE = { color: '#2563eb', weight: 2, fillOpacity: 0.15 };
+const DRAFT_STYLE = { color: '#dc2626', weight: 2, dashArray: '4 4' };
+
+// Leaflet works in [lat, lng], GeoJSON in [lng, lat]
+function toLatLngs(ring: number[][]): [number, number][] {
+  return ring.map(([lng, lat]) => [lat, lng]);
+}
+
+function ClickToAddPoint({ onAdd }: { onAdd: (point: [number, number]) => void }) {
+  useMapEvents({
+    click(e) {
+      onAdd([e.latlng.lat, e.latlng.lng]);
+    }
+  });
+  return null;
+}
+
+export function AreaDrawer({ areas, onChange, latitude, longitude }: AreaDrawerProps) {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<[number, number][]>([]);
+
+  const canAddArea = areas.length < MAX_AREAS;
+  const center: [number, number] = latitude && longitude ? [latitude, longitude] : US_CENTER;
+
+  const finishArea = () => {
+    if (draft.length < 3 || !canAddArea) return;
+    const ring = draft.map(([lat, lng]) => [lng, lat]);
+    ring.push([...ring[0]]);
+    onChange([...areas, { type: 'Polygon', coordinates: [ring] }]);
+    setDraft([]);
+  };
+
+  const undo = () => {
+    if (draft.length > 0) {
+      setDraft(draft.slice(0, -1));
+    } else if (areas.length > 0) {
+      onChange(areas.slice(0, -1));
+    }
+  };
+
+  const clear = () => {
+    setDraft([]);
+    onChange([]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-500">{t.drawAreaHint}</p>
+
+      <div className="h-56 rounded-lg overflow-hidden border border-gray-300">
+        <MapContainer
+          center={center}
+          zoom={latitude && longitude ? 10 : 4}
+          className="h-full w-full"
+          doubleClickZoom={false}
+        >
+          <TileLayer
+            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+          />
+          {canAddArea && <ClickToAddPoint onAdd={(point) => setDraft([...draft, point])} />}
+
+          {areas.map((area, i) => (
+            <Polygon key={i} positions={toLatLngs(area.coordinates[0])} pathOptions={AREA_STYLE} />
+          ))}
+
+          {draft.length > 1 && <Polyline positions={draft} pathOptions={DRAFT_STYLE} />}
+          {draft.map((point, i) => (
+            <CircleMarker key={i} center={point} radius={4} pathOptions={{ color: '#dc2626', fillOpacity: 1 }} />
+          ))}
+        </MapContainer>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={finishArea}
+          disabled={draft.length < 3}
+          className="px-3 py-1.5 bg-blue-600 text-white rounded text-xs font-medium hover:bg-blue-700 disabled:opacity-50"
+        >
+          {t.finishArea}
+        </button>
+        <button
+          type="button"
+          onClick={undo}
+          disabled={draft.length === 0 && areas.length === 0}
+          className="px-3 py-1.5 bg-gray-100 text-gray-700 rounded text-xs font-medium hover:bg-gray-200 disabled:opacity-50"
+        >
+          {t.undoPoint}
+        </button>
+        <button
+          type="button"
+          onClick={clear}
+          disabled={draft.length === 0 && areas.length === 0}
+          className="px-3 py-1.5 bg-gray-100 text-gray-700 rounded text-xs font-medium hover:bg-gray-200 disabled:opacity-50"
+        >
+          {t.clearAreas}
+        </button>
+        <span className="ml-auto text-xs text-gray-500">
+          {areas.length}/{MAX_AREAS}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+interface AreaModeToggleProps {
+  mode: AreaMode;
+  onChange: (mode: AreaMode) => void;
+}
+
+/**
+ * Switch between a radius around the current location and drawn areas
+ */
+export function AreaModeToggle({ mode, onChange }: AreaModeToggleProps) {
+  const { t } = useI18n();
+  const options: { value: AreaMode; label: string }[] = [
+    { value: 'radius', label: t.areaModeRadius },
+    { value: 'draw', label: t.areaModeDraw }
+  ];
+
+  return (
+    <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+      {options.map((option) => (
+        <button
+          key={option.value}
+          type="button"
+          onClick={() => onChange(option.value)}
+          aria-pressed={mode === option.value}
+          className={`flex-1 px-3 py-1.5 ${
+            mode === option.value ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { useI18n } from '../../i18n';
 import { ActivityType } from '../../types/report';
+import { AreaDrawer, AreaModeToggle, type AreaMode, type AreaPolygon } from '../AreaDrawer/AreaDrawer';
 
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
 
@@ -12,11 +13,27 @@ interface EmailSubscriptionProps {
 
 const ALL_ACTIVITY_TYPES: ActivityType[] = ['raid', 'checkpoint', 'arrest', 'surveillance', 'other'];
 
+type Frequency = 'instant' | 'daily' | 'weekly';
+
+const FREQUENCY_OPTIONS: { value: Frequency; label: string; description: string }[] = [
+  { value: 'instant', label: 'Instant', description: 'One email per report' },
+  { value: 'daily', label: 'Daily', description: 'One summary a day' },
+  { value: 'weekly', label: 'Weekly', description: 'One summary a week' }
+];
+
+function formatHour(hour: number): string {
+  return new Date(2000, 0, 1, hour).toLocaleTimeString([], { hour: 'numeric' });
+}
+
 export function EmailSubscription({ onClose, latitude, longitude }: EmailSubscriptionProps) {
   const { t } = useI18n();
   const [email, setEmail] = useState('');
   const [radiusKm, setRadiusKm] = useState(50);
+  const [areaMode, setAreaMode] = useState<AreaMode>('radius');
+  const [areas, setAreas] = useState<AreaPolygon[]>([]);
   const [activityTypes, setActivityTypes] = useState<ActivityType[]>(ALL_ACTIVITY_TYPES);
+  const [frequency, setFrequency] = useState<Frequency>('instant');
+  const [sendHour, setSendHour] = useState(8);
   const [submitting, setSubmitting] = useState(false);
   const [success, setSuccess] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -43,6 +60,11 @@ export function EmailSubscription({ onClose, latitude, longitude }: EmailSubscri
       return;
     }
 
+    if (areaMode === 'draw' && areas.length === 0) {
+      setError('Draw at least one area on the map');
+      return;
+    }
+
     setSubmitting(true);
 
     try {
@@ -51,10 +73,13 @@ export function EmailSubscription({ onClose, latitude, longitude }: EmailSubscri
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           email,
-          latitude,
-          longitude,
-          radiusKm,
-          activityTypes
+          ...(areaMode === 'radius'
+            ? { latitude, longitude, radiusKm }
+            : { areas }),
+          activityTypes,
+          frequency,
+          sendHour,
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone
         })
       });
 
@@ -106,7 +131,7 @@ export function EmailSubscription({ onClose, latitude, longitude }: EmailSubscri
 
   return (
     <div className="fixed inset-0 bg-black/50 z-[2000] flex items-center justify-center p-4">
-      <div className="bg-white rounded-xl shadow-2xl max-w-md w-full">
+      <div className="bg-white rounded-xl shadow-2xl max-w-md w-full max-h-[90vh] overflow-y-auto">
         {/* Header */}
         <div className="border-b px-6 py-4 flex items-center justify-between">
           <h2 className="text-lg font-bold text-gray-900">
@@ -136,32 +161,41 @@ export function EmailSubscription({ onClose, latitude, longitude }: EmailSubscri
             />
           </div>
 
-          {/* Location info */}
-          {latitude && longitude && (
-            <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 text-sm text-blue-800">
-              <strong>Location:</strong> {latitude.toFixed(4)}, {longitude.toFixed(4)}
-              <br />
-              <span className="text-blue-600">Alerts will be sent for activity near this location</span>
-            </div>
-          )}
+          {/* Alert area */}
+          <AreaModeToggle mode={areaMode} onChange={setAreaMode} />
 
-          {/* Radius */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              {t.radiusKm}
-            </label>
-            <select
-              value={radiusKm}
-              onChange={(e) => setRadiusKm(parseInt(e.target.value, 10))}
-              className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-            >
-              <option value="10">10 km</option>
-              <option value="25">25 km</option>
-              <option value="50">50 km</option>
-              <option value="100">100 km</option>
-              <option value="200">200 km</option>
-            </select>
-          </div>
+          {areaMode === 'draw' ? (
+            <AreaDrawer areas={areas} onChange={setAreas} latitude={latitude} longitude={longitude} />
+          ) : (
+            <>
+              {/* Location info */}
+              {latitude && longitude && (
+                <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 text-sm text-blue-800">
+                  <strong>Location:</strong> {latitude.toFixed(4)}, {longitude.toFixed(4)}
+                  <br />
+                  <span className="text-blue-600">Alerts will be sent for activity near this location</span>
+                </div>
+              )}
+
+              {/* Radius */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {t.radiusKm}
+                </label>
+                <select
+                  value={radiusKm}
+                  onChange={(e) => setRadiusKm(parseInt(e.target.value, 10))}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="10">10 km</option>
+                  <option value="25">25 km</option>
+                  <option value="50">50 km</option>
+                  <option value="100">100 km</option>
+                  <option value="200">200 km</option>
+                </select>
+              </div>
+            </>
+          )}
 
           {/* Activity Types */}
           <div>
@@ -188,6 +222,49 @@ export function EmailSubscription({ onClose, latitude, longitude }: EmailSubscri
             </div>
           </div>
 
+          {/* Frequency */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Delivery
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              {FREQUENCY_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setFrequency(option.value)}
+                  className={`border rounded-lg px-2 py-2 text-left ${
+                    frequency === option.value
+                      ? 'border-blue-500 bg-blue-50 text-blue-800'
+                      : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                  aria-pressed={frequency === option.value}
+                >
+                  <span className="block text-sm font-medium">{option.label}</span>
+                  <span className="block text-xs text-gray-500">{option.description}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Send hour */}
+          {frequency !== 'instant' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Send summary at
+              </label>
+              <select
+                value={sendHour}
+                onChange={(e) => setSendHour(parseInt(e.target.value, 10))}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <option key={hour} value={hour}>{formatHour(hour)}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Error */}
           {error && (
             <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
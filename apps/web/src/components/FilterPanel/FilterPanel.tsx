@@ -1,4 +1,4 @@
-import { FilterState, ActivityType, ACTIVITY_COLORS } from '../../types/report';
+import { FilterState, ActivityType, ACTIVITY_COLORS, POST_LANGUAGE_LABELS } from '../../types/report';
 import { useI18n, getActivityTypeLabel, ACTIVITY_TYPE_KEYS } from '../../i18n';
 
 interface FilterPanelProps {
@@ -22,6 +22,14 @@ export function FilterPanel({ filters, onChange, isOpen, onToggle }: FilterPanel
     onChange({ ...filters, timeRange: e.target.value as FilterState['timeRange'] });
   };
 
+  const handlePostLanguageChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    onChange({ ...filters, postLanguage: e.target.value as FilterState['postLanguage'] });
+  };
+
+  const handleHideCityLevelChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onChange({ ...filters, hideCityLevel: e.target.checked });
+  };
+
   const handleActivityTypeToggle = (type: ActivityType) => {
     const newTypes = filters.activityTypes.includes(type)
       ? filters.activityTypes.filter(t => t !== type)
@@ -59,6 +67,37 @@ export function FilterPanel({ filters, onChange, isOpen, onToggle }: FilterPanel
             </select>
           </div>
 
+          <div className="mb-4">
+            <label htmlFor="post-language-select" className="block text-sm font-medium text-gray-700 mb-1">
+              {t.postLanguage}
+            </label>
+            <select
+              id="post-language-select"
+              value={filters.postLanguage}
+              onChange={handlePostLanguageChange}
+              className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="all">{t.allLanguages}</option>
+              {Object.entries(POST_LANGUAGE_LABELS).map(([code, label]) => (
+                <option key={code} value={code} lang={code}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="mb-4">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={filters.hideCityLevel}
+                onChange={handleHideCityLevelChange}
+                className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="text-sm text-gray-700">{t.hideCityLevel}</span>
+            </label>
+          </div>
+
           <fieldset>
             <legend className="block text-sm font-medium text-gray-700 mb-2">
               {t.activityTypes}
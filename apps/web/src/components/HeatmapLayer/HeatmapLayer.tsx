@@ -3,6 +3,7 @@ import { useMap } from 'react-leaflet';
 import L from 'leaflet';
 import 'leaflet.heat';
 import { Report, ACTIVITY_COLORS } from '../../types/report';
+import { hoursSinceEvent } from '../../utils/time';
 
 // Extend Leaflet types
 declare module 'leaflet' {
@@ -35,8 +36,7 @@ interface HeatmapLayerProps {
 
 // Calculate intensity based on report recency
 function getIntensity(report: Report): number {
-  const now = new Date();
-  const hoursAgo = (now.getTime() - report.timestamp.getTime()) / (1000 * 60 * 60);
+  const hoursAgo = hoursSinceEvent(report);
 
   // More recent = higher intensity
   if (hoursAgo < 24) return 1.0;
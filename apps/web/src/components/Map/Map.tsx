@@ -1,11 +1,12 @@
-import { useEffect } from 'react';
-import { MapContainer, TileLayer, useMap, useMapEvents } from 'react-leaflet';
+import { useEffect, useMemo } from 'react';
+import { Circle, MapContainer, TileLayer, useMap, useMapEvents } from 'react-leaflet';
 import MarkerClusterGroup from 'react-leaflet-cluster';
 import L from 'leaflet';
 import 'leaflet.markercluster';
-import { Report, ACTIVITY_COLORS } from '../../types/report';
+import { Report, IncidentGroup, ACTIVITY_COLORS } from '../../types/report';
 import { ReportMarker } from '../ReportMarker/ReportMarker';
 import { HeatmapLayer } from '../HeatmapLayer/HeatmapLayer';
+import { groupByIncident } from '../../utils/incidents';
 import 'leaflet.markercluster/dist/MarkerCluster.css';
 import 'leaflet.markercluster/dist/MarkerCluster.Default.css';
 
@@ -86,7 +87,40 @@ function MapEventHandler({ onCenterChange }: { onCenterChange?: (center: { lat:
   return null;
 }
 
+/**
+ * How far each marker may be from where the activity happened: a block for
+ * an intersection, the whole city for a city-centroid guess. Drawn under the
+ * markers and outside the cluster group, which only takes markers.
+ */
+function UncertaintyCircles({ incidents }: { incidents: IncidentGroup[] }) {
+  return (
+    <>
+      {incidents
+        .filter(({ report }) => report.locationRadiusM)
+        .map(({ report }) => (
+          <Circle
+            key={report.incidentId ?? report.id}
+            center={[report.location.lat, report.location.lng]}
+            radius={report.locationRadiusM!}
+            interactive={false}
+            pathOptions={{
+              color: ACTIVITY_COLORS[report.activityType],
+              weight: 1,
+              opacity: 0.5,
+              fillOpacity: 0.08,
+              // A dashed edge for centroid guesses, solid for places the report named
+              dashArray: report.locationPrecision === 'city' || report.locationPrecision === 'state' ? '4 4' : undefined
+            }}
+          />
+        ))}
+    </>
+  );
+}
+
 export function Map({ reports, onMarkerClick, onCenterChange, showHeatmap = false, colorByActivity = false }: MapProps) {
+  // One marker (and one heatmap point) per incident, not per post about it
+  const incidents = useMemo(() => groupByIncident(reports), [reports]);
+
   return (
     <MapContainer
       center={US_CENTER}
@@ -100,25 +134,30 @@ export function Map({ reports, onMarkerClick, onCenterChange, showHeatmap = fals
       />
       <MapEventHandler onCenterChange={onCenterChange} />
       {showHeatmap ? (
-        <HeatmapLayer reports={reports} colorByActivity={colorByActivity} />
+        <HeatmapLayer reports={incidents.map(incident => incident.report)} colorByActivity={colorByActivity} />
       ) : (
-        <MarkerClusterGroup
-          chunkedLoading
-          iconCreateFunction={createClusterIcon}
-          maxClusterRadius={50}
-          spiderfyOnMaxZoom={true}
-          showCoverageOnHover={false}
-          zoomToBoundsOnClick={true}
-          disableClusteringAtZoom={16}
-        >
-          {reports.map(report => (
-            <ReportMarker
-              key={report.id}
-              report={report}
-              onClick={onMarkerClick}
-            />
-          ))}
-        </MarkerClusterGroup>
+        <>
+          <UncertaintyCircles incidents={incidents} />
+          <MarkerClusterGroup
+            chunkedLoading
+            iconCreateFunction={createClusterIcon}
+            maxClusterRadius={50}
+            spiderfyOnMaxZoom={true}
+            showCoverageOnHover={false}
+            zoomToBoundsOnClick={true}
+            disableClusteringAtZoom={16}
+          >
+            {incidents.map(({ report, reportCount, sourceCount }) => (
+              <ReportMarker
+                key={report.incidentId ?? report.id}
+                report={report}
+                reportCount={reportCount}
+                sourceCount={sourceCount}
+                onClick={onMarkerClick}
+              />
+            ))}
+          </MarkerClusterGroup>
+        </>
       )}
     </MapContainer>
   );
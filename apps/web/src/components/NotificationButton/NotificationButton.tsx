@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useI18n } from '../../i18n';
+import { AreaDrawer, AreaModeToggle, type AreaMode, type AreaPolygon } from '../AreaDrawer/AreaDrawer';
 
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
 
@@ -15,6 +16,8 @@ export function NotificationButton({ latitude, longitude }: NotificationButtonPr
   const [isLoading, setIsLoading] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [radiusKm, setRadiusKm] = useState(50);
+  const [areaMode, setAreaMode] = useState<AreaMode>('radius');
+  const [areas, setAreas] = useState<AreaPolygon[]>([]);
 
   useEffect(() => {
     // Check if push notifications are supported
@@ -69,11 +72,12 @@ export function NotificationButton({ latitude, longitude }: NotificationButtonPr
             p256dh: subJson.keys?.p256dh,
             auth: subJson.keys?.auth
           },
-          location: latitude && longitude ? {
+          location: areaMode === 'radius' && latitude && longitude ? {
             latitude,
             longitude,
             radiusKm
-          } : undefined
+          } : undefined,
+          areas: areaMode === 'draw' ? areas : undefined
         })
       });
 
@@ -133,28 +137,40 @@ export function NotificationButton({ latitude, longitude }: NotificationButtonPr
       </button>
 
       {showSettings && !isSubscribed && (
-        <div className="absolute right-0 mt-2 bg-white rounded-lg shadow-xl p-4 min-w-[280px] z-[1001]">
+        <div className={`absolute right-0 mt-2 bg-white rounded-lg shadow-xl p-4 z-[1001] ${
+          areaMode === 'draw' ? 'w-[340px]' : 'min-w-[280px]'
+        }`}>
           <h3 className="font-medium text-gray-900 mb-3">{t.notifyForArea}</h3>
 
-          <div className="mb-4">
-            <label className="block text-sm text-gray-600 mb-1">{t.radiusKm}</label>
-            <select
-              value={radiusKm}
-              onChange={(e) => setRadiusKm(parseInt(e.target.value))}
-              className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
-            >
-              <option value={10}>10 km</option>
-              <option value={25}>25 km</option>
-              <option value={50}>50 km</option>
-              <option value={100}>100 km</option>
-              <option value={250}>250 km</option>
-            </select>
+          <div className="mb-3">
+            <AreaModeToggle mode={areaMode} onChange={setAreaMode} />
           </div>
 
+          {areaMode === 'radius' ? (
+            <div className="mb-4">
+              <label className="block text-sm text-gray-600 mb-1">{t.radiusKm}</label>
+              <select
+                value={radiusKm}
+                onChange={(e) => setRadiusKm(parseInt(e.target.value))}
+                className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+              >
+                <option value={10}>10 km</option>
+                <option value={25}>25 km</option>
+                <option value={50}>50 km</option>
+                <option value={100}>100 km</option>
+                <option value={250}>250 km</option>
+              </select>
+            </div>
+          ) : (
+            <div className="mb-4">
+              <AreaDrawer areas={areas} onChange={setAreas} latitude={latitude} longitude={longitude} />
+            </div>
+          )}
+
           <div className="flex gap-2">
             <button
               onClick={subscribe}
-              disabled={isLoading}
+              disabled={isLoading || (areaMode === 'draw' && areas.length === 0)}
               className="flex-1 px-4 py-2 bg-blue-600 text-white rounded text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
             >
               {t.enableNotifications}
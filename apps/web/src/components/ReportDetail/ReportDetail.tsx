@@ -16,6 +16,10 @@ const STATUS_STYLES: Record<Report['status'], string> = {
   disputed: 'bg-red-100 text-red-800'
 };
 
+function formatRadius(meters: number): string {
+  return meters < 1000 ? `${Math.round(meters / 10) * 10} m` : `${Math.round(meters / 1000)} km`;
+}
+
 // Simple user identifier (in production, use proper auth)
 function getUserIdentifier(): string {
   let id = localStorage.getItem('ice-map-user-id');
@@ -194,6 +198,9 @@ export function ReportDetail({ report, onClose }: ReportDetailProps) {
             <h3 className="text-sm font-medium text-gray-500 mb-1">{t.location}</h3>
             <p className="text-gray-900">
               {report.location.city}, {report.location.state}
+              {report.locationRadiusM && report.locationPrecision !== 'exact' && (
+                <span className="text-gray-500"> ({t.withinAbout} {formatRadius(report.locationRadiusM)})</span>
+              )}
             </p>
           </div>
 
@@ -213,6 +220,15 @@ export function ReportDetail({ report, onClose }: ReportDetailProps) {
               <h3 className="text-sm font-medium text-gray-500 mb-1">{t.time}</h3>
               <p className="text-gray-900">{formatTimestamp(report.timestamp)}</p>
             </div>
+            {report.occurredAt && (
+              <div>
+                <h3 className="text-sm font-medium text-gray-500 mb-1">{t.happened}</h3>
+                <p className="text-gray-900">
+                  {formatTimestamp(report.occurredAt)}
+                  {report.occurredAtConfidence !== 'high' && ` (${t.approximate})`}
+                </p>
+              </div>
+            )}
           </div>
 
           {/* Status badge */}
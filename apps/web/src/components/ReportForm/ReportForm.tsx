@@ -1,6 +1,6 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { useI18n } from '../../i18n';
-import { ActivityType } from '../../types/report';
+import { ActivityType, LocationPrecision } from '../../types/report';
 import { api, getErrorMessage, isApiError } from '../../utils/api';
 import { Turnstile, TURNSTILE_SITE_KEY } from '../Turnstile/Turnstile';
 // @ts-expect-error - exif-js doesn't have types
@@ -85,6 +85,9 @@ export function ReportForm({ onClose, onSubmitted, initialLocation }: ReportForm
   const [photoPreview, setPhotoPreview] = useState<string | null>(null);
   const [extractingLocation, setExtractingLocation] = useState(false);
   const [locationFromPhoto, setLocationFromPhoto] = useState(false);
+  // How the coordinates were found: a photo's GPS is exact, a point picked on
+  // the map or typed in is about a block, a geocoded city is its centroid
+  const [coordinatePrecision, setCoordinatePrecision] = useState<LocationPrecision>('street');
   const modalRef = useRef<HTMLDivElement>(null);
   const previousFocusRef = useRef<HTMLElement | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -147,6 +150,7 @@ export function ReportForm({ onClose, onSubmitted, initialLocation }: ReportForm
     // Clear location from photo flag if user manually changes coordinates
     if (field === 'latitude' || field === 'longitude') {
       setLocationFromPhoto(false);
+      setCoordinatePrecision('street');
     }
   };
 
@@ -186,6 +190,7 @@ export function ReportForm({ onClose, onSubmitted, initialLocation }: ReportForm
           longitude: gps.lng.toFixed(6)
         }));
         setLocationFromPhoto(true);
+        setCoordinatePrecision('exact');
       }
     } catch (err) {
       console.error('Failed to extract EXIF data:', err);
@@ -252,6 +257,7 @@ export function ReportForm({ onClose, onSubmitted, initialLocation }: ReportForm
         longitude: parseFloat(lon).toFixed(6)
       }));
       setLocationFromPhoto(false);
+      setCoordinatePrecision(formData.streetAddress.trim() ? 'street' : 'city');
     } catch (err) {
       console.error('Geocoding error:', err);
       setError(t.form?.geocodeError || 'Could not look up address. Please enter coordinates manually.');
@@ -299,6 +305,9 @@ export function ReportForm({ onClose, onSubmitted, initialLocation }: ReportForm
       if (formData.longitude) {
         submitData.append('longitude', formData.longitude);
       }
+      if (formData.latitude && formData.longitude) {
+        submitData.append('locationPrecision', coordinatePrecision);
+      }
       submitData.append('authorHandle', 'anonymous');
       submitData.append('authorDisplayName', 'Anonymous User');
       if (turnstileToken) {
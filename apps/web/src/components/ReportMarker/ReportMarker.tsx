@@ -2,39 +2,54 @@ import { useMemo } from 'react';
 import { Marker, Popup } from 'react-leaflet';
 import L from 'leaflet';
 import { Report, ACTIVITY_COLORS, ACTIVITY_LABELS } from '../../types/report';
+import { useI18n } from '../../i18n';
+import { hoursSinceEvent } from '../../utils/time';
 
 interface ReportMarkerProps {
   report: Report;
+  /** Reports of the same incident this marker stands for */
+  reportCount?: number;
+  /** Distinct sources among them; shown on the marker when more than one */
+  sourceCount?: number;
   onClick: (report: Report) => void;
 }
 
-// Create a custom div icon that looks like a circle marker
-function createMarkerIcon(color: string, opacity: number): L.DivIcon {
+// Create a custom div icon that looks like a circle marker, with the number
+// of sources inside when an incident was reported by more than one
+function createMarkerIcon(color: string, opacity: number, sourceCount: number): L.DivIcon {
+  const size = sourceCount > 1 ? 26 : 20;
   return L.divIcon({
     className: 'custom-marker',
     html: `<div style="
-      width: 20px;
-      height: 20px;
+      width: ${size}px;
+      height: ${size}px;
       border-radius: 50%;
       background-color: ${color};
       opacity: ${opacity};
-      border: 2px solid ${color};
+      border: 2px solid ${sourceCount > 1 ? 'white' : color};
       box-shadow: 0 2px 4px rgba(0,0,0,0.3);
-    "></div>`,
-    iconSize: [20, 20],
-    iconAnchor: [10, 10],
-    popupAnchor: [0, -10]
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      color: white;
+      font-weight: bold;
+      font-size: 12px;
+    ">${sourceCount > 1 ? sourceCount : ''}</div>`,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+    popupAnchor: [0, -size / 2]
   });
 }
 
-export function ReportMarker({ report, onClick }: ReportMarkerProps) {
+export function ReportMarker({ report, reportCount = 1, sourceCount = 1, onClick }: ReportMarkerProps) {
+  const { t } = useI18n();
   const color = ACTIVITY_COLORS[report.activityType];
 
   // Calculate opacity based on recency (more recent = more opaque)
-  const hoursAgo = (Date.now() - report.timestamp.getTime()) / (1000 * 60 * 60);
+  const hoursAgo = hoursSinceEvent(report);
   const opacity = Math.max(0.4, 1 - (hoursAgo / 168) * 0.6); // 168 hours = 7 days
 
-  const icon = useMemo(() => createMarkerIcon(color, opacity), [color, opacity]);
+  const icon = useMemo(() => createMarkerIcon(color, opacity, sourceCount), [color, opacity, sourceCount]);
 
   return (
     <Marker
@@ -49,6 +64,12 @@ export function ReportMarker({ report, onClick }: ReportMarkerProps) {
           <strong>{ACTIVITY_LABELS[report.activityType]}</strong>
           <br />
           {report.location.city}, {report.location.state}
+          {reportCount > 1 && (
+            <>
+              <br />
+              {reportCount} {t.reports} · {sourceCount} {sourceCount !== 1 ? t.sources : t.source}
+            </>
+          )}
         </div>
       </Popup>
     </Marker>
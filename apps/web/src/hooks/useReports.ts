@@ -1,8 +1,9 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { Report, FilterState, ListReport } from '../types/report';
+import { Report, FilterState, ListReport, LocationPrecision } from '../types/report';
 import { mockReports } from '../data/mockReports';
 import { useSocket } from './useSocket';
 import { api, isApiError, getErrorMessage } from '../utils/api';
+import { hoursSinceEvent } from '../utils/time';
 import {
   cacheReports,
   getCachedReports,
@@ -23,6 +24,12 @@ interface ApiReport {
   authorHandle: string;
   authorDisplayName: string | null;
   status: string;
+  language: string | null;
+  incidentId: string | null;
+  occurredAt: string | null;
+  occurredAtConfidence: 'high' | 'medium' | 'low' | null;
+  locationPrecision: LocationPrecision | null;
+  locationRadiusM: number | null;
   reportedAt: string;
   createdAt: string;
   updatedAt: string;
@@ -71,10 +78,31 @@ function apiReportToReport(api: ApiReport): Report | null {
     description: api.description,
     timestamp: new Date(api.reportedAt),
     author: api.authorDisplayName || api.authorHandle,
-    status: api.status as Report['status']
+    status: api.status as Report['status'],
+    language: api.language,
+    sourceType: api.sourceType,
+    incidentId: api.incidentId,
+    occurredAt: api.occurredAt ? new Date(api.occurredAt) : null,
+    occurredAtConfidence: api.occurredAtConfidence,
+    locationPrecision: api.locationPrecision,
+    locationRadiusM: api.locationRadiusM
   };
 }
 
+// Mock and older cached reports have no language; only a post tagged with
+// another language is filtered out
+function matchesLanguage(report: Report, filters: FilterState): boolean {
+  return filters.postLanguage === 'all' || !report.language || report.language === filters.postLanguage;
+}
+
+const CITY_LEVEL: LocationPrecision[] = ['city', 'state'];
+const PRECISE_LOCATIONS: LocationPrecision[] = ['exact', 'street', 'neighborhood'];
+
+// Reports from before precision was recorded have none and stay visible
+function matchesPrecision(report: Report, filters: FilterState): boolean {
+  return !filters.hideCityLevel || !report.locationPrecision || !CITY_LEVEL.includes(report.locationPrecision);
+}
+
 export function useReports(filters: FilterState) {
   const [reports, setReports] = useState<Report[]>([]);
   const [allReports, setAllReports] = useState<ListReport[]>([]);
@@ -98,10 +126,14 @@ export function useReports(filters: FilterState) {
       return;
     }
 
+    if (!matchesLanguage(report, currentFilters) || !matchesPrecision(report, currentFilters)) {
+      return;
+    }
+
     // Check time filter
     if (currentFilters.timeRange !== 'all') {
       const now = new Date();
-      const hoursAgo = (now.getTime() - report.timestamp.getTime()) / (1000 * 60 * 60);
+      const hoursAgo = hoursSinceEvent(report, now.getTime());
       const maxHours = {
         '24h': 24,
         '7d': 168,
@@ -169,6 +201,14 @@ export function useReports(filters: FilterState) {
         params.set('timeRange', filters.timeRange);
       }
 
+      if (filters.postLanguage !== 'all') {
+        params.set('languages', filters.postLanguage);
+      }
+
+      if (filters.hideCityLevel) {
+        params.set('locationPrecisions', PRECISE_LOCATIONS.join(','));
+      }
+
       params.set('limit', '500');
 
       // Use API utility with retry logic
@@ -214,8 +254,12 @@ export function useReports(filters: FilterState) {
                 return false;
               }
 
+              if (!matchesLanguage(report, filters) || !matchesPrecision(report, filters)) {
+                return false;
+              }
+
               if (filters.timeRange !== 'all') {
-                const hoursAgo = (now.getTime() - report.timestamp.getTime()) / (1000 * 60 * 60);
+                const hoursAgo = hoursSinceEvent(report, now.getTime());
                 const maxHours = {
                   '24h': 24,
                   '7d': 168,
@@ -254,8 +298,12 @@ export function useReports(filters: FilterState) {
           return false;
         }
 
+        if (!matchesLanguage(report, filters) || !matchesPrecision(report, filters)) {
+          return false;
+        }
+
         if (filters.timeRange !== 'all') {
-          const hoursAgo = (now.getTime() - report.timestamp.getTime()) / (1000 * 60 * 60);
+          const hoursAgo = hoursSinceEvent(report, now.getTime());
           const maxHours = {
             '24h': 24,
             '7d': 168,
@@ -1,6 +1,6 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { io, Socket } from 'socket.io-client';
-import { Report } from '../types/report';
+import { Report, LocationPrecision } from '../types/report';
 
 const SOCKET_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
 
@@ -19,6 +19,12 @@ interface ReportEvent {
     authorHandle: string;
     authorDisplayName: string | null;
     status: string;
+    language: string | null;
+    incidentId: string | null;
+    occurredAt: string | null;
+    occurredAtConfidence: 'high' | 'medium' | 'low' | null;
+    locationPrecision: LocationPrecision | null;
+    locationRadiusM: number | null;
     reportedAt: string;
     createdAt: string;
     updatedAt: string;
@@ -42,7 +48,14 @@ function eventReportToReport(apiReport: ReportEvent['report']): Report | null {
     description: apiReport.description,
     timestamp: new Date(apiReport.reportedAt),
     author: apiReport.authorDisplayName || apiReport.authorHandle,
-    status: apiReport.status as Report['status']
+    status: apiReport.status as Report['status'],
+    language: apiReport.language,
+    sourceType: apiReport.sourceType,
+    incidentId: apiReport.incidentId,
+    occurredAt: apiReport.occurredAt ? new Date(apiReport.occurredAt) : null,
+    occurredAtConfidence: apiReport.occurredAtConfidence,
+    locationPrecision: apiReport.locationPrecision,
+    locationRadiusM: apiReport.locationRadiusM
   };
 }
 
@@ -10,6 +10,10 @@ export interface Translations {
   closeFilters: string;
   timeRange: string;
   activityTypes: string;
+  postLanguage: string;
+  allLanguages: string;
+  /** Filter out reports placed only at a city or state centroid */
+  hideCityLevel: string;
   last24Hours: string;
   last7Days: string;
   last30Days: string;
@@ -27,6 +31,11 @@ export interface Translations {
   description: string;
   reportedBy: string;
   time: string;
+  /** When the activity happened, as opposed to when it was posted */
+  happened: string;
+  approximate: string;
+  /** Before an uncertainty radius: "within about 8 km" */
+  withinAbout: string;
   verified: string;
   unverified: string;
   disputed: string;
@@ -35,6 +44,8 @@ export interface Translations {
   // Report count
   report: string;
   reports: string;
+  source: string;
+  sources: string;
   loading: string;
   demoData: string;
 
@@ -72,6 +83,12 @@ export interface Translations {
   notifyForArea: string;
   radiusKm: string;
   selectActivityTypes: string;
+  areaModeRadius: string;
+  areaModeDraw: string;
+  drawAreaHint: string;
+  finishArea: string;
+  undoPoint: string;
+  clearAreas: string;
 
   // Report list panel
   reportList: string;
@@ -149,6 +166,16 @@ export interface Translations {
     invalidKey: string;
     flaggedReports: string;
     moderationLog: string;
+    labelAs: string;
+    notSighting: string;
+    wrongLocation: string;
+    wrongActivityType: string;
+    noPlaceHint: string;
+    saveLabel: string;
+    labeled: string;
+    labels: string;
+    noLabels: string;
+    exportLabels: string;
   };
 
   // Analytics
@@ -175,6 +202,9 @@ export const translations: Record<Language, Translations> = {
     closeFilters: 'Close Filters',
     timeRange: 'Time Range',
     activityTypes: 'Activity Types',
+    postLanguage: 'Post Language',
+    allLanguages: 'All languages',
+    hideCityLevel: 'Hide city-level locations',
     last24Hours: 'Last 24 hours',
     last7Days: 'Last 7 days',
     last30Days: 'Last 30 days',
@@ -192,6 +222,9 @@ export const translations: Record<Language, Translations> = {
     description: 'Description',
     reportedBy: 'Reported by',
     time: 'Time',
+    happened: 'Happened',
+    approximate: 'approx.',
+    withinAbout: 'within about',
     verified: 'Verified',
     unverified: 'Unverified',
     disputed: 'Disputed',
@@ -200,6 +233,8 @@ export const translations: Record<Language, Translations> = {
     // Report count
     report: 'report',
     reports: 'reports',
+    source: 'source',
+    sources: 'sources',
     loading: 'Loading...',
     demoData: '(demo data)',
 
@@ -237,6 +272,12 @@ export const translations: Record<Language, Translations> = {
     notifyForArea: 'Notify me for activity in this area',
     radiusKm: 'Radius (km)',
     selectActivityTypes: 'Activity types to notify',
+    areaModeRadius: 'Radius',
+    areaModeDraw: 'Draw areas',
+    drawAreaHint: 'Click the map to add corners, then finish the area. You can draw several areas.',
+    finishArea: 'Finish area',
+    undoPoint: 'Undo',
+    clearAreas: 'Clear',
 
     // Report list panel
     reportList: 'All Reports',
@@ -313,7 +354,17 @@ export const translations: Record<Language, Translations> = {
       adminKey: 'Admin Key',
       invalidKey: 'Invalid admin key',
       flaggedReports: 'Flagged Reports',
-      moderationLog: 'Moderation Log'
+      moderationLog: 'Moderation Log',
+      labelAs: 'Label as',
+      notSighting: 'Not a sighting',
+      wrongLocation: 'Wrong location',
+      wrongActivityType: 'Wrong activity type',
+      noPlaceHint: 'Leave both empty if the text names no place',
+      saveLabel: 'Save label',
+      labeled: 'Labeled',
+      labels: 'Labels',
+      noLabels: 'No labels yet',
+      exportLabels: 'Export for evaluation corpus'
     },
 
     // Analytics
@@ -339,6 +390,9 @@ export const translations: Record<Language, Translations> = {
     closeFilters: 'Cerrar Filtros',
     timeRange: 'Período',
     activityTypes: 'Tipos de Actividad',
+    postLanguage: 'Idioma de la Publicación',
+    allLanguages: 'Todos los idiomas',
+    hideCityLevel: 'Ocultar ubicaciones a nivel de ciudad',
     last24Hours: 'Últimas 24 horas',
     last7Days: 'Últimos 7 días',
     last30Days: 'Últimos 30 días',
@@ -356,6 +410,9 @@ export const translations: Record<Language, Translations> = {
     description: 'Descripción',
     reportedBy: 'Reportado por',
     time: 'Hora',
+    happened: 'Ocurrió',
+    approximate: 'aprox.',
+    withinAbout: 'a unos',
     verified: 'Verificado',
     unverified: 'Sin verificar',
     disputed: 'Disputado',
@@ -364,6 +421,8 @@ export const translations: Record<Language, Translations> = {
     // Report count
     report: 'reporte',
     reports: 'reportes',
+    source: 'fuente',
+    sources: 'fuentes',
     loading: 'Cargando...',
     demoData: '(datos de demostración)',
 
@@ -401,6 +460,12 @@ export const translations: Record<Language, Translations> = {
     notifyForArea: 'Notificarme de actividad en esta área',
     radiusKm: 'Radio (km)',
     selectActivityTypes: 'Tipos de actividad a notificar',
+    areaModeRadius: 'Radio',
+    areaModeDraw: 'Dibujar áreas',
+    drawAreaHint: 'Haz clic en el mapa para añadir esquinas y luego termina el área. Puedes dibujar varias áreas.',
+    finishArea: 'Terminar área',
+    undoPoint: 'Deshacer',
+    clearAreas: 'Borrar',
 
     // Report list panel
     reportList: 'Todos los Reportes',
@@ -477,7 +542,17 @@ export const translations: Record<Language, Translations> = {
       adminKey: 'Clave de Admin',
       invalidKey: 'Clave de admin inválida',
       flaggedReports: 'Reportes Marcados',
-      moderationLog: 'Registro de Moderación'
+      moderationLog: 'Registro de Moderación',
+      labelAs: 'Etiquetar como',
+      notSighting: 'No es un avistamiento',
+      wrongLocation: 'Ubicación incorrecta',
+      wrongActivityType: 'Tipo de actividad incorrecto',
+      noPlaceHint: 'Deje ambos vacíos si el texto no menciona ningún lugar',
+      saveLabel: 'Guardar etiqueta',
+      labeled: 'Etiquetado',
+      labels: 'Etiquetas',
+      noLabels: 'Aún no hay etiquetas',
+      exportLabels: 'Exportar para el corpus de evaluación'
     },
 
     // Analytics
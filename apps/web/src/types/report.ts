@@ -7,6 +7,9 @@ export type ActivityType =
 
 export type ReportStatus = 'unverified' | 'verified' | 'disputed';
 
+/** exact: a GPS fix; street: an address, intersection or place; city and state: a centroid */
+export type LocationPrecision = 'exact' | 'street' | 'neighborhood' | 'city' | 'state';
+
 export interface Report {
   id: string;
   activityType: ActivityType;
@@ -20,6 +23,29 @@ export interface Report {
   timestamp: Date;
   author: string;
   status: ReportStatus;
+  /** Detected language of the post (ISO 639-1, or und); null for user submissions */
+  language?: string | null;
+  sourceType?: string;
+  /** Incident grouping this report with others of the same event */
+  incidentId?: string | null;
+  /** When the activity happened, if the post says; `timestamp` is when it was posted */
+  occurredAt?: Date | null;
+  occurredAtConfidence?: 'high' | 'medium' | 'low' | null;
+  locationPrecision?: LocationPrecision | null;
+  /** Roughly how far, in meters, the activity may be from the marker */
+  locationRadiusM?: number | null;
+}
+
+/**
+ * One marker's worth of reports: every report of an incident, or a report
+ * not grouped into one
+ */
+export interface IncidentGroup {
+  /** Most recent report; the marker shows and opens it */
+  report: Report;
+  reportCount: number;
+  /** Distinct sources among the reports */
+  sourceCount: number;
 }
 
 export interface ListReport {
@@ -38,6 +64,10 @@ export interface ListReport {
 export interface FilterState {
   timeRange: '24h' | '7d' | '30d' | 'all';
   activityTypes: ActivityType[];
+  /** ISO 639-1 code of the post language to show, or 'all' */
+  postLanguage: PostLanguage | 'all';
+  /** Leave out reports placed only at a city or state centroid */
+  hideCityLevel: boolean;
 }
 
 export const ACTIVITY_COLORS: Record<ActivityType, string> = {
@@ -55,3 +85,17 @@ export const ACTIVITY_LABELS: Record<ActivityType, string> = {
   surveillance: 'Surveillance',
   other: 'Other'
 };
+
+export type PostLanguage = 'en' | 'es' | 'pt' | 'ht' | 'vi' | 'zh' | 'ko' | 'tl';
+
+// Each language is listed under its own name, so readers can find theirs
+export const POST_LANGUAGE_LABELS: Record<PostLanguage, string> = {
+  en: 'English',
+  es: 'Español',
+  pt: 'Português',
+  ht: 'Kreyòl ayisyen',
+  vi: 'Tiếng Việt',
+  zh: '中文',
+  ko: '한국어',
+  tl: 'Tagalog'
+};
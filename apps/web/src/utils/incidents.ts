@@ -0,0 +1,34 @@
+import { Report, IncidentGroup } from '../types/report';
+import { eventTime } from './time';
+
+/**
+ * Collapse reports of the same incident into one group, so the map shows
+ * one marker per event however many posts and sources reported it.
+ * Reports not yet grouped into an incident stand alone.
+ */
+export function groupByIncident(reports: Report[]): IncidentGroup[] {
+  const groups = new Map<string, { report: Report; reportCount: number; sources: Set<string> }>();
+
+  for (const report of reports) {
+    const key = report.incidentId ? `incident:${report.incidentId}` : `report:${report.id}`;
+    const group = groups.get(key);
+    const source = report.sourceType ?? 'unknown';
+
+    if (!group) {
+      groups.set(key, { report, reportCount: 1, sources: new Set([source]) });
+      continue;
+    }
+
+    group.reportCount++;
+    group.sources.add(source);
+    if (eventTime(report) > eventTime(group.report)) {
+      group.report = report;
+    }
+  }
+
+  return [...groups.values()].map(({ report, reportCount, sources }) => ({
+    report,
+    reportCount,
+    sourceCount: sources.size
+  }));
+}
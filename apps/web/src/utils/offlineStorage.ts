@@ -55,7 +55,8 @@ async function openDatabase(): Promise<IDBDatabase> {
 function serializeReport(report: Report): Record<string, unknown> {
   return {
     ...report,
-    timestamp: report.timestamp.toISOString()
+    timestamp: report.timestamp.toISOString(),
+    occurredAt: report.occurredAt?.toISOString() ?? null
   };
 }
 
@@ -65,7 +66,8 @@ function serializeReport(report: Report): Record<string, unknown> {
 function deserializeReport(stored: Record<string, unknown>): Report {
   return {
     ...stored,
-    timestamp: new Date(stored.timestamp as string)
+    timestamp: new Date(stored.timestamp as string),
+    occurredAt: stored.occurredAt ? new Date(stored.occurredAt as string) : null
   } as Report;
 }
 
@@ -0,0 +1,14 @@
+import { Report } from '../types/report';
+
+/**
+ * When a report's activity happened: the time the post mentions ("2 hours
+ * ago", "anoche") when there is one, or when it was posted. Time filters,
+ * recency and the timeline go by this.
+ */
+export function eventTime(report: Pick<Report, 'timestamp' | 'occurredAt'>): Date {
+  return report.occurredAt ?? report.timestamp;
+}
+
+export function hoursSinceEvent(report: Pick<Report, 'timestamp' | 'occurredAt'>, now = Date.now()): number {
+  return (now - eventTime(report).getTime()) / (1000 * 60 * 60);
+}
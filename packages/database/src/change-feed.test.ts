@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { parseReportChange } from './change-feed.js';
+
+describe('parseReportChange', () => {
+  it('should read trigger payloads', () => {
+    expect(parseReportChange('{"op":"insert","id":"abc"}')).toEqual({ op: 'insert', id: 'abc' });
+    expect(parseReportChange('{"op":"update","id":"abc"}')).toEqual({ op: 'update', id: 'abc' });
+  });
+
+  it('should ignore malformed payloads', () => {
+    expect(parseReportChange(undefined)).toBeNull();
+    expect(parseReportChange('not json')).toBeNull();
+    expect(parseReportChange('{"op":"delete","id":"abc"}')).toBeNull();
+    expect(parseReportChange('{"op":"insert"}')).toBeNull();
+  });
+});
@@ -0,0 +1,114 @@
+import pg from 'pg';
+
+export const REPORT_CHANGES_CHANNEL = 'report_changes';
+
+export interface ReportChange {
+  op: 'insert' | 'update';
+  id: string;
+}
+
+export interface ReportChangeFeedOptions {
+  onChange: (change: ReportChange) => void;
+  /** Called after the connection is (re-)established; changes made while disconnected are not replayed */
+  onConnect?: (reconnected: boolean) => void;
+  onError?: (error: Error) => void;
+  reconnectDelayMs?: number;
+  maxReconnectDelayMs?: number;
+}
+
+export interface ReportChangeFeed {
+  close: () => Promise<void>;
+}
+
+/**
+ * Parse a report_changes payload, ignoring anything malformed
+ */
+export function parseReportChange(payload: string | undefined): ReportChange | null {
+  if (!payload) return null;
+  try {
+    const change = JSON.parse(payload) as Partial<ReportChange>;
+    if ((change.op === 'insert' || change.op === 'update') && typeof change.id === 'string') {
+      return { op: change.op, id: change.id };
+    }
+  } catch {
+    // fall through
+  }
+  return null;
+}
+
+/**
+ * LISTEN for report inserts and updates from any writer. Holds its own
+ * connection outside the pool (LISTEN is per-session) and reconnects with
+ * backoff when it drops.
+ */
+export function listenForReportChanges(options: ReportChangeFeedOptions): ReportChangeFeed {
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) {
+    throw new Error('DATABASE_URL environment variable is required');
+  }
+
+  const baseDelay = options.reconnectDelayMs ?? 1000;
+  const maxDelay = options.maxReconnectDelayMs ?? 30000;
+
+  let client: pg.Client | null = null;
+  let closed = false;
+  let connectedOnce = false;
+  let delay = baseDelay;
+  let retryTimer: NodeJS.Timeout | null = null;
+
+  const scheduleReconnect = () => {
+    if (closed || retryTimer) return;
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      void connect();
+    }, delay);
+    delay = Math.min(delay * 2, maxDelay);
+  };
+
+  const connect = async () => {
+    const next = new pg.Client({ connectionString });
+    client = next;
+
+    next.on('notification', (message) => {
+      if (message.channel !== REPORT_CHANGES_CHANNEL) return;
+      const change = parseReportChange(message.payload);
+      if (change) options.onChange(change);
+    });
+
+    const dropped = (error?: Error) => {
+      if (client !== next) return;
+      client = null;
+      if (error) options.onError?.(error);
+      next.end().catch(() => {});
+      scheduleReconnect();
+    };
+    next.on('error', dropped);
+    next.on('end', () => dropped());
+
+    try {
+      await next.connect();
+      await next.query(`LISTEN ${REPORT_CHANGES_CHANNEL}`);
+      if (closed) {
+        await next.end();
+        return;
+      }
+      delay = baseDelay;
+      options.onConnect?.(connectedOnce);
+      connectedOnce = true;
+    } catch (error) {
+      dropped(error as Error);
+    }
+  };
+
+  void connect();
+
+  return {
+    close: async () => {
+      closed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      const current = client;
+      client = null;
+      await current?.end().catch(() => {});
+    }
+  };
+}
@@ -0,0 +1,62 @@
+import type { GeoPolygon } from './types-phase2.js';
+
+/**
+ * Columns to add to a subscription SELECT/RETURNING so the stored
+ * areas come back as GeoJSON instead of raw WKB
+ */
+export const AREAS_COLUMN = 'ST_AsGeoJSON(areas)::json AS areas_geojson';
+
+/**
+ * SQL expression turning a GeoJSON MultiPolygon parameter into an areas value
+ */
+export function areasFromParam(param: string): string {
+  return `CASE WHEN ${param}::text IS NULL THEN NULL
+    ELSE ST_SetSRID(ST_Multi(ST_GeomFromGeoJSON(${param}::text)), 4326)::geography END`;
+}
+
+/**
+ * Serialize areas for areasFromParam(). No areas (or an empty list) clears them.
+ */
+export function areasToParam(areas?: GeoPolygon[] | null): string | null {
+  if (!areas || areas.length === 0) return null;
+  return JSON.stringify({
+    type: 'MultiPolygon',
+    coordinates: areas.map((area) => area.coordinates)
+  });
+}
+
+/**
+ * SQL expression telling one subscription of an address from another: its
+ * center, or for one drawn on the map (no center), a hash of its areas.
+ * Arguments are SQL expressions for latitude, longitude and the areas
+ * geography.
+ */
+export function geofenceKeySql(latitude: string, longitude: string, areas: string): string {
+  return `CASE WHEN ${latitude} IS NOT NULL THEN ${latitude}::float8::text || ',' || ${longitude}::float8::text
+    ELSE 'areas:' || md5(COALESCE(ST_AsGeoJSON(${areas}), '')) END`;
+}
+
+export function areasFromRow(value: unknown): GeoPolygon[] | null {
+  const geometry = value as { type?: string; coordinates?: number[][][][] } | null;
+  if (!geometry || geometry.type !== 'MultiPolygon' || !geometry.coordinates) return null;
+  return geometry.coordinates.map((coordinates) => ({ type: 'Polygon', coordinates }));
+}
+
+/**
+ * WHERE fragment matching a report location against a subscription's
+ * geofence. A subscription matches when the point falls inside any of its
+ * areas or within radius_km of its center; one with neither gets everything.
+ * `prefix` qualifies the subscription columns when the query joins reports.
+ */
+export function geofenceMatchSql(point: string, prefix = ''): string {
+  return `(
+    (${prefix}areas IS NULL AND ${prefix}location IS NULL)
+    OR (
+      ${point} IS NOT NULL
+      AND (
+        ST_Intersects(${prefix}areas, ${point})
+        OR ST_DWithin(${prefix}location, ${point}, ${prefix}radius_km * 1000)
+      )
+    )
+  )`;
+}
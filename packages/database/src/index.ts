@@ -1,8 +1,16 @@
 export * from './client.js';
+export * from './change-feed.js';
 export * from './types.js';
 export * from './types-phase2.js';
+export * from './location-precision.js';
 export * from './repositories/reports.js';
 export * from './repositories/subscriptions.js';
+export * from './repositories/push-deliveries.js';
 export * from './repositories/verifications.js';
 export * from './repositories/moderation.js';
 export * from './repositories/email-subscriptions.js';
+export * from './repositories/webhooks.js';
+export * from './repositories/ingested-posts.js';
+export * from './repositories/report-revisions.js';
+export * from './repositories/report-labels.js';
+export * from './repositories/incidents.js';
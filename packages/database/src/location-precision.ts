@@ -0,0 +1,21 @@
+import type { LocationPrecision } from './types.js';
+
+/** Most precise first */
+export const LOCATION_PRECISIONS: LocationPrecision[] = ['exact', 'street', 'neighborhood', 'city', 'state'];
+
+/**
+ * How far, in meters, the activity may be from a report's coordinates when
+ * nothing better is known: a phone's GPS fix, a block, a neighborhood, a
+ * city centroid, a state centroid
+ */
+export const DEFAULT_LOCATION_RADIUS_M: Record<LocationPrecision, number> = {
+  exact: 25,
+  street: 250,
+  neighborhood: 1500,
+  city: 8000,
+  state: 150000
+};
+
+export function isLocationPrecision(value: unknown): value is LocationPrecision {
+  return typeof value === 'string' && (LOCATION_PRECISIONS as string[]).includes(value);
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockQueryFn = vi.fn();
+
+vi.mock('../client.js', () => ({
+  query: (...args: unknown[]) => mockQueryFn(...args),
+  getPool: vi.fn(),
+  closePool: vi.fn(),
+  testConnection: vi.fn().mockResolvedValue(true)
+}));
+
+const { createEmailSubscription } = await import('./email-subscriptions.js');
+
+const SQUARE = [[[-118.3, 34.0], [-118.2, 34.0], [-118.2, 34.1], [-118.3, 34.1], [-118.3, 34.0]]];
+
+function emailSubscriptionRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'sub-1',
+    email: 'someone@example.org',
+    latitude: null,
+    longitude: null,
+    radius_km: 50,
+    areas_geojson: null,
+    activity_types: ['raid'],
+    frequency: 'instant',
+    send_hour: 8,
+    timezone: 'UTC',
+    is_verified: false,
+    verification_token: 'token',
+    unsubscribe_token: 'unsubscribe',
+    created_at: new Date('2026-01-01'),
+    verified_at: null,
+    last_notified_at: null,
+    ...overrides
+  };
+}
+
+describe('Email Subscriptions Repository', () => {
+  beforeEach(() => {
+    mockQueryFn.mockReset();
+  });
+
+  describe('createEmailSubscription', () => {
+    it('should upsert on the geofence key so drawn areas without a center dedupe', async () => {
+      mockQueryFn.mockResolvedValueOnce({
+        rows: [emailSubscriptionRow({ areas_geojson: { type: 'MultiPolygon', coordinates: [SQUARE] } })]
+      });
+
+      const subscription = await createEmailSubscription({
+        email: 'someone@example.org',
+        areas: [{ type: 'Polygon', coordinates: SQUARE }]
+      });
+
+      const [sql, params] = mockQueryFn.mock.calls[0];
+      expect(sql).toContain('ON CONFLICT (email, geofence_key)');
+      expect(sql).not.toContain('ON CONFLICT (email, latitude, longitude)');
+      expect(sql).toContain("'areas:' || md5(");
+      expect(params[1]).toBeNull();
+      expect(params[2]).toBeNull();
+      expect(subscription.areas).toEqual([{ type: 'Polygon', coordinates: SQUARE }]);
+    });
+  });
+});
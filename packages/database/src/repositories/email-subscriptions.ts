@@ -1,4 +1,8 @@
 import { query } from '../client.js';
+import { AREAS_COLUMN, areasFromParam, areasToParam, areasFromRow, geofenceMatchSql, geofenceKeySql } from '../geofence.js';
+import type { GeoPolygon } from '../types-phase2.js';
+
+export type EmailFrequency = 'instant' | 'daily' | 'weekly';
 
 export interface EmailSubscription {
   id: string;
@@ -6,7 +10,11 @@ export interface EmailSubscription {
   latitude: number | null;
   longitude: number | null;
   radiusKm: number;
+  areas: GeoPolygon[] | null;
   activityTypes: string[];
+  frequency: EmailFrequency;
+  sendHour: number;
+  timezone: string;
   isVerified: boolean;
   verificationToken: string | null;
   unsubscribeToken: string;
@@ -20,7 +28,11 @@ export interface CreateEmailSubscriptionInput {
   latitude?: number;
   longitude?: number;
   radiusKm?: number;
+  areas?: GeoPolygon[];
   activityTypes?: string[];
+  frequency?: EmailFrequency;
+  sendHour?: number;
+  timezone?: string;
 }
 
 interface DbEmailSubscription {
@@ -29,7 +41,11 @@ interface DbEmailSubscription {
   latitude: number | null;
   longitude: number | null;
   radius_km: number;
+  areas_geojson: unknown;
   activity_types: string[];
+  frequency: string;
+  send_hour: number;
+  timezone: string;
   is_verified: boolean;
   verification_token: string | null;
   unsubscribe_token: string;
@@ -45,7 +61,11 @@ function mapDbToSubscription(row: DbEmailSubscription): EmailSubscription {
     latitude: row.latitude,
     longitude: row.longitude,
     radiusKm: row.radius_km,
+    areas: areasFromRow(row.areas_geojson),
     activityTypes: row.activity_types,
+    frequency: row.frequency as EmailFrequency,
+    sendHour: row.send_hour,
+    timezone: row.timezone,
     isVerified: row.is_verified,
     verificationToken: row.verification_token,
     unsubscribeToken: row.unsubscribe_token,
@@ -63,22 +83,34 @@ export async function createEmailSubscription(
 
   const result = await query<DbEmailSubscription>(
     `INSERT INTO email_subscriptions (
-      email, latitude, longitude, radius_km, activity_types, verification_token
-    ) VALUES ($1, $2, $3, $4, $5, $6)
-    ON CONFLICT (email, latitude, longitude) DO UPDATE SET
+      email, latitude, longitude, radius_km, activity_types,
+      frequency, send_hour, timezone, verification_token, areas, geofence_key
+    ) VALUES (
+      $1, $2, $3, $4, $5, $6, $7, $8, $9, ${areasFromParam('$10')},
+      ${geofenceKeySql('$2::float8', '$3::float8', areasFromParam('$10'))}
+    )
+    ON CONFLICT (email, geofence_key) DO UPDATE SET
       radius_km = EXCLUDED.radius_km,
+      areas = EXCLUDED.areas,
       activity_types = EXCLUDED.activity_types,
+      frequency = EXCLUDED.frequency,
+      send_hour = EXCLUDED.send_hour,
+      timezone = EXCLUDED.timezone,
       verification_token = EXCLUDED.verification_token,
       is_verified = FALSE,
       verified_at = NULL
-    RETURNING *`,
+    RETURNING *, ${AREAS_COLUMN}`,
     [
       input.email,
       input.latitude || null,
       input.longitude || null,
       input.radiusKm || 50,
       input.activityTypes || ['raid', 'checkpoint', 'arrest', 'surveillance', 'other'],
-      verificationToken
+      input.frequency || 'instant',
+      input.sendHour ?? 8,
+      input.timezone || 'UTC',
+      verificationToken,
+      areasToParam(input.areas)
     ]
   );
 
@@ -92,7 +124,7 @@ export async function verifyEmailSubscription(
     `UPDATE email_subscriptions
      SET is_verified = TRUE, verified_at = NOW(), verification_token = NULL
      WHERE verification_token = $1
-     RETURNING *`,
+     RETURNING *, ${AREAS_COLUMN}`,
     [token]
   );
 
@@ -111,45 +143,66 @@ export async function unsubscribeEmail(
 }
 
 export async function getEmailSubscriptionsByLocation(
-  latitude: number,
-  longitude: number,
+  latitude: number | null,
+  longitude: number | null,
   activityType: string
 ): Promise<EmailSubscription[]> {
-  // Find all verified subscriptions within their radius of the given location
+  // Find all verified instant-alert subscriptions whose areas or radius
+  // contain the given location. Same matching rules as push subscriptions.
   const result = await query<DbEmailSubscription>(
-    `SELECT *
+    `SELECT *, ${AREAS_COLUMN}
      FROM email_subscriptions
      WHERE is_verified = TRUE
+       AND frequency = 'instant'
        AND $3 = ANY(activity_types)
-       AND (
-         latitude IS NULL
-         OR (
-           -- Approximate distance calculation using Haversine
-           6371 * acos(
-             cos(radians($1)) * cos(radians(latitude)) *
-             cos(radians(longitude) - radians($2)) +
-             sin(radians($1)) * sin(radians(latitude))
-           ) <= radius_km
-         )
-       )`,
+       AND ${geofenceMatchSql('ST_SetSRID(ST_MakePoint($2::float, $1::float), 4326)::geography')}`,
     [latitude, longitude, activityType]
   );
 
   return result.rows.map(mapDbToSubscription);
 }
 
-export async function updateEmailLastNotified(id: string): Promise<void> {
+export async function updateEmailLastNotified(id: string, at: Date = new Date()): Promise<void> {
   await query(
-    `UPDATE email_subscriptions SET last_notified_at = NOW() WHERE id = $1`,
-    [id]
+    `UPDATE email_subscriptions SET last_notified_at = $2 WHERE id = $1`,
+    [id, at]
+  );
+}
+
+/**
+ * Atomically move a subscription's last notification from `from` to `to`.
+ * Returns false if another process moved it first, so only one replica
+ * sends each digest.
+ */
+export async function claimEmailDigest(id: string, from: Date | null, to: Date | null): Promise<boolean> {
+  const result = await query(
+    `UPDATE email_subscriptions SET last_notified_at = $3
+     WHERE id = $1 AND last_notified_at IS NOT DISTINCT FROM $2
+     RETURNING id`,
+    [id, from, to]
   );
+  return result.rows.length > 0;
+}
+
+/**
+ * Verified subscriptions that receive daily or weekly digests instead of
+ * one email per report
+ */
+export async function getDigestSubscriptions(): Promise<EmailSubscription[]> {
+  const result = await query<DbEmailSubscription>(
+    `SELECT *, ${AREAS_COLUMN} FROM email_subscriptions
+     WHERE is_verified = TRUE AND frequency <> 'instant'
+     ORDER BY created_at ASC`
+  );
+
+  return result.rows.map(mapDbToSubscription);
 }
 
 export async function getEmailSubscriptionByEmail(
   email: string
 ): Promise<EmailSubscription | null> {
   const result = await query<DbEmailSubscription>(
-    `SELECT * FROM email_subscriptions WHERE email = $1 ORDER BY created_at DESC LIMIT 1`,
+    `SELECT *, ${AREAS_COLUMN} FROM email_subscriptions WHERE email = $1 ORDER BY created_at DESC LIMIT 1`,
     [email]
   );
 
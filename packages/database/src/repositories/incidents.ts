@@ -0,0 +1,152 @@
+import { query, getClient } from '../client.js';
+import type { ActivityType } from '../types.js';
+import type { Incident, IncidentFilters } from '../types-phase2.js';
+
+interface IncidentRow {
+  id: string;
+  activity_type: string;
+  city: string | null;
+  state: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  first_reported_at: Date;
+  last_reported_at: Date;
+  report_count: number;
+  source_count: number;
+  source_types: string[];
+  created_at: Date;
+  updated_at: Date;
+}
+
+const INCIDENT_COLUMNS = `
+  id, activity_type, city, state,
+  ST_Y(location::geometry) as latitude,
+  ST_X(location::geometry) as longitude,
+  first_reported_at, last_reported_at, report_count, source_count, source_types,
+  created_at, updated_at`;
+
+function rowToIncident(row: IncidentRow): Incident {
+  return {
+    id: row.id,
+    activityType: row.activity_type as ActivityType,
+    city: row.city,
+    state: row.state,
+    latitude: row.latitude,
+    longitude: row.longitude,
+    firstReportedAt: row.first_reported_at,
+    lastReportedAt: row.last_reported_at,
+    reportCount: row.report_count,
+    sourceCount: row.source_count,
+    sourceTypes: row.source_types,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+/**
+ * Put a report into an incident, or into a new incident of its own when
+ * `incidentId` is left out. A report already in another incident moves.
+ * The reports_refresh_incident trigger recomputes the incidents involved.
+ * Returns null if the report or the incident doesn't exist.
+ */
+export async function assignReportToIncident(reportId: string, incidentId?: string): Promise<Incident | null> {
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    let targetId = incidentId;
+    if (!targetId) {
+      const created = await client.query<{ id: string }>(
+        `INSERT INTO incidents (activity_type, first_reported_at, last_reported_at)
+         SELECT activity_type, reported_at, reported_at FROM reports WHERE id = $1
+         RETURNING id`,
+        [reportId]
+      );
+      targetId = created.rows[0]?.id;
+    }
+
+    const updated = targetId
+      ? await client.query(
+          `UPDATE reports SET incident_id = $2
+           WHERE id = $1 AND EXISTS (SELECT 1 FROM incidents WHERE id = $2)`,
+          [reportId, targetId]
+        )
+      : null;
+    if (!updated || updated.rowCount === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const result = await client.query<IncidentRow>(
+      `SELECT ${INCIDENT_COLUMNS} FROM incidents WHERE id = $1`,
+      [targetId]
+    );
+
+    await client.query('COMMIT');
+    return rowToIncident(result.rows[0]);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+export async function getIncidentById(id: string): Promise<Incident | null> {
+  const result = await query<IncidentRow>(
+    `SELECT ${INCIDENT_COLUMNS} FROM incidents WHERE id = $1`,
+    [id]
+  );
+  return result.rows[0] ? rowToIncident(result.rows[0]) : null;
+}
+
+/**
+ * Incidents, most recently reported first
+ */
+export async function getIncidents(
+  filters: IncidentFilters = {}
+): Promise<{ incidents: Incident[]; total: number }> {
+  const { limit = 100, offset = 0 } = filters;
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  const add = (sql: string, ...values: unknown[]) => {
+    let next = sql;
+    for (const value of values) {
+      params.push(value);
+      next = next.replace('?', `$${params.length}`);
+    }
+    conditions.push(next);
+  };
+
+  if (filters.activityTypes && filters.activityTypes.length > 0) {
+    add('activity_type = ANY(?)', filters.activityTypes);
+  }
+  if (filters.timeRange && filters.timeRange !== 'all') {
+    const hours = { '24h': 24, '7d': 168, '30d': 720 }[filters.timeRange];
+    add('last_reported_at > ?', new Date(Date.now() - hours * 60 * 60 * 1000));
+  }
+  if (filters.bounds) {
+    const { west, south, east, north } = filters.bounds;
+    add('location IS NOT NULL AND ST_Intersects(location, ST_MakeEnvelope(?, ?, ?, ?, 4326)::geography)', west, south, east, north);
+  }
+  if (filters.minSources) add('source_count >= ?', filters.minSources);
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const [result, countResult] = await Promise.all([
+    query<IncidentRow>(
+      `SELECT ${INCIDENT_COLUMNS} FROM incidents ${where}
+       ORDER BY last_reported_at DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
+    ),
+    query<{ count: string }>(`SELECT COUNT(*) as count FROM incidents ${where}`, params)
+  ]);
+
+  return {
+    incidents: result.rows.map(rowToIncident),
+    total: parseInt(countResult.rows[0]?.count || '0', 10)
+  };
+}
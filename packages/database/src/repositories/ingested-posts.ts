@@ -0,0 +1,189 @@
+import { query } from '../client.js';
+import type {
+  IngestDecision,
+  IngestedPost,
+  IngestedPostFilters,
+  IngestedPostReprocessQuery,
+  RecordIngestedPostInput
+} from '../types-phase2.js';
+
+interface IngestedPostRow {
+  id: string;
+  source_type: string;
+  source_id: string;
+  url: string | null;
+  text: string;
+  author_handle: string | null;
+  author_display_name: string | null;
+  category: string;
+  posted_at: Date | null;
+  relevance_score: number | null;
+  relevance_confidence: string | null;
+  relevance_reason: string | null;
+  needs_review: boolean;
+  extracted_location: Record<string, unknown> | null;
+  geocode_result: Record<string, unknown> | null;
+  decision: string;
+  report_id: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+function rowToIngestedPost(row: IngestedPostRow): IngestedPost {
+  return {
+    id: row.id,
+    sourceType: row.source_type,
+    sourceId: row.source_id,
+    url: row.url,
+    text: row.text,
+    authorHandle: row.author_handle,
+    authorDisplayName: row.author_display_name,
+    category: row.category,
+    postedAt: row.posted_at,
+    relevanceScore: row.relevance_score,
+    relevanceConfidence: row.relevance_confidence,
+    relevanceReason: row.relevance_reason,
+    needsReview: row.needs_review,
+    extractedLocation: row.extracted_location,
+    geocodeResult: row.geocode_result,
+    decision: row.decision as IngestDecision,
+    reportId: row.report_id,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+/**
+ * Archive a post with the pipeline's decision. Seeing the same post again
+ * (e.g. after the dedup cache expired) replaces the earlier decision.
+ */
+export async function recordIngestedPost(input: RecordIngestedPostInput): Promise<IngestedPost> {
+  const result = await query<IngestedPostRow>(
+    `INSERT INTO ingested_posts (
+      source_type, source_id, url, text, author_handle, author_display_name, category,
+      posted_at, relevance_score, relevance_confidence, relevance_reason, needs_review,
+      extracted_location, geocode_result, decision, report_id
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+    ON CONFLICT (source_type, source_id) DO UPDATE SET
+      url = EXCLUDED.url,
+      text = EXCLUDED.text,
+      author_handle = EXCLUDED.author_handle,
+      author_display_name = EXCLUDED.author_display_name,
+      category = EXCLUDED.category,
+      posted_at = EXCLUDED.posted_at,
+      relevance_score = EXCLUDED.relevance_score,
+      relevance_confidence = EXCLUDED.relevance_confidence,
+      relevance_reason = EXCLUDED.relevance_reason,
+      needs_review = EXCLUDED.needs_review,
+      extracted_location = EXCLUDED.extracted_location,
+      geocode_result = EXCLUDED.geocode_result,
+      decision = EXCLUDED.decision,
+      report_id = COALESCE(EXCLUDED.report_id, ingested_posts.report_id),
+      updated_at = NOW()
+    RETURNING *`,
+    [
+      input.sourceType,
+      input.sourceId,
+      input.url ?? null,
+      input.text,
+      input.authorHandle ?? null,
+      input.authorDisplayName ?? null,
+      input.category,
+      input.postedAt ?? null,
+      input.relevanceScore ?? null,
+      input.relevanceConfidence ?? null,
+      input.relevanceReason ?? null,
+      input.needsReview ?? false,
+      input.extractedLocation ? JSON.stringify(input.extractedLocation) : null,
+      input.geocodeResult ? JSON.stringify(input.geocodeResult) : null,
+      input.decision,
+      input.reportId ?? null
+    ]
+  );
+  return rowToIngestedPost(result.rows[0]);
+}
+
+export async function getIngestedPostById(id: string): Promise<IngestedPost | null> {
+  const result = await query<IngestedPostRow>('SELECT * FROM ingested_posts WHERE id = $1', [id]);
+  return result.rows[0] ? rowToIngestedPost(result.rows[0]) : null;
+}
+
+export async function getIngestedPosts(
+  filters: IngestedPostFilters = {}
+): Promise<{ posts: IngestedPost[]; total: number }> {
+  const { limit = 50, offset = 0 } = filters;
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  const add = (sql: string, value: unknown) => {
+    params.push(value);
+    conditions.push(sql.replace('?', `$${params.length}`));
+  };
+
+  if (filters.sourceType) add('source_type = ?', filters.sourceType);
+  if (filters.sourceId) add('source_id = ?', filters.sourceId);
+  if (filters.decision) add('decision = ?', filters.decision);
+  if (filters.reportId) add('report_id = ?', filters.reportId);
+  if (filters.search) add('text ILIKE ?', `%${filters.search.replace(/[\\%_]/g, '\\$&')}%`);
+  if (filters.since) add('created_at >= ?', filters.since);
+  if (filters.until) add('created_at < ?', filters.until);
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const [result, countResult] = await Promise.all([
+    query<IngestedPostRow>(
+      `SELECT * FROM ingested_posts ${where}
+       ORDER BY created_at DESC, id DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
+    ),
+    query<{ count: string }>(`SELECT COUNT(*) as count FROM ingested_posts ${where}`, params)
+  ]);
+
+  return {
+    posts: result.rows.map(rowToIngestedPost),
+    total: parseInt(countResult.rows[0]?.count || '0', 10)
+  };
+}
+
+/**
+ * Archived posts in a creation window, oldest first, for re-running the
+ * pipeline over them. Pages by `(created_at, id)` rather than offset, so
+ * posts archived while a run is going don't shift its batches.
+ */
+export async function getIngestedPostsForReprocess(
+  input: IngestedPostReprocessQuery = {}
+): Promise<IngestedPost[]> {
+  const result = await query<IngestedPostRow>(
+    `SELECT * FROM ingested_posts
+     WHERE ($1::text IS NULL OR source_type = $1)
+       AND ($2::timestamptz IS NULL OR created_at >= $2)
+       AND ($3::timestamptz IS NULL OR created_at < $3)
+       AND ($4::timestamptz IS NULL OR (created_at, id) > ($4, $5::uuid))
+     ORDER BY created_at ASC, id ASC
+     LIMIT $6`,
+    [
+      input.sourceType ?? null,
+      input.createdAfter ?? null,
+      input.createdBefore ?? null,
+      input.after?.createdAt ?? null,
+      input.after?.id ?? null,
+      input.limit || 100
+    ]
+  );
+  return result.rows.map(rowToIngestedPost);
+}
+
+/**
+ * Retention: drop archived posts older than `retentionDays`. Posts that became
+ * reports stay as long as their report does, since they explain where it came from.
+ */
+export async function pruneIngestedPosts(retentionDays: number): Promise<number> {
+  const result = await query(
+    `DELETE FROM ingested_posts
+     WHERE created_at < NOW() - make_interval(days => $1)
+       AND report_id IS NULL`,
+    [retentionDays]
+  );
+  return result.rowCount ?? 0;
+}
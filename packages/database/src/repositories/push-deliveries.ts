@@ -0,0 +1,66 @@
+import { query } from '../client.js';
+import type { PushDelivery, CreatePushDeliveryInput } from '../types-phase2.js';
+
+interface PushDeliveryRow {
+  id: string;
+  report_id: string;
+  subscription_id: string | null;
+  endpoint: string;
+  status: string;
+  status_code: number | null;
+  error: string | null;
+  created_at: Date;
+}
+
+function rowToPushDelivery(row: PushDeliveryRow): PushDelivery {
+  return {
+    id: row.id,
+    reportId: row.report_id,
+    subscriptionId: row.subscription_id,
+    endpoint: row.endpoint,
+    status: row.status as PushDelivery['status'],
+    statusCode: row.status_code,
+    error: row.error,
+    createdAt: row.created_at
+  };
+}
+
+export async function recordPushDeliveries(deliveries: CreatePushDeliveryInput[]): Promise<void> {
+  if (deliveries.length === 0) return;
+
+  const values = deliveries
+    .map((_, i) => `($${i * 6 + 1}, $${i * 6 + 2}, $${i * 6 + 3}, $${i * 6 + 4}, $${i * 6 + 5}, $${i * 6 + 6})`)
+    .join(', ');
+  const params = deliveries.flatMap((d) => [
+    d.reportId,
+    // Expired subscriptions are pruned before results are recorded
+    d.status === 'expired' ? null : d.subscriptionId,
+    d.endpoint,
+    d.status,
+    d.statusCode ?? null,
+    d.error || null
+  ]);
+
+  await query(
+    `INSERT INTO push_deliveries (report_id, subscription_id, endpoint, status, status_code, error)
+     VALUES ${values}`,
+    params
+  );
+}
+
+export async function getPushDeliveries(
+  reportId?: string,
+  limit = 100,
+  offset = 0
+): Promise<PushDelivery[]> {
+  const result = reportId
+    ? await query<PushDeliveryRow>(
+        `SELECT * FROM push_deliveries WHERE report_id = $1 ORDER BY created_at DESC LIMIT $2 OFFSET $3`,
+        [reportId, limit, offset]
+      )
+    : await query<PushDeliveryRow>(
+        `SELECT * FROM push_deliveries ORDER BY created_at DESC LIMIT $1 OFFSET $2`,
+        [limit, offset]
+      );
+  return result.rows.map(rowToPushDelivery);
+}
@@ -0,0 +1,150 @@
+import { query, getClient } from '../client.js';
+import type { ActivityType } from '../types.js';
+import type {
+  CreateReportLabelInput,
+  ReportLabel,
+  ReportLabelFilters,
+  ReportLabelKind
+} from '../types-phase2.js';
+
+interface ReportLabelRow {
+  id: string;
+  report_id: string | null;
+  label: string;
+  text: string;
+  source_type: string;
+  source_id: string | null;
+  author_handle: string | null;
+  reported_city: string | null;
+  reported_state: string | null;
+  reported_activity_type: string | null;
+  corrected_city: string | null;
+  corrected_state: string | null;
+  corrected_activity_type: string | null;
+  language: string | null;
+  moderator: string;
+  notes: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+function rowToReportLabel(row: ReportLabelRow): ReportLabel {
+  return {
+    id: row.id,
+    reportId: row.report_id,
+    label: row.label as ReportLabelKind,
+    text: row.text,
+    sourceType: row.source_type,
+    sourceId: row.source_id,
+    authorHandle: row.author_handle,
+    reportedCity: row.reported_city,
+    reportedState: row.reported_state,
+    reportedActivityType: row.reported_activity_type as ActivityType | null,
+    correctedCity: row.corrected_city,
+    correctedState: row.corrected_state,
+    correctedActivityType: row.corrected_activity_type as ActivityType | null,
+    language: row.language,
+    moderator: row.moderator,
+    notes: row.notes,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+/**
+ * Record a moderator's label on a report, copying in the report's text and
+ * current location/activity type, and log it. Labeling the same report the
+ * same way again replaces the earlier correction. Returns null if the report
+ * doesn't exist.
+ */
+export async function labelReport(input: CreateReportLabelInput): Promise<ReportLabel | null> {
+  const client = await getClient();
+
+  try {
+    await client.query('BEGIN');
+
+    const result = await client.query<ReportLabelRow>(
+      `INSERT INTO report_labels (
+        report_id, label, text, source_type, source_id, author_handle,
+        reported_city, reported_state, reported_activity_type,
+        corrected_city, corrected_state, corrected_activity_type,
+        language, moderator, notes
+      )
+      SELECT
+        r.id, $2, r.description, r.source_type, r.source_id, r.author_handle,
+        r.city, r.state, r.activity_type,
+        $3, $4, $5, $6, $7, $8
+      FROM reports r
+      WHERE r.id = $1
+      ON CONFLICT (report_id, label) DO UPDATE SET
+        corrected_city = EXCLUDED.corrected_city,
+        corrected_state = EXCLUDED.corrected_state,
+        corrected_activity_type = EXCLUDED.corrected_activity_type,
+        language = COALESCE(EXCLUDED.language, report_labels.language),
+        moderator = EXCLUDED.moderator,
+        notes = EXCLUDED.notes,
+        updated_at = NOW()
+      RETURNING *`,
+      [
+        input.reportId,
+        input.label,
+        input.correctedCity ?? null,
+        input.correctedState ?? null,
+        input.correctedActivityType ?? null,
+        input.language ?? null,
+        input.moderator,
+        input.notes ?? null
+      ]
+    );
+
+    if (result.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    await client.query(
+      `INSERT INTO moderation_log (report_id, action, moderator, reason)
+       VALUES ($1, $2, $3, $4)`,
+      [input.reportId, `label_${input.label}`, input.moderator, input.notes ?? null]
+    );
+
+    await client.query('COMMIT');
+    return rowToReportLabel(result.rows[0]);
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+export async function getReportLabels(
+  filters: ReportLabelFilters = {}
+): Promise<{ labels: ReportLabel[]; total: number }> {
+  const { limit = 50, offset = 0 } = filters;
+  const where = filters.label ? 'WHERE label = $1' : '';
+  const params: unknown[] = filters.label ? [filters.label] : [];
+
+  const [result, countResult] = await Promise.all([
+    query<ReportLabelRow>(
+      `SELECT * FROM report_labels ${where}
+       ORDER BY created_at DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
+    ),
+    query<{ count: string }>(`SELECT COUNT(*) as count FROM report_labels ${where}`, params)
+  ]);
+
+  return {
+    labels: result.rows.map(rowToReportLabel),
+    total: parseInt(countResult.rows[0]?.count || '0', 10)
+  };
+}
+
+/**
+ * Every label, oldest first, for exporting to the evaluation corpus
+ */
+export async function getAllReportLabels(): Promise<ReportLabel[]> {
+  const result = await query<ReportLabelRow>('SELECT * FROM report_labels ORDER BY created_at ASC, id ASC');
+  return result.rows.map(rowToReportLabel);
+}
@@ -0,0 +1,63 @@
+import { query } from '../client.js';
+import type {
+  RecordReportRevisionInput,
+  ReportRevision,
+  ReportRevisionChange
+} from '../types-phase2.js';
+
+interface ReportRevisionRow {
+  id: string;
+  run_id: string;
+  report_id: string;
+  change: string;
+  reason: string | null;
+  before_state: Record<string, unknown> | null;
+  after_state: Record<string, unknown>;
+  created_at: Date;
+}
+
+function rowToReportRevision(row: ReportRevisionRow): ReportRevision {
+  return {
+    id: row.id,
+    runId: row.run_id,
+    reportId: row.report_id,
+    change: row.change as ReportRevisionChange,
+    reason: row.reason,
+    beforeState: row.before_state,
+    afterState: row.after_state,
+    createdAt: row.created_at
+  };
+}
+
+export async function recordReportRevision(input: RecordReportRevisionInput): Promise<ReportRevision> {
+  const result = await query<ReportRevisionRow>(
+    `INSERT INTO report_revisions (run_id, report_id, change, reason, before_state, after_state)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING *`,
+    [
+      input.runId,
+      input.reportId,
+      input.change,
+      input.reason ?? null,
+      input.beforeState ? JSON.stringify(input.beforeState) : null,
+      JSON.stringify(input.afterState)
+    ]
+  );
+  return rowToReportRevision(result.rows[0]);
+}
+
+export async function getReportRevisions(reportId: string): Promise<ReportRevision[]> {
+  const result = await query<ReportRevisionRow>(
+    'SELECT * FROM report_revisions WHERE report_id = $1 ORDER BY created_at DESC',
+    [reportId]
+  );
+  return result.rows.map(rowToReportRevision);
+}
+
+export async function getReportRevisionsForRun(runId: string): Promise<ReportRevision[]> {
+  const result = await query<ReportRevisionRow>(
+    'SELECT * FROM report_revisions WHERE run_id = $1 ORDER BY created_at ASC',
+    [runId]
+  );
+  return result.rows.map(rowToReportRevision);
+}
@@ -13,7 +13,7 @@ vi.mock('../client.js', () => ({
 
 // Import after mocking
 const reportsModule = await import('./reports.js');
-const { getReports, getReportById, createReport, getReportBySourceId } = reportsModule;
+const { getReports, getReportById, createReport, getReportBySourceId, getIncidentCandidates } = reportsModule;
 
 describe('Reports Repository', () => {
   beforeEach(() => {
@@ -74,6 +74,30 @@ describe('Reports Repository', () => {
       expect(result.reports).toHaveLength(0);
       expect(result.total).toBe(0);
     });
+
+    it('should filter time ranges by when the activity happened', async () => {
+      mockQueryFn
+        .mockResolvedValueOnce({ rows: [{ count: '0' }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await getReports({ timeRange: '24h' }, { limit: 10, offset: 0 });
+
+      const [sql, params] = mockQueryFn.mock.calls[0];
+      expect(sql).toContain('COALESCE(occurred_at, reported_at) > $1');
+      expect(Date.now() - (params[0] as Date).getTime()).toBeGreaterThanOrEqual(24 * 60 * 60 * 1000);
+    });
+
+    it('should filter by location precision', async () => {
+      mockQueryFn
+        .mockResolvedValueOnce({ rows: [{ count: '0' }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await getReports({ locationPrecisions: ['exact', 'street'] }, { limit: 10, offset: 0 });
+
+      const [sql, params] = mockQueryFn.mock.calls[0];
+      expect(sql).toContain('location_precision = ANY($1)');
+      expect(params[0]).toEqual(['exact', 'street']);
+    });
   });
 
   describe('getReportById', () => {
@@ -158,6 +182,28 @@ describe('Reports Repository', () => {
       expect(result.status).toBe('pending');
       expect(result.city).toBe('Chicago');
     });
+
+    it('should store the location precision with its usual radius unless given one', async () => {
+      mockQueryFn.mockResolvedValue({ rows: [{ id: 'new-2', location_precision: 'city', location_radius_m: 8000 }] });
+      const input = {
+        sourceType: 'user_submitted' as const,
+        activityType: 'raid' as const,
+        description: 'ICE raid observed',
+        authorHandle: 'reporter1',
+        reportedAt: new Date('2024-01-20')
+      };
+
+      const result = await createReport({ ...input, city: 'Chicago', locationPrecision: 'city' });
+      await createReport({ ...input, latitude: 41.88, longitude: -87.63, locationPrecision: 'exact', locationRadiusM: 12.4 });
+      await createReport(input);
+
+      expect(mockQueryFn.mock.calls.map(([, params]) => params.slice(16, 18))).toEqual([
+        ['city', 8000],
+        ['exact', 12],
+        [null, null]
+      ]);
+      expect(result).toMatchObject({ locationPrecision: 'city', locationRadiusM: 8000 });
+    });
   });
 
   describe('getReportBySourceId', () => {
@@ -199,4 +245,48 @@ describe('Reports Repository', () => {
       expect(result).toBeNull();
     });
   });
+
+  describe('getIncidentCandidates', () => {
+    it('should search clustered reports around the point and window, by city when coordinates are missing', async () => {
+      mockQueryFn.mockResolvedValueOnce({
+        rows: [{
+          id: '2',
+          source_type: 'mastodon',
+          source_id: 'https://mastodon.social/@user/1',
+          activity_type: 'raid',
+          description: 'Raid at the Home Depot',
+          city: 'Los Angeles',
+          state: 'California',
+          latitude: null,
+          longitude: null,
+          author_handle: 'user',
+          author_display_name: null,
+          status: 'unverified',
+          incident_id: 'incident-1',
+          reported_at: new Date('2026-10-19T14:00:00Z'),
+          created_at: new Date('2026-10-19T14:00:00Z'),
+          updated_at: new Date('2026-10-19T14:00:00Z')
+        }]
+      });
+
+      const after = new Date('2026-10-17T15:00:00Z');
+      const before = new Date('2026-10-21T15:00:00Z');
+      const result = await getIncidentCandidates({
+        reportId: '1',
+        latitude: 34.05,
+        longitude: -118.24,
+        city: 'Los Angeles',
+        state: 'California',
+        reportedAfter: after,
+        reportedBefore: before,
+        radiusKm: 2
+      });
+
+      const [sql, params] = mockQueryFn.mock.calls[0];
+      expect(sql).toContain('incident_id IS NOT NULL');
+      expect(sql).toContain('ST_DWithin');
+      expect(params).toEqual(['1', after, before, -118.24, 34.05, 2, 'Los Angeles', 'California', 200]);
+      expect(result[0].incidentId).toBe('incident-1');
+    });
+  });
 });
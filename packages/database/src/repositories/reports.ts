@@ -1,5 +1,8 @@
 import { query } from '../client.js';
-import type { Report, CreateReportInput, ReportFilters, PaginationOptions } from '../types.js';
+import type { Report, CreateReportInput, LocationPrecision, ReportFilters, PaginationOptions } from '../types.js';
+import type { AlertChannel, ReprocessCursor } from '../types-phase2.js';
+import { geofenceMatchSql } from '../geofence.js';
+import { DEFAULT_LOCATION_RADIUS_M } from '../location-precision.js';
 
 interface ReportRow {
   id: string;
@@ -16,6 +19,12 @@ interface ReportRow {
   photo_url: string | null;
   status: string;
   metadata: Record<string, unknown> | null;
+  language: string | null;
+  incident_id: string | null;
+  occurred_at: Date | null;
+  occurred_at_confidence: string | null;
+  location_precision: string | null;
+  location_radius_m: number | null;
   reported_at: Date;
   created_at: Date;
   updated_at: Date;
@@ -37,31 +46,42 @@ function rowToReport(row: ReportRow): Report {
     photoUrl: row.photo_url,
     status: row.status as Report['status'],
     metadata: row.metadata ?? {},
+    language: row.language ?? null,
+    incidentId: row.incident_id ?? null,
+    occurredAt: row.occurred_at ?? null,
+    occurredAtConfidence: (row.occurred_at_confidence as Report['occurredAtConfidence']) ?? null,
+    locationPrecision: (row.location_precision as Report['locationPrecision']) ?? null,
+    locationRadiusM: row.location_radius_m ?? null,
     reportedAt: row.reported_at,
     createdAt: row.created_at,
     updatedAt: row.updated_at
   };
 }
 
+function locationRadius(precision?: LocationPrecision | null, radiusM?: number | null): number | null {
+  if (!precision) return null;
+  return radiusM ? Math.round(radiusM) : DEFAULT_LOCATION_RADIUS_M[precision];
+}
+
 export async function createReport(input: CreateReportInput): Promise<Report> {
   const result = await query<ReportRow>(
     `INSERT INTO reports (
       source_type, source_id, activity_type, description,
       city, state, location, author_handle, author_display_name,
-      photo_url, status, metadata, reported_at
+      photo_url, status, metadata, language, occurred_at, occurred_at_confidence, location_precision, location_radius_m, reported_at
     ) VALUES (
       $1, $2, $3, $4, $5, $6,
       CASE WHEN $7::float IS NOT NULL AND $8::float IS NOT NULL
         THEN ST_SetSRID(ST_MakePoint($7, $8), 4326)::geography
         ELSE NULL
       END,
-      $9, $10, $11, $12, $13::jsonb, $14
+      $9, $10, $11, $12, $13::jsonb, $14, $15, $16, $17, $18, $19
     ) RETURNING
       id, source_type, source_id, activity_type, description,
       city, state,
       ST_Y(location::geometry) as latitude,
       ST_X(location::geometry) as longitude,
-      author_handle, author_display_name, photo_url, status, metadata, reported_at, created_at, updated_at`,
+      author_handle, author_display_name, photo_url, status, metadata, language, incident_id, occurred_at, occurred_at_confidence, location_precision, location_radius_m, reported_at, created_at, updated_at`,
     [
       input.sourceType,
       input.sourceId || null,
@@ -76,6 +96,11 @@ export async function createReport(input: CreateReportInput): Promise<Report> {
       input.photoUrl || null,
       input.status || 'unverified',
       JSON.stringify(input.metadata || {}),
+      input.language || null,
+      input.occurredAt ?? null,
+      input.occurredAt ? input.occurredAtConfidence ?? null : null,
+      input.locationPrecision ?? null,
+      locationRadius(input.locationPrecision, input.locationRadiusM),
       input.reportedAt
     ]
   );
@@ -89,7 +114,7 @@ export async function getReportById(id: string): Promise<Report | null> {
       city, state,
       ST_Y(location::geometry) as latitude,
       ST_X(location::geometry) as longitude,
-      author_handle, author_display_name, photo_url, status, metadata, reported_at, created_at, updated_at
+      author_handle, author_display_name, photo_url, status, metadata, language, incident_id, occurred_at, occurred_at_confidence, location_precision, location_radius_m, reported_at, created_at, updated_at
     FROM reports WHERE id = $1`,
     [id]
   );
@@ -103,7 +128,7 @@ export async function getReportBySourceId(sourceType: string, sourceId: string):
       city, state,
       ST_Y(location::geometry) as latitude,
       ST_X(location::geometry) as longitude,
-      author_handle, author_display_name, photo_url, status, metadata, reported_at, created_at, updated_at
+      author_handle, author_display_name, photo_url, status, metadata, language, incident_id, occurred_at, occurred_at_confidence, location_precision, location_radius_m, reported_at, created_at, updated_at
     FROM reports WHERE source_type = $1 AND source_id = $2`,
     [sourceType, sourceId]
   );
@@ -125,6 +150,20 @@ export async function getReports(
     paramIndex++;
   }
 
+  // Language filter
+  if (filters.languages && filters.languages.length > 0) {
+    conditions.push(`language = ANY($${paramIndex})`);
+    params.push(filters.languages);
+    paramIndex++;
+  }
+
+  // Location precision filter
+  if (filters.locationPrecisions && filters.locationPrecisions.length > 0) {
+    conditions.push(`location_precision = ANY($${paramIndex})`);
+    params.push(filters.locationPrecisions);
+    paramIndex++;
+  }
+
   // Status filter
   if (filters.status && filters.status.length > 0) {
     conditions.push(`status = ANY($${paramIndex})`);
@@ -132,13 +171,14 @@ export async function getReports(
     paramIndex++;
   }
 
-  // Time range filter - use parameterized timestamp instead of INTERVAL string interpolation
+  // Time range filter - use parameterized timestamp instead of INTERVAL string interpolation.
+  // Reports count from when the activity happened, where the text says.
   if (filters.timeRange && filters.timeRange !== 'all') {
     const hoursMap: Record<string, number> = { '24h': 24, '7d': 168, '30d': 720 };
     const hours = hoursMap[filters.timeRange];
     if (hours !== undefined) {
       const cutoffDate = new Date(Date.now() - hours * 60 * 60 * 1000);
-      conditions.push(`reported_at > $${paramIndex}`);
+      conditions.push(`COALESCE(occurred_at, reported_at) > $${paramIndex}`);
       params.push(cutoffDate);
       paramIndex++;
     }
@@ -176,7 +216,7 @@ export async function getReports(
       city, state,
       ST_Y(location::geometry) as latitude,
       ST_X(location::geometry) as longitude,
-      author_handle, author_display_name, photo_url, status, metadata, reported_at, created_at, updated_at
+      author_handle, author_display_name, photo_url, status, metadata, language, incident_id, occurred_at, occurred_at_confidence, location_precision, location_radius_m, reported_at, created_at, updated_at
     FROM reports
     ${whereClause}
     ORDER BY reported_at DESC
@@ -190,6 +230,189 @@ export async function getReports(
   };
 }
 
+export interface DigestReportQuery {
+  subscriptionId: string;
+  createdAfter: Date;
+  createdBefore: Date;
+  reportedAfter: Date;
+  limit?: number;
+}
+
+/**
+ * Reports created in a digest window that match an email subscription's
+ * activity types and geofence. Disputed and needs_review reports are left
+ * out, as they are for instant alerts.
+ */
+export async function getReportsForDigest(input: DigestReportQuery): Promise<Report[]> {
+  const result = await query<ReportRow>(
+    `SELECT
+      r.id, r.source_type, r.source_id, r.activity_type, r.description,
+      r.city, r.state,
+      ST_Y(r.location::geometry) as latitude,
+      ST_X(r.location::geometry) as longitude,
+      r.author_handle, r.author_display_name, r.photo_url, r.status, r.metadata, r.language, r.incident_id, r.occurred_at, r.occurred_at_confidence, r.location_precision, r.location_radius_m,
+      r.reported_at, r.created_at, r.updated_at
+    FROM reports r
+    JOIN email_subscriptions s ON s.id = $1
+    WHERE r.created_at > $2 AND r.created_at <= $3
+      AND r.reported_at > $4
+      AND r.activity_type = ANY(s.activity_types)
+      AND r.status <> 'disputed'
+      AND COALESCE((r.metadata->>'needs_review')::boolean, FALSE) = FALSE
+      AND ${geofenceMatchSql('r.location', 's.')}
+    ORDER BY r.reported_at DESC
+    LIMIT $5`,
+    [
+      input.subscriptionId,
+      input.createdAfter,
+      input.createdBefore,
+      input.reportedAfter,
+      input.limit || 100
+    ]
+  );
+  return result.rows.map(rowToReport);
+}
+
+export interface ReprocessReportQuery {
+  sourceType?: string;
+  createdAfter?: Date;
+  createdBefore?: Date;
+  /** Continue after this report, so reports added during a run don't shift the pages */
+  after?: ReprocessCursor;
+  limit?: number;
+}
+
+/**
+ * Ingested reports in a creation window, oldest first, for re-running the
+ * pipeline over them. User submissions never went through the pipeline.
+ */
+export async function getReportsForReprocess(input: ReprocessReportQuery = {}): Promise<Report[]> {
+  const result = await query<ReportRow>(
+    `SELECT
+      id, source_type, source_id, activity_type, description,
+      city, state,
+      ST_Y(location::geometry) as latitude,
+      ST_X(location::geometry) as longitude,
+      author_handle, author_display_name, photo_url, status, metadata, language, incident_id, occurred_at, occurred_at_confidence, location_precision, location_radius_m, reported_at, created_at, updated_at
+    FROM reports
+    WHERE source_type <> 'user_submitted'
+      AND source_id IS NOT NULL
+      AND ($1::text IS NULL OR source_type = $1)
+      AND ($2::timestamptz IS NULL OR created_at >= $2)
+      AND ($3::timestamptz IS NULL OR created_at < $3)
+      AND ($4::timestamptz IS NULL OR (created_at, id) > ($4, $5::uuid))
+    ORDER BY created_at ASC, id ASC
+    LIMIT $6`,
+    [
+      input.sourceType ?? null,
+      input.createdAfter ?? null,
+      input.createdBefore ?? null,
+      input.after?.createdAt ?? null,
+      input.after?.id ?? null,
+      input.limit || 100
+    ]
+  );
+  return result.rows.map(rowToReport);
+}
+
+export interface IncidentCandidateQuery {
+  /** The report looking for an incident; it's left out of the results */
+  reportId: string;
+  latitude: number | null;
+  longitude: number | null;
+  city: string | null;
+  state: string | null;
+  reportedAfter: Date;
+  reportedBefore: Date;
+  radiusKm: number;
+  limit?: number;
+}
+
+/**
+ * Reports already in an incident that are close enough in time and place to
+ * be the same event: reported in the window, and within radiusKm when both
+ * have coordinates or in the same city when either doesn't.
+ */
+export async function getIncidentCandidates(input: IncidentCandidateQuery): Promise<Report[]> {
+  const result = await query<ReportRow>(
+    `SELECT
+      id, source_type, source_id, activity_type, description,
+      city, state,
+      ST_Y(location::geometry) as latitude,
+      ST_X(location::geometry) as longitude,
+      author_handle, author_display_name, photo_url, status, metadata, language, incident_id, occurred_at, occurred_at_confidence, location_precision, location_radius_m, reported_at, created_at, updated_at
+    FROM reports
+    WHERE incident_id IS NOT NULL
+      AND id <> $1
+      AND reported_at >= $2 AND reported_at <= $3
+      AND (
+        (
+          location IS NOT NULL AND $4::float IS NOT NULL AND $5::float IS NOT NULL
+          AND ST_DWithin(location, ST_SetSRID(ST_MakePoint($4, $5), 4326)::geography, $6::float * 1000)
+        )
+        OR (
+          (location IS NULL OR $4::float IS NULL OR $5::float IS NULL)
+          AND lower(city) = lower($7) AND state IS NOT DISTINCT FROM $8::text
+        )
+      )
+    ORDER BY reported_at DESC
+    LIMIT $9`,
+    [
+      input.reportId,
+      input.reportedAfter,
+      input.reportedBefore,
+      input.longitude,
+      input.latitude,
+      input.radiusKm,
+      input.city,
+      input.state,
+      input.limit || 200
+    ]
+  );
+  return result.rows.map(rowToReport);
+}
+
+/**
+ * An incident's reports, oldest first
+ */
+export async function getReportsByIncident(incidentId: string): Promise<Report[]> {
+  const result = await query<ReportRow>(
+    `SELECT
+      id, source_type, source_id, activity_type, description,
+      city, state,
+      ST_Y(location::geometry) as latitude,
+      ST_X(location::geometry) as longitude,
+      author_handle, author_display_name, photo_url, status, metadata, language, incident_id, occurred_at, occurred_at_confidence, location_precision, location_radius_m, reported_at, created_at, updated_at
+    FROM reports
+    WHERE incident_id = $1
+    ORDER BY reported_at ASC, id ASC`,
+    [incidentId]
+  );
+  return result.rows.map(rowToReport);
+}
+
+/**
+ * Located reports not yet grouped into an incident, oldest first: user
+ * submissions, and anything ingestion couldn't cluster when it saved it
+ */
+export async function getUnclusteredReports(limit = 100): Promise<Report[]> {
+  const result = await query<ReportRow>(
+    `SELECT
+      id, source_type, source_id, activity_type, description,
+      city, state,
+      ST_Y(location::geometry) as latitude,
+      ST_X(location::geometry) as longitude,
+      author_handle, author_display_name, photo_url, status, metadata, language, incident_id, occurred_at, occurred_at_confidence, location_precision, location_radius_m, reported_at, created_at, updated_at
+    FROM reports
+    WHERE incident_id IS NULL
+      AND (location IS NOT NULL OR city IS NOT NULL)
+    ORDER BY reported_at ASC, id ASC
+    LIMIT $1`,
+    [limit]
+  );
+  return result.rows.map(rowToReport);
+}
+
 export async function updateReportStatus(id: string, status: Report['status']): Promise<Report | null> {
   const result = await query<ReportRow>(
     `UPDATE reports
@@ -200,13 +423,107 @@ export async function updateReportStatus(id: string, status: Report['status']):
       city, state,
       ST_Y(location::geometry) as latitude,
       ST_X(location::geometry) as longitude,
-      author_handle, author_display_name, photo_url, status, metadata, reported_at, created_at, updated_at`,
+      author_handle, author_display_name, photo_url, status, metadata, language, incident_id, occurred_at, occurred_at_confidence, location_precision, location_radius_m, reported_at, created_at, updated_at`,
     [status, id]
   );
   return result.rows[0] ? rowToReport(result.rows[0]) : null;
 }
 
+export interface ReportLocationUpdate {
+  city: string | null;
+  state: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  locationPrecision: LocationPrecision | null;
+  locationRadiusM?: number | null;
+}
+
+export async function updateReportLocation(id: string, location: ReportLocationUpdate): Promise<Report | null> {
+  const result = await query<ReportRow>(
+    `UPDATE reports
+    SET city = $1,
+      state = $2,
+      location = CASE WHEN $3::float IS NOT NULL AND $4::float IS NOT NULL
+        THEN ST_SetSRID(ST_MakePoint($3, $4), 4326)::geography
+        ELSE NULL
+      END,
+      location_precision = $5,
+      location_radius_m = $6,
+      updated_at = NOW()
+    WHERE id = $7
+    RETURNING
+      id, source_type, source_id, activity_type, description,
+      city, state,
+      ST_Y(location::geometry) as latitude,
+      ST_X(location::geometry) as longitude,
+      author_handle, author_display_name, photo_url, status, metadata, language, incident_id, occurred_at, occurred_at_confidence, location_precision, location_radius_m, reported_at, created_at, updated_at`,
+    [
+      location.city,
+      location.state,
+      location.longitude,
+      location.latitude,
+      location.locationPrecision,
+      locationRadius(location.locationPrecision, location.locationRadiusM),
+      id
+    ]
+  );
+  return result.rows[0] ? rowToReport(result.rows[0]) : null;
+}
+
 export async function deleteReport(id: string): Promise<boolean> {
   const result = await query('DELETE FROM reports WHERE id = $1', [id]);
   return (result.rowCount ?? 0) > 0;
 }
+
+// Each alert channel tracks its own hand-off so a slow or broken channel
+// never holds back the others
+const ALERT_DISPATCH_COLUMNS: Record<AlertChannel, string> = {
+  push: 'push_dispatched_at',
+  email: 'email_dispatched_at',
+  webhook: 'webhook_dispatched_at'
+};
+
+/**
+ * Atomically mark a report as handed to a channel's dispatcher.
+ * Returns false if another dispatcher already claimed it.
+ */
+export async function claimReportForAlert(id: string, channel: AlertChannel): Promise<boolean> {
+  const column = ALERT_DISPATCH_COLUMNS[channel];
+  const result = await query(
+    `UPDATE reports SET ${column} = NOW()
+     WHERE id = $1 AND ${column} IS NULL`,
+    [id]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Claim recently created reports that a channel has not alerted on yet, regardless
+ * of which process wrote them. SKIP LOCKED lets several API replicas sweep at once.
+ */
+export async function claimPendingAlertReports(
+  channel: AlertChannel,
+  maxAgeMinutes = 60,
+  limit = 50
+): Promise<Report[]> {
+  const column = ALERT_DISPATCH_COLUMNS[channel];
+  const result = await query<ReportRow>(
+    `UPDATE reports SET ${column} = NOW()
+    WHERE id IN (
+      SELECT id FROM reports
+      WHERE ${column} IS NULL
+        AND created_at > $1
+      ORDER BY created_at ASC
+      LIMIT $2
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING
+      id, source_type, source_id, activity_type, description,
+      city, state,
+      ST_Y(location::geometry) as latitude,
+      ST_X(location::geometry) as longitude,
+      author_handle, author_display_name, photo_url, status, metadata, language, incident_id, occurred_at, occurred_at_confidence, location_precision, location_radius_m, reported_at, created_at, updated_at`,
+    [new Date(Date.now() - maxAgeMinutes * 60 * 1000), limit]
+  );
+  return result.rows.map(rowToReport);
+}
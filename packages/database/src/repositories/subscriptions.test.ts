@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockQueryFn = vi.fn();
+
+vi.mock('../client.js', () => ({
+  query: (...args: unknown[]) => mockQueryFn(...args),
+  getPool: vi.fn(),
+  closePool: vi.fn(),
+  testConnection: vi.fn().mockResolvedValue(true)
+}));
+
+const { createSubscription, getSubscriptionsForReport } = await import('./subscriptions.js');
+
+const SQUARE = [[[-118.3, 34.0], [-118.2, 34.0], [-118.2, 34.1], [-118.3, 34.1], [-118.3, 34.0]]];
+
+function subscriptionRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'sub-1',
+    endpoint: 'https://push.example.com/abc',
+    p256dh: 'key',
+    auth: 'auth',
+    latitude: null,
+    longitude: null,
+    radius_km: 50,
+    areas_geojson: null,
+    activity_types: ['raid'],
+    created_at: new Date('2026-01-01'),
+    last_notified_at: null,
+    ...overrides
+  };
+}
+
+describe('Subscriptions Repository', () => {
+  beforeEach(() => {
+    mockQueryFn.mockReset();
+  });
+
+  describe('createSubscription', () => {
+    it('should store drawn areas as a MultiPolygon and map them back', async () => {
+      mockQueryFn.mockResolvedValueOnce({
+        rows: [subscriptionRow({ areas_geojson: { type: 'MultiPolygon', coordinates: [SQUARE] } })]
+      });
+
+      const subscription = await createSubscription({
+        endpoint: 'https://push.example.com/abc',
+        p256dh: 'key',
+        auth: 'auth',
+        areas: [{ type: 'Polygon', coordinates: SQUARE }]
+      });
+
+      const [sql, params] = mockQueryFn.mock.calls[0];
+      expect(sql).toContain('ST_GeomFromGeoJSON');
+      expect(JSON.parse(params[7])).toEqual({ type: 'MultiPolygon', coordinates: [SQUARE] });
+      expect(subscription.areas).toEqual([{ type: 'Polygon', coordinates: SQUARE }]);
+    });
+
+    it('should clear areas when none are given', async () => {
+      mockQueryFn.mockResolvedValueOnce({ rows: [subscriptionRow()] });
+
+      const subscription = await createSubscription({
+        endpoint: 'https://push.example.com/abc',
+        p256dh: 'key',
+        auth: 'auth',
+        latitude: 34.05,
+        longitude: -118.25
+      });
+
+      expect(mockQueryFn.mock.calls[0][1][7]).toBeNull();
+      expect(subscription.areas).toBeNull();
+    });
+  });
+
+  describe('getSubscriptionsForReport', () => {
+    it('should match areas and radius with PostGIS', async () => {
+      mockQueryFn.mockResolvedValueOnce({ rows: [subscriptionRow()] });
+
+      await getSubscriptionsForReport(34.05, -118.25, 'raid');
+
+      const [sql, params] = mockQueryFn.mock.calls[0];
+      expect(sql).toContain('ST_Intersects(areas');
+      expect(sql).toContain('ST_DWithin(location');
+      expect(sql).not.toContain('acos');
+      expect(params).toEqual([34.05, -118.25, 'raid']);
+    });
+  });
+});
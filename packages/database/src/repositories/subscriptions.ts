@@ -1,4 +1,5 @@
 import { query } from '../client.js';
+import { AREAS_COLUMN, areasFromParam, areasToParam, areasFromRow, geofenceMatchSql } from '../geofence.js';
 import type { PushSubscription, CreatePushSubscriptionInput } from '../types-phase2.js';
 
 interface SubscriptionRow {
@@ -9,6 +10,7 @@ interface SubscriptionRow {
   latitude: number | null;
   longitude: number | null;
   radius_km: number;
+  areas_geojson: unknown;
   activity_types: string[];
   created_at: Date;
   last_notified_at: Date | null;
@@ -23,6 +25,7 @@ function rowToSubscription(row: SubscriptionRow): PushSubscription {
     latitude: row.latitude,
     longitude: row.longitude,
     radiusKm: row.radius_km,
+    areas: areasFromRow(row.areas_geojson),
     activityTypes: row.activity_types,
     createdAt: row.created_at,
     lastNotifiedAt: row.last_notified_at
@@ -31,16 +34,17 @@ function rowToSubscription(row: SubscriptionRow): PushSubscription {
 
 export async function createSubscription(input: CreatePushSubscriptionInput): Promise<PushSubscription> {
   const result = await query<SubscriptionRow>(
-    `INSERT INTO push_subscriptions (endpoint, p256dh, auth, latitude, longitude, radius_km, activity_types)
-     VALUES ($1, $2, $3, $4, $5, $6, $7)
+    `INSERT INTO push_subscriptions (endpoint, p256dh, auth, latitude, longitude, radius_km, activity_types, areas)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, ${areasFromParam('$8')})
      ON CONFLICT (endpoint) DO UPDATE SET
        p256dh = EXCLUDED.p256dh,
        auth = EXCLUDED.auth,
        latitude = EXCLUDED.latitude,
        longitude = EXCLUDED.longitude,
        radius_km = EXCLUDED.radius_km,
-       activity_types = EXCLUDED.activity_types
-     RETURNING *`,
+       activity_types = EXCLUDED.activity_types,
+       areas = EXCLUDED.areas
+     RETURNING *, ${AREAS_COLUMN}`,
     [
       input.endpoint,
       input.p256dh,
@@ -48,7 +52,8 @@ export async function createSubscription(input: CreatePushSubscriptionInput): Pr
       input.latitude || null,
       input.longitude || null,
       input.radiusKm || 50,
-      input.activityTypes || ['raid', 'checkpoint', 'arrest', 'surveillance', 'other']
+      input.activityTypes || ['raid', 'checkpoint', 'arrest', 'surveillance', 'other'],
+      areasToParam(input.areas)
     ]
   );
   return rowToSubscription(result.rows[0]);
@@ -60,23 +65,16 @@ export async function deleteSubscription(endpoint: string): Promise<boolean> {
 }
 
 export async function getSubscriptionsForReport(
-  latitude: number,
-  longitude: number,
+  latitude: number | null,
+  longitude: number | null,
   activityType: string
 ): Promise<PushSubscription[]> {
+  // Matched against the drawn areas and the point/radius with PostGIS;
+  // subscriptions with neither receive every report
   const result = await query<SubscriptionRow>(
-    `SELECT * FROM push_subscriptions
+    `SELECT *, ${AREAS_COLUMN} FROM push_subscriptions
      WHERE $3 = ANY(activity_types)
-     AND (
-       latitude IS NULL
-       OR (
-         6371 * acos(
-           cos(radians($1)) * cos(radians(latitude)) *
-           cos(radians(longitude) - radians($2)) +
-           sin(radians($1)) * sin(radians(latitude))
-         )
-       ) <= radius_km
-     )`,
+     AND ${geofenceMatchSql('ST_SetSRID(ST_MakePoint($2::float, $1::float), 4326)::geography')}`,
     [latitude, longitude, activityType]
   );
   return result.rows.map(rowToSubscription);
@@ -91,6 +89,6 @@ export async function updateLastNotified(subscriptionIds: string[]): Promise<voi
 }
 
 export async function getAllSubscriptions(): Promise<PushSubscription[]> {
-  const result = await query<SubscriptionRow>('SELECT * FROM push_subscriptions');
+  const result = await query<SubscriptionRow>(`SELECT *, ${AREAS_COLUMN} FROM push_subscriptions`);
   return result.rows.map(rowToSubscription);
 }
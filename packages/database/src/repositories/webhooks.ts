@@ -0,0 +1,318 @@
+import { randomBytes } from 'crypto';
+import { query } from '../client.js';
+import { AREAS_COLUMN, areasFromParam, areasToParam, areasFromRow } from '../geofence.js';
+import type {
+  Webhook,
+  WebhookWithSecret,
+  CreateWebhookInput,
+  UpdateWebhookInput,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEventType,
+  ClaimedWebhookDelivery,
+  CreateWebhookEventInput
+} from '../types-phase2.js';
+
+interface WebhookRow {
+  id: string;
+  name: string;
+  url: string;
+  secret: string;
+  event_types: string[];
+  activity_types: string[] | null;
+  areas_geojson: unknown;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface WebhookDeliveryRow {
+  id: string;
+  webhook_id: string;
+  event_id: string;
+  event_type: string;
+  report_id: string | null;
+  payload: Record<string, unknown>;
+  status: string;
+  attempts: number;
+  next_attempt_at: Date | null;
+  last_status_code: number | null;
+  last_error: string | null;
+  replay_of: string | null;
+  created_at: Date;
+  delivered_at: Date | null;
+}
+
+const WEBHOOK_COLUMNS = `id, name, url, secret, event_types, activity_types, is_active,
+  created_at, updated_at, ${AREAS_COLUMN}`;
+
+function rowToWebhookWithSecret(row: WebhookRow): WebhookWithSecret {
+  return {
+    id: row.id,
+    name: row.name,
+    url: row.url,
+    secret: row.secret,
+    eventTypes: row.event_types as WebhookEventType[],
+    activityTypes: row.activity_types,
+    areas: areasFromRow(row.areas_geojson),
+    isActive: row.is_active,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+function rowToWebhook(row: WebhookRow): Webhook {
+  const { secret: _secret, ...webhook } = rowToWebhookWithSecret(row);
+  return webhook;
+}
+
+function rowToWebhookDelivery(row: WebhookDeliveryRow): WebhookDelivery {
+  return {
+    id: row.id,
+    webhookId: row.webhook_id,
+    eventId: row.event_id,
+    eventType: row.event_type as WebhookEventType,
+    reportId: row.report_id,
+    payload: row.payload,
+    status: row.status as WebhookDeliveryStatus,
+    attempts: row.attempts,
+    nextAttemptAt: row.next_attempt_at,
+    lastStatusCode: row.last_status_code,
+    lastError: row.last_error,
+    replayOf: row.replay_of,
+    createdAt: row.created_at,
+    deliveredAt: row.delivered_at
+  };
+}
+
+function generateSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+// ============ Webhooks ============
+
+/**
+ * Register a partner webhook. The generated signing secret is only
+ * returned here; later reads leave it out.
+ */
+export async function createWebhook(input: CreateWebhookInput): Promise<WebhookWithSecret> {
+  const result = await query<WebhookRow>(
+    `INSERT INTO webhooks (name, url, secret, event_types, activity_types, areas)
+     VALUES ($1, $2, $3, $4, $5, ${areasFromParam('$6')})
+     RETURNING ${WEBHOOK_COLUMNS}`,
+    [
+      input.name,
+      input.url,
+      generateSecret(),
+      input.eventTypes,
+      input.activityTypes?.length ? input.activityTypes : null,
+      areasToParam(input.areas)
+    ]
+  );
+  return rowToWebhookWithSecret(result.rows[0]);
+}
+
+export async function getWebhooks(): Promise<Webhook[]> {
+  const result = await query<WebhookRow>(
+    `SELECT ${WEBHOOK_COLUMNS} FROM webhooks ORDER BY created_at DESC`
+  );
+  return result.rows.map(rowToWebhook);
+}
+
+export async function getWebhookById(id: string): Promise<WebhookWithSecret | null> {
+  const result = await query<WebhookRow>(
+    `SELECT ${WEBHOOK_COLUMNS} FROM webhooks WHERE id = $1`,
+    [id]
+  );
+  return result.rows[0] ? rowToWebhookWithSecret(result.rows[0]) : null;
+}
+
+export async function updateWebhook(id: string, input: UpdateWebhookInput): Promise<Webhook | null> {
+  const updates: string[] = [];
+  const params: unknown[] = [];
+
+  const set = (column: string, value: unknown, expression?: (param: string) => string) => {
+    params.push(value);
+    const param = `$${params.length}`;
+    updates.push(`${column} = ${expression ? expression(param) : param}`);
+  };
+
+  if (input.name !== undefined) set('name', input.name);
+  if (input.url !== undefined) set('url', input.url);
+  if (input.eventTypes !== undefined) set('event_types', input.eventTypes);
+  if (input.activityTypes !== undefined) {
+    set('activity_types', input.activityTypes?.length ? input.activityTypes : null);
+  }
+  if (input.areas !== undefined) set('areas', areasToParam(input.areas), areasFromParam);
+  if (input.isActive !== undefined) set('is_active', input.isActive);
+
+  if (updates.length === 0) {
+    const existing = await getWebhookById(id);
+    if (!existing) return null;
+    const { secret: _secret, ...webhook } = existing;
+    return webhook;
+  }
+
+  params.push(id);
+  const result = await query<WebhookRow>(
+    `UPDATE webhooks SET ${updates.join(', ')}, updated_at = NOW()
+     WHERE id = $${params.length}
+     RETURNING ${WEBHOOK_COLUMNS}`,
+    params
+  );
+  return result.rows[0] ? rowToWebhook(result.rows[0]) : null;
+}
+
+export async function deleteWebhook(id: string): Promise<boolean> {
+  const result = await query('DELETE FROM webhooks WHERE id = $1', [id]);
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Active webhooks that want this event for a report of this type and
+ * location. Webhooks without areas receive reports from everywhere,
+ * including ones with no coordinates.
+ */
+export async function getWebhooksForEvent(
+  eventType: WebhookEventType,
+  activityType: string,
+  latitude: number | null,
+  longitude: number | null
+): Promise<Webhook[]> {
+  const point = 'ST_SetSRID(ST_MakePoint($4::float, $3::float), 4326)::geography';
+  const result = await query<WebhookRow>(
+    `SELECT ${WEBHOOK_COLUMNS} FROM webhooks
+     WHERE is_active = TRUE
+       AND $1 = ANY(event_types)
+       AND (activity_types IS NULL OR $2 = ANY(activity_types))
+       AND (
+         areas IS NULL
+         OR ($3::float IS NOT NULL AND $4::float IS NOT NULL AND ST_Intersects(areas, ${point}))
+       )`,
+    [eventType, activityType, latitude, longitude]
+  );
+  return result.rows.map(rowToWebhook);
+}
+
+// ============ Deliveries ============
+
+/**
+ * Queue one delivery of an event per webhook. Returns the queued deliveries.
+ */
+export async function enqueueWebhookDeliveries(
+  webhookIds: string[],
+  event: CreateWebhookEventInput
+): Promise<WebhookDelivery[]> {
+  if (webhookIds.length === 0) return [];
+
+  const result = await query<WebhookDeliveryRow>(
+    `INSERT INTO webhook_deliveries (webhook_id, event_id, event_type, report_id, payload)
+     SELECT webhook_id, $2, $3, $4, $5
+     FROM unnest($1::uuid[]) AS webhook_id
+     RETURNING *`,
+    [webhookIds, event.eventId, event.eventType, event.reportId, JSON.stringify(event.payload)]
+  );
+  return result.rows.map(rowToWebhookDelivery);
+}
+
+/**
+ * Claim deliveries that are due, counting the attempt up front. The lease
+ * pushes next_attempt_at out so a worker that dies mid-send doesn't strand
+ * the delivery; SKIP LOCKED lets several API replicas work the queue.
+ */
+export async function claimDueWebhookDeliveries(
+  limit = 20,
+  leaseSeconds = 60
+): Promise<ClaimedWebhookDelivery[]> {
+  const result = await query<WebhookDeliveryRow & { url: string; secret: string }>(
+    `UPDATE webhook_deliveries d
+     SET attempts = d.attempts + 1,
+         next_attempt_at = NOW() + make_interval(secs => $2)
+     FROM webhooks w
+     WHERE w.id = d.webhook_id
+       AND d.id IN (
+         SELECT dd.id FROM webhook_deliveries dd
+         JOIN webhooks ww ON ww.id = dd.webhook_id AND ww.is_active = TRUE
+         WHERE dd.status = 'pending' AND dd.next_attempt_at <= NOW()
+         ORDER BY dd.next_attempt_at ASC
+         LIMIT $1
+         FOR UPDATE OF dd SKIP LOCKED
+       )
+     RETURNING d.*, w.url, w.secret`,
+    [limit, leaseSeconds]
+  );
+  return result.rows.map((row) => ({ ...rowToWebhookDelivery(row), url: row.url, secret: row.secret }));
+}
+
+export async function markWebhookDeliverySucceeded(id: string, statusCode: number): Promise<void> {
+  await query(
+    `UPDATE webhook_deliveries
+     SET status = 'succeeded', last_status_code = $2, last_error = NULL,
+         next_attempt_at = NULL, delivered_at = NOW()
+     WHERE id = $1`,
+    [id, statusCode]
+  );
+}
+
+/**
+ * Record a failed attempt. With a retry time the delivery stays pending;
+ * without one it is given up on.
+ */
+export async function markWebhookDeliveryFailed(
+  id: string,
+  failure: { statusCode?: number; error: string; retryAt: Date | null }
+): Promise<void> {
+  await query(
+    `UPDATE webhook_deliveries
+     SET status = CASE WHEN $4::timestamptz IS NULL THEN 'failed' ELSE 'pending' END,
+         last_status_code = $2, last_error = $3, next_attempt_at = $4
+     WHERE id = $1`,
+    [id, failure.statusCode ?? null, failure.error.slice(0, 1000), failure.retryAt]
+  );
+}
+
+export async function getWebhookDeliveries(
+  webhookId: string,
+  options: { status?: WebhookDeliveryStatus; limit?: number; offset?: number } = {}
+): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+  const { status, limit = 50, offset = 0 } = options;
+  const where = status ? 'WHERE webhook_id = $1 AND status = $2' : 'WHERE webhook_id = $1';
+  const filterParams = status ? [webhookId, status] : [webhookId];
+
+  const [result, countResult] = await Promise.all([
+    query<WebhookDeliveryRow>(
+      `SELECT * FROM webhook_deliveries ${where}
+       ORDER BY created_at DESC
+       LIMIT $${filterParams.length + 1} OFFSET $${filterParams.length + 2}`,
+      [...filterParams, limit, offset]
+    ),
+    query<{ count: string }>(
+      `SELECT COUNT(*) as count FROM webhook_deliveries ${where}`,
+      filterParams
+    )
+  ]);
+
+  return {
+    deliveries: result.rows.map(rowToWebhookDelivery),
+    total: parseInt(countResult.rows[0]?.count || '0', 10)
+  };
+}
+
+/**
+ * Queue a fresh copy of a past delivery. The event id is kept so
+ * partners can de-duplicate replays of something they already processed.
+ */
+export async function replayWebhookDelivery(
+  webhookId: string,
+  deliveryId: string
+): Promise<WebhookDelivery | null> {
+  const result = await query<WebhookDeliveryRow>(
+    `INSERT INTO webhook_deliveries (webhook_id, event_id, event_type, report_id, payload, replay_of)
+     SELECT webhook_id, event_id, event_type, report_id, payload, id
+     FROM webhook_deliveries
+     WHERE id = $1 AND webhook_id = $2
+     RETURNING *`,
+    [deliveryId, webhookId]
+  );
+  return result.rows[0] ? rowToWebhookDelivery(result.rows[0]) : null;
+}
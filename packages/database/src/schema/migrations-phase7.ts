@@ -0,0 +1,131 @@
+import { query, closePool } from '../client.js';
+
+const PHASE7_MIGRATIONS = [
+  {
+    name: '023_create_push_deliveries',
+    sql: `
+      CREATE TABLE IF NOT EXISTS push_deliveries (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        report_id UUID NOT NULL REFERENCES reports(id) ON DELETE CASCADE,
+        subscription_id UUID REFERENCES push_subscriptions(id) ON DELETE SET NULL,
+        endpoint TEXT NOT NULL,
+        status VARCHAR(20) NOT NULL CHECK (status IN ('sent', 'expired', 'failed')),
+        status_code INTEGER,
+        error TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+      CREATE INDEX IF NOT EXISTS idx_push_deliveries_report ON push_deliveries(report_id);
+      CREATE INDEX IF NOT EXISTS idx_push_deliveries_created ON push_deliveries(created_at DESC);
+    `
+  },
+  {
+    name: '024_add_reports_push_dispatched_at',
+    sql: `
+      ALTER TABLE reports ADD COLUMN IF NOT EXISTS push_dispatched_at TIMESTAMPTZ;
+
+      -- Existing reports predate the dispatcher; never alert on them
+      UPDATE reports SET push_dispatched_at = NOW() WHERE push_dispatched_at IS NULL;
+
+      CREATE INDEX IF NOT EXISTS idx_reports_push_pending
+        ON reports (created_at) WHERE push_dispatched_at IS NULL;
+    `
+  },
+  {
+    name: '025_add_reports_email_dispatched_at',
+    sql: `
+      ALTER TABLE reports ADD COLUMN IF NOT EXISTS email_dispatched_at TIMESTAMPTZ;
+
+      -- Existing reports predate email alerts; never send them
+      UPDATE reports SET email_dispatched_at = NOW() WHERE email_dispatched_at IS NULL;
+
+      CREATE INDEX IF NOT EXISTS idx_reports_email_pending
+        ON reports (created_at) WHERE email_dispatched_at IS NULL;
+    `
+  },
+  {
+    name: '026_add_email_digest_preferences',
+    sql: `
+      ALTER TABLE email_subscriptions
+        ADD COLUMN IF NOT EXISTS frequency VARCHAR(10) NOT NULL DEFAULT 'instant'
+          CHECK (frequency IN ('instant', 'daily', 'weekly')),
+        ADD COLUMN IF NOT EXISTS send_hour SMALLINT NOT NULL DEFAULT 8
+          CHECK (send_hour BETWEEN 0 AND 23),
+        ADD COLUMN IF NOT EXISTS timezone VARCHAR(64) NOT NULL DEFAULT 'UTC';
+
+      CREATE INDEX IF NOT EXISTS idx_email_subscriptions_digest
+        ON email_subscriptions(frequency) WHERE is_verified = TRUE AND frequency <> 'instant';
+    `
+  },
+  {
+    name: '027_add_subscription_geofences',
+    sql: `
+      -- Point/radius subscriptions get a geography center so matching can use
+      -- PostGIS instead of hand-rolled haversine; drawn areas live alongside it
+      ALTER TABLE push_subscriptions
+        ADD COLUMN IF NOT EXISTS location geography(Point, 4326) GENERATED ALWAYS AS (
+          CASE WHEN latitude IS NOT NULL AND longitude IS NOT NULL
+            THEN ST_SetSRID(ST_MakePoint(longitude, latitude), 4326)::geography
+          END
+        ) STORED,
+        ADD COLUMN IF NOT EXISTS areas geography(MultiPolygon, 4326);
+
+      ALTER TABLE email_subscriptions
+        ADD COLUMN IF NOT EXISTS location geography(Point, 4326) GENERATED ALWAYS AS (
+          CASE WHEN latitude IS NOT NULL AND longitude IS NOT NULL
+            THEN ST_SetSRID(ST_MakePoint(longitude, latitude), 4326)::geography
+          END
+        ) STORED,
+        ADD COLUMN IF NOT EXISTS areas geography(MultiPolygon, 4326);
+
+      CREATE INDEX IF NOT EXISTS idx_push_subscriptions_location_gist
+        ON push_subscriptions USING GIST (location);
+      CREATE INDEX IF NOT EXISTS idx_push_subscriptions_areas
+        ON push_subscriptions USING GIST (areas);
+      CREATE INDEX IF NOT EXISTS idx_email_subscriptions_location_gist
+        ON email_subscriptions USING GIST (location);
+      CREATE INDEX IF NOT EXISTS idx_email_subscriptions_areas
+        ON email_subscriptions USING GIST (areas);
+    `
+  }
+];
+
+export async function runPhase7Migrations() {
+  console.log('Running Phase 7 migrations...\n');
+
+  await query(`
+    CREATE TABLE IF NOT EXISTS migrations (
+      name VARCHAR(255) PRIMARY KEY,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+  `);
+
+  for (const migration of PHASE7_MIGRATIONS) {
+    const result = await query<{ name: string }>(
+      'SELECT name FROM migrations WHERE name = $1',
+      [migration.name]
+    );
+
+    if (result.rows.length > 0) {
+      console.log(`  ✓ ${migration.name} (already applied)`);
+      continue;
+    }
+
+    try {
+      await query(migration.sql);
+      await query('INSERT INTO migrations (name) VALUES ($1)', [migration.name]);
+      console.log(`  ✓ ${migration.name} (applied)`);
+    } catch (error) {
+      console.error(`  ✗ ${migration.name} failed:`, error);
+      throw error;
+    }
+  }
+
+  console.log('\nPhase 7 migrations complete!');
+}
+
+// Run directly
+if (process.argv[1]?.includes('migrations-phase7')) {
+  runPhase7Migrations()
+    .catch(console.error)
+    .finally(() => closePool());
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../client.js', () => ({
+  query: vi.fn(),
+  closePool: vi.fn()
+}));
+
+const { PHASE8_MIGRATIONS } = await import('./migrations-phase8.js');
+
+/**
+ * The SQL of the last migration that mentions `marker`, i.e. the
+ * definition in force once every migration has run
+ */
+function latestSql(marker: string): string {
+  const migration = [...PHASE8_MIGRATIONS].reverse().find(({ sql }) => sql.includes(marker));
+  if (!migration) throw new Error(`No migration defines ${marker}`);
+  return migration.sql;
+}
+
+describe('Phase 8 migrations', () => {
+  it('should have unique names in order', () => {
+    const names = PHASE8_MIGRATIONS.map(({ name }) => name);
+    expect(new Set(names).size).toBe(names.length);
+    expect([...names].sort()).toEqual(names);
+  });
+
+  it('should broadcast changes to every report column map clients show', () => {
+    const sql = latestSql('CREATE TRIGGER reports_notify_update');
+    for (const column of [
+      'status', 'activity_type', 'description', 'city', 'state', 'photo_url', 'metadata', 'incident_id',
+      'occurred_at', 'occurred_at_confidence', 'location_precision', 'location_radius_m', 'language'
+    ]) {
+      expect(sql).toContain(`OLD.${column}`);
+      expect(sql).toContain(`NEW.${column}`);
+    }
+  });
+
+  it('should leave disputed reports out of incident aggregates', () => {
+    const sql = latestSql('CREATE OR REPLACE FUNCTION refresh_incident');
+    const aggregate = sql.slice(sql.indexOf('FROM ('), sql.indexOf(') m'));
+    const place = sql.slice(sql.indexOf('LEFT JOIN LATERAL'), sql.indexOf('place ON TRUE'));
+
+    expect(aggregate).toContain("WHERE incident_id = target AND (status <> 'disputed' OR include_disputed)");
+    expect(place).toContain("(status <> 'disputed' OR include_disputed)");
+    expect(sql).toMatch(/include_disputed BOOLEAN := NOT EXISTS \(\s*SELECT 1 FROM reports WHERE incident_id = target AND status <> 'disputed'/);
+  });
+
+  it('should refresh an incident when one of its reports is disputed', () => {
+    const sql = latestSql('CREATE TRIGGER reports_refresh_incident');
+    expect(sql).toMatch(/AFTER UPDATE OF [^\n]*\bstatus\b[^\n]* OR DELETE ON reports/);
+  });
+});
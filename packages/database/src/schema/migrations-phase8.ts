@@ -0,0 +1,543 @@
+import { query, closePool } from '../client.js';
+import { geofenceKeySql } from '../geofence.js';
+
+export const PHASE8_MIGRATIONS = [
+  {
+    name: '028_create_webhooks',
+    sql: `
+      CREATE TABLE IF NOT EXISTS webhooks (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        name VARCHAR(100) NOT NULL,
+        url TEXT NOT NULL,
+        secret VARCHAR(100) NOT NULL,
+        event_types TEXT[] NOT NULL,
+        activity_types TEXT[],
+        areas geography(MultiPolygon, 4326),
+        is_active BOOLEAN NOT NULL DEFAULT TRUE,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+      CREATE INDEX IF NOT EXISTS idx_webhooks_active ON webhooks(is_active);
+      CREATE INDEX IF NOT EXISTS idx_webhooks_areas ON webhooks USING GIST (areas);
+    `
+  },
+  {
+    name: '029_create_webhook_deliveries',
+    sql: `
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        webhook_id UUID NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+        event_id UUID NOT NULL,
+        event_type VARCHAR(30) NOT NULL,
+        report_id UUID REFERENCES reports(id) ON DELETE SET NULL,
+        payload JSONB NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'pending'
+          CHECK (status IN ('pending', 'succeeded', 'failed')),
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at TIMESTAMPTZ DEFAULT NOW(),
+        last_status_code INTEGER,
+        last_error TEXT,
+        replay_of UUID REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        delivered_at TIMESTAMPTZ
+      );
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook
+        ON webhook_deliveries(webhook_id, created_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due
+        ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+    `
+  },
+  {
+    name: '030_add_reports_webhook_dispatched_at',
+    sql: `
+      ALTER TABLE reports ADD COLUMN IF NOT EXISTS webhook_dispatched_at TIMESTAMPTZ;
+
+      -- Existing reports predate webhooks; never announce them as new
+      UPDATE reports SET webhook_dispatched_at = NOW() WHERE webhook_dispatched_at IS NULL;
+
+      CREATE INDEX IF NOT EXISTS idx_reports_webhook_pending
+        ON reports (created_at) WHERE webhook_dispatched_at IS NULL;
+    `
+  },
+  {
+    name: '031_create_report_change_notify',
+    sql: `
+      -- Announce report changes to every API replica, whichever process wrote them.
+      -- Only the id travels; listeners re-read the row (NOTIFY payloads max out at 8 KB).
+      CREATE OR REPLACE FUNCTION notify_report_change() RETURNS trigger AS $$
+      BEGIN
+        PERFORM pg_notify('report_changes', json_build_object('op', lower(TG_OP), 'id', NEW.id)::text);
+        RETURN NULL;
+      END;
+      $$ LANGUAGE plpgsql;
+
+      DROP TRIGGER IF EXISTS reports_notify_insert ON reports;
+      CREATE TRIGGER reports_notify_insert
+        AFTER INSERT ON reports
+        FOR EACH ROW EXECUTE FUNCTION notify_report_change();
+
+      -- Bookkeeping writes (vote counts, alert hand-off columns) stay quiet
+      DROP TRIGGER IF EXISTS reports_notify_update ON reports;
+      CREATE TRIGGER reports_notify_update
+        AFTER UPDATE ON reports
+        FOR EACH ROW
+        WHEN (
+          (OLD.status, OLD.activity_type, OLD.description, OLD.city, OLD.state, OLD.photo_url, OLD.metadata)
+            IS DISTINCT FROM
+          (NEW.status, NEW.activity_type, NEW.description, NEW.city, NEW.state, NEW.photo_url, NEW.metadata)
+          OR OLD.location::text IS DISTINCT FROM NEW.location::text
+        )
+        EXECUTE FUNCTION notify_report_change();
+    `
+  },
+  {
+    name: '032_create_ingestion_cursors',
+    sql: `
+      -- Where each streaming source left off, so restarts resume instead of skipping ahead
+      CREATE TABLE IF NOT EXISTS ingestion_cursors (
+        source VARCHAR(50) PRIMARY KEY,
+        cursor BIGINT NOT NULL,
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+    `
+  },
+  {
+    name: '033_relax_source_type_constraint',
+    sql: `
+      -- Sources are registered in the ingestion service; the database only
+      -- checks that the id is well formed so new sources need no migration
+      ALTER TABLE reports DROP CONSTRAINT IF EXISTS reports_source_type_check;
+      ALTER TABLE reports ADD CONSTRAINT reports_source_type_check
+        CHECK (source_type ~ '^[a-z][a-z0-9_]*$');
+    `
+  },
+  {
+    name: '034_create_ingested_posts',
+    sql: `
+      -- Every post the pipeline looked at and what it decided, so admins can see
+      -- why a post did or didn't become a report and rules can be re-run later
+      CREATE TABLE IF NOT EXISTS ingested_posts (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        source_type VARCHAR(20) NOT NULL,
+        source_id VARCHAR(255) NOT NULL,
+        url TEXT,
+        text TEXT NOT NULL,
+        author_handle VARCHAR(255),
+        author_display_name VARCHAR(255),
+        category VARCHAR(20) NOT NULL,
+        posted_at TIMESTAMPTZ,
+        relevance_score REAL,
+        relevance_confidence VARCHAR(10),
+        relevance_reason TEXT,
+        needs_review BOOLEAN NOT NULL DEFAULT false,
+        extracted_location JSONB,
+        geocode_result JSONB,
+        decision VARCHAR(20) NOT NULL
+          CHECK (decision IN ('blocked', 'filtered', 'saved', 'no_location', 'existing_report', 'save_failed')),
+        report_id UUID REFERENCES reports(id) ON DELETE SET NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        UNIQUE (source_type, source_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_ingested_posts_created ON ingested_posts (created_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_ingested_posts_decision ON ingested_posts (decision, created_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_ingested_posts_report ON ingested_posts (report_id) WHERE report_id IS NOT NULL;
+    `
+  },
+  {
+    name: '035_create_report_revisions',
+    sql: `
+      -- Changes made to reports by re-running the pipeline, with the report's
+      -- state before and after, so a reprocess run can be audited or undone
+      CREATE TABLE IF NOT EXISTS report_revisions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        run_id UUID NOT NULL,
+        report_id UUID NOT NULL REFERENCES reports(id) ON DELETE CASCADE,
+        change VARCHAR(20) NOT NULL CHECK (change IN ('created', 'rejected', 'relocated')),
+        reason TEXT,
+        before_state JSONB,
+        after_state JSONB NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_report_revisions_report ON report_revisions (report_id, created_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_report_revisions_run ON report_revisions (run_id);
+    `
+  },
+  {
+    name: '036_create_report_labels',
+    sql: `
+      -- Moderator judgements on ingested reports, with the text and what the
+      -- pipeline made of it copied in, so they outlive the report and can be
+      -- exported as evaluation examples
+      CREATE TABLE IF NOT EXISTS report_labels (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        report_id UUID REFERENCES reports(id) ON DELETE SET NULL,
+        label VARCHAR(30) NOT NULL
+          CHECK (label IN ('not_sighting', 'wrong_location', 'wrong_activity_type')),
+        text TEXT NOT NULL,
+        source_type VARCHAR(20) NOT NULL,
+        source_id VARCHAR(255),
+        author_handle VARCHAR(255),
+        reported_city VARCHAR(100),
+        reported_state VARCHAR(100),
+        reported_activity_type VARCHAR(20),
+        corrected_city VARCHAR(100),
+        corrected_state VARCHAR(2),
+        corrected_activity_type VARCHAR(20)
+          CHECK (corrected_activity_type IN ('raid', 'checkpoint', 'arrest', 'surveillance', 'other')),
+        language VARCHAR(10),
+        moderator VARCHAR(255) NOT NULL,
+        notes TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        UNIQUE (report_id, label)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_report_labels_label ON report_labels (label, created_at DESC);
+    `
+  },
+  {
+    name: '037_add_reports_language',
+    sql: `
+      -- Language the ingestion pipeline detected in the post (ISO 639-1, or
+      -- und when it couldn't tell); null for user submissions and reports
+      -- ingested before detection existed
+      ALTER TABLE reports ADD COLUMN IF NOT EXISTS language VARCHAR(10);
+
+      CREATE INDEX IF NOT EXISTS idx_reports_language ON reports (language, reported_at DESC)
+        WHERE language IS NOT NULL;
+    `
+  },
+  {
+    name: '038_create_incidents',
+    sql: `
+      -- One event reported by several posts and sources (a raid posted to
+      -- Bluesky, cross-posted to Mastodon and covered by the news). Ingestion
+      -- assigns reports; everything but the id is recomputed from the members.
+      CREATE TABLE IF NOT EXISTS incidents (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        activity_type VARCHAR(20) NOT NULL
+          CHECK (activity_type IN ('raid', 'checkpoint', 'arrest', 'surveillance', 'other')),
+        city VARCHAR(100),
+        state VARCHAR(100),
+        location GEOGRAPHY(POINT, 4326),
+        first_reported_at TIMESTAMPTZ NOT NULL,
+        last_reported_at TIMESTAMPTZ NOT NULL,
+        report_count INTEGER NOT NULL DEFAULT 0,
+        source_count INTEGER NOT NULL DEFAULT 0,
+        source_types TEXT[] NOT NULL DEFAULT '{}',
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_incidents_last_reported ON incidents (last_reported_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_incidents_location ON incidents USING GIST (location);
+
+      ALTER TABLE reports ADD COLUMN IF NOT EXISTS incident_id UUID REFERENCES incidents(id) ON DELETE SET NULL;
+
+      CREATE INDEX IF NOT EXISTS idx_reports_incident ON reports (incident_id) WHERE incident_id IS NOT NULL;
+      CREATE INDEX IF NOT EXISTS idx_reports_unclustered ON reports (reported_at) WHERE incident_id IS NULL;
+
+      -- Recompute an incident from its reports; one left with none is deleted
+      CREATE OR REPLACE FUNCTION refresh_incident(target UUID) RETURNS void AS $$
+      BEGIN
+        UPDATE incidents i SET
+          activity_type = m.activity_type,
+          city = place.city,
+          state = place.state,
+          location = m.location,
+          first_reported_at = m.first_reported_at,
+          last_reported_at = m.last_reported_at,
+          report_count = m.report_count,
+          source_count = m.source_count,
+          source_types = m.source_types,
+          updated_at = NOW()
+        FROM (
+          SELECT
+            COALESCE(
+              MODE() WITHIN GROUP (ORDER BY activity_type) FILTER (WHERE activity_type <> 'other'),
+              'other'
+            ) AS activity_type,
+            ST_Centroid(ST_Collect(location::geometry))::geography AS location,
+            MIN(reported_at) AS first_reported_at,
+            MAX(reported_at) AS last_reported_at,
+            COUNT(*) AS report_count,
+            COUNT(DISTINCT source_type) AS source_count,
+            ARRAY_AGG(DISTINCT source_type ORDER BY source_type) AS source_types
+          FROM reports
+          WHERE incident_id = target
+        ) m
+        LEFT JOIN LATERAL (
+          SELECT city, state FROM reports
+          WHERE incident_id = target AND city IS NOT NULL
+          GROUP BY city, state
+          ORDER BY COUNT(*) DESC, MIN(reported_at) ASC
+          LIMIT 1
+        ) place ON TRUE
+        WHERE i.id = target AND m.report_count > 0;
+
+        DELETE FROM incidents
+        WHERE id = target AND NOT EXISTS (SELECT 1 FROM reports WHERE incident_id = target);
+      END;
+      $$ LANGUAGE plpgsql;
+
+      CREATE OR REPLACE FUNCTION refresh_report_incidents() RETURNS trigger AS $$
+      BEGIN
+        IF TG_OP = 'DELETE' THEN
+          IF OLD.incident_id IS NOT NULL THEN
+            PERFORM refresh_incident(OLD.incident_id);
+          END IF;
+          RETURN NULL;
+        END IF;
+
+        IF NEW.incident_id IS NOT NULL THEN
+          PERFORM refresh_incident(NEW.incident_id);
+        END IF;
+        IF OLD.incident_id IS NOT NULL AND OLD.incident_id IS DISTINCT FROM NEW.incident_id THEN
+          PERFORM refresh_incident(OLD.incident_id);
+        END IF;
+        RETURN NULL;
+      END;
+      $$ LANGUAGE plpgsql;
+
+      -- Tell map clients when a report joins an incident, so they can merge its marker
+      DROP TRIGGER IF EXISTS reports_notify_update ON reports;
+      CREATE TRIGGER reports_notify_update
+        AFTER UPDATE ON reports
+        FOR EACH ROW
+        WHEN (
+          (OLD.status, OLD.activity_type, OLD.description, OLD.city, OLD.state, OLD.photo_url, OLD.metadata, OLD.incident_id)
+            IS DISTINCT FROM
+          (NEW.status, NEW.activity_type, NEW.description, NEW.city, NEW.state, NEW.photo_url, NEW.metadata, NEW.incident_id)
+          OR OLD.location::text IS DISTINCT FROM NEW.location::text
+        )
+        EXECUTE FUNCTION notify_report_change();
+
+      -- Keep incidents in step when reports join, move, are corrected or deleted
+      DROP TRIGGER IF EXISTS reports_refresh_incident ON reports;
+      CREATE TRIGGER reports_refresh_incident
+        AFTER UPDATE OF incident_id, activity_type, city, state, location, reported_at OR DELETE ON reports
+        FOR EACH ROW EXECUTE FUNCTION refresh_report_incidents();
+    `
+  },
+  {
+    name: '039_add_reports_occurred_at',
+    sql: `
+      -- When the activity happened, as estimated from the post text ("2 hours
+      -- ago", "ayer en la tarde"), and how precise that estimate is. Null when
+      -- the text doesn't say; reported_at stays the post's own time.
+      ALTER TABLE reports ADD COLUMN IF NOT EXISTS occurred_at TIMESTAMPTZ;
+      ALTER TABLE reports ADD COLUMN IF NOT EXISTS occurred_at_confidence VARCHAR(10)
+        CHECK (occurred_at_confidence IN ('high', 'medium', 'low'));
+
+      -- Time-range filters go by event time where there is one
+      CREATE INDEX IF NOT EXISTS idx_reports_event_time ON reports ((COALESCE(occurred_at, reported_at)) DESC);
+    `
+  },
+  {
+    name: '040_add_reports_location_precision',
+    sql: `
+      -- How precisely a report's coordinates place the activity: a street,
+      -- intersection, address or place within the city, the city centroid,
+      -- or only the state. Null when the report has no location.
+      ALTER TABLE reports ADD COLUMN IF NOT EXISTS location_precision VARCHAR(20)
+        CHECK (location_precision IN ('street', 'city', 'state'));
+
+      -- Everything located before street-level geocoding is a city centroid
+      UPDATE reports SET location_precision = CASE
+          WHEN city IS NOT NULL THEN 'city'
+          WHEN state IS NOT NULL THEN 'state'
+        END
+      WHERE location_precision IS NULL AND (city IS NOT NULL OR state IS NOT NULL);
+    `
+  },
+  {
+    name: '041_add_reports_location_radius',
+    sql: `
+      -- Precision gains exact (a GPS fix, e.g. from a photo) and neighborhood
+      ALTER TABLE reports DROP CONSTRAINT IF EXISTS reports_location_precision_check;
+      ALTER TABLE reports ADD CONSTRAINT reports_location_precision_check
+        CHECK (location_precision IN ('exact', 'street', 'neighborhood', 'city', 'state'));
+
+      -- Roughly how far, in meters, the activity may be from the coordinates
+      ALTER TABLE reports ADD COLUMN IF NOT EXISTS location_radius_m INTEGER
+        CHECK (location_radius_m > 0);
+
+      -- Submitters placed their own point (photo, address or map); 040 took
+      -- their city for the source of it
+      UPDATE reports SET location_precision = 'street'
+      WHERE source_type = 'user_submitted' AND location IS NOT NULL AND location_precision = 'city';
+
+      UPDATE reports SET location_radius_m = CASE location_precision
+          WHEN 'exact' THEN 25
+          WHEN 'street' THEN 250
+          WHEN 'neighborhood' THEN 1500
+          WHEN 'city' THEN 8000
+          WHEN 'state' THEN 150000
+        END
+      WHERE location_radius_m IS NULL AND location_precision IS NOT NULL;
+
+      CREATE INDEX IF NOT EXISTS idx_reports_location_precision ON reports (location_precision);
+
+      -- What kind of place a geocoded query resolved to (city, suburb, road, ...)
+      ALTER TABLE geocode_cache ADD COLUMN IF NOT EXISTS place_type VARCHAR(40);
+    `
+  },
+  {
+    name: '042_add_geocode_cache_provider',
+    sql: `
+      -- Which geocoder (gazetteer, nominatim, photon, pelias) answered a cached query
+      ALTER TABLE geocode_cache ADD COLUMN IF NOT EXISTS provider VARCHAR(20);
+    `
+  },
+  {
+    name: '043_add_email_subscriptions_geofence_key',
+    sql: `
+      -- UNIQUE(email, latitude, longitude) never matches subscriptions drawn
+      -- on the map: their latitude and longitude are NULL, and NULLs don't
+      -- conflict, so signing up again added a row (and doubled the alerts).
+      -- The key is the center, or the drawn areas for those without one.
+      ALTER TABLE email_subscriptions ADD COLUMN IF NOT EXISTS geofence_key TEXT;
+
+      UPDATE email_subscriptions SET geofence_key = ${geofenceKeySql('latitude', 'longitude', 'areas')}
+      WHERE geofence_key IS NULL;
+
+      -- Keep the newest of the duplicates
+      DELETE FROM email_subscriptions older
+      USING email_subscriptions newer
+      WHERE older.email = newer.email
+        AND older.geofence_key = newer.geofence_key
+        AND (older.created_at, older.id) < (newer.created_at, newer.id);
+
+      ALTER TABLE email_subscriptions ALTER COLUMN geofence_key SET NOT NULL;
+      ALTER TABLE email_subscriptions DROP CONSTRAINT IF EXISTS email_subscriptions_email_latitude_longitude_key;
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_email_subscriptions_email_geofence
+        ON email_subscriptions (email, geofence_key);
+    `
+  },
+  {
+    name: '044_extend_report_notify_columns',
+    sql: `
+      -- Event time, location precision and radius, and language came after
+      -- 038; corrections to them reach map clients too
+      DROP TRIGGER IF EXISTS reports_notify_update ON reports;
+      CREATE TRIGGER reports_notify_update
+        AFTER UPDATE ON reports
+        FOR EACH ROW
+        WHEN (
+          (OLD.status, OLD.activity_type, OLD.description, OLD.city, OLD.state, OLD.photo_url, OLD.metadata, OLD.incident_id,
+           OLD.occurred_at, OLD.occurred_at_confidence, OLD.location_precision, OLD.location_radius_m, OLD.language)
+            IS DISTINCT FROM
+          (NEW.status, NEW.activity_type, NEW.description, NEW.city, NEW.state, NEW.photo_url, NEW.metadata, NEW.incident_id,
+           NEW.occurred_at, NEW.occurred_at_confidence, NEW.location_precision, NEW.location_radius_m, NEW.language)
+          OR OLD.location::text IS DISTINCT FROM NEW.location::text
+        )
+        EXECUTE FUNCTION notify_report_change();
+    `
+  },
+  {
+    name: '045_exclude_disputed_reports_from_incidents',
+    sql: `
+      -- A disputed report stays in its incident but no longer counts toward it
+      -- or moves it. An incident with nothing but disputed reports is
+      -- computed from those, so it doesn't go back to the clustering sweep.
+      CREATE OR REPLACE FUNCTION refresh_incident(target UUID) RETURNS void AS $$
+      DECLARE
+        include_disputed BOOLEAN := NOT EXISTS (
+          SELECT 1 FROM reports WHERE incident_id = target AND status <> 'disputed'
+        );
+      BEGIN
+        UPDATE incidents i SET
+          activity_type = m.activity_type,
+          city = place.city,
+          state = place.state,
+          location = m.location,
+          first_reported_at = m.first_reported_at,
+          last_reported_at = m.last_reported_at,
+          report_count = m.report_count,
+          source_count = m.source_count,
+          source_types = m.source_types,
+          updated_at = NOW()
+        FROM (
+          SELECT
+            COALESCE(
+              MODE() WITHIN GROUP (ORDER BY activity_type) FILTER (WHERE activity_type <> 'other'),
+              'other'
+            ) AS activity_type,
+            ST_Centroid(ST_Collect(location::geometry))::geography AS location,
+            MIN(reported_at) AS first_reported_at,
+            MAX(reported_at) AS last_reported_at,
+            COUNT(*) AS report_count,
+            COUNT(DISTINCT source_type) AS source_count,
+            ARRAY_AGG(DISTINCT source_type ORDER BY source_type) AS source_types
+          FROM reports
+          WHERE incident_id = target AND (status <> 'disputed' OR include_disputed)
+        ) m
+        LEFT JOIN LATERAL (
+          SELECT city, state FROM reports
+          WHERE incident_id = target AND city IS NOT NULL AND (status <> 'disputed' OR include_disputed)
+          GROUP BY city, state
+          ORDER BY COUNT(*) DESC, MIN(reported_at) ASC
+          LIMIT 1
+        ) place ON TRUE
+        WHERE i.id = target AND m.report_count > 0;
+
+        DELETE FROM incidents
+        WHERE id = target AND NOT EXISTS (SELECT 1 FROM reports WHERE incident_id = target);
+      END;
+      $$ LANGUAGE plpgsql;
+
+      -- Disputing a report (or taking it back) changes its incident
+      DROP TRIGGER IF EXISTS reports_refresh_incident ON reports;
+      CREATE TRIGGER reports_refresh_incident
+        AFTER UPDATE OF incident_id, activity_type, city, state, location, reported_at, status OR DELETE ON reports
+        FOR EACH ROW EXECUTE FUNCTION refresh_report_incidents();
+
+      SELECT refresh_incident(id) FROM incidents
+      WHERE EXISTS (SELECT 1 FROM reports WHERE incident_id = incidents.id AND status = 'disputed');
+    `
+  }
+];
+
+export async function runPhase8Migrations() {
+  console.log('Running Phase 8 migrations...\n');
+
+  await query(`
+    CREATE TABLE IF NOT EXISTS migrations (
+      name VARCHAR(255) PRIMARY KEY,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+  `);
+
+  for (const migration of PHASE8_MIGRATIONS) {
+    const result = await query<{ name: string }>(
+      'SELECT name FROM migrations WHERE name = $1',
+      [migration.name]
+    );
+
+    if (result.rows.length > 0) {
+      console.log(`  ✓ ${migration.name} (already applied)`);
+      continue;
+    }
+
+    try {
+      await query(migration.sql);
+      await query('INSERT INTO migrations (name) VALUES ($1)', [migration.name]);
+      console.log(`  ✓ ${migration.name} (applied)`);
+    } catch (error) {
+      console.error(`  ✗ ${migration.name} failed:`, error);
+      throw error;
+    }
+  }
+
+  console.log('\nPhase 8 migrations complete!');
+}
+
+// Run directly
+if (process.argv[1]?.includes('migrations-phase8')) {
+  runPhase8Migrations()
+    .catch(console.error)
+    .finally(() => closePool());
+}
@@ -1,3 +1,14 @@
+import type { ActivityType } from './types.js';
+
+/**
+ * GeoJSON polygon in [longitude, latitude] order. The first ring is the
+ * outer boundary, any further rings are holes.
+ */
+export interface GeoPolygon {
+  type: 'Polygon';
+  coordinates: number[][][];
+}
+
 export interface PushSubscription {
   id: string;
   endpoint: string;
@@ -6,6 +17,7 @@ export interface PushSubscription {
   latitude: number | null;
   longitude: number | null;
   radiusKm: number;
+  areas: GeoPolygon[] | null;
   activityTypes: string[];
   createdAt: Date;
   lastNotifiedAt: Date | null;
@@ -18,9 +30,103 @@ export interface CreatePushSubscriptionInput {
   latitude?: number;
   longitude?: number;
   radiusKm?: number;
+  areas?: GeoPolygon[];
   activityTypes?: string[];
 }
 
+export type AlertChannel = 'push' | 'email' | 'webhook';
+
+export type PushDeliveryStatus = 'sent' | 'expired' | 'failed';
+
+export interface PushDelivery {
+  id: string;
+  reportId: string;
+  subscriptionId: string | null;
+  endpoint: string;
+  status: PushDeliveryStatus;
+  statusCode: number | null;
+  error: string | null;
+  createdAt: Date;
+}
+
+export interface CreatePushDeliveryInput {
+  reportId: string;
+  subscriptionId: string;
+  endpoint: string;
+  status: PushDeliveryStatus;
+  statusCode?: number;
+  error?: string;
+}
+
+export type WebhookEventType = 'new_report' | 'report_updated' | 'report_verified' | 'report_flagged';
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface Webhook {
+  id: string;
+  name: string;
+  url: string;
+  eventTypes: WebhookEventType[];
+  activityTypes: string[] | null;
+  areas: GeoPolygon[] | null;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WebhookWithSecret extends Webhook {
+  secret: string;
+}
+
+export interface CreateWebhookInput {
+  name: string;
+  url: string;
+  eventTypes: WebhookEventType[];
+  activityTypes?: string[] | null;
+  areas?: GeoPolygon[] | null;
+}
+
+export interface UpdateWebhookInput {
+  name?: string;
+  url?: string;
+  eventTypes?: WebhookEventType[];
+  activityTypes?: string[] | null;
+  areas?: GeoPolygon[] | null;
+  isActive?: boolean;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  eventId: string;
+  eventType: WebhookEventType;
+  reportId: string | null;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Date | null;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  replayOf: string | null;
+  createdAt: Date;
+  deliveredAt: Date | null;
+}
+
+/**
+ * A delivery claimed by the worker, with what it needs to send it
+ */
+export interface ClaimedWebhookDelivery extends WebhookDelivery {
+  url: string;
+  secret: string;
+}
+
+export interface CreateWebhookEventInput {
+  eventId: string;
+  eventType: WebhookEventType;
+  reportId: string | null;
+  payload: Record<string, unknown>;
+}
+
 export interface ReportVerification {
   id: string;
   reportId: string;
@@ -69,3 +175,194 @@ export interface ModerationAction {
   newStatus: string | null;
   createdAt: Date;
 }
+
+/**
+ * What the ingestion pipeline did with a post. Duplicates aren't listed:
+ * the first sighting is the one that was archived.
+ */
+export type IngestDecision =
+  | 'blocked'
+  | 'filtered'
+  | 'saved'
+  | 'no_location'
+  | 'existing_report'
+  | 'save_failed';
+
+export interface IngestedPost {
+  id: string;
+  sourceType: string;
+  sourceId: string;
+  url: string | null;
+  text: string;
+  authorHandle: string | null;
+  authorDisplayName: string | null;
+  category: string;
+  postedAt: Date | null;
+  relevanceScore: number | null;
+  relevanceConfidence: string | null;
+  relevanceReason: string | null;
+  needsReview: boolean;
+  extractedLocation: Record<string, unknown> | null;
+  geocodeResult: Record<string, unknown> | null;
+  decision: IngestDecision;
+  reportId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface RecordIngestedPostInput {
+  sourceType: string;
+  sourceId: string;
+  url?: string;
+  text: string;
+  authorHandle?: string;
+  authorDisplayName?: string;
+  category: string;
+  postedAt?: Date;
+  relevanceScore?: number;
+  relevanceConfidence?: string;
+  relevanceReason?: string;
+  needsReview?: boolean;
+  extractedLocation?: Record<string, unknown>;
+  geocodeResult?: Record<string, unknown>;
+  decision: IngestDecision;
+  reportId?: string;
+}
+
+/**
+ * Where a reprocess run left off: the last row it read, in
+ * `(created_at, id)` order
+ */
+export interface ReprocessCursor {
+  createdAt: Date;
+  id: string;
+}
+
+export interface IngestedPostReprocessQuery {
+  sourceType?: string;
+  createdAfter?: Date;
+  createdBefore?: Date;
+  after?: ReprocessCursor;
+  limit?: number;
+}
+
+export interface IngestedPostFilters {
+  sourceType?: string;
+  sourceId?: string;
+  decision?: IngestDecision;
+  reportId?: string;
+  search?: string;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * What a reprocess run did to a report
+ */
+export type ReportRevisionChange = 'created' | 'rejected' | 'relocated';
+
+export interface ReportRevision {
+  id: string;
+  runId: string;
+  reportId: string;
+  change: ReportRevisionChange;
+  reason: string | null;
+  beforeState: Record<string, unknown> | null;
+  afterState: Record<string, unknown>;
+  createdAt: Date;
+}
+
+export interface RecordReportRevisionInput {
+  runId: string;
+  reportId: string;
+  change: ReportRevisionChange;
+  reason?: string;
+  beforeState?: Record<string, unknown>;
+  afterState: Record<string, unknown>;
+}
+
+/**
+ * How a moderator says the pipeline got a report wrong
+ */
+export type ReportLabelKind = 'not_sighting' | 'wrong_location' | 'wrong_activity_type';
+
+export interface ReportLabel {
+  id: string;
+  /** null once the report is deleted; the label is kept */
+  reportId: string | null;
+  label: ReportLabelKind;
+  text: string;
+  sourceType: string;
+  sourceId: string | null;
+  authorHandle: string | null;
+  /** What the pipeline produced when the label was made */
+  reportedCity: string | null;
+  reportedState: string | null;
+  reportedActivityType: ActivityType | null;
+  /** What the moderator says it should have been */
+  correctedCity: string | null;
+  correctedState: string | null;
+  correctedActivityType: ActivityType | null;
+  language: string | null;
+  moderator: string;
+  notes: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateReportLabelInput {
+  reportId: string;
+  label: ReportLabelKind;
+  moderator: string;
+  correctedCity?: string;
+  correctedState?: string;
+  correctedActivityType?: ActivityType;
+  language?: string;
+  notes?: string;
+}
+
+export interface ReportLabelFilters {
+  label?: ReportLabelKind;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Reports of the same event from different posts and sources, grouped by
+ * the ingestion service. Location and counts are derived from the members.
+ */
+export interface Incident {
+  id: string;
+  /** Most common activity type among the members, ignoring other */
+  activityType: ActivityType;
+  city: string | null;
+  state: string | null;
+  /** Centroid of the members that have coordinates */
+  latitude: number | null;
+  longitude: number | null;
+  firstReportedAt: Date;
+  lastReportedAt: Date;
+  reportCount: number;
+  /** Distinct source types among the members (bluesky, google_news, ...) */
+  sourceCount: number;
+  sourceTypes: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IncidentFilters {
+  activityTypes?: ActivityType[];
+  timeRange?: '24h' | '7d' | '30d' | 'all';
+  bounds?: {
+    north: number;
+    south: number;
+    east: number;
+    west: number;
+  };
+  /** Only incidents reported by at least this many source types */
+  minSources?: number;
+  limit?: number;
+  offset?: number;
+}
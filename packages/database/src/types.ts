@@ -1,6 +1,13 @@
 export type ActivityType = 'raid' | 'checkpoint' | 'arrest' | 'surveillance' | 'other';
 export type ReportStatus = 'unverified' | 'verified' | 'disputed';
-export type ReportSource = 'bluesky' | 'mastodon' | 'reddit' | 'google_news' | 'user_submitted';
+/** high: an offset or clock time; medium: a part of the day; low: only the day */
+export type OccurredAtConfidence = 'high' | 'medium' | 'low';
+/**
+ * exact: a GPS fix; street: an address, intersection, place or street within
+ * the city; neighborhood; city: the city centroid; state: only the state is known
+ */
+export type LocationPrecision = 'exact' | 'street' | 'neighborhood' | 'city' | 'state';
+export type ReportSource = 'bluesky' | 'mastodon' | 'reddit' | 'google_news' | 'wiki' | 'user_submitted';
 
 export interface Report {
   id: string;
@@ -12,11 +19,23 @@ export interface Report {
   state: string | null;
   latitude: number | null;
   longitude: number | null;
+  /** How precisely the coordinates place the activity; null when there is no location */
+  locationPrecision: LocationPrecision | null;
+  /** Roughly how far, in meters, the activity may be from the coordinates */
+  locationRadiusM: number | null;
   authorHandle: string;
   authorDisplayName: string | null;
   photoUrl: string | null;
   status: ReportStatus;
   metadata: Record<string, unknown>;
+  /** Detected language of the post (ISO 639-1, or und); null for user submissions */
+  language: string | null;
+  /** Incident this report was grouped into with other reports of the same event */
+  incidentId: string | null;
+  /** When the activity happened, estimated from the text ("2 hours ago", "ayer en la tarde"); null when it doesn't say */
+  occurredAt: Date | null;
+  occurredAtConfidence: OccurredAtConfidence | null;
+  /** When the post was published */
   reportedAt: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -31,16 +50,24 @@ export interface CreateReportInput {
   state?: string;
   latitude?: number;
   longitude?: number;
+  locationPrecision?: LocationPrecision;
+  /** Defaults to the usual radius for the precision */
+  locationRadiusM?: number;
   authorHandle: string;
   authorDisplayName?: string;
   photoUrl?: string;
   status?: ReportStatus;
   metadata?: Record<string, unknown>;
+  language?: string;
+  occurredAt?: Date;
+  occurredAtConfidence?: OccurredAtConfidence;
   reportedAt: Date;
 }
 
 export interface ReportFilters {
   activityTypes?: ActivityType[];
+  languages?: string[];
+  locationPrecisions?: LocationPrecision[];
   timeRange?: '24h' | '7d' | '30d' | 'all';
   status?: ReportStatus[];
   bounds?: {
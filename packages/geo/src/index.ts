@@ -0,0 +1,5 @@
+export * from './validation.js';
+export * from './states.js';
+export * from './throttle.js';
+export * from './reverse.js';
+export * from './location-check.js';
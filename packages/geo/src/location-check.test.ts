@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { checkSubmittedLocation } from './location-check';
+import type { ReversePlace } from './reverse';
+
+const boyleHeights: ReversePlace = {
+  city: 'Los Angeles',
+  state: 'CA',
+  county: 'Los Angeles County',
+  countryCode: 'us',
+  localities: ['Boyle Heights', 'Los Angeles', 'Los Angeles County'],
+  displayName: 'Boyle Heights, Los Angeles, Los Angeles County, California, United States'
+};
+const point = { latitude: 34.0469, longitude: -118.2054 };
+
+describe('checkSubmittedLocation', () => {
+  it('should accept a city and state that match the coordinates', () => {
+    expect(checkSubmittedLocation({ ...point, city: 'Los Angeles', state: 'California' }, boyleHeights)).toEqual({
+      verdict: 'consistent',
+      city: 'Los Angeles',
+      state: 'California',
+      issue: null
+    });
+  });
+
+  it('should match neighbourhoods and counties, ignoring case and punctuation', () => {
+    expect(checkSubmittedLocation({ ...point, city: 'boyle heights', state: 'CA' }, boyleHeights).verdict).toBe('consistent');
+    expect(checkSubmittedLocation({ ...point, city: 'Los Angeles County' }, boyleHeights).verdict).toBe('consistent');
+  });
+
+  it('should fill in a blank city and state', () => {
+    expect(checkSubmittedLocation({ ...point, city: ' ' }, boyleHeights)).toMatchObject({
+      verdict: 'consistent',
+      city: 'Los Angeles',
+      state: 'CA'
+    });
+  });
+
+  it('should reject coordinates in another state', () => {
+    expect(checkSubmittedLocation({ ...point, city: 'Phoenix', state: 'AZ' }, boyleHeights)).toEqual({
+      verdict: 'reject',
+      city: 'Phoenix',
+      state: 'AZ',
+      issue: 'Coordinates are in California, not Arizona'
+    });
+  });
+
+  it('should send coordinates in another city in the right state to review', () => {
+    expect(checkSubmittedLocation({ ...point, city: 'San Diego', state: 'CA' }, boyleHeights)).toMatchObject({
+      verdict: 'review',
+      city: 'San Diego',
+      issue: 'Coordinates are in Los Angeles, not San Diego'
+    });
+  });
+
+  it('should reject coordinates outside the US', () => {
+    expect(checkSubmittedLocation({ latitude: 51.5, longitude: -0.12, city: 'London' }, null).verdict).toBe('reject');
+
+    const tijuana: ReversePlace = { ...boyleHeights, city: 'Tijuana', state: 'Baja California', countryCode: 'mx', localities: ['Tijuana'] };
+    expect(checkSubmittedLocation({ latitude: 32.5, longitude: -117.03, city: 'San Diego' }, tijuana)).toMatchObject({
+      verdict: 'reject',
+      issue: expect.stringContaining('outside the US')
+    });
+  });
+
+  it('should fall back to state bounds without a place', () => {
+    expect(checkSubmittedLocation({ latitude: 21.3, longitude: -157.85, state: 'Hawaii' }, null).verdict).toBe('consistent');
+    expect(checkSubmittedLocation({ latitude: 61.22, longitude: -149.9, state: 'California' }, null).verdict).toBe('reject');
+    expect(checkSubmittedLocation({ ...point, city: 'Anywhere', state: 'CA' }, null)).toMatchObject({
+      verdict: 'consistent',
+      city: 'Anywhere'
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { validateStateCoordinateMatch, validateUSCoordinates } from './validation.js';
+import { normalizeState, US_STATES } from './states.js';
+import type { ReversePlace } from './reverse.js';
+
+/**
+ * consistent: the coordinates agree with the city and state (or fill them in).
+ * review: they're in the right state but not obviously in the city.
+ * reject: they're outside the US or in another state.
+ */
+export type LocationVerdict = 'consistent' | 'review' | 'reject';
+
+export interface SubmittedLocation {
+  latitude: number;
+  longitude: number;
+  city?: string | null;
+  state?: string | null;
+}
+
+export interface LocationCheck {
+  verdict: LocationVerdict;
+  /** The submitted city and state, blanks filled in from the coordinates */
+  city: string | null;
+  state: string | null;
+  /** What disagrees, for the submitter or a moderator; null when consistent */
+  issue: string | null;
+}
+
+/**
+ * Lowercase, no accents or punctuation, without "County" / "City of", so
+ * "St. Louis" matches "St Louis" and "Los Angeles" matches "Los Angeles County"
+ */
+function comparableName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .replace(/^city of /, '')
+    .replace(/ (county|parish|borough|city)$/, '');
+}
+
+function stateName(state: string): string {
+  return US_STATES[state] ?? state;
+}
+
+/**
+ * Whether coordinates and the city and state submitted with them describe
+ * the same place. `place` is what reverse geocoding found at the
+ * coordinates; without it only the US bounds and the states with their own
+ * bounds (Alaska, Hawaii, Puerto Rico) can be checked.
+ */
+export function checkSubmittedLocation(location: SubmittedLocation, place: ReversePlace | null): LocationCheck {
+  const city = location.city?.trim() || null;
+  const state = location.state?.trim() || null;
+  const reject = (issue: string): LocationCheck => ({ verdict: 'reject', city, state, issue });
+
+  const bounds = validateUSCoordinates(location.latitude, location.longitude);
+  if (!bounds.isValid) {
+    return reject(bounds.issue ?? 'Coordinates are outside the US');
+  }
+  // The US bounding boxes take in border towns on the other side
+  if (place?.countryCode && place.countryCode !== 'us') {
+    return reject(`Coordinates are outside the US (${place.displayName})`);
+  }
+
+  const submittedState = state ? normalizeState(state) : null;
+  if (submittedState && place?.state && US_STATES[submittedState] && submittedState !== place.state) {
+    return reject(`Coordinates are in ${stateName(place.state)}, not ${stateName(submittedState)}`);
+  }
+  if (submittedState && !place) {
+    const match = validateStateCoordinateMatch(location.latitude, location.longitude, submittedState);
+    if (!match.isConsistent) {
+      return reject(match.issue ?? `Coordinates aren't in ${stateName(submittedState)}`);
+    }
+  }
+
+  const filled = {
+    city: city ?? place?.city ?? null,
+    state: state ?? place?.state ?? null
+  };
+
+  if (city && place && place.localities.length > 0) {
+    const wanted = comparableName(city);
+    if (!place.localities.some((locality) => comparableName(locality) === wanted)) {
+      return {
+        verdict: 'review',
+        ...filled,
+        issue: `Coordinates are in ${place.city ?? place.localities[0]}, not ${city}`
+      };
+    }
+  }
+
+  return { verdict: 'consistent', ...filled, issue: null };
+}
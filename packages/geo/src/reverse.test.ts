@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { NominatimReverseGeocoder, type ReverseGeocoderOptions } from './reverse';
+import { createThrottle } from './throttle';
+
+// A local stub for Nominatim answering with whatever the test set
+let response: { status: number; body: unknown } = { status: 404, body: {} };
+const requests: { url: URL; headers: IncomingMessage['headers'] }[] = [];
+let server: Server;
+let options: ReverseGeocoderOptions;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    requests.push({ url: new URL(req.url ?? '/', 'http://localhost'), headers: req.headers });
+    res.writeHead(response.status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(response.body));
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  options = { baseUrl: `http://127.0.0.1:${port}/`, userAgent: 'ICEActivityMap/test', requestDelayMs: 0, timeoutMs: 2000 };
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests.length = 0;
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('NominatimReverseGeocoder', () => {
+  it('should read the city, state and localities from the address', async () => {
+    response = {
+      status: 200,
+      body: {
+        display_name: 'Boyle Heights, Los Angeles, Los Angeles County, California, United States',
+        address: {
+          suburb: 'Boyle Heights',
+          city: 'Los Angeles',
+          county: 'Los Angeles County',
+          state: 'California',
+          'ISO3166-2-lvl4': 'US-CA',
+          country_code: 'us'
+        }
+      }
+    };
+
+    const place = await new NominatimReverseGeocoder(options).reverse(34.0469, -118.2054);
+
+    expect(place).toEqual({
+      city: 'Los Angeles',
+      state: 'CA',
+      county: 'Los Angeles County',
+      countryCode: 'us',
+      localities: ['Boyle Heights', 'Los Angeles', 'Los Angeles County'],
+      displayName: 'Boyle Heights, Los Angeles, Los Angeles County, California, United States'
+    });
+    expect(requests[0].url.pathname).toBe('/reverse');
+    expect(requests[0].url.searchParams.get('lat')).toBe('34.0469');
+    expect(requests[0].url.searchParams.get('lon')).toBe('-118.2054');
+    expect(requests[0].headers['user-agent']).toBe('ICEActivityMap/test');
+  });
+
+  it('should fall back to the state name and a town', async () => {
+    response = {
+      status: 200,
+      body: { display_name: 'Marfa, Texas', address: { town: 'Marfa', state: 'Texas', country_code: 'us' } }
+    };
+
+    expect(await new NominatimReverseGeocoder(options).reverse(30.31, -104.02)).toMatchObject({ city: 'Marfa', state: 'TX' });
+  });
+
+  it('should return null when nothing is there or Nominatim fails', async () => {
+    const geocoder = new NominatimReverseGeocoder(options);
+
+    response = { status: 200, body: { error: 'Unable to geocode' } };
+    expect(await geocoder.reverse(30, -140)).toBeNull();
+
+    response = { status: 503, body: {} };
+    expect(await geocoder.reverse(34.0469, -118.2054)).toBeNull();
+    expect(console.warn).toHaveBeenCalled();
+  });
+
+  it('should answer nearby points from the cache, but not remember failures', async () => {
+    const geocoder = new NominatimReverseGeocoder(options);
+
+    response = { status: 503, body: {} };
+    expect(await geocoder.reverse(30.31, -104.02)).toBeNull();
+
+    response = {
+      status: 200,
+      body: { display_name: 'Marfa, Texas', address: { town: 'Marfa', state: 'Texas', country_code: 'us' } }
+    };
+    expect(await geocoder.reverse(30.31, -104.02)).toMatchObject({ city: 'Marfa' });
+    expect(await geocoder.reverse(30.3104, -104.0196)).toMatchObject({ city: 'Marfa' });
+
+    expect(requests).toHaveLength(2);
+  });
+
+  it('should skip the lookup rather than wait past maxWaitMs for a slot', async () => {
+    response = {
+      status: 200,
+      body: { display_name: 'Marfa, Texas', address: { town: 'Marfa', state: 'Texas', country_code: 'us' } }
+    };
+    const geocoder = new NominatimReverseGeocoder({ ...options, requestDelayMs: 5000, maxWaitMs: 1000 });
+    const start = Date.now();
+
+    expect(await geocoder.reverse(30.31, -104.02)).toMatchObject({ city: 'Marfa' });
+    expect(await geocoder.reverse(34.0469, -118.2054)).toBeNull();
+
+    expect(Date.now() - start).toBeLessThan(1000);
+    expect(requests).toHaveLength(1);
+    expect(console.warn).toHaveBeenCalledWith('[Geocoding] Nominatim busy, skipping reverse geocoding 34.0469,-118.2054');
+  });
+});
+
+describe('createThrottle', () => {
+  it('should space out calls, including concurrent ones', async () => {
+    const throttle = createThrottle(40);
+    const start = Date.now();
+
+    await Promise.all([throttle(), throttle(), throttle()]);
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(75);
+  });
+
+  it('should not take a slot further away than maxWaitMs', async () => {
+    const throttle = createThrottle(1000);
+
+    expect(await throttle(0)).toBe(true);
+    expect(await throttle(500)).toBe(false);
+    expect(await throttle(500)).toBe(false);
+  });
+});
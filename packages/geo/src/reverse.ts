@@ -0,0 +1,170 @@
+import { createThrottle, type Throttle } from './throttle.js';
+import { normalizeState } from './states.js';
+
+// OpenStreetMap's public instance allows 1 request per second
+export const NOMINATIM_PUBLIC_URL = 'https://nominatim.openstreetmap.org';
+
+/**
+ * What a point is in, from reverse geocoding
+ */
+export interface ReversePlace {
+  city: string | null;
+  /** Two-letter code for US states, otherwise the name as given */
+  state: string | null;
+  county: string | null;
+  /** ISO 3166-1 alpha-2, lowercase ("us") */
+  countryCode: string | null;
+  /**
+   * Every name the address has for where the point is, smallest first
+   * (neighbourhood, suburb, city, county), for matching a city someone typed
+   */
+  localities: string[];
+  displayName: string;
+}
+
+export interface ReverseGeocoderOptions {
+  baseUrl: string;
+  userAgent: string;
+  /** Minimum time between requests; the public instance asks for about a second */
+  requestDelayMs: number;
+  /** Covers the wait for a throttle slot as well as the request */
+  timeoutMs: number;
+  /** Give up instead of waiting longer than this for a throttle slot (default: no limit) */
+  maxWaitMs?: number;
+  /** Lookups kept, keyed by the point rounded to about 100 m (default: 1000) */
+  cacheSize?: number;
+}
+
+interface NominatimReverseAddress {
+  neighbourhood?: string;
+  quarter?: string;
+  suburb?: string;
+  borough?: string;
+  hamlet?: string;
+  village?: string;
+  town?: string;
+  city?: string;
+  municipality?: string;
+  county?: string;
+  state?: string;
+  'ISO3166-2-lvl4'?: string;
+  country_code?: string;
+}
+
+interface NominatimReverseResponse {
+  display_name?: string;
+  address?: NominatimReverseAddress;
+  error?: string;
+}
+
+const DEFAULT_CACHE_SIZE = 1000;
+
+const LOCALITY_FIELDS: (keyof NominatimReverseAddress)[] = [
+  'neighbourhood', 'quarter', 'suburb', 'borough', 'hamlet', 'village', 'town', 'city', 'municipality', 'county'
+];
+
+/**
+ * Nominatim's /reverse: the address of the place a point is in, at about
+ * neighbourhood level
+ */
+export class NominatimReverseGeocoder {
+  private options: ReverseGeocoderOptions;
+  private throttle: Throttle;
+  // Insertion order doubles as age: the first key is the oldest
+  private cache = new Map<string, ReversePlace | null>();
+
+  constructor(options: ReverseGeocoderOptions) {
+    this.options = { ...options, baseUrl: options.baseUrl.replace(/\/+$/, '') };
+    this.throttle = createThrottle(options.requestDelayMs);
+  }
+
+  /**
+   * Null when nothing is there (open water), Nominatim fails or is too busy
+   * to answer in time; failures are logged, not thrown, so callers can carry
+   * on without the check
+   */
+  async reverse(latitude: number, longitude: number): Promise<ReversePlace | null> {
+    // Three decimals is about 100 m, well inside a neighbourhood
+    const key = `${latitude.toFixed(3)},${longitude.toFixed(3)}`;
+    if (this.cache.has(key)) {
+      return this.cache.get(key) ?? null;
+    }
+
+    const place = await this.lookup(latitude, longitude);
+    if (place !== undefined) {
+      this.remember(key, place);
+    }
+    return place ?? null;
+  }
+
+  /**
+   * Undefined when the lookup failed, so only answers are cached
+   */
+  private async lookup(latitude: number, longitude: number): Promise<ReversePlace | null | undefined> {
+    const params = new URLSearchParams({
+      lat: String(latitude),
+      lon: String(longitude),
+      format: 'jsonv2',
+      zoom: '14',
+      addressdetails: '1'
+    });
+
+    // Started before the throttle wait, so a queue of lookups can't hold a caller past it
+    const signal = AbortSignal.timeout(this.options.timeoutMs);
+    const maxWaitMs = Math.min(this.options.maxWaitMs ?? Infinity, this.options.timeoutMs);
+    if (!await this.throttle(maxWaitMs)) {
+      console.warn(`[Geocoding] Nominatim busy, skipping reverse geocoding ${latitude},${longitude}`);
+      return undefined;
+    }
+
+    try {
+      const response = await fetch(`${this.options.baseUrl}/reverse?${params}`, {
+        headers: {
+          'User-Agent': this.options.userAgent,
+          Accept: 'application/json'
+        },
+        signal
+      });
+
+      if (!response.ok) {
+        console.warn(`[Geocoding] Nominatim returned ${response.status} reverse geocoding ${latitude},${longitude}`);
+        return undefined;
+      }
+
+      const data = await response.json() as NominatimReverseResponse;
+      if (data.error || !data.address) {
+        return null;
+      }
+      return toReversePlace(data.address, data.display_name ?? '');
+    } catch (error) {
+      console.error(`[Geocoding] Error reverse geocoding ${latitude},${longitude}:`, error);
+      return undefined;
+    }
+  }
+
+  private remember(key: string, place: ReversePlace | null): void {
+    const size = this.options.cacheSize ?? DEFAULT_CACHE_SIZE;
+    if (size <= 0) return;
+    if (this.cache.size >= size) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+    this.cache.set(key, place);
+  }
+}
+
+function toReversePlace(address: NominatimReverseAddress, displayName: string): ReversePlace {
+  // "US-TX"; the state name is the fallback outside the US
+  const isoState = address['ISO3166-2-lvl4']?.match(/^US-([A-Z]{2})$/)?.[1];
+  const localities = LOCALITY_FIELDS
+    .map((field) => address[field])
+    .filter((name): name is string => Boolean(name));
+
+  return {
+    city: address.city || address.town || address.village || address.municipality || address.hamlet || null,
+    state: isoState ?? (address.state ? normalizeState(address.state) : null),
+    county: address.county ?? null,
+    countryCode: address.country_code?.toLowerCase() ?? null,
+    localities: [...new Set(localities)],
+    displayName
+  };
+}
@@ -0,0 +1,26 @@
+/**
+ * Waits for the caller's turn; resolves false, without taking a slot,
+ * when that turn is more than `maxWaitMs` away
+ */
+export type Throttle = (maxWaitMs?: number) => Promise<boolean>;
+
+/**
+ * Spaces calls at least `intervalMs` apart, including concurrent ones:
+ * each caller reserves the next slot before it waits
+ */
+export function createThrottle(intervalMs: number): Throttle {
+  let nextSlot = 0;
+
+  return async (maxWaitMs = Infinity) => {
+    const now = Date.now();
+    const wait = Math.max(0, nextSlot - now);
+    if (wait > maxWaitMs) {
+      return false;
+    }
+    nextSlot = Math.max(now, nextSlot) + intervalMs;
+    if (wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+    return true;
+  };
+}